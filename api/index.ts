@@ -1,3 +1,10 @@
+/**
+ * Vercel serverless entry point
+ * vercel.json bundles migrations/ with this function. Set MIGRATE_ON_START=true in
+ * the Vercel project so a cold start applies pending migrations, or run
+ * `npm run migrate -- up` against the production database before deploying.
+ */
+
 import app from '../src/server';
 
 export default app;
@@ -0,0 +1,17 @@
+/** Integration tests: the Express app against an in-memory database built from migrations/ */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: 'tsconfig.test.json' }]
+  },
+  // Every import of utils/database gets the in-memory stand-in
+  moduleNameMapper: {
+    '^(\\.{1,2}/)+(src/)?(utils/)?database$': '<rootDir>/tests/support/database.ts'
+  },
+  setupFiles: ['<rootDir>/tests/support/env.ts'],
+  setupFilesAfterEnv: ['<rootDir>/tests/support/setup.ts'],
+  collectCoverageFrom: ['src/**/*.ts', '!src/migrate.ts'],
+  coverageReporters: ['text-summary', 'lcov']
+};
@@ -0,0 +1,8 @@
+-- Drops every baseline table and all the data in them
+IF OBJECT_ID('evaluation_jobs', 'U') IS NOT NULL DROP TABLE evaluation_jobs;
+IF OBJECT_ID('historic_prop', 'U') IS NOT NULL DROP TABLE historic_prop;
+IF OBJECT_ID('historic_sales_cache', 'U') IS NOT NULL DROP TABLE historic_sales_cache;
+IF OBJECT_ID('audit', 'U') IS NOT NULL DROP TABLE audit;
+IF OBJECT_ID('settings', 'U') IS NOT NULL DROP TABLE settings;
+IF OBJECT_ID('properties', 'U') IS NOT NULL DROP TABLE properties;
+IF OBJECT_ID('users', 'U') IS NOT NULL DROP TABLE users;
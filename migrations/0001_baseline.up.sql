@@ -0,0 +1,153 @@
+-- Baseline schema: the tables the application relied on before migrations were managed in the repo.
+-- Each table is only created when missing, so an existing database adopts this migration unchanged.
+
+IF OBJECT_ID('users', 'U') IS NULL
+CREATE TABLE users (
+  id NVARCHAR(50) NOT NULL PRIMARY KEY,
+  email NVARCHAR(255) NOT NULL,
+  username NVARCHAR(255) NOT NULL,
+  hashed_password NVARCHAR(255) NOT NULL DEFAULT '',
+  subscription_tier NVARCHAR(20) NOT NULL DEFAULT 'free',
+  subscription_active BIT NOT NULL DEFAULT 0,
+  subscription_end_date DATETIME2 NULL,
+  trial_active BIT NOT NULL DEFAULT 0,
+  trial_end_date DATETIME2 NULL,
+  stripe_customer_id NVARCHAR(255) NULL,
+  stripe_subscription_id NVARCHAR(255) NULL,
+  created_at DATETIME2 NOT NULL,
+  last_login DATETIME2 NULL,
+  is_active BIT NOT NULL DEFAULT 1,
+  auth_provider NVARCHAR(20) NULL,
+  picture NVARCHAR(1000) NULL,
+  admin BIT NULL,
+  CONSTRAINT UQ_users_email UNIQUE (email)
+);
+GO
+
+IF OBJECT_ID('properties', 'U') IS NULL
+CREATE TABLE properties (
+  id NVARCHAR(50) NOT NULL PRIMARY KEY,
+  beds INT NULL,
+  baths INT NULL,
+  carpark INT NULL,
+  location NVARCHAR(500) NULL,
+  price FLOAT NULL,
+  size FLOAT NULL,
+  property_type NVARCHAR(100) NULL,
+  features NVARCHAR(MAX) NULL,
+  strata_body_corps FLOAT NULL,
+  council_rates FLOAT NULL,
+  images NVARCHAR(MAX) NULL,
+  pitch NVARCHAR(MAX) NULL,
+  agent1_name NVARCHAR(255) NULL,
+  agent1_phone NVARCHAR(50) NULL,
+  agent2_name NVARCHAR(255) NULL,
+  agent2_phone NVARCHAR(50) NULL,
+  agent_email NVARCHAR(255) NULL,
+  evaluation_report NVARCHAR(MAX) NULL,
+  evaluation_date DATETIME2 NULL,
+  evaluation_type NVARCHAR(50) NULL,
+  improvements_detected NVARCHAR(MAX) NULL,
+  evaluation_ad NVARCHAR(MAX) NULL,
+  pricing_type NVARCHAR(50) NULL,
+  price_upper FLOAT NULL,
+  marketing_strategy NVARCHAR(MAX) NULL,
+  marketing_package NVARCHAR(255) NULL,
+  marketing_cost FLOAT NULL,
+  marketing_report NVARCHAR(MAX) NULL,
+  marketing_report_date DATETIME2 NULL,
+  rp_data_report NVARCHAR(MAX) NULL,
+  rp_data_upload_date DATETIME2 NULL,
+  rp_data_filename NVARCHAR(500) NULL,
+  additional_report NVARCHAR(MAX) NULL,
+  agent_id NVARCHAR(50) NULL,
+  agent_name NVARCHAR(255) NULL,
+  agency_id NVARCHAR(50) NULL,
+  user_email NVARCHAR(255) NULL,
+  created_at DATETIME2 NOT NULL,
+  status NVARCHAR(20) NULL DEFAULT 'active',
+  sold_price FLOAT NULL,
+  sale_date DATE NULL,
+  latitude FLOAT NULL,
+  longitude FLOAT NULL,
+  valuation_history NVARCHAR(MAX) NULL,
+  confidence_scoring NVARCHAR(MAX) NULL,
+  comparables_data NVARCHAR(MAX) NULL,
+  selected_comparables NVARCHAR(MAX) NULL,
+  is_favourite BIT NULL DEFAULT 0,
+  tags NVARCHAR(MAX) NULL,
+  neighbouring_suburb NVARCHAR(255) NULL,
+  neighbouring_postcode NVARCHAR(10) NULL,
+  neighbouring_state NVARCHAR(10) NULL,
+  estimated_value_range NVARCHAR(100) NULL,
+  INDEX IX_properties_user_email (user_email),
+  INDEX IX_properties_status (status)
+);
+GO
+
+IF OBJECT_ID('settings', 'U') IS NULL
+CREATE TABLE settings (
+  setting_id NVARCHAR(100) NOT NULL PRIMARY KEY,
+  setting_data NVARCHAR(MAX) NULL,
+  updated_at DATETIME2 NULL
+);
+GO
+
+IF OBJECT_ID('audit', 'U') IS NULL
+CREATE TABLE audit (
+  id INT IDENTITY(1,1) PRIMARY KEY,
+  action NVARCHAR(100) NULL,
+  page NVARCHAR(255) NULL,
+  username NVARCHAR(255) NULL,
+  dte DATETIME2 NULL,
+  ipaddress NVARCHAR(64) NULL,
+  propertyid NVARCHAR(50) NULL,
+  INDEX IX_audit_dte (dte)
+);
+GO
+
+IF OBJECT_ID('historic_sales_cache', 'U') IS NULL
+CREATE TABLE historic_sales_cache (
+  id INT IDENTITY(1,1) PRIMARY KEY,
+  cache_key NVARCHAR(255) NOT NULL,
+  cached_at DATETIME2 NOT NULL,
+  postcode NVARCHAR(10) NULL,
+  property_type NVARCHAR(50) NULL,
+  sales NVARCHAR(MAX) NULL,
+  CONSTRAINT UQ_historic_sales_cache_key UNIQUE (cache_key)
+);
+GO
+
+IF OBJECT_ID('historic_prop', 'U') IS NULL
+CREATE TABLE historic_prop (
+  id INT IDENTITY(1,1) PRIMARY KEY,
+  cache_id INT NULL,
+  prop_id NVARCHAR(100) NOT NULL,
+  address NVARCHAR(400) NOT NULL,
+  price FLOAT NULL,
+  beds INT NULL,
+  baths INT NULL,
+  cars INT NULL,
+  land_area FLOAT NULL,
+  property_type NVARCHAR(100) NULL,
+  sold_date NVARCHAR(50) NULL,
+  sold_date_raw DATETIME2 NULL,
+  source NVARCHAR(50) NULL,
+  latitude FLOAT NULL,
+  longitude FLOAT NULL,
+  homely_url NVARCHAR(1000) NULL,
+  source_suburb NVARCHAR(255) NULL,
+  is_neighbouring BIT NOT NULL DEFAULT 0,
+  INDEX IX_historic_prop_cache_id (cache_id),
+  INDEX IX_historic_prop_suburb_sold (source_suburb, sold_date_raw)
+);
+GO
+
+IF OBJECT_ID('evaluation_jobs', 'U') IS NULL
+CREATE TABLE evaluation_jobs (
+  job_id NVARCHAR(50) NOT NULL PRIMARY KEY,
+  created_at DATETIME2 NOT NULL,
+  property_data NVARCHAR(MAX) NULL,
+  stage NVARCHAR(50) NOT NULL,
+  status NVARCHAR(20) NOT NULL
+);
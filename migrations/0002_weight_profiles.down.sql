@@ -0,0 +1,2 @@
+IF OBJECT_ID('historic_sales_weight_versions', 'U') IS NOT NULL DROP TABLE historic_sales_weight_versions;
+IF OBJECT_ID('historic_sales_weight_profiles', 'U') IS NOT NULL DROP TABLE historic_sales_weight_profiles;
@@ -0,0 +1,30 @@
+-- Historic sales weight profiles and their version history
+
+IF OBJECT_ID('historic_sales_weight_profiles', 'U') IS NULL
+CREATE TABLE historic_sales_weight_profiles (
+  id NVARCHAR(50) NOT NULL PRIMARY KEY,
+  name NVARCHAR(200) NOT NULL,
+  description NVARCHAR(1000) NULL,
+  is_active BIT NOT NULL DEFAULT 0,
+  current_version INT NOT NULL DEFAULT 1,
+  created_at DATETIME2 NOT NULL,
+  updated_at DATETIME2 NOT NULL,
+  created_by NVARCHAR(255) NULL,
+  activated_at DATETIME2 NULL,
+  activated_by NVARCHAR(255) NULL
+);
+GO
+
+IF OBJECT_ID('historic_sales_weight_versions', 'U') IS NULL
+CREATE TABLE historic_sales_weight_versions (
+  id NVARCHAR(50) NOT NULL PRIMARY KEY,
+  profile_id NVARCHAR(50) NOT NULL,
+  version INT NOT NULL,
+  weights_data NVARCHAR(MAX) NOT NULL,
+  change_type NVARCHAR(20) NOT NULL,
+  change_note NVARCHAR(1000) NULL,
+  changed_by NVARCHAR(255) NULL,
+  created_at DATETIME2 NOT NULL,
+  metrics NVARCHAR(MAX) NULL,
+  CONSTRAINT UQ_weight_versions_profile_version UNIQUE (profile_id, version)
+);
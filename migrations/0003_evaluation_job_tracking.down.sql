@@ -0,0 +1,23 @@
+IF OBJECT_ID('evaluation_job_events', 'U') IS NOT NULL DROP TABLE evaluation_job_events;
+IF OBJECT_ID('evaluation_job_results', 'U') IS NOT NULL DROP TABLE evaluation_job_results;
+GO
+
+-- The attempts column carries a default constraint that has to go before the column
+DECLARE @constraint NVARCHAR(200) = (
+  SELECT dc.name FROM sys.default_constraints dc
+  JOIN sys.columns c ON c.object_id = dc.parent_object_id AND c.column_id = dc.parent_column_id
+  WHERE dc.parent_object_id = OBJECT_ID('evaluation_jobs') AND c.name = 'attempts'
+);
+IF @constraint IS NOT NULL EXEC('ALTER TABLE evaluation_jobs DROP CONSTRAINT ' + @constraint);
+GO
+
+IF COL_LENGTH('evaluation_jobs', 'attempts') IS NOT NULL ALTER TABLE evaluation_jobs DROP COLUMN attempts;
+IF COL_LENGTH('evaluation_jobs', 'next_attempt_at') IS NOT NULL ALTER TABLE evaluation_jobs DROP COLUMN next_attempt_at;
+IF COL_LENGTH('evaluation_jobs', 'started_at') IS NOT NULL ALTER TABLE evaluation_jobs DROP COLUMN started_at;
+IF COL_LENGTH('evaluation_jobs', 'completed_at') IS NOT NULL ALTER TABLE evaluation_jobs DROP COLUMN completed_at;
+IF COL_LENGTH('evaluation_jobs', 'failed_at') IS NOT NULL ALTER TABLE evaluation_jobs DROP COLUMN failed_at;
+IF COL_LENGTH('evaluation_jobs', 'updated_at') IS NOT NULL ALTER TABLE evaluation_jobs DROP COLUMN updated_at;
+IF COL_LENGTH('evaluation_jobs', 'error') IS NOT NULL ALTER TABLE evaluation_jobs DROP COLUMN error;
+IF COL_LENGTH('evaluation_jobs', 'worker_id') IS NOT NULL ALTER TABLE evaluation_jobs DROP COLUMN worker_id;
+IF COL_LENGTH('evaluation_jobs', 'user_email') IS NOT NULL ALTER TABLE evaluation_jobs DROP COLUMN user_email;
+IF COL_LENGTH('evaluation_jobs', 'cancelled_at') IS NOT NULL ALTER TABLE evaluation_jobs DROP COLUMN cancelled_at;
@@ -0,0 +1,31 @@
+-- Durable evaluation jobs: retry/lease columns, ownership, cancellation, results and progress events
+
+IF COL_LENGTH('evaluation_jobs', 'attempts') IS NULL ALTER TABLE evaluation_jobs ADD attempts INT NOT NULL DEFAULT 0;
+IF COL_LENGTH('evaluation_jobs', 'next_attempt_at') IS NULL ALTER TABLE evaluation_jobs ADD next_attempt_at DATETIME2 NULL;
+IF COL_LENGTH('evaluation_jobs', 'started_at') IS NULL ALTER TABLE evaluation_jobs ADD started_at DATETIME2 NULL;
+IF COL_LENGTH('evaluation_jobs', 'completed_at') IS NULL ALTER TABLE evaluation_jobs ADD completed_at DATETIME2 NULL;
+IF COL_LENGTH('evaluation_jobs', 'failed_at') IS NULL ALTER TABLE evaluation_jobs ADD failed_at DATETIME2 NULL;
+IF COL_LENGTH('evaluation_jobs', 'updated_at') IS NULL ALTER TABLE evaluation_jobs ADD updated_at DATETIME2 NULL;
+IF COL_LENGTH('evaluation_jobs', 'error') IS NULL ALTER TABLE evaluation_jobs ADD error NVARCHAR(MAX) NULL;
+IF COL_LENGTH('evaluation_jobs', 'worker_id') IS NULL ALTER TABLE evaluation_jobs ADD worker_id NVARCHAR(100) NULL;
+IF COL_LENGTH('evaluation_jobs', 'user_email') IS NULL ALTER TABLE evaluation_jobs ADD user_email NVARCHAR(255) NULL;
+IF COL_LENGTH('evaluation_jobs', 'cancelled_at') IS NULL ALTER TABLE evaluation_jobs ADD cancelled_at DATETIME2 NULL;
+GO
+
+IF OBJECT_ID('evaluation_job_results', 'U') IS NULL
+CREATE TABLE evaluation_job_results (
+  job_id NVARCHAR(50) NOT NULL PRIMARY KEY,
+  result NVARCHAR(MAX) NOT NULL,
+  created_at DATETIME2 NOT NULL
+);
+GO
+
+IF OBJECT_ID('evaluation_job_events', 'U') IS NULL
+CREATE TABLE evaluation_job_events (
+  id BIGINT IDENTITY(1,1) PRIMARY KEY,
+  job_id NVARCHAR(50) NOT NULL,
+  type NVARCHAR(20) NOT NULL,
+  data NVARCHAR(MAX) NULL,
+  created_at DATETIME2 NOT NULL,
+  INDEX IX_evaluation_job_events_job_id (job_id, id)
+);
@@ -0,0 +1 @@
+IF OBJECT_ID('property_valuations', 'U') IS NOT NULL DROP TABLE property_valuations;
@@ -0,0 +1,34 @@
+-- Append-only valuation history, with accuracy against the eventual sale price
+
+IF OBJECT_ID('property_valuations', 'U') IS NULL
+CREATE TABLE property_valuations (
+  id NVARCHAR(50) NOT NULL PRIMARY KEY,
+  property_id NVARCHAR(50) NOT NULL,
+  created_at DATETIME2 NOT NULL,
+  created_by NVARCHAR(255) NULL,
+  estimated_value FLOAT NOT NULL,
+  value_low FLOAT NOT NULL,
+  value_high FLOAT NOT NULL,
+  confidence_score INT NOT NULL,
+  confidence_level NVARCHAR(10) NOT NULL,
+  data_source NVARCHAR(255) NULL,
+  comparables_count INT NOT NULL,
+  evaluation_type NVARCHAR(50) NULL,
+  notes NVARCHAR(MAX) NULL,
+  job_id NVARCHAR(50) NULL,
+  evaluation_report NVARCHAR(MAX) NULL,
+  comparables_data NVARCHAR(MAX) NULL,
+  confidence_scoring NVARCHAR(MAX) NULL,
+  structured_valuation NVARCHAR(MAX) NULL,
+  INDEX IX_property_valuations_property (property_id, created_at)
+);
+GO
+
+IF COL_LENGTH('property_valuations', 'sold_price') IS NULL
+ALTER TABLE property_valuations ADD
+  sold_price FLOAT NULL,
+  sale_date DATE NULL,
+  error_amount FLOAT NULL,
+  error_percent FLOAT NULL,
+  within_range BIT NULL,
+  accuracy_recorded_at DATETIME2 NULL;
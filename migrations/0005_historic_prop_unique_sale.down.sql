@@ -0,0 +1,3 @@
+-- Removed duplicates are not restored
+IF EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_historic_prop_unique_sale' AND object_id = OBJECT_ID('historic_prop'))
+DROP INDEX IX_historic_prop_unique_sale ON historic_prop;
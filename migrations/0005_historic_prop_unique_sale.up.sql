@@ -0,0 +1,17 @@
+-- One row per NSW Valuer General sale. Previously created at runtime by POST /api/nsw-sales/dedupe.
+-- Existing duplicates (keeping the lowest id) have to go before the unique index can be built.
+
+DELETE FROM historic_prop
+WHERE source = 'nsw-valuer-general'
+  AND id NOT IN (
+    SELECT MIN(id)
+    FROM historic_prop
+    WHERE source = 'nsw-valuer-general'
+    GROUP BY address, sold_date_raw
+  );
+GO
+
+IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_historic_prop_unique_sale' AND object_id = OBJECT_ID('historic_prop'))
+CREATE UNIQUE INDEX IX_historic_prop_unique_sale
+ON historic_prop (address, sold_date_raw, source)
+WHERE source = 'nsw-valuer-general';
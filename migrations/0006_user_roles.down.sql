@@ -0,0 +1 @@
+IF OBJECT_ID('user_roles', 'U') IS NOT NULL DROP TABLE user_roles;
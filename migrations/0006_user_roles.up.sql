@@ -0,0 +1,25 @@
+-- Roles per user (admin, agency_owner, agent, viewer)
+-- Users flagged admin start as admins, everyone starts as an agent
+
+IF OBJECT_ID('user_roles', 'U') IS NULL
+CREATE TABLE user_roles (
+  user_id NVARCHAR(50) NOT NULL,
+  role NVARCHAR(20) NOT NULL,
+  granted_by NVARCHAR(255) NULL,
+  granted_at DATETIME2 NOT NULL,
+  CONSTRAINT PK_user_roles PRIMARY KEY (user_id, role),
+  CONSTRAINT FK_user_roles_user FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  CONSTRAINT CK_user_roles_role CHECK (role IN ('admin', 'agency_owner', 'agent', 'viewer'))
+);
+GO
+
+INSERT INTO user_roles (user_id, role, granted_by, granted_at)
+SELECT u.id, 'admin', NULL, SYSUTCDATETIME()
+FROM users u
+WHERE u.admin = 1
+  AND NOT EXISTS (SELECT 1 FROM user_roles r WHERE r.user_id = u.id AND r.role = 'admin');
+
+INSERT INTO user_roles (user_id, role, granted_by, granted_at)
+SELECT u.id, 'agent', NULL, SYSUTCDATETIME()
+FROM users u
+WHERE NOT EXISTS (SELECT 1 FROM user_roles r WHERE r.user_id = u.id AND r.role = 'agent');
@@ -0,0 +1 @@
+IF OBJECT_ID('user_sessions', 'U') IS NOT NULL DROP TABLE user_sessions;
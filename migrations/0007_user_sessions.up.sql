@@ -0,0 +1,21 @@
+-- Sign-in sessions holding the hash of their current refresh token
+-- previous_token_hash is kept after each rotation so a replayed token can be detected
+
+IF OBJECT_ID('user_sessions', 'U') IS NULL
+CREATE TABLE user_sessions (
+  id NVARCHAR(50) NOT NULL PRIMARY KEY,
+  user_id NVARCHAR(50) NOT NULL,
+  refresh_token_hash NVARCHAR(64) NOT NULL,
+  previous_token_hash NVARCHAR(64) NULL,
+  user_agent NVARCHAR(500) NULL,
+  ip_address NVARCHAR(64) NULL,
+  created_at DATETIME2 NOT NULL,
+  last_used_at DATETIME2 NOT NULL,
+  expires_at DATETIME2 NOT NULL,
+  revoked_at DATETIME2 NULL,
+  revoked_reason NVARCHAR(50) NULL,
+  CONSTRAINT FK_user_sessions_user FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  CONSTRAINT UQ_user_sessions_refresh_token UNIQUE (refresh_token_hash),
+  INDEX IX_user_sessions_user (user_id, revoked_at),
+  INDEX IX_user_sessions_previous_token (previous_token_hash)
+);
@@ -0,0 +1,8 @@
+IF OBJECT_ID('account_tokens', 'U') IS NOT NULL DROP TABLE account_tokens;
+GO
+
+IF OBJECT_ID('DF_users_email_verified', 'D') IS NOT NULL ALTER TABLE users DROP CONSTRAINT DF_users_email_verified;
+GO
+
+IF COL_LENGTH('users', 'email_verified') IS NOT NULL ALTER TABLE users DROP COLUMN email_verified;
+IF COL_LENGTH('users', 'email_verified_at') IS NOT NULL ALTER TABLE users DROP COLUMN email_verified_at;
@@ -0,0 +1,26 @@
+-- Email verification state on users, and the single-use tokens sent by email
+-- Users who signed in through Google or Microsoft already proved their address
+
+IF COL_LENGTH('users', 'email_verified') IS NULL
+ALTER TABLE users ADD
+  email_verified BIT NOT NULL CONSTRAINT DF_users_email_verified DEFAULT 0,
+  email_verified_at DATETIME2 NULL;
+GO
+
+UPDATE users
+SET email_verified = 1, email_verified_at = COALESCE(last_login, created_at)
+WHERE email_verified = 0 AND auth_provider IN ('google', 'microsoft', 'oauth');
+GO
+
+IF OBJECT_ID('account_tokens', 'U') IS NULL
+CREATE TABLE account_tokens (
+  id NVARCHAR(50) NOT NULL PRIMARY KEY,
+  user_id NVARCHAR(50) NOT NULL,
+  purpose NVARCHAR(20) NOT NULL,
+  created_at DATETIME2 NOT NULL,
+  expires_at DATETIME2 NOT NULL,
+  used_at DATETIME2 NULL,
+  CONSTRAINT FK_account_tokens_user FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  CONSTRAINT CK_account_tokens_purpose CHECK (purpose IN ('verify_email', 'reset_password')),
+  INDEX IX_account_tokens_user (user_id, purpose)
+);
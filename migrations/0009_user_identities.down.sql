@@ -0,0 +1 @@
+IF OBJECT_ID('user_identities', 'U') IS NOT NULL DROP TABLE user_identities;
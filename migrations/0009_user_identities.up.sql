@@ -0,0 +1,14 @@
+-- Google and Microsoft accounts linked to users, by the provider's stable subject id
+
+IF OBJECT_ID('user_identities', 'U') IS NULL
+CREATE TABLE user_identities (
+  provider NVARCHAR(20) NOT NULL,
+  subject NVARCHAR(255) NOT NULL,
+  user_id NVARCHAR(50) NOT NULL,
+  email NVARCHAR(255) NULL,
+  created_at DATETIME2 NOT NULL,
+  last_login DATETIME2 NULL,
+  CONSTRAINT PK_user_identities PRIMARY KEY (provider, subject),
+  CONSTRAINT FK_user_identities_user FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX IX_user_identities_user (user_id)
+);
@@ -0,0 +1,11 @@
+-- Without deleted_at a soft-deleted profile would come back as a live one; refuse rather than
+-- revive or destroy it. Restore or purge soft-deleted profiles before rolling back.
+IF EXISTS (SELECT 1 FROM historic_sales_weight_profiles WHERE deleted_at IS NOT NULL)
+  THROW 50010, 'Soft-deleted weight profiles exist; restore or purge them before rolling back 0010', 1;
+GO
+
+IF OBJECT_ID('historic_sales_weight_events', 'U') IS NOT NULL DROP TABLE historic_sales_weight_events;
+GO
+
+IF COL_LENGTH('historic_sales_weight_profiles', 'deleted_by') IS NOT NULL ALTER TABLE historic_sales_weight_profiles DROP COLUMN deleted_by;
+IF COL_LENGTH('historic_sales_weight_profiles', 'deleted_at') IS NOT NULL ALTER TABLE historic_sales_weight_profiles DROP COLUMN deleted_at;
@@ -0,0 +1,18 @@
+-- Weight profile lifecycle history (activations, renames, deletions) and soft deletion,
+-- so a deleted profile keeps its versions and events
+
+IF COL_LENGTH('historic_sales_weight_profiles', 'deleted_at') IS NULL ALTER TABLE historic_sales_weight_profiles ADD deleted_at DATETIME2 NULL;
+IF COL_LENGTH('historic_sales_weight_profiles', 'deleted_by') IS NULL ALTER TABLE historic_sales_weight_profiles ADD deleted_by NVARCHAR(255) NULL;
+GO
+
+IF OBJECT_ID('historic_sales_weight_events', 'U') IS NULL
+CREATE TABLE historic_sales_weight_events (
+  id NVARCHAR(50) NOT NULL PRIMARY KEY,
+  profile_id NVARCHAR(50) NOT NULL,
+  event_type NVARCHAR(20) NOT NULL,
+  version INT NULL,
+  details NVARCHAR(MAX) NULL,
+  changed_by NVARCHAR(255) NULL,
+  created_at DATETIME2 NOT NULL,
+  INDEX IX_weight_events_profile (profile_id, created_at)
+);
@@ -0,0 +1,19 @@
+-- Calibration jobs can't run without their type; their saved profiles are kept
+IF COL_LENGTH('evaluation_jobs', 'job_type') IS NOT NULL
+EXEC('DELETE FROM evaluation_job_results WHERE job_id IN (SELECT job_id FROM evaluation_jobs WHERE job_type <> ''evaluation'');
+      DELETE FROM evaluation_job_events WHERE job_id IN (SELECT job_id FROM evaluation_jobs WHERE job_type <> ''evaluation'');
+      DELETE FROM evaluation_jobs WHERE job_type <> ''evaluation''');
+GO
+
+-- The job_type column carries a default constraint that has to go before the column
+DECLARE @constraint NVARCHAR(200) = (
+  SELECT dc.name FROM sys.default_constraints dc
+  JOIN sys.columns c ON c.object_id = dc.parent_object_id AND c.column_id = dc.parent_column_id
+  WHERE dc.parent_object_id = OBJECT_ID('evaluation_jobs') AND c.name = 'job_type'
+);
+IF @constraint IS NOT NULL EXEC('ALTER TABLE evaluation_jobs DROP CONSTRAINT ' + @constraint);
+GO
+
+IF COL_LENGTH('evaluation_jobs', 'progress') IS NOT NULL ALTER TABLE evaluation_jobs DROP COLUMN progress;
+IF COL_LENGTH('evaluation_jobs', 'payload') IS NOT NULL ALTER TABLE evaluation_jobs DROP COLUMN payload;
+IF COL_LENGTH('evaluation_jobs', 'job_type') IS NOT NULL ALTER TABLE evaluation_jobs DROP COLUMN job_type;
@@ -0,0 +1,7 @@
+-- The job queue also runs weights calibrations: each job records its type, the
+-- input for non-evaluation jobs and a percentage progress for long searches
+
+IF COL_LENGTH('evaluation_jobs', 'job_type') IS NULL ALTER TABLE evaluation_jobs ADD job_type NVARCHAR(20) NOT NULL DEFAULT 'evaluation';
+IF COL_LENGTH('evaluation_jobs', 'payload') IS NULL ALTER TABLE evaluation_jobs ADD payload NVARCHAR(MAX) NULL;
+IF COL_LENGTH('evaluation_jobs', 'progress') IS NULL ALTER TABLE evaluation_jobs ADD progress INT NULL;
+GO
@@ -0,0 +1,4 @@
+IF COL_LENGTH('properties', 'structured_valuation') IS NOT NULL ALTER TABLE properties DROP COLUMN structured_valuation;
+IF COL_LENGTH('properties', 'value_premium') IS NOT NULL ALTER TABLE properties DROP COLUMN value_premium;
+IF COL_LENGTH('properties', 'value_market') IS NOT NULL ALTER TABLE properties DROP COLUMN value_market;
+IF COL_LENGTH('properties', 'value_conservative') IS NOT NULL ALTER TABLE properties DROP COLUMN value_conservative;
@@ -0,0 +1,8 @@
+-- The latest evaluation's values as numbers, and its validated structured valuation,
+-- alongside the display-only estimated_value_range string
+
+IF COL_LENGTH('properties', 'value_conservative') IS NULL ALTER TABLE properties ADD value_conservative FLOAT NULL;
+IF COL_LENGTH('properties', 'value_market') IS NULL ALTER TABLE properties ADD value_market FLOAT NULL;
+IF COL_LENGTH('properties', 'value_premium') IS NULL ALTER TABLE properties ADD value_premium FLOAT NULL;
+IF COL_LENGTH('properties', 'structured_valuation') IS NULL ALTER TABLE properties ADD structured_valuation NVARCHAR(MAX) NULL;
+GO
@@ -0,0 +1,26 @@
+/**
+ * One-off import of legacy valuation history
+ *   npm run import-legacy-valuations
+ * Copies properties.valuation_history into property_valuations for properties
+ * saved before the history table existed. Safe to run more than once.
+ */
+
+// Load environment variables FIRST before any other imports
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { connectToDatabase, closeDatabase } from './utils/database';
+import { importLegacyValuations } from './services/valuationHistory';
+
+async function main(): Promise<void> {
+  await connectToDatabase();
+  const imported = await importLegacyValuations();
+  console.log(imported ? `Imported the valuation history of ${imported} properties` : 'No legacy valuation history to import');
+}
+
+main()
+  .catch(error => {
+    console.error('[Valuation History] Import failed:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDatabase());
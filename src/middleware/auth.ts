@@ -1,7 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import { decodeToken } from '../utils/auth';
-import { queryOne } from '../utils/database';
-import { User } from '../models/types';
+import { Role, User } from '../models/types';
+import { findUserById, findUserByEmail } from '../repositories/userRepository';
+import { findRolesByUserId } from '../repositories/roleRepository';
+import { hasRole } from '../services/roles';
+import { isSessionActive } from '../services/sessions';
 
 // Extend Express Request to include user
 declare global {
@@ -9,17 +12,41 @@ declare global {
     interface Request {
       user?: User;
       userEmail?: string;
+      sessionId?: string;   // Session of the bearer token, when it has one
     }
   }
 }
 
+/**
+ * Transitional mode for the existing frontend: with AUTH_COMPAT_MODE=email-header,
+ * requireUser accepts requests without a bearer token when their X-User-Email header
+ * names an existing, active user. A bearer token always takes precedence.
+ * Admin and agency_owner routes use authenticateToken and never accept the header.
+ */
+export function isAuthCompatMode(): boolean {
+  return (process.env.AUTH_COMPAT_MODE || '').toLowerCase() === 'email-header';
+}
+
+function getBearerToken(req: Request): string | undefined {
+  const authHeader = req.headers.authorization;
+  const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+  if (token) {
+    return token;
+  }
+
+  // EventSource cannot send headers, so event streams may pass the token in the query string
+  if (req.method === 'GET' && req.headers.accept?.includes('text/event-stream') && typeof req.query.access_token === 'string') {
+    return req.query.access_token;
+  }
+  return undefined;
+}
+
 export async function authenticateToken(
   req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> {
-  const authHeader = req.headers.authorization;
-  const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+  const token = getBearerToken(req);
 
   if (!token) {
     res.status(401).json({ detail: 'Authentication required' });
@@ -33,17 +60,64 @@ export async function authenticateToken(
   }
 
   try {
-    const user = await queryOne<User>(
-      'SELECT * FROM users WHERE id = @id',
-      { id: payload.sub }
-    );
+    if (payload.sid && !(await isSessionActive(payload.sid, payload.sub))) {
+      res.status(401).json({ detail: 'Session has been revoked or has expired' });
+      return;
+    }
+
+    const user = await findUserById(payload.sub);
+
+    if (!user || !user.is_active) {
+      res.status(401).json({ detail: 'User not found or inactive' });
+      return;
+    }
+
+    req.user = { ...user, roles: await findRolesByUserId(user.id) };
+    req.userEmail = user.email;
+    req.sessionId = payload.sid;
+    next();
+  } catch (error) {
+    console.error('Auth middleware error:', error);
+    res.status(500).json({ detail: 'Authentication error' });
+  }
+}
+
+const compatWarned = new Set<string>();
+
+/**
+ * Require a signed-in user: a bearer token, or in AUTH_COMPAT_MODE the X-User-Email header.
+ * Either way req.user and req.userEmail are set from the users table, with the user's roles.
+ */
+export async function requireUser(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  if (getBearerToken(req) || !isAuthCompatMode()) {
+    return authenticateToken(req, res, next);
+  }
+
+  const email = req.headers['x-user-email'] as string | undefined;
+  if (!email) {
+    res.status(401).json({ detail: 'Authentication required' });
+    return;
+  }
+
+  try {
+    const user = await findUserByEmail(email);
 
     if (!user || !user.is_active) {
       res.status(401).json({ detail: 'User not found or inactive' });
       return;
     }
 
-    req.user = user;
+    if (!compatWarned.has(user.email)) {
+      compatWarned.add(user.email);
+      console.warn(`[Auth] ${user.email} authenticated by X-User-Email header (AUTH_COMPAT_MODE)`);
+    }
+
+    req.user = { ...user, roles: await findRolesByUserId(user.id) };
+    req.userEmail = user.email;
     next();
   } catch (error) {
     console.error('Auth middleware error:', error);
@@ -51,6 +125,25 @@ export async function authenticateToken(
   }
 }
 
+/**
+ * Require `role` or a more privileged one; runs after authenticateToken.
+ * Only agent and viewer routes may put requireUser in front instead: the
+ * AUTH_COMPAT_MODE header is unsigned, so it must never carry admin or agency_owner rights.
+ */
+export function requireRole(role: Role) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({ detail: 'Authentication required' });
+      return;
+    }
+    if (!hasRole(req.user, role)) {
+      res.status(403).json({ detail: `Access denied: requires the ${role} role` });
+      return;
+    }
+    next();
+  };
+}
+
 // Optional auth - extracts user email from header if present
 export function extractUserEmail(
   req: Request,
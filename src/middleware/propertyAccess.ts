@@ -0,0 +1,54 @@
+import { Request, Response, NextFunction } from 'express';
+import { User } from '../models/types';
+import { findPropertyOwner } from '../repositories/propertyRepository';
+import { hasRole } from '../services/roles';
+
+export type PropertyAccess = 'read' | 'write';
+
+/**
+ * Owners and admins may read and change a property. Properties without an owner
+ * predate per-user ownership: anyone signed in may read them, only admins change them.
+ * Changing a property also needs the agent role, so viewers are read-only.
+ */
+export function canAccessProperty(user: User, ownerEmail: string | null, access: PropertyAccess): boolean {
+  if (hasRole(user, 'admin')) {
+    return true;
+  }
+  if (access === 'write' && !hasRole(user, 'agent')) {
+    return false;
+  }
+  if (!ownerEmail) {
+    return access === 'read';
+  }
+  return ownerEmail.toLowerCase() === user.email.toLowerCase();
+}
+
+/**
+ * Guard for /:propertyId routes; runs after requireUser
+ */
+export function requirePropertyAccess(access: PropertyAccess) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const property = await findPropertyOwner(req.params.propertyId);
+
+      if (!property) {
+        res.status(404).json({ detail: 'Property not found' });
+        return;
+      }
+
+      if (!canAccessProperty(req.user!, property.user_email, access)) {
+        res.status(403).json({
+          detail: access === 'read'
+            ? 'Access denied: You can only view your own properties'
+            : 'Access denied: You can only change your own properties'
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      console.error('Property access check error:', error);
+      res.status(500).json({ detail: 'Failed to check property access' });
+    }
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Migration CLI
+ *   npm run migrate -- status
+ *   npm run migrate -- up [--to 0003]
+ *   npm run migrate -- down [--steps 2 | --to 0001]
+ */
+
+// Load environment variables FIRST before any other imports
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { connectToDatabase, closeDatabase } from './utils/database';
+import { getMigrationStatus, migrateUp, migrateDown } from './utils/migrations';
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+  const target = option(args, 'to');
+  const steps = option(args, 'steps');
+
+  if (steps !== undefined && !(parseInt(steps, 10) > 0)) {
+    throw new Error('--steps must be a positive number');
+  }
+
+  await connectToDatabase();
+
+  switch (command) {
+    case 'status': {
+      for (const m of await getMigrationStatus()) {
+        const state = m.applied ? `applied ${m.applied_at}` : 'pending';
+        console.log(`${m.version}_${m.name}  ${state}${m.modified ? '  (modified since applied)' : ''}`);
+      }
+      break;
+    }
+    case 'up': {
+      const ran = await migrateUp(target);
+      console.log(ran.length ? `Applied ${ran.length} migration(s)` : 'Database is up to date');
+      break;
+    }
+    case 'down': {
+      const ran = await migrateDown({ target, steps: steps ? parseInt(steps, 10) : undefined });
+      console.log(ran.length ? `Rolled back ${ran.length} migration(s)` : 'Nothing to roll back');
+      break;
+    }
+    default:
+      console.log('Usage: migrate <status|up|down> [--to <version>] [--steps <n>]');
+      process.exitCode = 1;
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('[Migrations] Failed:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDatabase());
@@ -17,10 +17,24 @@ export interface User {
   // OAuth fields
   auth_provider?: 'local' | 'google' | 'microsoft' | 'oauth' | null;
   picture?: string | null;
-  // Admin flag
+  // Set once the user follows a verification link (or signs in through a provider)
+  email_verified?: boolean | null;
+  email_verified_at?: Date | null;
+  // Admin flag, kept in step with the admin role
   admin?: boolean | null;
+  // Loaded from user_roles when the user signs in
+  roles?: Role[];
 }
 
+// Roles, most privileged first; each role includes the rights of those after it
+//   admin         users, roles, API keys, sales data imports and clean-up
+//   agency_owner  audit log, weight profiles, calibration and backtests
+//   agent         create and change their own properties, run evaluations
+//   viewer        read the properties they can see
+export type Role = 'admin' | 'agency_owner' | 'agent' | 'viewer';
+export const ROLES: Role[] = ['admin', 'agency_owner', 'agent', 'viewer'];
+export const DEFAULT_ROLE: Role = 'agent';
+
 export interface UserSignup {
   email: string;
   username: string;
@@ -35,10 +49,40 @@ export interface UserLogin {
 export interface TokenPayload {
   sub: string;
   email: string;
+  sid?: string;   // Session the token was issued for; absent on tokens from before sessions
   iat?: number;
   exp?: number;
 }
 
+// Sign-in providers whose ID tokens the backend verifies
+export type OAuthProvider = 'google' | 'microsoft';
+
+// A provider account linked to a user (user_identities table)
+export interface UserIdentity {
+  provider: OAuthProvider;
+  subject: string;          // The provider's stable user id (the ID token's sub claim)
+  user_id: string;
+  email: string | null;
+  created_at: Date;
+  last_login: Date | null;
+}
+
+// What a single-use account token (account_tokens table) is for
+export type AccountTokenPurpose = 'verify_email' | 'reset_password';
+
+// A sign-in session (user_sessions table), renewed by rotating its refresh token
+export interface UserSession {
+  id: string;
+  user_id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: Date;
+  last_used_at: Date;
+  expires_at: Date;
+  revoked_at: Date | null;
+  revoked_reason: string | null;
+}
+
 // Property Image type (separate collection for property-image relationship)
 export interface PropertyImage {
   id: string;
@@ -56,6 +100,7 @@ export interface InclusionItem {
 
 // Historical valuation entry
 export interface ValuationHistoryEntry {
+  id?: string;
   date: string;
   estimated_value: number;
   value_low: number;
@@ -64,7 +109,30 @@ export interface ValuationHistoryEntry {
   confidence_level: 'high' | 'medium' | 'low';
   data_source: string;
   comparables_count: number;
+  evaluation_type?: string | null;
   notes?: string;
+  accuracy?: ValuationAccuracy | null;
+}
+
+// How a valuation compared with the eventual sale price
+export interface ValuationAccuracy {
+  sold_price: number;
+  sale_date: string | null;
+  error_amount: number;   // estimate minus sold price
+  error_percent: number;  // error_amount as a percentage of the sold price
+  within_range: boolean;
+}
+
+// A saved valuation with the report and comparables it was based on
+export interface ValuationRecord extends ValuationHistoryEntry {
+  id: string;
+  property_id: string;
+  created_by: string | null;
+  job_id: string | null;
+  evaluation_report: string | null;
+  comparables_data: ComparablesData | null;
+  confidence_scoring: ConfidenceScoring | null;
+  structured_valuation: StructuredValuation | null;
 }
 
 // Confidence scoring breakdown
@@ -97,6 +165,58 @@ export interface ComparableProperty {
   selected?: boolean;
   land_size?: number | null;
   building_size?: number | null;
+  listing_type?: 'sold' | 'listing';
+  images?: string[];
+  latitude?: number | null;
+  longitude?: number | null;
+  months_since_sale?: number | null;
+  is_neighbouring?: boolean;
+  // Provenance after merging: every source that reported this sale, and which one supplied each field
+  sources?: string[];
+  field_sources?: Record<string, string>;
+}
+
+// Comparables in the common shape every provider normalises to
+export interface ComparablesStatistics {
+  total_found: number;
+  sold_count: number;
+  listing_count: number;
+  price_range: {
+    min: number | null;
+    max: number | null;
+    avg: number | null;
+    median: number | null;
+  };
+  sold_avg: number | null;
+  listing_avg: number | null;
+}
+
+export interface ComparablesProviderAttempt {
+  provider: string;
+  status: 'succeeded' | 'failed' | 'skipped';
+  comparables: number;
+  error?: string;
+}
+
+export interface ComparablesData {
+  comparable_sold: ComparableProperty[];
+  comparable_listings: ComparableProperty[];
+  statistics: ComparablesStatistics;
+  data_source?: string;
+  providers?: ComparablesProviderAttempt[];
+  merge?: {
+    raw_count: number;
+    merged_count: number;
+    duplicates_removed: number;
+    by_source: Record<string, number>;
+  };
+  corelogic_avm?: any;
+}
+
+// Stored in settings as 'comparables_providers'; order is also the merge priority
+export interface ComparablesProviderSettings {
+  order: string[];
+  enabled: Record<string, boolean>;
 }
 
 export interface Property {
@@ -120,6 +240,7 @@ export interface Property {
   agent_email?: string | null;
   evaluation_report?: string | null;
   evaluation_date?: string | null;
+  evaluation_type?: string | null;
   improvements_detected?: string | null;
   evaluation_ad?: string | null;
   pricing_type?: string | null;
@@ -146,7 +267,7 @@ export interface Property {
   latitude?: number | null;
   longitude?: number | null;
   // Valuation quality fields
-  valuation_history?: ValuationHistoryEntry[];
+  valuation_history?: ValuationHistoryEntry[] | null;
   confidence_scoring?: ConfidenceScoring | null;
   comparables_data?: {
     comparable_sold: ComparableProperty[];
@@ -167,7 +288,7 @@ export interface Property {
     data_source?: string;
     domain_api_error?: string | null;
   } | null;
-  selected_comparables?: string[];
+  selected_comparables?: string[] | null;
   is_favourite?: boolean;
   tags?: string[] | null;
   // Neighbouring suburb for additional comparables
@@ -176,6 +297,11 @@ export interface Property {
   neighbouring_state?: string | null;
   // Estimated value range from valuation (RP Data or Homely)
   estimated_value_range?: string | null;
+  // Values and structured valuation from the latest saved evaluation
+  value_conservative?: number | null;
+  value_market?: number | null;
+  value_premium?: number | null;
+  structured_valuation?: StructuredValuation | null;
 }
 
 export interface PropertyCreate {
@@ -201,6 +327,8 @@ export interface PropertyCreate {
   neighbouring_suburb?: string | null;
   neighbouring_postcode?: string | null;
   neighbouring_state?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
   marketing_package?: string | null;
   marketing_cost?: number | null;
 }
@@ -242,6 +370,28 @@ export interface PropertySale {
   zone?: string | null;
 }
 
+// Historic sale row (historic_prop table) - Homely cache and NSW Valuer General imports
+export interface HistoricProp {
+  id: number;
+  cache_id: number | null;
+  prop_id: string;
+  address: string;
+  price: number | null;
+  beds: number | null;
+  baths: number | null;
+  cars: number | null;
+  land_area: number | null;
+  property_type: string | null;
+  sold_date: string | null;
+  sold_date_raw: Date | null;
+  source: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  homely_url: string | null;
+  source_suburb: string | null;
+  is_neighbouring: boolean;
+}
+
 // Marketing Package types
 export interface MarketingPackage {
   id: string;
@@ -376,7 +526,7 @@ export interface HistoricSalesWeights {
   distance_moderate_threshold_km: number;
   distance_far_penalty: number;           // Penalty for 1-2km (default: 15)
   distance_far_threshold_km: number;
-  distance_very_far_penalty: number;      // Penalty for > 5km (default: 25)
+  distance_very_far_penalty: number;      // Penalty for > 5km (default: 25); 2-5km ramps up to it from the far penalty
   distance_very_far_threshold_km: number;
 
   // Recency-based adjustments (in months)
@@ -397,12 +547,44 @@ export interface HistoricSalesWeights {
 
   // Metadata
   is_active: boolean;
+  version?: number;                       // Current version of the profile
   created_at: Date;
   updated_at: Date;
   created_by?: string;
 }
 
-// Default weights - matches current hardcoded values in HistoricSalesCard.tsx
+// A saved version of a weights profile (append-only history)
+export interface WeightProfileVersion {
+  id: string;
+  profile_id: string;
+  version: number;
+  weights: Partial<HistoricSalesWeights>;
+  change_type: 'created' | 'updated' | 'rollback' | 'calibrated';
+  change_note: string | null;
+  changed_by: string | null;
+  created_at: Date;
+  metrics?: Record<string, any> | null; // e.g. backtest error metrics for calibrated versions
+}
+
+// A lifecycle event on a weights profile that does not change its weights
+export interface WeightProfileEvent {
+  id: string;
+  profile_id: string;
+  event_type: 'activated' | 'deactivated' | 'renamed' | 'deleted';
+  version: number | null; // profile version current at the time
+  details: Record<string, any> | null; // e.g. { from, to } for a rename
+  changed_by: string | null;
+  created_at: Date;
+}
+
+export interface WeightFieldDiff {
+  field: string;
+  from: number | null;
+  to: number | null;
+}
+
+// Default weights - matches the original hardcoded values in HistoricSalesCard.tsx
+// Applied server-side by services/comparableScoring.ts
 export const DEFAULT_HISTORIC_SALES_WEIGHTS: Omit<HistoricSalesWeights, 'id' | 'created_at' | 'updated_at'> = {
   name: 'default',
   description: 'Default matching weights based on original algorithm',
@@ -446,3 +628,127 @@ export const DEFAULT_HISTORIC_SALES_WEIGHTS: Omit<HistoricSalesWeights, 'id' | '
   is_active: true,
   created_by: 'system'
 };
+
+// Subject property used when scoring comparables against HistoricSalesWeights
+export interface ScoringSubject {
+  beds?: number | null;
+  baths?: number | null;
+  property_type?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  land_area?: number | null;
+  reference_date?: string | Date | null; // Date recency is measured from (default: now)
+}
+
+// A single factor's contribution to a comparable's similarity score
+export interface ScoreFactor {
+  adjustment: number; // Positive = bonus, negative = penalty
+  detail: string;
+}
+
+export interface ComparableScoreBreakdown {
+  base: number;
+  bedrooms: ScoreFactor;
+  bathrooms: ScoreFactor;
+  density: ScoreFactor;
+  distance: ScoreFactor;
+  recency: ScoreFactor;
+  land_area: ScoreFactor;
+}
+
+export interface ScoredComparable {
+  comparable: HistoricProp;
+  similarity_score: number;
+  distance_km: number | null;
+  months_since_sale: number | null;
+  breakdown: ComparableScoreBreakdown;
+}
+
+// Backtest of a weights profile against properties that have since sold
+export interface BacktestMetrics {
+  properties_tested: number;
+  properties_skipped: number;    // Sold properties with no usable comparables
+  mae: number | null;            // Mean absolute error ($)
+  mape: number | null;           // Mean absolute percentage error (%)
+  median_error: number | null;   // Median absolute error ($)
+  median_error_percent: number | null;
+  within_5_percent: number | null;  // % of estimates within 5% of sold price
+  within_10_percent: number | null; // % of estimates within 10% of sold price
+}
+
+export interface BacktestPropertyResult {
+  property_id: string;
+  location: string;
+  sale_date: string;
+  sold_price: number;
+  estimate: number;
+  error: number;          // estimate - sold_price
+  error_percent: number;  // signed, relative to sold_price
+  comparables_used: number;
+}
+
+export interface BacktestResult {
+  weights_id: string | null;
+  weights_name: string;
+  weights_version?: number;
+  metrics: BacktestMetrics;
+  properties?: BacktestPropertyResult[];
+}
+
+// A comparable sale adjusted to the subject property by the statistical AVM (dollar amounts)
+export interface ComparableAdjustment {
+  comparable_id: string;
+  address: string;
+  source: string | null;
+  sold_price: number;
+  sold_date: string | null;
+  months_since_sale: number | null;
+  similarity_score: number;
+  adjustments: {
+    time: number;
+    land: number;
+    bedrooms: number;
+    bathrooms: number;
+    property_type: number;
+  };
+  adjusted_price: number;
+  weight: number;
+  included: boolean; // false when beyond the top comparables or excluded as an outlier
+}
+
+export interface StatisticalValuation {
+  estimate: number;
+  low: number;
+  high: number;
+  confidence_score: number; // 0-100
+  confidence_level: 'high' | 'medium' | 'low';
+  comparables_used: number;
+  annual_growth_percent: number;
+  method: string;
+  comparables: ComparableAdjustment[];
+  notes: string[];
+}
+
+// Valuation returned by the AI (or derived from the statistical AVM) as structured data
+export interface StructuredValuation {
+  estimated_value: {
+    conservative: number;
+    market: number;
+    premium: number;
+  };
+  comparable_adjustments: {
+    address: string;
+    sale_price: number;
+    sale_date: string | null;
+    adjustments: { factor: string; amount: number; reason: string }[];
+    adjusted_price: number;
+  }[];
+  adjustment_summary: string;
+  market_insights: {
+    buyer_demand: string;
+    days_on_market: string;
+    price_trends: string;
+  };
+  pricing_strategy: string;
+  summary: string;
+}
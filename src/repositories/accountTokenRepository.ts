@@ -0,0 +1,42 @@
+/**
+ * Account token repository
+ * Tracks the single-use tokens sent for email verification and password reset.
+ * The signed token itself is never stored; its id (the JWT jti) is, so it can be
+ * redeemed once and superseded by a newer token.
+ */
+
+import { execute } from '../utils/database';
+import { AccountTokenPurpose } from '../models/types';
+
+export async function insertAccountToken(id: string, userId: string, purpose: AccountTokenPurpose, expiresAt: Date): Promise<void> {
+  await execute(
+    `INSERT INTO account_tokens (id, user_id, purpose, created_at, expires_at)
+     VALUES (@id, @userId, @purpose, @createdAt, @expiresAt)`,
+    { id, userId, purpose, createdAt: new Date(), expiresAt }
+  );
+}
+
+/**
+ * Mark a token used if it is still unused and unexpired; returns false otherwise
+ */
+export async function redeemAccountToken(id: string, userId: string, purpose: AccountTokenPurpose): Promise<boolean> {
+  const now = new Date();
+  const rowsAffected = await execute(
+    `UPDATE account_tokens SET used_at = @now
+     WHERE id = @id AND user_id = @userId AND purpose = @purpose
+       AND used_at IS NULL AND expires_at > @now`,
+    { id, userId, purpose, now }
+  );
+  return rowsAffected > 0;
+}
+
+/**
+ * Retire a user's outstanding tokens for a purpose, e.g. when a newer one is sent
+ */
+export async function retireAccountTokens(userId: string, purpose: AccountTokenPurpose): Promise<number> {
+  return execute(
+    `UPDATE account_tokens SET used_at = @now
+     WHERE user_id = @userId AND purpose = @purpose AND used_at IS NULL`,
+    { userId, purpose, now: new Date() }
+  );
+}
@@ -0,0 +1,58 @@
+/**
+ * Column mapping shared by the repositories
+ * JSON is stored in NVARCHAR(MAX) columns and flags in BIT columns; these helpers
+ * convert between the stored values and the shapes in models/types.ts.
+ */
+
+/**
+ * Parse a JSON column, falling back when it is empty or not valid JSON
+ */
+export function parseJsonColumn<T>(value: unknown, fallback: T): T {
+  if (value === null || value === undefined || value === '') {
+    return fallback;
+  }
+  if (typeof value !== 'string') {
+    return value as T;
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export function toBoolean(value: unknown): boolean {
+  return value === true || value === 1 || value === '1';
+}
+
+/**
+ * Turn a partial record into INSERT/UPDATE parameters. Only known columns are
+ * accepted, JSON columns are serialised and boolean columns stored as 1/0.
+ * Undefined values are skipped so callers can pass sparse objects.
+ */
+export function toColumnParams(
+  table: string,
+  fields: Record<string, unknown>,
+  columns: { writable: readonly string[]; json?: readonly string[]; bit?: readonly string[] }
+): Record<string, any> {
+  const params: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    if (!columns.writable.includes(key)) {
+      throw new Error(`Unknown ${table} column: ${key}`);
+    }
+
+    if (value === null) {
+      params[key] = null;
+    } else if (columns.json?.includes(key)) {
+      params[key] = JSON.stringify(value);
+    } else if (columns.bit?.includes(key)) {
+      params[key] = value ? 1 : 0;
+    } else {
+      params[key] = value;
+    }
+  }
+
+  return params;
+}
@@ -0,0 +1,169 @@
+/**
+ * Historic sales repository
+ * Reads and writes historic_prop, the sales imported from the NSW Valuer General
+ * and cached from Homely. Rows are returned as HistoricProp objects with
+ * is_neighbouring as a boolean. Writes take an optional QueryContext so they can
+ * join a transaction from withTransaction.
+ */
+
+import crypto from 'crypto';
+import { queryMany, pooledContext, QueryContext } from '../utils/database';
+import { HistoricProp } from '../models/types';
+import { toBoolean } from './columns';
+
+export type HistoricPropRow = Omit<HistoricProp, 'is_neighbouring'> & { is_neighbouring: boolean | number | null };
+
+// A sale to store; prop_id is generated when missing
+export type NewHistoricProp = Partial<Omit<HistoricProp, 'id' | 'sold_date_raw'>> & {
+  address: string;
+  sold_date_raw?: Date | string | null;
+};
+
+export interface NswSalesFilter {
+  suburb: string;             // lower case
+  postcode?: string | null;
+  propertyType?: string | null;
+}
+
+export function toHistoricProp(row: HistoricPropRow): HistoricProp {
+  return {
+    ...row,
+    is_neighbouring: toBoolean(row.is_neighbouring)
+  };
+}
+
+/**
+ * Sales stored for a historic_sales_cache entry, most recent first
+ */
+export async function findSalesByCacheId(cacheId: number, limit?: number): Promise<HistoricProp[]> {
+  const top = limit && limit > 0 ? `TOP ${Math.floor(limit)}` : '';
+  const rows = await queryMany<HistoricPropRow>(
+    `SELECT ${top} * FROM historic_prop WHERE cache_id = @cacheId ORDER BY sold_date_raw DESC`,
+    { cacheId }
+  );
+  return rows.map(toHistoricProp);
+}
+
+export async function findSalesByCacheKey(cacheKey: string): Promise<HistoricProp[]> {
+  const rows = await queryMany<HistoricPropRow>(
+    `SELECT hp.* FROM historic_prop hp
+     INNER JOIN historic_sales_cache c ON c.id = hp.cache_id
+     WHERE c.cache_key = @cacheKey`,
+    { cacheKey }
+  );
+  return rows.map(toHistoricProp);
+}
+
+/**
+ * NSW Valuer General sales matching a suburb (by source suburb or address),
+ * optionally narrowed by postcode and property type, most recent first
+ */
+export async function findNswSales(filter: NswSalesFilter): Promise<HistoricProp[]> {
+  let sqlText = `
+    SELECT hp.*
+    FROM historic_prop hp
+    WHERE hp.source = 'nsw-valuer-general'
+      AND (
+        LOWER(hp.source_suburb) = @suburb
+        OR LOWER(hp.address) LIKE '%' + @suburb + '%'
+      )
+  `;
+  const params: Record<string, any> = { suburb: filter.suburb };
+
+  if (filter.postcode) {
+    sqlText += ` AND hp.address LIKE '%' + @postcode + '%'`;
+    params.postcode = filter.postcode;
+  }
+
+  // Property types are stored both singular and plural (house / houses)
+  if (filter.propertyType && filter.propertyType !== 'all') {
+    let normalizedType = filter.propertyType.toLowerCase();
+    if (normalizedType.endsWith('s') && normalizedType !== 'units') {
+      normalizedType = normalizedType.slice(0, -1);
+    }
+    sqlText += ` AND (LOWER(hp.property_type) = @propertyType OR LOWER(hp.property_type) = @propertyTypePlural)`;
+    params.propertyType = normalizedType;
+    params.propertyTypePlural = normalizedType + 's';
+  }
+
+  sqlText += ` ORDER BY hp.sold_date_raw DESC`;
+
+  const rows = await queryMany<HistoricPropRow>(sqlText, params);
+  return rows.map(toHistoricProp);
+}
+
+/**
+ * Priced sales since `fromDate` in a suburb or its neighbouring suburb (both lower case)
+ */
+export async function findRecentSuburbSales(suburb: string, neighbouring: string | null, fromDate: Date): Promise<HistoricProp[]> {
+  const rows = await queryMany<HistoricPropRow>(
+    `SELECT * FROM historic_prop
+     WHERE price > 0
+       AND sold_date_raw >= @fromDate
+       AND (LOWER(source_suburb) = @suburb OR (@neighbouring IS NOT NULL AND LOWER(source_suburb) = @neighbouring))`,
+    { fromDate, suburb, neighbouring }
+  );
+  return rows.map(toHistoricProp);
+}
+
+/**
+ * Priced sales in a suburb (lower case) between `fromDate` and just before `beforeDate`
+ */
+export async function findSuburbSalesBefore(suburb: string, fromDate: Date, beforeDate: Date): Promise<HistoricProp[]> {
+  const rows = await queryMany<HistoricPropRow>(
+    `SELECT * FROM historic_prop
+     WHERE price > 0
+       AND sold_date_raw < @saleDate
+       AND sold_date_raw >= @fromDate
+       AND (LOWER(source_suburb) = @suburb OR LOWER(address) LIKE '%' + @suburb + '%')`,
+    { saleDate: beforeDate, fromDate, suburb }
+  );
+  return rows.map(toHistoricProp);
+}
+
+/**
+ * Whether an NSW Valuer General sale of this address on this date is already stored
+ */
+export async function nswSaleExists(address: string, soldDateRaw: Date | null, ctx: QueryContext = pooledContext): Promise<boolean> {
+  const existing = await ctx.queryOne<{ id: number }>(
+    `SELECT id FROM historic_prop
+     WHERE address = @address
+     AND sold_date_raw = @sold_date_raw
+     AND source = 'nsw-valuer-general'`,
+    { address, sold_date_raw: soldDateRaw }
+  );
+  return !!existing;
+}
+
+export async function insertHistoricProp(sale: NewHistoricProp, ctx: QueryContext = pooledContext): Promise<void> {
+  await ctx.execute(
+    `INSERT INTO historic_prop (
+      cache_id, prop_id, address, price, beds, baths, cars, land_area,
+      property_type, sold_date, sold_date_raw, source, latitude, longitude,
+      homely_url, source_suburb, is_neighbouring
+    ) VALUES (
+      @cache_id, @prop_id, @address, @price, @beds, @baths, @cars, @land_area,
+      @property_type, @sold_date, @sold_date_raw, @source, @latitude, @longitude,
+      @homely_url, @source_suburb, @is_neighbouring
+    )`,
+    {
+      cache_id: sale.cache_id ?? null,
+      prop_id: sale.prop_id || crypto.randomUUID(),
+      address: sale.address,
+      price: sale.price ?? null,
+      beds: sale.beds ?? null,
+      baths: sale.baths ?? null,
+      cars: sale.cars ?? null,
+      land_area: sale.land_area ?? null,
+      property_type: sale.property_type ?? null,
+      sold_date: sale.sold_date ?? null,
+      sold_date_raw: sale.sold_date_raw ? new Date(sale.sold_date_raw) : null,
+      source: sale.source ?? null,
+      latitude: sale.latitude ?? null,
+      longitude: sale.longitude ?? null,
+      homely_url: sale.homely_url ?? null,
+      source_suburb: sale.source_suburb ?? null,
+      is_neighbouring: sale.is_neighbouring ? 1 : 0
+    }
+  );
+}
@@ -0,0 +1,40 @@
+/**
+ * Identity repository
+ * Reads and writes user_identities, the Google and Microsoft accounts linked to
+ * users. An identity is keyed by provider and the provider's subject id, never by
+ * email, since provider emails can change.
+ */
+
+import { queryOne, queryMany, execute } from '../utils/database';
+import { OAuthProvider, UserIdentity } from '../models/types';
+
+export async function findIdentity(provider: OAuthProvider, subject: string): Promise<UserIdentity | null> {
+  return queryOne<UserIdentity>(
+    'SELECT * FROM user_identities WHERE provider = @provider AND subject = @subject',
+    { provider, subject }
+  );
+}
+
+export async function listIdentitiesForUser(userId: string): Promise<UserIdentity[]> {
+  return queryMany<UserIdentity>(
+    'SELECT * FROM user_identities WHERE user_id = @userId ORDER BY created_at',
+    { userId }
+  );
+}
+
+export async function insertIdentity(identity: Omit<UserIdentity, 'created_at' | 'last_login'>): Promise<void> {
+  const now = new Date();
+  await execute(
+    `INSERT INTO user_identities (provider, subject, user_id, email, created_at, last_login)
+     VALUES (@provider, @subject, @user_id, @email, @created_at, @last_login)`,
+    { ...identity, created_at: now, last_login: now }
+  );
+}
+
+export async function touchIdentity(provider: OAuthProvider, subject: string, email: string | null): Promise<void> {
+  await execute(
+    `UPDATE user_identities SET last_login = @now, email = COALESCE(@email, email)
+     WHERE provider = @provider AND subject = @subject`,
+    { provider, subject, email, now: new Date() }
+  );
+}
@@ -0,0 +1,165 @@
+/**
+ * Property repository
+ * Reads and writes the properties table. Rows are returned as Property objects
+ * with the JSON columns (images, tags, comparables_data, confidence_scoring,
+ * valuation_history, selected_comparables, structured_valuation) parsed and is_favourite as a boolean;
+ * writes serialise them back. updateProperty takes an optional QueryContext so it
+ * can join a transaction from withTransaction.
+ */
+
+import { queryOne, queryMany, execute, pooledContext, QueryContext } from '../utils/database';
+import { Property } from '../models/types';
+import { parseJsonColumn, toBoolean, toColumnParams } from './columns';
+
+const JSON_COLUMNS = [
+  'images', 'tags', 'comparables_data', 'confidence_scoring', 'valuation_history', 'selected_comparables', 'structured_valuation'
+] as const;
+const BIT_COLUMNS = ['is_favourite'] as const;
+const DATE_COLUMNS = ['evaluation_date', 'marketing_report_date', 'rp_data_upload_date', 'sale_date'] as const;
+
+const WRITABLE_COLUMNS = [
+  'id', 'beds', 'baths', 'carpark', 'location', 'price', 'size', 'property_type', 'features',
+  'strata_body_corps', 'council_rates', 'images', 'pitch', 'agent1_name', 'agent1_phone',
+  'agent2_name', 'agent2_phone', 'agent_email', 'evaluation_report', 'evaluation_date',
+  'evaluation_type', 'improvements_detected', 'evaluation_ad', 'pricing_type', 'price_upper',
+  'marketing_strategy', 'marketing_package', 'marketing_cost', 'marketing_report',
+  'marketing_report_date', 'rp_data_report', 'rp_data_upload_date', 'rp_data_filename',
+  'additional_report', 'agent_id', 'agent_name', 'agency_id', 'user_email', 'created_at',
+  'status', 'sold_price', 'sale_date', 'latitude', 'longitude', 'valuation_history',
+  'confidence_scoring', 'comparables_data', 'selected_comparables', 'is_favourite', 'tags',
+  'neighbouring_suburb', 'neighbouring_postcode', 'neighbouring_state', 'estimated_value_range',
+  'value_conservative', 'value_market', 'value_premium', 'structured_valuation'
+] as const;
+
+type JsonColumn = typeof JSON_COLUMNS[number];
+type DateColumn = typeof DATE_COLUMNS[number];
+
+// A properties row as the driver returns it
+export type PropertyRow = Omit<Property, JsonColumn | 'is_favourite'> &
+  Record<JsonColumn, string | null> & { is_favourite: boolean | null };
+
+// Columns to write; every column is nullable and date columns also accept Date values
+export type PropertyFields = {
+  [K in Exclude<keyof Property, 'id'>]?: (K extends DateColumn ? string | Date : Property[K]) | null;
+};
+
+export function toProperty(row: PropertyRow): Property {
+  return {
+    ...row,
+    images: parseJsonColumn<string[]>(row.images, []),
+    tags: parseJsonColumn<string[] | null>(row.tags, null),
+    comparables_data: parseJsonColumn<Property['comparables_data']>(row.comparables_data, null),
+    confidence_scoring: parseJsonColumn<Property['confidence_scoring']>(row.confidence_scoring, null),
+    valuation_history: parseJsonColumn<Property['valuation_history']>(row.valuation_history, null),
+    selected_comparables: parseJsonColumn<string[] | null>(row.selected_comparables, null),
+    structured_valuation: parseJsonColumn<Property['structured_valuation']>(row.structured_valuation, null),
+    is_favourite: toBoolean(row.is_favourite)
+  };
+}
+
+function toParams(fields: Record<string, unknown>): Record<string, any> {
+  return toColumnParams('properties', fields, {
+    writable: WRITABLE_COLUMNS,
+    json: JSON_COLUMNS,
+    bit: BIT_COLUMNS
+  });
+}
+
+export async function findPropertyById(id: string): Promise<Property | null> {
+  const row = await queryOne<PropertyRow>('SELECT * FROM properties WHERE id = @id', { id });
+  return row ? toProperty(row) : null;
+}
+
+/**
+ * Owner lookup for access checks, without loading the report and image columns
+ */
+export async function findPropertyOwner(id: string): Promise<{ user_email: string | null } | null> {
+  return queryOne<{ user_email: string | null }>('SELECT user_email FROM properties WHERE id = @id', { id });
+}
+
+/**
+ * Just the images of a property, or null when it does not exist
+ */
+export async function findPropertyImages(id: string): Promise<string[] | null> {
+  const row = await queryOne<{ images: string | null }>('SELECT images FROM properties WHERE id = @id', { id });
+  return row ? parseJsonColumn<string[]>(row.images, []) : null;
+}
+
+/**
+ * Properties visible to a user (their own and unowned ones), or all when no user is given
+ */
+export async function listProperties(userEmail?: string): Promise<Property[]> {
+  const rows = userEmail
+    ? await queryMany<PropertyRow>(
+        'SELECT * FROM properties WHERE user_email = @userEmail OR user_email IS NULL',
+        { userEmail }
+      )
+    : await queryMany<PropertyRow>('SELECT * FROM properties');
+  return rows.map(toProperty);
+}
+
+/**
+ * Sold properties, most recent sale first, optionally limited to locations containing `suburb`
+ * and to those visible to `userEmail` (their own and unowned ones)
+ */
+export async function listSoldProperties(suburb?: string, userEmail?: string): Promise<Property[]> {
+  let sqlText = `SELECT * FROM properties WHERE status = 'sold'`;
+  const params: Record<string, any> = {};
+
+  if (userEmail) {
+    sqlText += ` AND (user_email = @userEmail OR user_email IS NULL)`;
+    params.userEmail = userEmail;
+  }
+
+  if (suburb) {
+    sqlText += ` AND location LIKE @suburb`;
+    params.suburb = `%${suburb}%`;
+  }
+
+  sqlText += ` ORDER BY sale_date DESC`;
+
+  const rows = await queryMany<PropertyRow>(sqlText, params);
+  return rows.map(toProperty);
+}
+
+export async function listSoldLocations(userEmail?: string): Promise<string[]> {
+  const rows = userEmail
+    ? await queryMany<{ location: string | null }>(
+        `SELECT DISTINCT location FROM properties WHERE status = 'sold' AND (user_email = @userEmail OR user_email IS NULL)`,
+        { userEmail }
+      )
+    : await queryMany<{ location: string | null }>(
+        `SELECT DISTINCT location FROM properties WHERE status = 'sold'`
+      );
+  return rows.map(r => r.location).filter((location): location is string => !!location);
+}
+
+export async function insertProperty(fields: PropertyFields & { id: string }): Promise<void> {
+  const params = toParams(fields);
+  const columns = Object.keys(params);
+
+  await execute(
+    `INSERT INTO properties (${columns.join(', ')}) VALUES (${columns.map(c => `@${c}`).join(', ')})`,
+    params
+  );
+}
+
+/**
+ * Update the given columns; returns the number of rows changed (0 when the property does not exist)
+ */
+export async function updateProperty(id: string, fields: PropertyFields, ctx: QueryContext = pooledContext): Promise<number> {
+  const params = toParams(fields);
+  const columns = Object.keys(params);
+  if (columns.length === 0) {
+    throw new Error('No property columns to update');
+  }
+
+  return ctx.execute(
+    `UPDATE properties SET ${columns.map(c => `${c} = @${c}`).join(', ')} WHERE id = @id`,
+    { ...params, id }
+  );
+}
+
+export async function deleteProperty(id: string): Promise<number> {
+  return execute('DELETE FROM properties WHERE id = @id', { id });
+}
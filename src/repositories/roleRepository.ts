@@ -0,0 +1,88 @@
+/**
+ * Role repository
+ * Reads and writes user_roles, one row per role granted to a user. Writes take an
+ * optional QueryContext so they can join a transaction from withTransaction.
+ */
+
+import { queryMany, pooledContext, QueryContext } from '../utils/database';
+import { Role, ROLES } from '../models/types';
+
+export interface UserRoleRow {
+  user_id: string;
+  role: Role;
+  granted_by: string | null;
+  granted_at: Date;
+}
+
+// Most privileged first, matching ROLES
+function sortRoles(roles: Role[]): Role[] {
+  return [...roles].sort((a, b) => ROLES.indexOf(a) - ROLES.indexOf(b));
+}
+
+export async function findRolesByUserId(userId: string, ctx: QueryContext = pooledContext): Promise<Role[]> {
+  const rows = await ctx.queryMany<{ role: Role }>(
+    'SELECT role FROM user_roles WHERE user_id = @userId',
+    { userId }
+  );
+  return sortRoles(rows.map(r => r.role));
+}
+
+export async function findRoleGrants(userId: string): Promise<UserRoleRow[]> {
+  const rows = await queryMany<UserRoleRow>(
+    'SELECT user_id, role, granted_by, granted_at FROM user_roles WHERE user_id = @userId',
+    { userId }
+  );
+  return rows.sort((a, b) => ROLES.indexOf(a.role) - ROLES.indexOf(b.role));
+}
+
+/**
+ * Roles of every user that has any, keyed by user id
+ */
+export async function listRolesByUser(): Promise<Map<string, Role[]>> {
+  const rows = await queryMany<{ user_id: string; role: Role }>('SELECT user_id, role FROM user_roles');
+  const byUser = new Map<string, Role[]>();
+  for (const row of rows) {
+    byUser.set(row.user_id, [...(byUser.get(row.user_id) || []), row.role]);
+  }
+  for (const [userId, roles] of byUser) {
+    byUser.set(userId, sortRoles(roles));
+  }
+  return byUser;
+}
+
+/**
+ * Grant a role; returns false when the user already holds it
+ */
+export async function grantRole(userId: string, role: Role, grantedBy: string | null, ctx: QueryContext = pooledContext): Promise<boolean> {
+  const rowsAffected = await ctx.execute(
+    `INSERT INTO user_roles (user_id, role, granted_by, granted_at)
+     SELECT @userId, @role, @grantedBy, @grantedAt
+     WHERE NOT EXISTS (SELECT 1 FROM user_roles WHERE user_id = @userId AND role = @role)`,
+    { userId, role, grantedBy, grantedAt: new Date() }
+  );
+  return rowsAffected > 0;
+}
+
+/**
+ * Revoke a role; returns false when the user did not hold it
+ */
+export async function revokeRole(userId: string, role: Role, ctx: QueryContext = pooledContext): Promise<boolean> {
+  const rowsAffected = await ctx.execute(
+    'DELETE FROM user_roles WHERE user_id = @userId AND role = @role',
+    { userId, role }
+  );
+  return rowsAffected > 0;
+}
+
+/**
+ * Number of active users holding a role
+ */
+export async function countActiveUsersWithRole(role: Role, ctx: QueryContext = pooledContext): Promise<number> {
+  const row = await ctx.queryOne<{ total: number }>(
+    `SELECT COUNT(*) AS total FROM user_roles r
+     INNER JOIN users u ON u.id = r.user_id
+     WHERE r.role = @role AND u.is_active = 1`,
+    { role }
+  );
+  return row?.total || 0;
+}
@@ -0,0 +1,115 @@
+/**
+ * Session repository
+ * Reads and writes user_sessions. Refresh tokens are never stored, only their
+ * hashes; the hash of the token a session was last rotated from is kept in
+ * previous_token_hash so replays can be recognised.
+ */
+
+import { queryOne, queryMany, execute } from '../utils/database';
+import { UserSession } from '../models/types';
+
+const PUBLIC_COLUMNS = [
+  'id', 'user_id', 'user_agent', 'ip_address', 'created_at', 'last_used_at',
+  'expires_at', 'revoked_at', 'revoked_reason'
+].join(', ');
+
+export interface NewSession {
+  id: string;
+  user_id: string;
+  refresh_token_hash: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  expires_at: Date;
+}
+
+// A session found by refresh token, and whether the token was its current one
+export interface SessionTokenMatch {
+  session: UserSession;
+  current: boolean;
+}
+
+export async function insertSession(session: NewSession): Promise<void> {
+  const now = new Date();
+  await execute(
+    `INSERT INTO user_sessions (id, user_id, refresh_token_hash, user_agent, ip_address, created_at, last_used_at, expires_at)
+     VALUES (@id, @user_id, @refresh_token_hash, @user_agent, @ip_address, @created_at, @last_used_at, @expires_at)`,
+    { ...session, created_at: now, last_used_at: now }
+  );
+}
+
+export async function findSessionById(id: string): Promise<UserSession | null> {
+  return queryOne<UserSession>(`SELECT ${PUBLIC_COLUMNS} FROM user_sessions WHERE id = @id`, { id });
+}
+
+export async function findSessionByTokenHash(tokenHash: string): Promise<SessionTokenMatch | null> {
+  const row = await queryOne<UserSession & { refresh_token_hash: string }>(
+    `SELECT ${PUBLIC_COLUMNS}, refresh_token_hash FROM user_sessions
+     WHERE refresh_token_hash = @tokenHash OR previous_token_hash = @tokenHash`,
+    { tokenHash }
+  );
+  if (!row) {
+    return null;
+  }
+  const { refresh_token_hash, ...session } = row;
+  return { session, current: refresh_token_hash === tokenHash };
+}
+
+/**
+ * Sessions that are neither revoked nor expired, most recently used first
+ */
+export async function listActiveSessions(userId: string): Promise<UserSession[]> {
+  return queryMany<UserSession>(
+    `SELECT ${PUBLIC_COLUMNS} FROM user_sessions
+     WHERE user_id = @userId AND revoked_at IS NULL AND expires_at > @now
+     ORDER BY last_used_at DESC`,
+    { userId, now: new Date() }
+  );
+}
+
+/**
+ * Swap the refresh token of a live session, only if `currentHash` is still its token;
+ * returns false when another request rotated it first
+ */
+export async function rotateSessionToken(
+  id: string,
+  currentHash: string,
+  nextHash: string,
+  expiresAt: Date,
+  meta: { user_agent: string | null; ip_address: string | null }
+): Promise<boolean> {
+  const rowsAffected = await execute(
+    `UPDATE user_sessions
+     SET previous_token_hash = refresh_token_hash,
+         refresh_token_hash = @nextHash,
+         expires_at = @expiresAt,
+         last_used_at = @now,
+         user_agent = COALESCE(@user_agent, user_agent),
+         ip_address = COALESCE(@ip_address, ip_address)
+     WHERE id = @id AND refresh_token_hash = @currentHash AND revoked_at IS NULL`,
+    { id, currentHash, nextHash, expiresAt, now: new Date(), ...meta }
+  );
+  return rowsAffected > 0;
+}
+
+/**
+ * Revoke one session of a user; returns false when it was not theirs or already revoked
+ */
+export async function revokeSession(id: string, userId: string, reason: string): Promise<boolean> {
+  const rowsAffected = await execute(
+    `UPDATE user_sessions SET revoked_at = @now, revoked_reason = @reason
+     WHERE id = @id AND user_id = @userId AND revoked_at IS NULL`,
+    { id, userId, reason, now: new Date() }
+  );
+  return rowsAffected > 0;
+}
+
+/**
+ * Revoke every live session of a user, optionally keeping one; returns how many were revoked
+ */
+export async function revokeUserSessions(userId: string, reason: string, exceptId?: string): Promise<number> {
+  return execute(
+    `UPDATE user_sessions SET revoked_at = @now, revoked_reason = @reason
+     WHERE user_id = @userId AND revoked_at IS NULL AND (@exceptId IS NULL OR id <> @exceptId)`,
+    { userId, reason, exceptId: exceptId || null, now: new Date() }
+  );
+}
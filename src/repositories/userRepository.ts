@@ -0,0 +1,103 @@
+/**
+ * User repository
+ * Reads and writes the users table. Rows are returned as User objects with the
+ * BIT flags (subscription_active, trial_active, is_active, admin, email_verified) as booleans.
+ * updateUser takes an optional QueryContext so it can join a transaction.
+ */
+
+import { queryOne, queryMany, execute, pooledContext, QueryContext } from '../utils/database';
+import { User } from '../models/types';
+import { toBoolean, toColumnParams } from './columns';
+
+const BIT_COLUMNS = ['subscription_active', 'trial_active', 'is_active', 'admin', 'email_verified'] as const;
+
+const WRITABLE_COLUMNS = [
+  'id', 'email', 'username', 'hashed_password', 'subscription_tier', 'subscription_active',
+  'subscription_end_date', 'trial_active', 'trial_end_date', 'stripe_customer_id',
+  'stripe_subscription_id', 'created_at', 'last_login', 'is_active', 'auth_provider', 'picture', 'admin',
+  'email_verified', 'email_verified_at'
+] as const;
+
+// Everything but the password hash, for listings
+const PUBLIC_COLUMNS = WRITABLE_COLUMNS.filter(c => c !== 'hashed_password');
+
+export type UserRow = Omit<User, typeof BIT_COLUMNS[number]> &
+  Record<typeof BIT_COLUMNS[number], boolean | number | null>;
+
+export type UserFields = Partial<Omit<User, 'id'>>;
+
+export function toUser(row: UserRow): User {
+  return {
+    ...row,
+    subscription_active: toBoolean(row.subscription_active),
+    trial_active: toBoolean(row.trial_active),
+    is_active: toBoolean(row.is_active),
+    admin: toBoolean(row.admin),
+    email_verified: toBoolean(row.email_verified)
+  };
+}
+
+function toParams(fields: Record<string, unknown>): Record<string, any> {
+  return toColumnParams('users', fields, { writable: WRITABLE_COLUMNS, bit: BIT_COLUMNS });
+}
+
+export async function findUserById(id: string): Promise<User | null> {
+  const row = await queryOne<UserRow>('SELECT * FROM users WHERE id = @id', { id });
+  return row ? toUser(row) : null;
+}
+
+export async function findUserByEmail(email: string): Promise<User | null> {
+  const row = await queryOne<UserRow>('SELECT * FROM users WHERE email = @email', { email });
+  return row ? toUser(row) : null;
+}
+
+/**
+ * All users without their password hashes, most recent login first
+ */
+export async function listUsers(): Promise<Omit<User, 'hashed_password'>[]> {
+  const rows = await queryMany<UserRow>(
+    `SELECT ${PUBLIC_COLUMNS.join(', ')} FROM users ORDER BY last_login DESC`
+  );
+  return rows.map(row => {
+    const { hashed_password, ...user } = toUser(row);
+    return user;
+  });
+}
+
+export async function createUser(fields: UserFields & { id: string }): Promise<User> {
+  const params = toParams(fields);
+  const columns = Object.keys(params);
+
+  await execute(
+    `INSERT INTO users (${columns.join(', ')}) VALUES (${columns.map(c => `@${c}`).join(', ')})`,
+    params
+  );
+
+  return (await findUserById(fields.id))!;
+}
+
+/**
+ * Update the given columns; returns the number of rows changed
+ */
+export async function updateUser(id: string, fields: UserFields, ctx: QueryContext = pooledContext): Promise<number> {
+  const params = toParams(fields);
+  const columns = Object.keys(params);
+  if (columns.length === 0) {
+    throw new Error('No user columns to update');
+  }
+
+  return ctx.execute(
+    `UPDATE users SET ${columns.map(c => `${c} = @${c}`).join(', ')} WHERE id = @id`,
+    { ...params, id }
+  );
+}
+
+/**
+ * Mark the subscription inactive for whoever holds this Stripe subscription
+ */
+export async function deactivateStripeSubscription(stripeSubscriptionId: string): Promise<number> {
+  return execute(
+    `UPDATE users SET subscription_active = 0 WHERE stripe_subscription_id = @stripeSubscriptionId`,
+    { stripeSubscriptionId }
+  );
+}
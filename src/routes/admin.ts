@@ -0,0 +1,97 @@
+import { Router, Request, Response } from 'express';
+import { execute } from '../utils/database';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { findUserById } from '../repositories/userRepository';
+import { findRoleGrants } from '../repositories/roleRepository';
+import { RoleError, isRole, grantUserRole, revokeUserRole } from '../services/roles';
+import { ROLES } from '../models/types';
+
+const router = Router();
+
+router.use(authenticateToken, requireRole('admin'));
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof RoleError) {
+    return res.status(error.status).json({ detail: error.message });
+  }
+  console.error(`[Admin] ${fallback}:`, error);
+  return res.status(500).json({ detail: fallback });
+}
+
+// GET /api/admin/roles - The roles that can be granted, most privileged first
+router.get('/roles', (req: Request, res: Response) => {
+  res.json({ roles: ROLES });
+});
+
+// GET /api/admin/users/:userId/roles
+router.get('/users/:userId/roles', async (req: Request, res: Response) => {
+  try {
+    const user = await findUserById(req.params.userId);
+    if (!user) {
+      return res.status(404).json({ detail: 'User not found' });
+    }
+
+    const grants = await findRoleGrants(user.id);
+    res.json({
+      user_id: user.id,
+      email: user.email,
+      roles: grants.map(g => g.role),
+      grants
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to get user roles');
+  }
+});
+
+// POST /api/admin/users/:userId/roles - Grant a role: { role }
+router.post('/users/:userId/roles', async (req: Request, res: Response) => {
+  try {
+    const { role } = req.body;
+    if (!isRole(role)) {
+      return res.status(400).json({ detail: `role must be one of: ${ROLES.join(', ')}` });
+    }
+
+    const roles = await grantUserRole(req.params.userId, role, req.user!.email);
+    res.json({ success: true, user_id: req.params.userId, roles });
+  } catch (error) {
+    sendError(res, error, 'Failed to grant role');
+  }
+});
+
+// DELETE /api/admin/users/:userId/roles/:role
+router.delete('/users/:userId/roles/:role', async (req: Request, res: Response) => {
+  try {
+    const { role } = req.params;
+    if (!isRole(role)) {
+      return res.status(400).json({ detail: `role must be one of: ${ROLES.join(', ')}` });
+    }
+
+    const roles = await revokeUserRole(req.params.userId, role, req.user!.email);
+    res.json({ success: true, user_id: req.params.userId, roles });
+  } catch (error) {
+    sendError(res, error, 'Failed to revoke role');
+  }
+});
+
+// POST /api/admin/clear-images - Clear all base64 images from properties
+router.post('/clear-images', async (req: Request, res: Response) => {
+  try {
+    // Update all properties to have empty images array
+    const rowsAffected = await execute(
+      `UPDATE properties SET images = '[]'`
+    );
+
+    console.log(`[Admin] ${req.user!.email} cleared images from ${rowsAffected} properties`);
+
+    res.json({
+      success: true,
+      message: `Cleared images from ${rowsAffected} properties`,
+      modifiedCount: rowsAffected
+    });
+  } catch (error: any) {
+    console.error('[Admin] Clear images error:', error);
+    res.status(500).json({ detail: 'Failed to clear images: ' + error.message });
+  }
+});
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { queryOne, queryMany, execute, query } from '../utils/database';
+import { authenticateToken, requireRole } from '../middleware/auth';
 
 const router = Router();
 
@@ -42,7 +43,7 @@ router.post('/', async (req: Request, res: Response) => {
 });
 
 // GET /api/audit - Get audit records with optional filtering
-router.get('/', async (req: Request, res: Response) => {
+router.get('/', authenticateToken, requireRole('agency_owner'), async (req: Request, res: Response) => {
   try {
     const {
       page,
@@ -138,7 +139,7 @@ router.get('/', async (req: Request, res: Response) => {
 });
 
 // GET /api/audit/users - Get unique users with their activity stats
-router.get('/users', async (req: Request, res: Response) => {
+router.get('/users', authenticateToken, requireRole('agency_owner'), async (req: Request, res: Response) => {
   try {
     const users = await queryMany<{
       username: string;
@@ -169,7 +170,7 @@ router.get('/users', async (req: Request, res: Response) => {
 });
 
 // GET /api/audit/stats - Get overall audit statistics
-router.get('/stats', async (req: Request, res: Response) => {
+router.get('/stats', authenticateToken, requireRole('agency_owner'), async (req: Request, res: Response) => {
   try {
     // Get total records
     const totalResult = await queryOne<{ total: number }>('SELECT COUNT(*) as total FROM audit');
@@ -221,7 +222,7 @@ router.get('/stats', async (req: Request, res: Response) => {
 });
 
 // GET /api/audit/:id - Get single audit record
-router.get('/:id', async (req: Request, res: Response) => {
+router.get('/:id', authenticateToken, requireRole('agency_owner'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
@@ -1,8 +1,28 @@
 import { Router, Request, Response } from 'express';
-import { getDb, queryOne, queryMany, execute } from '../utils/database';
-import { hashPassword, verifyPassword, createAccessToken } from '../utils/auth';
-import { authenticateToken } from '../middleware/auth';
-import { User, UserSignup } from '../models/types';
+import { hashPassword, verifyPassword, decodeToken } from '../utils/auth';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { UserSignup } from '../models/types';
+import { findUserById, findUserByEmail, listUsers, createUser, updateUser } from '../repositories/userRepository';
+import { listRolesByUser } from '../repositories/roleRepository';
+import { assignDefaultRole } from '../services/roles';
+import {
+  SessionError,
+  SessionClient,
+  startSession,
+  refreshSession,
+  endSession,
+  endSessionByRefreshToken,
+  endAllSessions
+} from '../services/sessions';
+import { listActiveSessions } from '../repositories/sessionRepository';
+import { OAuthError, isOAuthProvider, verifyIdToken } from '../services/oauthVerification';
+import { signInWithIdentity } from '../services/oauthAccounts';
+import {
+  AccountTokenError,
+  redeemToken,
+  sendVerificationEmail,
+  sendPasswordResetEmail
+} from '../services/accountTokens';
 import {
   canCreateListings,
   canRunEvaluations,
@@ -12,6 +32,13 @@ import {
 
 const router = Router();
 
+function sessionClient(req: Request): SessionClient {
+  return {
+    user_agent: req.headers['user-agent']?.slice(0, 500) || null,
+    ip_address: req.ip || req.socket.remoteAddress || null
+  };
+}
+
 // POST /api/auth/signup
 router.post('/signup', async (req: Request, res: Response) => {
   try {
@@ -23,10 +50,7 @@ router.post('/signup', async (req: Request, res: Response) => {
     }
 
     // Check if user already exists
-    const existingUser = await queryOne<User>(
-      'SELECT * FROM users WHERE email = @email',
-      { email }
-    );
+    const existingUser = await findUserByEmail(email);
 
     if (existingUser) {
       res.status(409).json({ detail: 'Email already registered' });
@@ -37,29 +61,37 @@ router.post('/signup', async (req: Request, res: Response) => {
     const userId = Date.now().toString();
     const now = new Date();
 
-    await execute(
-      `INSERT INTO users (id, email, username, hashed_password, subscription_tier, subscription_active, trial_active, created_at, is_active)
-       VALUES (@id, @email, @username, @hashed_password, 'free', 0, 0, @created_at, 1)`,
-      {
-        id: userId,
-        email,
-        username,
-        hashed_password: hashPassword(password),
-        created_at: now
-      }
-    );
+    await createUser({
+      id: userId,
+      email,
+      username,
+      hashed_password: hashPassword(password),
+      subscription_tier: 'free',
+      subscription_active: false,
+      trial_active: false,
+      created_at: now,
+      is_active: true
+    });
+    await assignDefaultRole(userId);
 
-    // Generate token
-    const accessToken = createAccessToken({ sub: userId, email });
+    // A failed email should not fail the signup; the user can ask for another
+    try {
+      await sendVerificationEmail({ id: userId, email, username });
+    } catch (mailError) {
+      console.error('Send verification email error:', mailError);
+    }
+
+    // Start a session with access and refresh tokens
+    const tokens = await startSession({ id: userId, email }, sessionClient(req));
 
     res.status(201).json({
-      access_token: accessToken,
-      token_type: 'bearer',
+      ...tokens,
       user: {
         id: userId,
         email,
         username,
-        subscription_tier: 'free'
+        subscription_tier: 'free',
+        email_verified: false
       }
     });
   } catch (error) {
@@ -81,10 +113,7 @@ router.post('/login', async (req: Request, res: Response) => {
     }
 
     // Find user by email
-    const user = await queryOne<User>(
-      'SELECT * FROM users WHERE email = @email',
-      { email: username }
-    );
+    const user = await findUserByEmail(username);
 
     if (!user || !verifyPassword(password, user.hashed_password || '')) {
       res.status(401).json({ detail: 'Invalid email or password' });
@@ -92,17 +121,13 @@ router.post('/login', async (req: Request, res: Response) => {
     }
 
     // Update last login
-    await execute(
-      'UPDATE users SET last_login = @last_login WHERE email = @email',
-      { last_login: new Date(), email: user.email }
-    );
+    await updateUser(user.id, { last_login: new Date() });
 
-    // Generate token
-    const accessToken = createAccessToken({ sub: user.id, email: user.email });
+    // Start a session with access and refresh tokens
+    const tokens = await startSession(user, sessionClient(req));
 
     res.json({
-      access_token: accessToken,
-      token_type: 'bearer',
+      ...tokens,
       user: {
         id: user.id,
         email: user.email,
@@ -117,6 +142,217 @@ router.post('/login', async (req: Request, res: Response) => {
   }
 });
 
+// POST /api/auth/refresh - Exchange a refresh token for new tokens: { refresh_token }
+router.post('/refresh', async (req: Request, res: Response) => {
+  try {
+    const { refresh_token } = req.body;
+
+    if (!refresh_token || typeof refresh_token !== 'string') {
+      res.status(400).json({ detail: 'refresh_token is required' });
+      return;
+    }
+
+    res.json(await refreshSession(refresh_token, sessionClient(req)));
+  } catch (error) {
+    if (error instanceof SessionError) {
+      res.status(error.status).json({ detail: error.message });
+      return;
+    }
+    console.error('Refresh token error:', error);
+    res.status(500).json({ detail: 'Failed to refresh token' });
+  }
+});
+
+// POST /api/auth/logout - End the session of { refresh_token }, or of the bearer token
+router.post('/logout', async (req: Request, res: Response) => {
+  try {
+    const { refresh_token } = req.body || {};
+
+    if (refresh_token && typeof refresh_token === 'string') {
+      await endSessionByRefreshToken(refresh_token);
+      res.json({ success: true });
+      return;
+    }
+
+    const accessToken = req.headers.authorization?.split(' ')[1];
+    const payload = accessToken ? decodeToken(accessToken) : null;
+    if (!payload) {
+      res.status(400).json({ detail: 'refresh_token or a valid bearer token is required' });
+      return;
+    }
+
+    if (payload.sid) {
+      await endSession(payload.sid, payload.sub, 'logout');
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ detail: 'Logout failed' });
+  }
+});
+
+// GET /api/auth/sessions - Active sessions of the signed-in user
+router.get('/sessions', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const sessions = await listActiveSessions(req.user!.id);
+
+    res.json({
+      sessions: sessions.map(session => ({
+        id: session.id,
+        user_agent: session.user_agent,
+        ip_address: session.ip_address,
+        created_at: session.created_at,
+        last_used_at: session.last_used_at,
+        expires_at: session.expires_at,
+        current: session.id === req.sessionId
+      })),
+      total: sessions.length
+    });
+  } catch (error) {
+    console.error('List sessions error:', error);
+    res.status(500).json({ detail: 'Failed to list sessions' });
+  }
+});
+
+// DELETE /api/auth/sessions?keep_current=true - Revoke all sessions, optionally keeping this one
+router.delete('/sessions', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const keepCurrent = req.query.keep_current === 'true' && req.sessionId ? req.sessionId : undefined;
+    const revoked = await endAllSessions(req.user!.id, 'revoked_all', keepCurrent);
+
+    res.json({ success: true, revoked });
+  } catch (error) {
+    console.error('Revoke sessions error:', error);
+    res.status(500).json({ detail: 'Failed to revoke sessions' });
+  }
+});
+
+// DELETE /api/auth/sessions/:sessionId
+router.delete('/sessions/:sessionId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const revoked = await endSession(req.params.sessionId, req.user!.id, 'revoked');
+
+    if (!revoked) {
+      res.status(404).json({ detail: 'Session not found' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ detail: 'Failed to revoke session' });
+  }
+});
+
+// POST /api/auth/verify-email - Confirm an email address: { token }
+router.post('/verify-email', async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+
+    if (!token || typeof token !== 'string') {
+      res.status(400).json({ detail: 'token is required' });
+      return;
+    }
+
+    const userId = await redeemToken(token, 'verify_email');
+    await updateUser(userId, { email_verified: true, email_verified_at: new Date() });
+
+    res.json({ success: true, email_verified: true });
+  } catch (error) {
+    if (error instanceof AccountTokenError) {
+      res.status(error.status).json({ detail: error.message });
+      return;
+    }
+    console.error('Verify email error:', error);
+    res.status(500).json({ detail: 'Failed to verify email' });
+  }
+});
+
+// POST /api/auth/resend-verification - Send the signed-in user a new verification link
+router.post('/resend-verification', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+
+    if (user.email_verified) {
+      res.status(400).json({ detail: 'Email is already verified' });
+      return;
+    }
+
+    await sendVerificationEmail(user);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({ detail: 'Failed to send verification email' });
+  }
+});
+
+// POST /api/auth/forgot-password - Email a password reset link: { email }
+// Answers the same whether or not the address has an account
+router.post('/forgot-password', async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+
+    if (!email || typeof email !== 'string') {
+      res.status(400).json({ detail: 'Email is required' });
+      return;
+    }
+
+    // A failed send is logged, not reported, so the response never reveals whether the account exists
+    const user = await findUserByEmail(email);
+    if (user && user.is_active) {
+      try {
+        await sendPasswordResetEmail(user);
+      } catch (mailError) {
+        console.error('Send password reset email error:', mailError);
+      }
+    }
+
+    res.json({
+      success: true,
+      message: 'If an account exists for that email, a password reset link has been sent'
+    });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ detail: 'Failed to send password reset email' });
+  }
+});
+
+// POST /api/auth/reset-password - Set a new password: { token, password }
+// Signs the user out everywhere
+router.post('/reset-password', async (req: Request, res: Response) => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || typeof token !== 'string' || !password || typeof password !== 'string') {
+      res.status(400).json({ detail: 'token and password are required' });
+      return;
+    }
+
+    const userId = await redeemToken(token, 'reset_password');
+    const user = await findUserById(userId);
+    if (!user || !user.is_active) {
+      res.status(400).json({ detail: 'Invalid or expired token' });
+      return;
+    }
+
+    // Following the emailed link also proves the address
+    await updateUser(user.id, {
+      hashed_password: hashPassword(password),
+      ...(user.email_verified ? {} : { email_verified: true, email_verified_at: new Date() })
+    });
+    await endAllSessions(user.id, 'password_reset');
+
+    res.json({ success: true });
+  } catch (error) {
+    if (error instanceof AccountTokenError) {
+      res.status(error.status).json({ detail: error.message });
+      return;
+    }
+    console.error('Reset password error:', error);
+    res.status(500).json({ detail: 'Failed to reset password' });
+  }
+});
+
 // GET /api/auth/me
 router.get('/me', authenticateToken, async (req: Request, res: Response) => {
   try {
@@ -131,7 +367,9 @@ router.get('/me', authenticateToken, async (req: Request, res: Response) => {
       subscription_end_date: user.subscription_end_date,
       trial_active: user.trial_active || false,
       trial_end_date: user.trial_end_date,
-      created_at: user.created_at
+      created_at: user.created_at,
+      email_verified: user.email_verified || false,
+      roles: user.roles || []
     });
   } catch (error) {
     console.error('Get me error:', error);
@@ -139,80 +377,51 @@ router.get('/me', authenticateToken, async (req: Request, res: Response) => {
   }
 });
 
-// POST /api/auth/oauth-sync - Sync OAuth user to users table
-router.post('/oauth-sync', async (req: Request, res: Response) => {
+async function oauthSignIn(req: Request, res: Response, provider: unknown): Promise<void> {
   try {
-    const { email, name, provider, picture } = req.body;
+    const { id_token } = req.body;
 
-    if (!email) {
-      res.status(400).json({ detail: 'Email is required' });
+    if (!isOAuthProvider(provider)) {
+      res.status(400).json({ detail: 'provider must be google or microsoft' });
+      return;
+    }
+    if (!id_token || typeof id_token !== 'string') {
+      res.status(400).json({ detail: 'id_token is required' });
       return;
     }
 
-    // Check if user already exists
-    const existingUser = await queryOne<User>(
-      'SELECT * FROM users WHERE email = @email',
-      { email }
-    );
+    const identity = await verifyIdToken(provider, id_token);
+    const { user, isNew } = await signInWithIdentity(identity);
+    const tokens = await startSession(user, sessionClient(req));
 
-    if (existingUser) {
-      // Update last login and optionally name/picture
-      await execute(
-        `UPDATE users SET last_login = @last_login,
-         username = COALESCE(@username, username),
-         picture = COALESCE(@picture, picture)
-         WHERE email = @email`,
-        {
-          last_login: new Date(),
-          username: name || null,
-          picture: picture || null,
-          email
-        }
-      );
-
-      res.json({
-        success: true,
-        user: {
-          id: existingUser.id,
-          email: existingUser.email,
-          username: name || existingUser.username,
-          isNew: false
-        }
-      });
-    } else {
-      // Create new user
-      const userId = Date.now().toString();
-      const now = new Date();
-
-      await execute(
-        `INSERT INTO users (id, email, username, hashed_password, subscription_tier, subscription_active, trial_active, created_at, last_login, is_active, auth_provider, picture)
-         VALUES (@id, @email, @username, '', 'free', 0, 0, @created_at, @last_login, 1, @auth_provider, @picture)`,
-        {
-          id: userId,
-          email,
-          username: name || email.split('@')[0],
-          created_at: now,
-          last_login: now,
-          auth_provider: provider || 'oauth',
-          picture: picture || null
-        }
-      );
-
-      res.status(201).json({
-        success: true,
-        user: {
-          id: userId,
-          email,
-          username: name || email.split('@')[0],
-          isNew: true
-        }
-      });
-    }
+    res.status(isNew ? 201 : 200).json({
+      success: true,
+      ...tokens,
+      user: {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        subscription_tier: user.subscription_tier || 'free',
+        subscription_active: user.subscription_active || false,
+        email_verified: user.email_verified || false,
+        isNew
+      }
+    });
   } catch (error) {
-    console.error('OAuth sync error:', error);
-    res.status(500).json({ detail: 'Failed to sync OAuth user' });
+    if (error instanceof OAuthError) {
+      res.status(error.status).json({ detail: error.message });
+      return;
+    }
+    console.error('OAuth sign-in error:', error);
+    res.status(500).json({ detail: 'OAuth sign-in failed' });
   }
-});
+}
+
+// POST /api/auth/oauth/:provider - Sign in with a Google or Microsoft ID token: { id_token }
+router.post('/oauth/:provider', (req: Request, res: Response) => oauthSignIn(req, res, req.params.provider));
+
+// POST /api/auth/oauth-sync - Older name for the above: { provider, id_token }
+router.post('/oauth-sync', (req: Request, res: Response) => oauthSignIn(req, res, req.body.provider));
 
 // GET /api/auth/subscription-status
 router.get('/subscription-status', authenticateToken, async (req: Request, res: Response) => {
@@ -245,20 +454,14 @@ router.get('/subscription-status', authenticateToken, async (req: Request, res:
   }
 });
 
-// GET /api/auth/users - Get all users (admin endpoint)
-router.get('/users', async (req: Request, res: Response) => {
+// GET /api/auth/users - Get all users with their roles (admin only)
+router.get('/users', authenticateToken, requireRole('admin'), async (req: Request, res: Response) => {
   try {
-    const users = await queryMany<User>(
-      `SELECT id, email, username, subscription_tier, subscription_active, subscription_end_date,
-              trial_active, trial_end_date, stripe_customer_id, stripe_subscription_id,
-              created_at, last_login, is_active, auth_provider, picture, admin
-       FROM users
-       ORDER BY last_login DESC`
-    );
+    const [users, rolesByUser] = await Promise.all([listUsers(), listRolesByUser()]);
 
     res.json({
       success: true,
-      users,
+      users: users.map(user => ({ ...user, roles: rolesByUser.get(user.id) || [] })),
       total: users.length
     });
   } catch (error) {
@@ -1,150 +1,83 @@
 import { Router, Request, Response } from 'express';
-import { v4 as uuidv4 } from 'uuid';
-import { PropertyCreate } from '../models/types';
-import { getComparableProperties } from '../services/domainApi';
-import { searchComparableSales as getCoreLogicComparables, getPropertyAVM } from '../services/corelogicApi';
-import { scrapeComparableProperties } from '../services/propertyScraper';
-import { queryOne, execute } from '../utils/database';
+import { PropertyCreate, StatisticalValuation, StructuredValuation } from '../models/types';
+import { fetchComparables } from '../services/comparablesProviders';
+import { computeStatisticalValuation, getAnnualGrowthPercent } from '../services/statisticalAvm';
+import { computeConfidenceScoring } from '../services/confidenceScoring';
+import {
+  VALUATION_JSON_SCHEMA,
+  validateStructuredValuation,
+  structuredFromStatistical,
+  renderValuationMarkdown
+} from '../services/valuationReport';
+import { getActiveProfile } from '../services/weightProfiles';
+import { requireUser, requireRole } from '../middleware/auth';
+import { hasRole } from '../services/roles';
+import {
+  EvaluationJob,
+  createJob,
+  getJob,
+  getJobResult,
+  listJobs,
+  cancelJob,
+  retryJob,
+  purgeExpiredJobs,
+  recoverOrphanedJobs,
+  getJobEvents,
+  recordJobEvent,
+  updateJobStage,
+  registerJobProcessor,
+  drainQueue,
+  isTransientError,
+  ownsJob
+} from '../services/evaluationJobs';
 import OpenAI from 'openai';
 
 const router = Router();
 
-// Job interface for database storage
-interface EvaluationJob {
-  job_id: string;
-  status: 'queued' | 'in_progress' | 'completed' | 'failed';
-  stage: string;
-  created_at: string;
-  completed_at?: string;
-  failed_at?: string;
-  property_data?: PropertyCreate;
-  result?: any;
-  error?: string;
-}
-
-// Helper functions for database job storage
-async function getJob(jobId: string): Promise<EvaluationJob | null> {
-  try {
-    const job = await queryOne<{ job_id: string; created_at: Date; property_data: string; stage: string; status: string }>(
-      `SELECT * FROM evaluation_jobs WHERE job_id = @jobId`,
-      { jobId }
-    );
-    if (!job) return null;
-
-    return {
-      job_id: job.job_id,
-      status: job.status as EvaluationJob['status'],
-      stage: job.stage,
-      created_at: job.created_at?.toISOString() || new Date().toISOString(),
-      property_data: job.property_data ? JSON.parse(job.property_data) : undefined
-    };
-  } catch (e) {
-    console.error('Error getting job:', e);
-    return null;
-  }
-}
+router.use(requireUser);
 
-async function saveJob(job: EvaluationJob): Promise<void> {
-  try {
-    const existing = await queryOne<{ job_id: string }>(
-      `SELECT job_id FROM evaluation_jobs WHERE job_id = @jobId`,
-      { jobId: job.job_id }
-    );
-
-    if (existing) {
-      await execute(
-        `UPDATE evaluation_jobs SET status = @status, stage = @stage, property_data = @property_data WHERE job_id = @jobId`,
-        {
-          jobId: job.job_id,
-          status: job.status,
-          stage: job.stage,
-          property_data: job.property_data ? JSON.stringify(job.property_data) : null
-        }
-      );
-    } else {
-      await execute(
-        `INSERT INTO evaluation_jobs (job_id, created_at, property_data, stage, status) VALUES (@jobId, @created_at, @property_data, @stage, @status)`,
-        {
-          jobId: job.job_id,
-          created_at: new Date(job.created_at),
-          property_data: job.property_data ? JSON.stringify(job.property_data) : null,
-          stage: job.stage,
-          status: job.status
-        }
-      );
-    }
-  } catch (e) {
-    console.error('Error saving job:', e);
-  }
-}
-
-async function deleteJob(jobId: string): Promise<void> {
-  try {
-    await execute(`DELETE FROM evaluation_jobs WHERE job_id = @jobId`, { jobId });
-  } catch (e) {
-    console.error('Error deleting job:', e);
-  }
-}
+const JOB_STATUSES: EvaluationJob['status'][] = ['queued', 'in_progress', 'completed', 'failed', 'cancelled'];
 
-// API Keys interface
-interface ApiKeys {
-  domain_api_key: string | null;
-  corelogic_client_key: string | null;
-  corelogic_secret_key: string | null;
+function parseDate(value: unknown): Date | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
 }
 
-// Get API keys from environment or settings
-async function getApiKeys(): Promise<ApiKeys> {
-  const keys: ApiKeys = {
-    domain_api_key: process.env.DOMAIN_API_KEY || null,
-    corelogic_client_key: process.env.CORELOGIC_CLIENT_KEY || null,
-    corelogic_secret_key: process.env.CORELOGIC_SECRET_KEY || null
-  };
-
-  // Fallback to database settings
-  try {
-    const setting = await queryOne<{ setting_id: string; setting_data: string }>(
-      `SELECT * FROM settings WHERE setting_id = 'api_keys'`
-    );
-    if (setting && setting.setting_data) {
-      const settings = JSON.parse(setting.setting_data);
-      if (!keys.domain_api_key && settings.domain_api_key) {
-        keys.domain_api_key = settings.domain_api_key;
-      }
-      if (!keys.corelogic_client_key && settings.corelogic_client_key) {
-        keys.corelogic_client_key = settings.corelogic_client_key;
-      }
-      if (!keys.corelogic_secret_key && settings.corelogic_secret_key) {
-        keys.corelogic_secret_key = settings.corelogic_secret_key;
-      }
-    }
-  } catch (e) {
-    console.error('Error fetching API keys from database:', e);
-  }
-
-  return keys;
+interface EvaluationOutput {
+  report: string;
+  structured: StructuredValuation | null;
+  source: 'ai' | 'statistical' | 'none';
 }
 
 // Generate evaluation report using OpenAI
 async function generateEvaluationWithAI(
   propertyData: PropertyCreate,
   comparablesData: any,
-  pricePerSqm: number | null
-): Promise<string> {
+  valuation: StatisticalValuation | null,
+  finalAttempt: boolean = true
+): Promise<EvaluationOutput> {
   const openaiKey = process.env.OPENAI_API_KEY;
 
   if (!openaiKey) {
-    throw new Error('OPENAI_API_KEY environment variable is not set');
+    console.log('[OpenAI] OPENAI_API_KEY not set, using statistical valuation report');
+    return generateBasicReport(propertyData, comparablesData, valuation);
   }
 
   try {
     const openai = new OpenAI({ apiKey: openaiKey });
 
     let comparablesText = '';
-    if (comparablesData?.comparable_sold?.length > 0) {
+    if (valuation) {
+      comparablesText = 'COMPARABLE SOLD PROPERTIES (adjusted to the subject by the statistical model):\n';
+      for (const comp of valuation.comparables.filter(c => c.included)) {
+        const a = comp.adjustments;
+        comparablesText += `- ${comp.address}: sold $${comp.sold_price.toLocaleString()} (${comp.sold_date || 'date unknown'}) | time ${formatAdjustment(a.time)}, land ${formatAdjustment(a.land)}, beds ${formatAdjustment(a.bedrooms)}, baths ${formatAdjustment(a.bathrooms)}, type ${formatAdjustment(a.property_type)} | adjusted $${comp.adjusted_price.toLocaleString()}\n`;
+      }
+    } else if (comparablesData?.comparable_sold?.length > 0) {
       comparablesText = 'COMPARABLE SOLD PROPERTIES:\n';
       for (const comp of comparablesData.comparable_sold.slice(0, 5)) {
-        const landAreaText = comp.land_area ? `${comp.land_area}m²` : 'N/A';
+        const landAreaText = comp.land_size ? `${comp.land_size}m²` : 'N/A';
         comparablesText += `- ${comp.address}: $${comp.price?.toLocaleString() || 'N/A'} | ${comp.beds || 'N/A'} bed, ${comp.baths || 'N/A'} bath, ${landAreaText} land | Sold: ${comp.sold_date || 'Recently'}\n`;
       }
     }
@@ -161,6 +94,18 @@ MARKET STATISTICS (${stats.total_found || 0} comparable properties):
 `;
     }
 
+    let valuationText = '';
+    if (valuation) {
+      valuationText = `
+STATISTICAL VALUATION (ground truth - computed from ${valuation.comparables_used} adjusted comparable sales):
+- Estimate: $${valuation.estimate.toLocaleString()}
+- Range: $${valuation.low.toLocaleString()} - $${valuation.high.toLocaleString()}
+- Confidence: ${valuation.confidence_level} (${valuation.confidence_score}/100)
+- Annual growth used for time adjustment: ${valuation.annual_growth_percent}%
+Your Market Value MUST fall within the statistical range. Use the adjusted prices above rather than re-deriving your own adjustments; explain any qualitative (condition, views, finishes) factors relative to this estimate.
+`;
+    }
+
     // Calculate time since each comparable sale for time adjustment context
     const today = new Date();
 
@@ -178,6 +123,7 @@ SUBJECT PROPERTY:
 ${comparablesText}
 
 ${statsText}
+${valuationText}
 
 IMPORTANT VALUATION ADJUSTMENTS:
 You MUST adjust comparable sale prices for differences between the comparable and the subject property:
@@ -199,280 +145,428 @@ You MUST adjust comparable sale prices for differences between the comparable an
 
 4. **NEVER value a SUPERIOR property LOWER than an INFERIOR comparable** - this is a fundamental valuation error.
 
-Provide:
-### Estimated Value Range
-- Conservative: $X
-- Market Value: $Y
-- Premium/Well-Presented: $Z
-
-### Adjustment Analysis
-Show your workings - how you adjusted each comparable sale price to estimate the subject property value.
-
-### Comparable Sales Analysis
-Reference specific recent sales with addresses, prices, and the adjustments you applied.
-
-### Market Insights
-- Current buyer demand
-- Typical days on market
-- Price trends
-
-### Pricing Strategy Recommendation
-Specific advice for this property.`;
+Respond with JSON only:
+- estimated_value: conservative, market and premium/well-presented values in dollars (conservative <= market <= premium)
+- comparable_adjustments: one entry per comparable sale you relied on, with each adjustment as { factor, amount (dollars, negative to subtract), reason } and the resulting adjusted_price
+- adjustment_summary: your workings - how the adjusted comparables lead to the market value
+- market_insights: current buyer_demand, typical days_on_market and price_trends
+- pricing_strategy: specific advice for this property
+- summary: a two or three sentence overview of the valuation`;
 
     const completion = await openai.chat.completions.create({
       model: 'gpt-4o',
       messages: [{ role: 'user', content: prompt }],
       max_tokens: 2500,
-      temperature: 0.7
+      temperature: 0.7,
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'property_valuation', strict: true, schema: VALUATION_JSON_SCHEMA }
+      }
     });
 
-    return completion.choices[0]?.message?.content || generateBasicReport(propertyData, comparablesData, pricePerSqm);
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      console.error('[OpenAI] Empty response, using statistical valuation report');
+      return generateBasicReport(propertyData, comparablesData, valuation);
+    }
+
+    const result = validateStructuredValuation(JSON.parse(content));
+    if (!result.valid) {
+      console.error('[OpenAI] Response failed validation:', result.errors.join('; '));
+      return generateBasicReport(propertyData, comparablesData, valuation);
+    }
+
+    return {
+      report: renderValuationMarkdown(propertyData, result.valuation),
+      structured: result.valuation,
+      source: 'ai'
+    };
 
   } catch (error: any) {
     console.error('[OpenAI] Error generating evaluation:', error.message);
-    return generateBasicReport(propertyData, comparablesData, pricePerSqm);
+    // Let the queue retry provider hiccups; only settle for the basic report on the last attempt
+    if (!finalAttempt && isTransientError(error)) {
+      throw error;
+    }
+    return generateBasicReport(propertyData, comparablesData, valuation);
   }
 }
 
+function formatAdjustment(amount: number): string {
+  if (!amount) return '$0';
+  return `${amount > 0 ? '+' : '-'}$${Math.abs(amount).toLocaleString()}`;
+}
+
 function generateBasicReport(
   propertyData: PropertyCreate,
   comparablesData: any,
-  pricePerSqm: number | null
-): string {
-  const stats = comparablesData?.statistics || {};
-  const range = stats.price_range || {};
-
-  let estimatedPrice = range.median || range.avg || 0;
-
-  if (!estimatedPrice) {
-    estimatedPrice = 500000;
-    estimatedPrice += (propertyData.beds || 0) * 100000;
-    estimatedPrice += (propertyData.baths || 0) * 50000;
-    estimatedPrice += (propertyData.carpark || 0) * 30000;
-    if (propertyData.size) {
-      estimatedPrice += propertyData.size * 3000;
-    }
+  valuation: StatisticalValuation | null
+): EvaluationOutput {
+  if (valuation) {
+    const structured = structuredFromStatistical(valuation);
+    return {
+      report: renderValuationMarkdown(propertyData, structured),
+      structured,
+      source: 'statistical'
+    };
   }
 
-  const lowerRange = Math.round(estimatedPrice * 0.95);
-  const upperRange = Math.round(estimatedPrice * 1.05);
-
-  return `PROPERTY VALUATION REPORT
+  return {
+    report: `PROPERTY VALUATION REPORT
 
 PROPERTY: ${propertyData.location}
 TYPE: ${propertyData.property_type || 'Not specified'}
 CONFIGURATION: ${propertyData.beds} bed, ${propertyData.baths} bath, ${propertyData.carpark} car
 
 ESTIMATED VALUE RANGE
-Conservative: $${lowerRange.toLocaleString()}
-Market: $${estimatedPrice.toLocaleString()}
-Premium: $${upperRange.toLocaleString()}
-
+Insufficient comparable sales were found to produce an estimate.
+${comparablesData?.statistics?.total_found ? `${comparablesData.statistics.total_found} listings were found but no usable sold prices.\n` : ''}
 DISCLAIMER
-This is a preliminary estimate. For an accurate valuation, consult a licensed property valuer.`;
+This is a preliminary estimate. For an accurate valuation, consult a licensed property valuer.`,
+    structured: null,
+    source: 'none'
+  };
 }
 
-// In-memory job results storage (since we can't store large JSON in evaluation_jobs)
-const jobResults: Map<string, any> = new Map();
+async function runQuickEvaluation(job: EvaluationJob, context: { finalAttempt: boolean }) {
+  const jobId = job.job_id;
+  const propertyData = job.property_data as PropertyCreate;
+
+  await updateJobStage(jobId, 'fetching_data');
+
+  console.log(`[Job ${jobId}] Starting evaluation for ${propertyData.location}`);
+
+  const comparablesData = await fetchComparables(
+    {
+      location: propertyData.location,
+      beds: propertyData.beds || 3,
+      baths: propertyData.baths || 2,
+      property_type: propertyData.property_type || 'House',
+      land_area: propertyData.size,
+      latitude: propertyData.latitude,
+      longitude: propertyData.longitude,
+      neighbouring_suburb: propertyData.neighbouring_suburb
+    },
+    { onEvent: (provider, status, extra) => recordJobEvent(jobId, 'provider', { provider, status, ...extra }) }
+  );
+
+  await updateJobStage(jobId, 'calculating_valuation');
+
+  const valuation = computeStatisticalValuation(
+    {
+      beds: propertyData.beds ?? null,
+      baths: propertyData.baths ?? null,
+      property_type: propertyData.property_type || null,
+      land_area: propertyData.size ?? null,
+      latitude: propertyData.latitude,
+      longitude: propertyData.longitude
+    },
+    comparablesData.comparable_sold,
+    await getActiveProfile(),
+    await getAnnualGrowthPercent()
+  );
+
+  const confidenceScoring = computeConfidenceScoring(
+    {
+      beds: propertyData.beds ?? null,
+      baths: propertyData.baths ?? null,
+      latitude: propertyData.latitude,
+      longitude: propertyData.longitude,
+      neighbouring_suburb: propertyData.neighbouring_suburb
+    },
+    comparablesData.comparable_sold,
+    valuation
+  );
+
+  if (valuation) {
+    console.log(`[Job ${jobId}] Statistical valuation $${valuation.estimate.toLocaleString()} (${valuation.confidence_level} confidence)`);
+  }
 
-async function runQuickEvaluation(jobId: string, propertyData: PropertyCreate) {
-  let job = await getJob(jobId);
-  if (!job) return;
+  await updateJobStage(jobId, 'generating_evaluation');
 
-  try {
-    job.status = 'in_progress';
-    job.stage = 'fetching_data';
-    await saveJob(job);
+  let pricePerSqm: number | null = null;
+  if (propertyData.size && comparablesData.statistics?.price_range?.avg) {
+    pricePerSqm = Math.round(comparablesData.statistics.price_range.avg / propertyData.size);
+  }
 
-    console.log(`[Job ${jobId}] Starting evaluation for ${propertyData.location}`);
+  const evaluation = await generateEvaluationWithAI(propertyData, comparablesData, valuation, context.finalAttempt);
 
-    const apiKeys = await getApiKeys();
+  return {
+    evaluation_report: evaluation.report,
+    structured_valuation: evaluation.structured,
+    report_source: evaluation.source,
+    statistical_valuation: valuation,
+    confidence_scoring: confidenceScoring,
+    comparables_data: comparablesData,
+    price_per_sqm: pricePerSqm
+  };
+}
 
-    let comparablesData: any = {
-      comparable_sold: [],
-      comparable_listings: [],
-      statistics: { total_found: 0, price_range: {} }
-    };
+registerJobProcessor(runQuickEvaluation);
 
-    let corelogicAVM: any = null;
-
-    // Try CoreLogic first
-    if (apiKeys.corelogic_client_key && apiKeys.corelogic_secret_key) {
-      console.log(`[Job ${jobId}] Using CoreLogic API`);
-      try {
-        corelogicAVM = await getPropertyAVM(
-          apiKeys.corelogic_client_key,
-          apiKeys.corelogic_secret_key,
-          propertyData.location.split(',')[0].trim(),
-          propertyData.location
-        );
-
-        const corelogicComps = await getCoreLogicComparables(
-          apiKeys.corelogic_client_key,
-          apiKeys.corelogic_secret_key,
-          propertyData.location,
-          propertyData.beds || 3,
-          propertyData.baths || 2,
-          propertyData.property_type || 'House'
-        );
-
-        if (corelogicComps.statistics.total_found > 0) {
-          comparablesData = corelogicComps;
-          comparablesData.corelogic_avm = corelogicAVM;
-        }
-      } catch (e: any) {
-        console.error(`[Job ${jobId}] CoreLogic error:`, e.message);
-      }
-    }
+// POST /api/evaluate-quick
+router.post('/', requireRole('agent'), async (req: Request, res: Response) => {
+  try {
+    const propertyData = req.body as PropertyCreate;
 
-    // Fallback to Domain API
-    if (comparablesData.statistics.total_found === 0 && apiKeys.domain_api_key) {
-      console.log(`[Job ${jobId}] Using Domain API`);
-      try {
-        comparablesData = await getComparableProperties(
-          apiKeys.domain_api_key,
-          propertyData.location,
-          propertyData.beds || 3,
-          propertyData.baths || 2,
-          propertyData.property_type || 'House'
-        );
-        if (corelogicAVM) {
-          comparablesData.corelogic_avm = corelogicAVM;
-        }
-      } catch (e: any) {
-        console.error(`[Job ${jobId}] Domain API error:`, e.message);
-      }
+    if (!propertyData.location) {
+      res.status(400).json({ detail: 'Location is required' });
+      return;
     }
 
-    // Fallback to web scraping
-    if (comparablesData.statistics.total_found < 3) {
-      console.log(`[Job ${jobId}] Using web scraping`);
-      try {
-        const scrapedData = await scrapeComparableProperties(
-          propertyData.location,
-          propertyData.beds || 3,
-          propertyData.baths || 2,
-          propertyData.property_type || 'house'
-        );
-
-        if (scrapedData.statistics.total_found > 0) {
-          if (comparablesData.statistics.total_found === 0) {
-            comparablesData = scrapedData;
-          } else {
-            comparablesData.comparable_listings = [
-              ...comparablesData.comparable_listings,
-              ...scrapedData.comparable_listings
-            ].slice(0, 5);
-          }
-          if (corelogicAVM) {
-            comparablesData.corelogic_avm = corelogicAVM;
-          }
-        }
-      } catch (e: any) {
-        console.error(`[Job ${jobId}] Web scraping error:`, e.message);
-      }
-    }
+    const job = await createJob(propertyData, req.user!.email);
+
+    // Start work immediately on this instance; the worker loop picks up anything left behind
+    drainQueue();
+
+    console.log(`[Job ${job.job_id}] Quick evaluation queued for ${propertyData.location}`);
 
-    job.stage = 'generating_evaluation';
-    await saveJob(job);
+    res.json({
+      success: true,
+      job_id: job.job_id,
+      message: 'Evaluation started. Use job_id to poll for status.'
+    });
+  } catch (error: any) {
+    console.error('Error starting quick evaluation:', error);
+    res.status(500).json({ detail: `Failed to start evaluation: ${error.message}` });
+  }
+});
 
-    let pricePerSqm: number | null = null;
-    if (propertyData.size && comparablesData.statistics?.price_range?.avg) {
-      pricePerSqm = Math.round(comparablesData.statistics.price_range.avg / propertyData.size);
+// GET /api/evaluate-quick?status=&from=&to=&limit=&offset=
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status as EvaluationJob['status'] | undefined;
+    if (status && !JOB_STATUSES.includes(status)) {
+      res.status(400).json({ detail: `Invalid status. Must be one of: ${JOB_STATUSES.join(', ')}` });
+      return;
     }
 
-    const evaluationReport = await generateEvaluationWithAI(propertyData, comparablesData, pricePerSqm);
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if (from === null || to === null) {
+      res.status(400).json({ detail: 'Invalid from/to date' });
+      return;
+    }
 
-    job.status = 'completed';
-    job.stage = 'completed';
-    job.completed_at = new Date().toISOString();
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 50, 1), 200);
+    const offset = Math.max(parseInt(req.query.offset as string, 10) || 0, 0);
 
-    // Store result in memory
-    jobResults.set(jobId, {
-      evaluation_report: evaluationReport,
-      comparables_data: comparablesData,
-      price_per_sqm: pricePerSqm
-    });
+    // Serverless instances have no worker loop to recover orphaned jobs or purge expired ones
+    recoverOrphanedJobs().catch(e => console.error('[Evaluation Queue] Recovery error:', e));
+    purgeExpiredJobs().catch(e => console.error('[Evaluation Queue] Purge error:', e));
 
-    delete job.property_data;
-    await saveJob(job);
+    const { jobs, total } = await listJobs({ userEmail: hasRole(req.user, 'admin') ? undefined : req.user!.email, status, from, to, limit, offset });
 
-    console.log(`[Job ${jobId}] Evaluation completed`);
+    res.json({
+      jobs: jobs.map(job => ({
+        job_id: job.job_id,
+        status: job.status,
+        stage: job.stage,
+        location: job.property_data?.location,
+        attempts: job.attempts,
+        created_at: job.created_at,
+        completed_at: job.completed_at,
+        failed_at: job.failed_at,
+        cancelled_at: job.cancelled_at,
+        expires_at: job.expires_at,
+        error: job.error
+      })),
+      total,
+      limit,
+      offset
+    });
   } catch (error: any) {
-    console.error(`[Job ${jobId}] Evaluation failed:`, error.message);
-    if (job) {
-      job.status = 'failed';
-      job.stage = 'failed';
-      job.error = error.message;
-      await saveJob(job);
-    }
+    console.error('Error listing evaluation jobs:', error);
+    res.status(500).json({ detail: 'Failed to list evaluation jobs' });
   }
-}
+});
 
-// POST /api/evaluate-quick
-router.post('/', async (req: Request, res: Response) => {
+// GET /api/evaluate-quick/:jobId/status
+router.get('/:jobId/status', async (req: Request, res: Response) => {
   try {
-    const propertyData = req.body as PropertyCreate;
+    const { jobId } = req.params;
 
-    if (!propertyData.location) {
-      res.status(400).json({ detail: 'Location is required' });
+    let job = await getJob(jobId);
+
+    if (!job || !ownsJob(job, req.user)) {
+      res.status(404).json({ detail: 'Job not found or expired' });
       return;
     }
 
-    const jobId = uuidv4();
+    // Serverless instances have no worker loop, so polling also takes back a job
+    // whose worker died and nudges the queue
+    if (job.status === 'in_progress' && (await recoverOrphanedJobs(jobId)) > 0) {
+      job = (await getJob(jobId)) || job;
+    }
+    if (job.status === 'queued') {
+      drainQueue();
+    }
 
-    const job: EvaluationJob = {
-      job_id: jobId,
-      status: 'queued',
-      stage: 'queued',
-      created_at: new Date().toISOString(),
-      property_data: propertyData
+    const response: any = {
+      status: job.status,
+      stage: job.stage,
+      attempts: job.attempts
     };
 
-    await saveJob(job);
-    runQuickEvaluation(jobId, propertyData);
+    if (job.expires_at) {
+      response.expires_at = job.expires_at;
+    }
 
-    console.log(`[Job ${jobId}] Quick evaluation started for ${propertyData.location}`);
+    if (job.status === 'completed') {
+      response.result = await getJobResult(jobId);
+    }
 
-    res.json({
-      success: true,
-      job_id: jobId,
-      message: 'Evaluation started. Use job_id to poll for status.'
-    });
+    if (job.status === 'failed' && job.error) {
+      response.error = job.error;
+    }
+
+    res.json(response);
   } catch (error: any) {
-    console.error('Error starting quick evaluation:', error);
-    res.status(500).json({ detail: `Failed to start evaluation: ${error.message}` });
+    console.error('Error getting evaluation job status:', error);
+    res.status(500).json({ detail: 'Failed to get evaluation job status' });
   }
 });
 
-// GET /api/evaluate-quick/:jobId/status
-router.get('/:jobId/status', async (req: Request, res: Response) => {
+// GET /api/evaluate-quick/:jobId/events
+// Server-Sent Events: stage, provider and status events, then a final completed/failed/cancelled event.
+// Events are read from the database so the stream works whichever instance runs the job;
+// a failed read is retried on the next tick rather than ending the stream.
+router.get('/:jobId/events', async (req: Request, res: Response) => {
   const { jobId } = req.params;
 
-  const job = await getJob(jobId);
-
-  if (!job) {
+  let job: EvaluationJob | null;
+  try {
+    job = await getJob(jobId);
+  } catch (error: any) {
+    console.error('Error getting evaluation job:', error);
+    res.status(500).json({ detail: 'Failed to get evaluation job' });
+    return;
+  }
+  if (!job || !ownsJob(job, req.user)) {
     res.status(404).json({ detail: 'Job not found or expired' });
     return;
   }
 
-  const response: any = {
-    status: job.status,
-    stage: job.stage
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+
+  const send = (event: string, data: any, id?: number) => {
+    if (id !== undefined) res.write(`id: ${id}\n`);
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
   };
 
-  if (job.status === 'completed') {
-    response.result = jobResults.get(jobId);
-    jobResults.delete(jobId);
-    deleteJob(jobId);
+  // Resume after the last event the client saw when it reconnects
+  let lastEventId = parseInt(String(req.headers['last-event-id'] || '0'), 10) || 0;
+  let lastStatus: string | null = null;
+  let closed = false;
+  let ticks = 0;
+
+  res.on('close', () => { closed = true; });
+
+  if (job.status === 'queued') {
+    drainQueue();
   }
 
-  if (job.status === 'failed' && job.error) {
-    response.error = job.error;
-    deleteJob(jobId);
+  while (!closed) {
+    try {
+      for (const event of await getJobEvents(jobId, lastEventId)) {
+        send(event.type, { ...event.data, at: event.created_at }, event.id);
+        lastEventId = event.id;
+      }
+
+      const current = await getJob(jobId);
+      if (!current) {
+        send('failed', { error: 'Job not found or expired' });
+        break;
+      }
+
+      if (current.status === 'in_progress' && (await recoverOrphanedJobs(jobId)) > 0) {
+        drainQueue();
+      }
+
+      if (current.status !== lastStatus) {
+        lastStatus = current.status;
+        send('status', { status: current.status, stage: current.stage, attempts: current.attempts });
+      }
+
+      if (current.status === 'completed') {
+        send('completed', { status: 'completed', result: await getJobResult(jobId) });
+        break;
+      }
+      if (current.status === 'failed') {
+        send('failed', { status: 'failed', error: current.error });
+        break;
+      }
+      if (current.status === 'cancelled') {
+        send('cancelled', { status: 'cancelled' });
+        break;
+      }
+    } catch (e: any) {
+      console.error(`[Job ${jobId}] Event stream error:`, e.message);
+    }
+
+    // Comment line keeps proxies from closing an idle stream
+    if (++ticks % 15 === 0) {
+      res.write(': keep-alive\n\n');
+    }
+    await new Promise(resolve => setTimeout(resolve, 1000));
   }
 
-  res.json(response);
+  res.end();
+});
+
+// POST /api/evaluate-quick/:jobId/cancel
+router.post('/:jobId/cancel', requireRole('agent'), async (req: Request, res: Response) => {
+  try {
+    const { jobId } = req.params;
+
+    const job = await getJob(jobId);
+    if (!job || !ownsJob(job, req.user)) {
+      res.status(404).json({ detail: 'Job not found or expired' });
+      return;
+    }
+
+    if (!(await cancelJob(jobId))) {
+      res.status(409).json({ detail: `Job is already ${job.status}` });
+      return;
+    }
+
+    console.log(`[Job ${jobId}] Cancelled`);
+    res.json({ success: true, job_id: jobId, status: 'cancelled' });
+  } catch (error: any) {
+    console.error('Error cancelling evaluation job:', error);
+    res.status(500).json({ detail: 'Failed to cancel evaluation job' });
+  }
+});
+
+// POST /api/evaluate-quick/:jobId/retry
+router.post('/:jobId/retry', requireRole('agent'), async (req: Request, res: Response) => {
+  try {
+    const { jobId } = req.params;
+
+    const job = await getJob(jobId);
+    if (!job || !ownsJob(job, req.user)) {
+      res.status(404).json({ detail: 'Job not found or expired' });
+      return;
+    }
+
+    if (!(await retryJob(jobId))) {
+      res.status(409).json({ detail: `Only failed or cancelled jobs can be retried (job is ${job.status})` });
+      return;
+    }
+
+    drainQueue();
+
+    console.log(`[Job ${jobId}] Requeued for retry`);
+    res.json({ success: true, job_id: jobId, status: 'queued' });
+  } catch (error: any) {
+    console.error('Error retrying evaluation job:', error);
+    res.status(500).json({ detail: 'Failed to retry evaluation job' });
+  }
 });
 
 export default router;
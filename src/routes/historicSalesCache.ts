@@ -1,5 +1,10 @@
 import { Router, Request, Response } from 'express';
-import { queryOne, queryMany, execute, query } from '../utils/database';
+import { queryOne, queryMany, execute, query, withTransaction } from '../utils/database';
+import {
+  findSalesByCacheId,
+  findNswSales,
+  insertHistoricProp
+} from '../repositories/historicPropRepository';
 
 const router = Router();
 
@@ -13,27 +18,6 @@ interface CacheEntry {
   property_type: string;
 }
 
-interface HistoricProp {
-  id: number;
-  cache_id: number;
-  prop_id: string;
-  address: string;
-  price: number | null;
-  beds: number | null;
-  baths: number | null;
-  cars: number | null;
-  land_area: number | null;
-  property_type: string | null;
-  sold_date: string | null;
-  sold_date_raw: Date | null;
-  source: string | null;
-  latitude: number | null;
-  longitude: number | null;
-  homely_url: string | null;
-  source_suburb: string | null;
-  is_neighbouring: boolean;
-}
-
 /**
  * GET /api/historic-sales-cache/all
  * List cached searches (for admin dashboard)
@@ -119,10 +103,7 @@ router.get('/properties/:cacheId', async (req: Request, res: Response) => {
       return res.status(400).json({ detail: 'Invalid cache ID' });
     }
 
-    const props = await queryMany<HistoricProp>(
-      `SELECT TOP 50 * FROM historic_prop WHERE cache_id = @cacheId ORDER BY sold_date_raw DESC`,
-      { cacheId }
-    );
+    const props = await findSalesByCacheId(cacheId, 50);
 
     const sales = props.map(p => ({
       id: p.prop_id,
@@ -164,40 +145,12 @@ router.get('/nsw-data', async (req: Request, res: Response) => {
     const suburbLower = (suburb as string).toLowerCase().trim();
     const postcodeStr = postcode ? (postcode as string).trim() : null;
 
-    // Query historic_prop directly for nsw-valuer-general source
-    // Match by source_suburb (case-insensitive) or by address containing the suburb
-    let query = `
-      SELECT hp.*
-      FROM historic_prop hp
-      WHERE hp.source = 'nsw-valuer-general'
-        AND (
-          LOWER(hp.source_suburb) = @suburb
-          OR LOWER(hp.address) LIKE '%' + @suburb + '%'
-        )
-    `;
-    const params: any = { suburb: suburbLower };
-
-    // Filter by postcode if provided
-    if (postcodeStr) {
-      query += ` AND hp.address LIKE '%' + @postcode + '%'`;
-      params.postcode = postcodeStr;
-    }
-
-    // Filter by property type if provided (handle singular/plural mismatch)
-    if (propertyType && propertyType !== 'all') {
-      // Normalize property type - remove trailing 's' for plural forms
-      let normalizedType = (propertyType as string).toLowerCase();
-      if (normalizedType.endsWith('s') && normalizedType !== 'units') {
-        normalizedType = normalizedType.slice(0, -1); // houses -> house
-      }
-      query += ` AND (LOWER(hp.property_type) = @propertyType OR LOWER(hp.property_type) = @propertyTypePlural)`;
-      params.propertyType = normalizedType;
-      params.propertyTypePlural = normalizedType + 's';
-    }
-
-    query += ` ORDER BY hp.sold_date_raw DESC`;
-
-    const props = await queryMany<HistoricProp>(query, params);
+    // NSW Valuer General sales matched by source suburb or by the suburb appearing in the address
+    const props = await findNswSales({
+      suburb: suburbLower,
+      postcode: postcodeStr,
+      propertyType: propertyType ? (propertyType as string) : null
+    });
 
     if (props.length === 0) {
       console.log(`[NSW Data] No NSW Valuer General data found for suburb: ${suburbLower}`);
@@ -272,10 +225,7 @@ router.get('/', async (req: Request, res: Response) => {
 
     if (cached) {
       // Get properties from historic_prop table
-      const props = await queryMany<HistoricProp>(
-        `SELECT * FROM historic_prop WHERE cache_id = @cacheId ORDER BY sold_date_raw DESC`,
-        { cacheId: cached.id }
-      );
+      const props = await findSalesByCacheId(cached.id);
 
       const sales = props.map(p => ({
         id: p.prop_id,
@@ -341,66 +291,58 @@ router.post('/', async (req: Request, res: Response) => {
     const cacheKey = `${suburb.toLowerCase()}-${state.toLowerCase()}-${postcode || 'none'}-${propertyType || 'all'}`;
     const now = new Date();
 
-    // Check if cache entry exists
-    const existing = await queryOne<{ id: number; cache_key: string }>(
-      `SELECT id, cache_key FROM historic_sales_cache WHERE cache_key = @cacheKey`,
-      { cacheKey }
-    );
-
-    let cacheId: number;
-
-    if (existing) {
-      cacheId = existing.id;
-      // Update cache entry timestamp
-      await execute(
-        `UPDATE historic_sales_cache SET cached_at = @cached_at, postcode = @postcode, property_type = @property_type WHERE cache_key = @cacheKey`,
-        {
-          cacheKey,
-          cached_at: now,
-          postcode: postcode || null,
-          property_type: propertyType || 'all'
-        }
-      );
-      // Delete old properties for this cache entry, but PRESERVE NSW Valuer General data
-      // NSW data is official government data that should not be deleted by Homely scraping
-      await execute(
-        `DELETE FROM historic_prop WHERE cache_id = @cacheId AND source != 'nsw-valuer-general'`,
-        { cacheId }
-      );
-    } else {
-      // Insert new cache entry (without sales JSON column)
-      await execute(
-        `INSERT INTO historic_sales_cache (cache_key, cached_at, postcode, property_type, sales) VALUES (@cacheKey, @cached_at, @postcode, @property_type, '[]')`,
-        {
-          cacheKey,
-          cached_at: now,
-          postcode: postcode || null,
-          property_type: propertyType || 'all'
-        }
-      );
-      // Get the new cache entry ID
-      const newEntry = await queryOne<{ id: number }>(
-        `SELECT id FROM historic_sales_cache WHERE cache_key = @cacheKey`,
+    // The cache row, the removal of its old sales and the new sales are stored together or not at all
+    await withTransaction(async tx => {
+      // Check if cache entry exists, locking the key so concurrent stores for it queue up
+      const existing = await tx.queryOne<{ id: number; cache_key: string }>(
+        `SELECT id, cache_key FROM historic_sales_cache WITH (UPDLOCK, HOLDLOCK) WHERE cache_key = @cacheKey`,
         { cacheKey }
       );
-      cacheId = newEntry!.id;
-    }
 
-    // Insert properties into historic_prop table
-    for (const sale of sales) {
-      await execute(
-        `INSERT INTO historic_prop (
-          cache_id, prop_id, address, price, beds, baths, cars, land_area,
-          property_type, sold_date, sold_date_raw, source, latitude, longitude,
-          homely_url, source_suburb, is_neighbouring
-        ) VALUES (
-          @cache_id, @prop_id, @address, @price, @beds, @baths, @cars, @land_area,
-          @property_type, @sold_date, @sold_date_raw, @source, @latitude, @longitude,
-          @homely_url, @source_suburb, @is_neighbouring
-        )`,
-        {
+      let cacheId: number;
+
+      if (existing) {
+        cacheId = existing.id;
+        // Update cache entry timestamp
+        await tx.execute(
+          `UPDATE historic_sales_cache SET cached_at = @cached_at, postcode = @postcode, property_type = @property_type WHERE cache_key = @cacheKey`,
+          {
+            cacheKey,
+            cached_at: now,
+            postcode: postcode || null,
+            property_type: propertyType || 'all'
+          }
+        );
+        // Delete old properties for this cache entry, but PRESERVE NSW Valuer General data
+        // NSW data is official government data that should not be deleted by Homely scraping
+        await tx.execute(
+          `DELETE FROM historic_prop WHERE cache_id = @cacheId AND source != 'nsw-valuer-general'`,
+          { cacheId }
+        );
+      } else {
+        // Insert new cache entry (without sales JSON column)
+        await tx.execute(
+          `INSERT INTO historic_sales_cache (cache_key, cached_at, postcode, property_type, sales) VALUES (@cacheKey, @cached_at, @postcode, @property_type, '[]')`,
+          {
+            cacheKey,
+            cached_at: now,
+            postcode: postcode || null,
+            property_type: propertyType || 'all'
+          }
+        );
+        // Get the new cache entry ID
+        const newEntry = await tx.queryOne<{ id: number }>(
+          `SELECT id FROM historic_sales_cache WHERE cache_key = @cacheKey`,
+          { cacheKey }
+        );
+        cacheId = newEntry!.id;
+      }
+
+      // Insert properties into historic_prop table
+      for (const sale of sales) {
+        await insertHistoricProp({
           cache_id: cacheId,
-          prop_id: sale.id || crypto.randomUUID(),
+          prop_id: sale.id,
           address: sale.address,
           price: sale.price || null,
           beds: sale.beds || null,
@@ -409,16 +351,16 @@ router.post('/', async (req: Request, res: Response) => {
           land_area: sale.land_area || null,
           property_type: sale.property_type || null,
           sold_date: sale.sold_date || null,
-          sold_date_raw: sale.sold_date_raw ? new Date(sale.sold_date_raw) : null,
+          sold_date_raw: sale.sold_date_raw || null,
           source: sale.source || 'homely.com.au',
           latitude: sale.latitude || null,
           longitude: sale.longitude || null,
           homely_url: sale.homely_url || null,
           source_suburb: sale.source_suburb || null,
-          is_neighbouring: sale.is_neighbouring || false
-        }
-      );
-    }
+          is_neighbouring: !!sale.is_neighbouring
+        }, tx);
+      }
+    });
 
     console.log(`[Historic Sales Cache] STORED ${cacheKey} with ${sales.length} properties in historic_prop table`);
 
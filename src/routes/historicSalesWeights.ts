@@ -1,237 +1,425 @@
 import { Router, Request, Response } from 'express';
-import { queryOne, queryMany, execute } from '../utils/database';
-import { HistoricSalesWeights, DEFAULT_HISTORIC_SALES_WEIGHTS } from '../models/types';
-import { v4 as uuidv4 } from 'uuid';
+import { authenticateToken, requireUser, requireRole } from '../middleware/auth';
+import { HistoricSalesWeights, HistoricProp, ScoringSubject, BacktestResult, DEFAULT_HISTORIC_SALES_WEIGHTS } from '../models/types';
+import { scoreComparables } from '../services/comparableScoring';
+import { loadBacktestDataset, runBacktest, DEFAULT_BACKTEST_TOP_N } from '../services/weightBacktest';
+import { startCalibrationJob, getCalibrationJob } from '../services/weightCalibration';
+import { recoverOrphanedJobs, drainQueue } from '../services/evaluationJobs';
+import { findSalesByCacheKey } from '../repositories/historicPropRepository';
+import {
+  WeightProfileError,
+  pickWeightFields,
+  invalidWeightFields,
+  listProfiles,
+  getProfile,
+  getActiveProfile,
+  createProfile,
+  updateProfile,
+  activateProfile,
+  deleteProfile,
+  getVersions,
+  getVersion,
+  getEvents,
+  rollbackProfile,
+  diffVersions
+} from '../services/weightProfiles';
 
 const router = Router();
 
-// Store weights as JSON in settings table for simplicity
-const WEIGHTS_SETTING_ID = 'historic_sales_weights';
+// Anyone signed in may read profiles and score comparables; changing weights,
+// backtests and calibration need the agency_owner role and a bearer token
 
-interface WeightsSetting {
-  setting_id: string;
-  setting_data: string;
-  updated_at: Date;
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof WeightProfileError) {
+    return res.status(error.status).json({ detail: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ detail: fallback });
 }
 
-function parseWeights(setting: WeightsSetting | null): HistoricSalesWeights | null {
-  if (!setting || !setting.setting_data) return null;
-  try {
-    return JSON.parse(setting.setting_data);
-  } catch {
-    return null;
-  }
+function parseVersion(value: unknown): number | null {
+  const version = parseInt(String(value), 10);
+  return isNaN(version) || version < 1 ? null : version;
 }
 
 /**
  * GET /api/historic-sales-weights
  * Get the active weights configuration
  */
-router.get('/', async (req: Request, res: Response) => {
+router.get('/', requireUser, async (req: Request, res: Response) => {
   try {
-    const setting = await queryOne<WeightsSetting>(
-      `SELECT * FROM settings WHERE setting_id = @id`,
-      { id: WEIGHTS_SETTING_ID }
-    );
-
-    let weights = parseWeights(setting);
-
-    if (!weights) {
-      // Create default weights
-      const now = new Date();
-      const defaultWeights: HistoricSalesWeights = {
-        ...DEFAULT_HISTORIC_SALES_WEIGHTS,
-        id: uuidv4(),
-        created_at: now,
-        updated_at: now,
-      };
+    res.json(await getActiveProfile());
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch weights');
+  }
+});
 
-      await execute(
-        `INSERT INTO settings (setting_id, setting_data, updated_at) VALUES (@id, @data, @updated_at)`,
-        { id: WEIGHTS_SETTING_ID, data: JSON.stringify(defaultWeights), updated_at: now }
-      );
+/**
+ * GET /api/historic-sales-weights/all
+ * Get all weights profiles with their current version
+ */
+router.get('/all', requireUser, async (req: Request, res: Response) => {
+  try {
+    res.json(await listProfiles());
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch weights');
+  }
+});
 
-      weights = defaultWeights;
-      console.log('[Historic Sales Weights] Created default weights');
-    }
+/**
+ * POST /api/historic-sales-weights
+ * Create a new weights profile (activated unless is_active is false)
+ */
+router.post('/', authenticateToken, requireRole('agency_owner'), async (req: Request, res: Response) => {
+  try {
+    const weights = await createProfile(req.body, req.userEmail || req.body.created_by || null, {
+      activate: req.body.is_active !== false,
+      note: req.body.change_note || null
+    });
 
-    res.json(weights);
+    console.log(`[Historic Sales Weights] Created new weights: ${weights.name}`);
+    res.status(201).json(weights);
   } catch (error) {
-    console.error('Error fetching historic sales weights:', error);
-    res.status(500).json({ detail: 'Failed to fetch weights' });
+    sendError(res, error, 'Failed to create weights');
   }
 });
 
 /**
- * GET /api/historic-sales-weights/all
- * Get all weights configurations (for admin/history)
- * Note: With SQL we only store the current active config
+ * POST /api/historic-sales-weights/reset
+ * Create and activate a new profile with the default weights
  */
-router.get('/all', async (req: Request, res: Response) => {
+router.post('/reset', authenticateToken, requireRole('agency_owner'), async (req: Request, res: Response) => {
   try {
-    const setting = await queryOne<WeightsSetting>(
-      `SELECT * FROM settings WHERE setting_id = @id`,
-      { id: WEIGHTS_SETTING_ID }
+    const now = new Date();
+    const weights = await createProfile(
+      {
+        ...DEFAULT_HISTORIC_SALES_WEIGHTS,
+        name: 'default_reset_' + now.toISOString().split('T')[0],
+        description: 'Reset to default weights'
+      },
+      req.userEmail || null,
+      { activate: true, note: 'Reset to default weights' }
     );
 
-    const weights = parseWeights(setting);
-    res.json(weights ? [weights] : []);
+    console.log(`[Historic Sales Weights] Reset to defaults`);
+    res.json(weights);
   } catch (error) {
-    console.error('Error fetching all historic sales weights:', error);
-    res.status(500).json({ detail: 'Failed to fetch weights' });
+    sendError(res, error, 'Failed to reset weights');
   }
 });
 
 /**
- * POST /api/historic-sales-weights
- * Create/update weights configuration
+ * POST /api/historic-sales-weights/score
+ * Score comparables against a subject property
+ * Body: { subject, comparables?: historic_prop rows, cache_key?: string, weights_id?: string, weights?: partial overrides }
  */
-router.post('/', async (req: Request, res: Response) => {
+router.post('/score', requireUser, async (req: Request, res: Response) => {
   try {
-    const now = new Date();
-    const newWeights: HistoricSalesWeights = {
-      ...DEFAULT_HISTORIC_SALES_WEIGHTS,
-      ...req.body,
-      id: uuidv4(),
-      created_at: now,
-      updated_at: now,
-      is_active: true,
+    const { subject, comparables, cache_key, weights_id, weights: overrides } = req.body as {
+      subject?: ScoringSubject;
+      comparables?: HistoricProp[];
+      cache_key?: string;
+      weights_id?: string;
+      weights?: Partial<HistoricSalesWeights>;
     };
 
-    const existing = await queryOne<{ setting_id: string }>(
-      `SELECT setting_id FROM settings WHERE setting_id = @id`,
-      { id: WEIGHTS_SETTING_ID }
-    );
+    if (!subject) {
+      return res.status(400).json({ detail: 'Missing required field: subject' });
+    }
+    if (!Array.isArray(comparables) && !cache_key) {
+      return res.status(400).json({ detail: 'Provide either comparables or cache_key' });
+    }
+    if (overrides !== undefined && (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides))) {
+      return res.status(400).json({ detail: 'weights must be an object' });
+    }
+    const invalid = invalidWeightFields(overrides || {});
+    if (invalid.length > 0) {
+      return res.status(400).json({ detail: `Weights must be numbers: ${invalid.join(', ')}` });
+    }
 
-    if (existing) {
-      await execute(
-        `UPDATE settings SET setting_data = @data, updated_at = @updated_at WHERE setting_id = @id`,
-        { id: WEIGHTS_SETTING_ID, data: JSON.stringify(newWeights), updated_at: now }
-      );
+    let rows: HistoricProp[];
+    if (Array.isArray(comparables)) {
+      rows = comparables;
     } else {
-      await execute(
-        `INSERT INTO settings (setting_id, setting_data, updated_at) VALUES (@id, @data, @updated_at)`,
-        { id: WEIGHTS_SETTING_ID, data: JSON.stringify(newWeights), updated_at: now }
-      );
+      rows = await findSalesByCacheKey(cache_key!);
     }
 
-    console.log(`[Historic Sales Weights] Created new weights: ${newWeights.name}`);
-    res.status(201).json(newWeights);
+    const profile = weights_id ? await getProfile(weights_id) : await getActiveProfile();
+    // Unknown keys are dropped so overrides can only change weights, never the profile's identity
+    const weights = { ...profile, ...pickWeightFields(overrides || {}) };
+
+    const scored = scoreComparables(subject, rows, weights).map(s => ({
+      ...s.comparable,
+      similarity_score: s.similarity_score,
+      distance_km: s.distance_km,
+      months_since_sale: s.months_since_sale,
+      score_breakdown: s.breakdown
+    }));
+
+    console.log(`[Historic Sales Weights] Scored ${scored.length} comparables using ${profile.name} v${profile.version}`);
+    res.json({
+      success: true,
+      weights_id: profile.id,
+      weights_name: profile.name,
+      weights_version: profile.version,
+      comparables: scored,
+      total: scored.length
+    });
   } catch (error) {
-    console.error('Error creating historic sales weights:', error);
-    res.status(500).json({ detail: 'Failed to create weights' });
+    sendError(res, error, 'Failed to score comparables');
   }
 });
 
 /**
- * PUT /api/historic-sales-weights/:id
- * Update existing weights configuration
+ * POST /api/historic-sales-weights/backtest
+ * Replay sold properties against one or more weight profiles and compare error metrics
+ * Body: { weights_ids?: string[] (default: active), top_n?, lookback_months?, limit?, include_details? }
  */
-router.put('/:id', async (req: Request, res: Response) => {
+router.post('/backtest', authenticateToken, requireRole('agency_owner'), async (req: Request, res: Response) => {
   try {
-    const { id } = req.params;
+    const { weights_ids, top_n, lookback_months, limit, include_details } = req.body;
+
+    if (weights_ids !== undefined && !Array.isArray(weights_ids)) {
+      return res.status(400).json({ detail: 'weights_ids must be an array' });
+    }
+
+    const profiles = weights_ids && weights_ids.length > 0
+      ? await Promise.all((weights_ids as string[]).map(id => getProfile(id)))
+      : [await getActiveProfile()];
+
+    const dataset = await loadBacktestDataset({
+      lookbackMonths: lookback_months ? parseInt(lookback_months, 10) : undefined,
+      limit: limit ? parseInt(limit, 10) : undefined
+    });
+    const topN = top_n ? Math.max(1, parseInt(top_n, 10)) : DEFAULT_BACKTEST_TOP_N;
+
+    const results: BacktestResult[] = profiles.map(profile => {
+      const { metrics, properties } = runBacktest(dataset, profile, topN);
+      return {
+        weights_id: profile.id,
+        weights_name: profile.name,
+        weights_version: profile.version,
+        metrics,
+        properties: include_details ? properties : undefined
+      };
+    });
+
+    console.log(`[Historic Sales Weights] Backtested ${results.length} profile(s) against ${dataset.length} sold properties`);
+    res.json({
+      success: true,
+      sold_properties: dataset.length,
+      top_n: topN,
+      results
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to run backtest');
+  }
+});
+
+/**
+ * POST /api/historic-sales-weights/calibrate
+ * Start a background search for weights that minimise backtest error
+ * Body: { base_weights_id?, passes?, top_n?, lookback_months?, limit?, name? }
+ */
+router.post('/calibrate', authenticateToken, requireRole('agency_owner'), async (req: Request, res: Response) => {
+  try {
+    const { base_weights_id, passes, top_n, lookback_months, limit, name } = req.body;
+
+    if (base_weights_id) {
+      await getProfile(base_weights_id);
+    }
 
-    const setting = await queryOne<WeightsSetting>(
-      `SELECT * FROM settings WHERE setting_id = @settingId`,
-      { settingId: WEIGHTS_SETTING_ID }
+    const job = await startCalibrationJob(
+      {
+        base_weights_id: base_weights_id || undefined,
+        passes: passes ? Math.min(Math.max(1, parseInt(passes, 10)), 5) : undefined,
+        top_n: top_n ? Math.max(1, parseInt(top_n, 10)) : undefined,
+        lookback_months: lookback_months ? parseInt(lookback_months, 10) : undefined,
+        limit: limit ? parseInt(limit, 10) : undefined,
+        name: name || undefined
+      },
+      req.userEmail || null
     );
 
-    const existing = parseWeights(setting);
-    if (!existing || existing.id !== id) {
-      return res.status(404).json({ detail: 'Weights configuration not found' });
+    console.log(`[Calibration ${job.job_id}] Started`);
+    res.json({
+      success: true,
+      job_id: job.job_id,
+      message: 'Calibration started. Use job_id to poll for status.'
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to start calibration');
+  }
+});
+
+/**
+ * GET /api/historic-sales-weights/calibrate/:jobId/status
+ * Poll a calibration job
+ */
+router.get('/calibrate/:jobId/status', requireUser, async (req: Request, res: Response) => {
+  try {
+    const jobId = req.params.jobId;
+    let job = await getCalibrationJob(jobId);
+
+    if (!job) {
+      return res.status(404).json({ detail: 'Job not found or expired' });
     }
 
-    const now = new Date();
-    const updates: HistoricSalesWeights = {
-      ...existing,
-      ...req.body,
-      id,
-      created_at: existing.created_at,
-      updated_at: now,
+    // Serverless instances have no worker loop; polling recovers and runs the job instead
+    if (job.status === 'in_progress' && (await recoverOrphanedJobs(jobId)) > 0) {
+      job = (await getCalibrationJob(jobId)) || job;
+    }
+    if (job.status === 'queued') drainQueue();
+
+    const response: any = {
+      status: job.status,
+      stage: job.stage,
+      progress: job.progress
     };
 
-    await execute(
-      `UPDATE settings SET setting_data = @data, updated_at = @updated_at WHERE setting_id = @settingId`,
-      { settingId: WEIGHTS_SETTING_ID, data: JSON.stringify(updates), updated_at: now }
-    );
+    if (job.baseline) response.baseline = job.baseline;
+    if (job.best) response.best = job.best;
+    if (job.status === 'completed') response.result = job.result;
+    if (job.status === 'failed' && job.error) response.error = job.error;
 
-    console.log(`[Historic Sales Weights] Updated weights: ${id}`);
-    res.json(updates);
+    res.json(response);
   } catch (error) {
-    console.error('Error updating historic sales weights:', error);
-    res.status(500).json({ detail: 'Failed to update weights' });
+    sendError(res, error, 'Failed to get calibration status');
   }
 });
 
 /**
- * POST /api/historic-sales-weights/:id/activate
- * Activate a specific weights configuration (no-op for single config)
+ * GET /api/historic-sales-weights/:id
+ * Get a profile's current weights
  */
-router.post('/:id/activate', async (req: Request, res: Response) => {
+router.get('/:id', requireUser, async (req: Request, res: Response) => {
   try {
-    const setting = await queryOne<WeightsSetting>(
-      `SELECT * FROM settings WHERE setting_id = @id`,
-      { id: WEIGHTS_SETTING_ID }
-    );
+    res.json(await getProfile(req.params.id));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch weights');
+  }
+});
 
-    const weights = parseWeights(setting);
-    if (!weights) {
-      return res.status(404).json({ detail: 'Weights configuration not found' });
-    }
+/**
+ * PUT /api/historic-sales-weights/:id
+ * Save updated weights as a new version of the profile
+ */
+router.put('/:id', authenticateToken, requireRole('agency_owner'), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const weights = await updateProfile(id, req.body, req.userEmail || null, req.body.change_note || null);
 
+    console.log(`[Historic Sales Weights] Updated weights: ${id} (v${weights.version})`);
     res.json(weights);
   } catch (error) {
-    console.error('Error activating historic sales weights:', error);
-    res.status(500).json({ detail: 'Failed to activate weights' });
+    sendError(res, error, 'Failed to update weights');
+  }
+});
+
+/**
+ * POST /api/historic-sales-weights/:id/activate
+ * Make this profile the active weights configuration
+ */
+router.post('/:id/activate', authenticateToken, requireRole('agency_owner'), async (req: Request, res: Response) => {
+  try {
+    res.json(await activateProfile(req.params.id, req.userEmail || null));
+  } catch (error) {
+    sendError(res, error, 'Failed to activate weights');
   }
 });
 
 /**
  * DELETE /api/historic-sales-weights/:id
- * Delete not supported - just reset to defaults instead
+ * Delete a profile (the active profile cannot be deleted); its history stays readable
  */
-router.delete('/:id', async (req: Request, res: Response) => {
-  return res.status(400).json({ detail: 'Cannot delete weights. Use reset instead.' });
+router.delete('/:id', authenticateToken, requireRole('agency_owner'), async (req: Request, res: Response) => {
+  try {
+    await deleteProfile(req.params.id, req.userEmail || null);
+    console.log(`[Historic Sales Weights] Deleted weights: ${req.params.id}`);
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error, 'Failed to delete weights');
+  }
 });
 
 /**
- * POST /api/historic-sales-weights/reset
- * Reset to default weights
+ * GET /api/historic-sales-weights/:id/versions
+ * Version history for a profile, newest first
  */
-router.post('/reset', async (req: Request, res: Response) => {
+router.get('/:id/versions', requireUser, async (req: Request, res: Response) => {
   try {
-    const now = new Date();
-    const defaultWeights: HistoricSalesWeights = {
-      ...DEFAULT_HISTORIC_SALES_WEIGHTS,
-      id: uuidv4(),
-      name: 'default_reset_' + now.toISOString().split('T')[0],
-      description: 'Reset to default weights',
-      created_at: now,
-      updated_at: now,
-    };
+    const versions = await getVersions(req.params.id);
+    res.json({ success: true, versions, total: versions.length });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch weight versions');
+  }
+});
 
-    const existing = await queryOne<{ setting_id: string }>(
-      `SELECT setting_id FROM settings WHERE setting_id = @id`,
-      { id: WEIGHTS_SETTING_ID }
-    );
+/**
+ * GET /api/historic-sales-weights/:id/versions/:version
+ * A single saved version of a profile
+ */
+router.get('/:id/versions/:version', requireUser, async (req: Request, res: Response) => {
+  try {
+    const version = parseVersion(req.params.version);
+    if (!version) {
+      return res.status(400).json({ detail: 'Invalid version' });
+    }
+    res.json(await getVersion(req.params.id, version));
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch weight version');
+  }
+});
 
-    if (existing) {
-      await execute(
-        `UPDATE settings SET setting_data = @data, updated_at = @updated_at WHERE setting_id = @id`,
-        { id: WEIGHTS_SETTING_ID, data: JSON.stringify(defaultWeights), updated_at: now }
-      );
-    } else {
-      await execute(
-        `INSERT INTO settings (setting_id, setting_data, updated_at) VALUES (@id, @data, @updated_at)`,
-        { id: WEIGHTS_SETTING_ID, data: JSON.stringify(defaultWeights), updated_at: now }
-      );
+/**
+ * GET /api/historic-sales-weights/:id/events
+ * Activations, renames and deletion of a profile, newest first
+ */
+router.get('/:id/events', requireUser, async (req: Request, res: Response) => {
+  try {
+    const events = await getEvents(req.params.id);
+    res.json({ success: true, events, total: events.length });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch weight events');
+  }
+});
+
+/**
+ * POST /api/historic-sales-weights/:id/rollback
+ * Restore an earlier version's weights as a new version
+ * Body: { version: number }
+ */
+router.post('/:id/rollback', authenticateToken, requireRole('agency_owner'), async (req: Request, res: Response) => {
+  try {
+    const version = parseVersion(req.body.version);
+    if (!version) {
+      return res.status(400).json({ detail: 'Missing or invalid version' });
     }
 
-    console.log(`[Historic Sales Weights] Reset to defaults`);
-    res.json(defaultWeights);
+    const weights = await rollbackProfile(req.params.id, version, req.userEmail || null);
+    console.log(`[Historic Sales Weights] Rolled back ${req.params.id} to v${version} (now v${weights.version})`);
+    res.json(weights);
+  } catch (error) {
+    sendError(res, error, 'Failed to roll back weights');
+  }
+});
+
+/**
+ * GET /api/historic-sales-weights/:id/diff?from=1&to=2
+ * Field-by-field differences between two versions
+ */
+router.get('/:id/diff', requireUser, async (req: Request, res: Response) => {
+  try {
+    const from = parseVersion(req.query.from);
+    const to = parseVersion(req.query.to);
+    if (!from || !to) {
+      return res.status(400).json({ detail: 'Missing or invalid from/to versions' });
+    }
+
+    const changes = await diffVersions(req.params.id, from, to);
+    res.json({ success: true, from, to, changes, total: changes.length });
   } catch (error) {
-    console.error('Error resetting historic sales weights:', error);
-    res.status(500).json({ detail: 'Failed to reset weights' });
+    sendError(res, error, 'Failed to diff weight versions');
   }
 });
 
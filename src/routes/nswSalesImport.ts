@@ -1,8 +1,10 @@
 import { Router, Request, Response } from 'express';
-import { queryMany, execute, queryOne } from '../utils/database';
+import { queryMany, execute, queryOne, withTransaction } from '../utils/database';
 import multer from 'multer';
 import * as XLSX from 'xlsx';
 import { v4 as uuidv4 } from 'uuid';
+import { nswSaleExists, insertHistoricProp } from '../repositories/historicPropRepository';
+import { authenticateToken, requireUser, requireRole } from '../middleware/auth';
 
 const router = Router();
 const upload = multer({
@@ -133,7 +135,7 @@ function parseExcelDate(value: any): { display: string; raw: Date } | null {
 }
 
 // GET /api/nsw-sales/stats
-router.get('/stats', async (req: Request, res: Response) => {
+router.get('/stats', requireUser, async (req: Request, res: Response) => {
   try {
     const result = await queryOne<any>(`
       SELECT
@@ -159,7 +161,7 @@ router.get('/stats', async (req: Request, res: Response) => {
 });
 
 // POST /api/nsw-sales/import
-router.post('/import', upload.single('file'), async (req: Request, res: Response) => {
+router.post('/import', authenticateToken, requireRole('admin'), upload.single('file'), async (req: Request, res: Response) => {
   try {
     if (!req.file) {
       res.status(400).json({ success: false, detail: 'No file uploaded' });
@@ -206,14 +208,19 @@ router.post('/import', upload.single('file'), async (req: Request, res: Response
 
     // Process each suburb group - NO CACHE SYSTEM
     // NSW Valuer General data is stored directly in historic_prop with cache_id = NULL
+    // Each group is written in its own transaction: a failing record rolls back the whole
+    // suburb rather than leaving it half imported, and the other suburbs still go in
     for (const [cacheKey, suburbRecords] of suburbGroups) {
+      const parts = cacheKey.split('-');
+      const suburb = parts[0];
+
       try {
-        const parts = cacheKey.split('-');
-        const suburb = parts[0];
+        const counts = await withTransaction(async tx => {
+          let groupImported = 0;
+          let groupSkipped = 0;
 
-        // Insert property records (with duplicate check on address + sold_date + source)
-        for (const record of suburbRecords) {
-          try {
+          // Insert property records (with duplicate check on address + sold_date + source)
+          for (const record of suburbRecords) {
             const saleDate = parseExcelDate(record['Contract Date']) || parseExcelDate(record['Settlement Date']);
             const price = parseFloatSafe(record['Purchase Price']);
             const landArea = record['Area Unit'] === 'M' ? parseFloatSafe(record['Area']) : null;
@@ -221,63 +228,46 @@ router.post('/import', upload.single('file'), async (req: Request, res: Response
 
             // Skip invalid records
             if (!price || price <= 0) {
-              skipped++;
+              groupSkipped++;
               continue;
             }
 
             // Check for existing record with same address and sold_date for NSW data
-            const existing = await queryOne<{ id: number }>(
-              `SELECT id FROM historic_prop
-               WHERE address = @address
-               AND sold_date_raw = @sold_date_raw
-               AND source = 'nsw-valuer-general'`,
-              { address, sold_date_raw: saleDate?.raw || null }
-            );
-
-            if (existing) {
+            if (await nswSaleExists(address, saleDate?.raw || null, tx)) {
               // Already exists, skip
-              skipped++;
+              groupSkipped++;
               continue;
             }
 
             // Insert without cache_id - NSW data is standalone
-            await execute(
-              `INSERT INTO historic_prop (
-                cache_id, prop_id, address, price, beds, baths, cars, land_area,
-                property_type, sold_date, sold_date_raw, source, source_suburb, is_neighbouring
-              ) VALUES (
-                NULL, @prop_id, @address, @price, @beds, @baths, @cars, @land_area,
-                @property_type, @sold_date, @sold_date_raw, @source, @source_suburb, @is_neighbouring
-              )`,
-              {
-                prop_id: uuidv4(),
-                address: address,
-                price: price,
-                beds: null, // Not provided in NSW data
-                baths: null,
-                cars: null,
-                land_area: landArea,
-                property_type: mapPropertyType(record['Nature of Property'], record['Primary Purpose']),
-                sold_date: saleDate?.display || null,
-                sold_date_raw: saleDate?.raw || null,
-                source: 'nsw-valuer-general',
-                source_suburb: (record['Suburb'] || '').toString().trim(),
-                is_neighbouring: false
-              }
-            );
-            imported++;
-          } catch (err: any) {
-            skipped++;
-            if (errors.length < 10) {
-              errors.push(`Record error: ${err.message}`);
-            }
+            // Beds, baths and cars are not provided in NSW data
+            await insertHistoricProp({
+              cache_id: null,
+              prop_id: uuidv4(),
+              address,
+              price,
+              land_area: landArea,
+              property_type: mapPropertyType(record['Nature of Property'], record['Primary Purpose']),
+              sold_date: saleDate?.display || null,
+              sold_date_raw: saleDate?.raw || null,
+              source: 'nsw-valuer-general',
+              source_suburb: (record['Suburb'] || '').toString().trim(),
+              is_neighbouring: false
+            }, tx);
+            groupImported++;
           }
-        }
+
+          return { groupImported, groupSkipped };
+        });
+
+        imported += counts.groupImported;
+        skipped += counts.groupSkipped;
 
         // Log progress
         console.log(`[NSW Sales Import] Processed ${suburb}: ${suburbRecords.length} records`);
-
       } catch (err: any) {
+        skipped += suburbRecords.length;
+        console.error(`[NSW Sales Import] Rolled back ${suburb}:`, err.message);
         if (errors.length < 10) {
           errors.push(`Suburb ${cacheKey}: ${err.message}`);
         }
@@ -301,7 +291,7 @@ router.post('/import', upload.single('file'), async (req: Request, res: Response
 });
 
 // POST /api/nsw-sales/preview - Preview import without saving
-router.post('/preview', upload.single('file'), async (req: Request, res: Response) => {
+router.post('/preview', authenticateToken, requireRole('admin'), upload.single('file'), async (req: Request, res: Response) => {
   try {
     if (!req.file) {
       res.status(400).json({ success: false, detail: 'No file uploaded' });
@@ -364,7 +354,7 @@ router.post('/preview', upload.single('file'), async (req: Request, res: Respons
 });
 
 // DELETE /api/nsw-sales/clear - Clear all imported NSW sales from historic_prop
-router.delete('/clear', async (req: Request, res: Response) => {
+router.delete('/clear', authenticateToken, requireRole('admin'), async (req: Request, res: Response) => {
   try {
     // Delete all records with nsw-valuer-general source
     const result = await execute(
@@ -390,10 +380,11 @@ router.delete('/clear', async (req: Request, res: Response) => {
   }
 });
 
-// POST /api/nsw-sales/dedupe - Remove duplicates and create unique index
-router.post('/dedupe', async (req: Request, res: Response) => {
+// POST /api/nsw-sales/dedupe - Remove duplicate NSW sales
+// The unique index that prevents new duplicates is created by migration 0005_historic_prop_unique_sale
+router.post('/dedupe', authenticateToken, requireRole('admin'), async (req: Request, res: Response) => {
   try {
-    // First, remove duplicates keeping the first occurrence (lowest id)
+    // Remove duplicates keeping the first occurrence (lowest id)
     const dedupeResult = await execute(`
       DELETE FROM historic_prop
       WHERE id NOT IN (
@@ -407,29 +398,14 @@ router.post('/dedupe', async (req: Request, res: Response) => {
 
     console.log(`[NSW Sales] Removed ${dedupeResult} duplicate records`);
 
-    // Try to create unique index (may already exist)
-    let indexCreated = false;
-    try {
-      await execute(`
-        CREATE UNIQUE INDEX IX_historic_prop_unique_sale
-        ON historic_prop (address, sold_date_raw, source)
-        WHERE source = 'nsw-valuer-general'
-      `);
-      indexCreated = true;
-      console.log(`[NSW Sales] Created unique index IX_historic_prop_unique_sale`);
-    } catch (indexErr: any) {
-      // Index may already exist
-      if (indexErr.message.includes('already exists')) {
-        console.log(`[NSW Sales] Unique index already exists`);
-      } else {
-        console.error(`[NSW Sales] Index creation error: ${indexErr.message}`);
-      }
-    }
+    const index = await queryOne<{ name: string }>(
+      `SELECT name FROM sys.indexes WHERE name = 'IX_historic_prop_unique_sale' AND object_id = OBJECT_ID('historic_prop')`
+    );
 
     res.json({
       success: true,
       duplicatesRemoved: dedupeResult,
-      indexCreated
+      indexExists: !!index
     });
   } catch (error: any) {
     console.error('NSW Sales dedupe error:', error);
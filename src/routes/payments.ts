@@ -1,8 +1,8 @@
 import { Router, Request, Response } from 'express';
 import Stripe from 'stripe';
-import { queryOne, execute } from '../utils/database';
 import { authenticateToken } from '../middleware/auth';
-import { SUBSCRIPTION_TIERS } from '../models/types';
+import { SUBSCRIPTION_TIERS, User } from '../models/types';
+import { updateUser, deactivateStripeSubscription } from '../repositories/userRepository';
 import { calculateTrialEndDate } from '../utils/subscription';
 
 const router = Router();
@@ -104,22 +104,13 @@ router.post('/webhook', async (req: Request, res: Response) => {
           const subscriptionEndDate = new Date();
           subscriptionEndDate.setMonth(subscriptionEndDate.getMonth() + 1);
 
-          await execute(
-            `UPDATE users SET
-              subscription_tier = @tier,
-              subscription_active = 1,
-              subscription_end_date = @endDate,
-              stripe_customer_id = @customerId,
-              stripe_subscription_id = @subscriptionId
-             WHERE id = @userId`,
-            {
-              tier,
-              endDate: subscriptionEndDate,
-              customerId: session.customer as string,
-              subscriptionId: session.subscription as string,
-              userId
-            }
-          );
+          await updateUser(userId, {
+            subscription_tier: tier as User['subscription_tier'],
+            subscription_active: true,
+            subscription_end_date: subscriptionEndDate,
+            stripe_customer_id: session.customer as string,
+            stripe_subscription_id: session.subscription as string
+          });
           console.log(`[Payments] Updated subscription for user ${userId} to ${tier}`);
         }
         break;
@@ -127,10 +118,7 @@ router.post('/webhook', async (req: Request, res: Response) => {
 
       case 'customer.subscription.deleted': {
         const subscription = event.data.object as Stripe.Subscription;
-        await execute(
-          `UPDATE users SET subscription_active = 0 WHERE stripe_subscription_id = @subscriptionId`,
-          { subscriptionId: subscription.id }
-        );
+        await deactivateStripeSubscription(subscription.id);
         console.log(`[Payments] Cancelled subscription ${subscription.id}`);
         break;
       }
@@ -155,10 +143,7 @@ router.post('/start-trial', authenticateToken, async (req: Request, res: Respons
 
     const trialEndDate = calculateTrialEndDate();
 
-    await execute(
-      `UPDATE users SET trial_active = 1, trial_end_date = @trialEndDate WHERE id = @userId`,
-      { trialEndDate, userId: user.id }
-    );
+    await updateUser(user.id, { trial_active: true, trial_end_date: trialEndDate });
 
     res.json({
       success: true,
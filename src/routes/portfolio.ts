@@ -1,8 +1,9 @@
 import { Router, Request, Response } from 'express';
-import { queryMany, execute } from '../utils/database';
+import { insertProperty } from '../repositories/propertyRepository';
 import multer from 'multer';
 import csv from 'csv-parse';
 import { v4 as uuidv4 } from 'uuid';
+import { requireUser, requireRole } from '../middleware/auth';
 
 const router = Router();
 const upload = multer({ storage: multer.memoryStorage() });
@@ -33,7 +34,7 @@ router.get('/csv-template', (req: Request, res: Response) => {
 });
 
 // POST /api/portfolio/import
-router.post('/import', upload.single('file'), async (req: Request, res: Response) => {
+router.post('/import', requireUser, requireRole('agent'), upload.single('file'), async (req: Request, res: Response) => {
   try {
     if (!req.file) {
       res.status(400).json({ success: false, detail: 'No file uploaded' });
@@ -41,7 +42,7 @@ router.post('/import', upload.single('file'), async (req: Request, res: Response
     }
 
     const csvContent = req.file.buffer.toString('utf-8');
-    const userEmail = req.headers['x-user-email'] as string;
+    const userEmail = req.user!.email;
 
     const records: any[] = [];
     const parser = csv.parse(csvContent, {
@@ -63,30 +64,26 @@ router.post('/import', upload.single('file'), async (req: Request, res: Response
         const now = new Date();
         const photos = record['Photos'] ? record['Photos'].split(';').map((p: string) => p.trim()).filter((p: string) => p) : [];
 
-        await execute(
-          `INSERT INTO properties (id, location, beds, baths, carpark, property_type, price, size, features, images, agent1_name, agent1_phone, agent_email, status, sold_price, sale_date, user_email, created_at)
-           VALUES (@id, @location, @beds, @baths, @carpark, @property_type, @price, @size, @features, @images, @agent1_name, @agent1_phone, @agent_email, @status, @sold_price, @sale_date, @user_email, @created_at)`,
-          {
-            id: propertyId,
-            location: record['Address'] || '',
-            beds: parseIntSafe(record['Beds']),
-            baths: parseIntSafe(record['Baths']),
-            carpark: parseIntSafe(record['Carpark']),
-            property_type: record['Property Type'] || 'House',
-            price: parseFloatSafe(record['Price']) || null,
-            size: parseFloatSafe(record['Size']) || null,
-            features: record['Features'] || null,
-            images: JSON.stringify(photos),
-            agent1_name: record['Agent Name'] || null,
-            agent1_phone: record['Agent Phone'] || null,
-            agent_email: record['Agent Email'] || null,
-            status: record['Status']?.toLowerCase() === 'sold' ? 'sold' : 'active',
-            sold_price: parseFloatSafe(record['Sold Price']) || null,
-            sale_date: record['Sale Date'] || null,
-            user_email: userEmail || null,
-            created_at: now
-          }
-        );
+        await insertProperty({
+          id: propertyId,
+          location: record['Address'] || '',
+          beds: parseIntSafe(record['Beds']),
+          baths: parseIntSafe(record['Baths']),
+          carpark: parseIntSafe(record['Carpark']),
+          property_type: record['Property Type'] || 'House',
+          price: parseFloatSafe(record['Price']) || null,
+          size: parseFloatSafe(record['Size']) || null,
+          features: record['Features'] || null,
+          images: photos,
+          agent1_name: record['Agent Name'] || null,
+          agent1_phone: record['Agent Phone'] || null,
+          agent_email: record['Agent Email'] || null,
+          status: record['Status']?.toLowerCase() === 'sold' ? 'sold' : 'active',
+          sold_price: parseFloatSafe(record['Sold Price']) || null,
+          sale_date: record['Sale Date'] || null,
+          user_email: userEmail,
+          created_at: now
+        });
         imported++;
       } catch (err: any) {
         errors.push(`Row ${imported + 1}: ${err.message}`);
@@ -1,10 +1,26 @@
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { getDb, queryOne, queryMany, execute, sql } from '../utils/database';
-import { extractUserEmail } from '../middleware/auth';
-import { Property, PropertyCreate } from '../models/types';
+import { requireUser, requireRole } from '../middleware/auth';
+import { requirePropertyAccess } from '../middleware/propertyAccess';
+import { hasRole } from '../services/roles';
+import { PropertyCreate, ConfidenceScoring, StructuredValuation, ValuationHistoryEntry } from '../models/types';
+import {
+  findPropertyById,
+  listProperties,
+  listSoldProperties,
+  listSoldLocations,
+  insertProperty,
+  updateProperty,
+  deleteProperty,
+  PropertyFields
+} from '../repositories/propertyRepository';
+import { withTransaction } from '../utils/database';
 import OpenAI from 'openai';
 import { getComparableProperties } from '../services/domainApi';
+import { computeConfidenceScoring } from '../services/confidenceScoring';
+import { getJob, getJobResult, ownsJob } from '../services/evaluationJobs';
+import { validateStructuredValuation } from '../services/valuationReport';
+import { appendValuation, listValuations, getValuation, recordSaleAccuracy, validateValuationEntry } from '../services/valuationHistory';
 import multer from 'multer';
 import { extractText } from 'unpdf';
 // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -66,37 +82,30 @@ const upload = multer({
   }
 });
 
-// Use extractUserEmail middleware for all routes
-router.use(extractUserEmail);
+// Fields a PUT may replace
+const PUT_FIELDS = [
+  'beds', 'baths', 'carpark', 'location', 'price', 'size', 'property_type', 'features',
+  'strata_body_corps', 'council_rates', 'images', 'agent1_name', 'agent1_phone', 'agent2_name',
+  'agent2_phone', 'agent_email', 'neighbouring_suburb', 'neighbouring_postcode', 'neighbouring_state',
+  'rp_data_report', 'additional_report', 'marketing_package', 'marketing_cost'
+] as const;
+
+// Every route needs a signed-in user; /:propertyId routes also check ownership
+router.use(requireUser);
+
+// Admins see every property, everyone else their own and unowned ones
+function visibleTo(req: Request): string | undefined {
+  return hasRole(req.user, 'admin') ? undefined : req.user!.email;
+}
 
 // GET /api/properties/sold/list
 router.get('/sold/list', async (req: Request, res: Response) => {
   try {
     const { suburb } = req.query;
 
-    let query = `SELECT * FROM properties WHERE status = 'sold'`;
-    const params: Record<string, any> = {};
-
-    if (suburb && typeof suburb === 'string') {
-      query += ` AND location LIKE @suburb`;
-      params.suburb = `%${suburb}%`;
-    }
-
-    query += ` ORDER BY sale_date DESC`;
+    const properties = await listSoldProperties(typeof suburb === 'string' && suburb ? suburb : undefined, visibleTo(req));
 
-    const properties = await queryMany<Property>(query, params);
-
-    // Parse JSON fields
-    const parsed = properties.map(p => ({
-      ...p,
-      images: p.images ? JSON.parse(p.images as any) : [],
-      tags: p.tags ? JSON.parse(p.tags as any) : null,
-      comparables_data: p.comparables_data ? JSON.parse(p.comparables_data as any) : null,
-      confidence_scoring: p.confidence_scoring ? JSON.parse(p.confidence_scoring as any) : null,
-      valuation_history: p.valuation_history ? JSON.parse(p.valuation_history as any) : null
-    }));
-
-    res.json({ success: true, properties: parsed });
+    res.json({ success: true, properties });
   } catch (error) {
     console.error('Get sold properties error:', error);
     res.status(500).json({ detail: 'Failed to fetch sold properties' });
@@ -106,19 +115,15 @@ router.get('/sold/list', async (req: Request, res: Response) => {
 // GET /api/properties/sold/suburbs
 router.get('/sold/suburbs', async (req: Request, res: Response) => {
   try {
-    const properties = await queryMany<{ location: string }>(
-      `SELECT DISTINCT location FROM properties WHERE status = 'sold'`
-    );
+    const locations = await listSoldLocations(visibleTo(req));
 
     const suburbs = new Set<string>();
-    properties.forEach(p => {
-      if (p.location) {
-        const parts = p.location.split(',').map(s => s.trim());
-        if (parts.length >= 2) {
-          const suburb = parts.length >= 3 ? parts[parts.length - 2] : parts[1];
-          if (suburb && !suburb.match(/^\d/)) {
-            suburbs.add(suburb);
-          }
+    locations.forEach(location => {
+      const parts = location.split(',').map(s => s.trim());
+      if (parts.length >= 2) {
+        const suburb = parts.length >= 3 ? parts[parts.length - 2] : parts[1];
+        if (suburb && !suburb.match(/^\d/)) {
+          suburbs.add(suburb);
         }
       }
     });
@@ -131,14 +136,11 @@ router.get('/sold/suburbs', async (req: Request, res: Response) => {
 });
 
 // POST /api/properties/:propertyId/resell
-router.post('/:propertyId/resell', async (req: Request, res: Response) => {
+router.post('/:propertyId/resell', requirePropertyAccess('write'), async (req: Request, res: Response) => {
   try {
     const { propertyId } = req.params;
 
-    const rowsAffected = await execute(
-      `UPDATE properties SET status = 'active', sold_price = NULL, sale_date = NULL WHERE id = @id`,
-      { id: propertyId }
-    );
+    const rowsAffected = await updateProperty(propertyId, { status: 'active', sold_price: null, sale_date: null });
 
     if (rowsAffected === 0) {
       res.status(404).json({ detail: 'Property not found' });
@@ -153,62 +155,44 @@ router.post('/:propertyId/resell', async (req: Request, res: Response) => {
 });
 
 // POST /api/properties
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requireRole('agent'), async (req: Request, res: Response) => {
   try {
     const propertyData = req.body as PropertyCreate;
-    const userEmail = req.userEmail;
 
     const propertyId = uuidv4();
-    const now = new Date();
-
-    await execute(
-      `INSERT INTO properties (id, beds, baths, carpark, location, price, size, property_type, features,
-        strata_body_corps, council_rates, images, agent1_name, agent1_phone, agent2_name, agent2_phone,
-        agent_email, agency_id, user_email, created_at, status, neighbouring_suburb, neighbouring_postcode, neighbouring_state,
-        rp_data_report, additional_report, marketing_package, marketing_cost)
-       VALUES (@id, @beds, @baths, @carpark, @location, @price, @size, @property_type, @features,
-        @strata_body_corps, @council_rates, @images, @agent1_name, @agent1_phone, @agent2_name, @agent2_phone,
-        @agent_email, @agency_id, @user_email, @created_at, 'active', @neighbouring_suburb, @neighbouring_postcode, @neighbouring_state,
-        @rp_data_report, @additional_report, @marketing_package, @marketing_cost)`,
-      {
-        id: propertyId,
-        beds: propertyData.beds || null,
-        baths: propertyData.baths || null,
-        carpark: propertyData.carpark || null,
-        location: propertyData.location || null,
-        price: propertyData.price || null,
-        size: propertyData.size || null,
-        property_type: propertyData.property_type || null,
-        features: propertyData.features || null,
-        strata_body_corps: propertyData.strata_body_corps || null,
-        council_rates: propertyData.council_rates || null,
-        images: JSON.stringify(propertyData.images || []),
-        agent1_name: propertyData.agent1_name || null,
-        agent1_phone: propertyData.agent1_phone || null,
-        agent2_name: propertyData.agent2_name || null,
-        agent2_phone: propertyData.agent2_phone || null,
-        agent_email: propertyData.agent_email || null,
-        agency_id: 'default_agency',
-        user_email: userEmail || propertyData.user_email || null,
-        created_at: now,
-        neighbouring_suburb: propertyData.neighbouring_suburb || null,
-        neighbouring_postcode: propertyData.neighbouring_postcode || null,
-        neighbouring_state: propertyData.neighbouring_state || null,
-        rp_data_report: propertyData.rp_data_report || null,
-        additional_report: propertyData.additional_report || null,
-        marketing_package: propertyData.marketing_package || null,
-        marketing_cost: propertyData.marketing_cost || null
-      }
-    );
 
-    const property = await queryOne<Property>(
-      'SELECT * FROM properties WHERE id = @id',
-      { id: propertyId }
-    );
+    await insertProperty({
+      id: propertyId,
+      beds: propertyData.beds || null,
+      baths: propertyData.baths || null,
+      carpark: propertyData.carpark || null,
+      location: propertyData.location || null,
+      price: propertyData.price || null,
+      size: propertyData.size || null,
+      property_type: propertyData.property_type || null,
+      features: propertyData.features || null,
+      strata_body_corps: propertyData.strata_body_corps || null,
+      council_rates: propertyData.council_rates || null,
+      images: propertyData.images || [],
+      agent1_name: propertyData.agent1_name || null,
+      agent1_phone: propertyData.agent1_phone || null,
+      agent2_name: propertyData.agent2_name || null,
+      agent2_phone: propertyData.agent2_phone || null,
+      agent_email: propertyData.agent_email || null,
+      agency_id: 'default_agency',
+      user_email: req.user!.email,
+      created_at: new Date(),
+      status: 'active',
+      neighbouring_suburb: propertyData.neighbouring_suburb || null,
+      neighbouring_postcode: propertyData.neighbouring_postcode || null,
+      neighbouring_state: propertyData.neighbouring_state || null,
+      rp_data_report: propertyData.rp_data_report || null,
+      additional_report: propertyData.additional_report || null,
+      marketing_package: propertyData.marketing_package || null,
+      marketing_cost: propertyData.marketing_cost || null
+    });
 
-    if (property) {
-      property.images = property.images ? JSON.parse(property.images as any) : [];
-    }
+    const property = await findPropertyById(propertyId);
 
     res.status(201).json(property);
   } catch (error: any) {
@@ -220,31 +204,9 @@ router.post('/', async (req: Request, res: Response) => {
 // GET /api/properties
 router.get('/', async (req: Request, res: Response) => {
   try {
-    const userEmail = req.userEmail;
-
-    let query: string;
-    const params: Record<string, any> = {};
+    const properties = await listProperties(visibleTo(req));
 
-    if (userEmail) {
-      query = `SELECT * FROM properties WHERE user_email = @userEmail OR user_email IS NULL`;
-      params.userEmail = userEmail;
-    } else {
-      query = `SELECT * FROM properties`;
-    }
-
-    const properties = await queryMany<Property>(query, params);
-
-    // Parse JSON fields
-    const parsed = properties.map(p => ({
-      ...p,
-      images: p.images ? JSON.parse(p.images as any) : [],
-      tags: p.tags ? JSON.parse(p.tags as any) : null,
-      comparables_data: p.comparables_data ? JSON.parse(p.comparables_data as any) : null,
-      confidence_scoring: p.confidence_scoring ? JSON.parse(p.confidence_scoring as any) : null,
-      valuation_history: p.valuation_history ? JSON.parse(p.valuation_history as any) : null
-    }));
-
-    res.json(parsed);
+    res.json(properties);
   } catch (error) {
     console.error('Get properties error:', error);
     res.status(500).json({ detail: 'Failed to get properties' });
@@ -296,34 +258,15 @@ router.post('/extract-pdf-text', upload.single('file'), async (req: Request, res
 });
 
 // GET /api/properties/:propertyId
-router.get('/:propertyId', async (req: Request, res: Response) => {
+router.get('/:propertyId', requirePropertyAccess('read'), async (req: Request, res: Response) => {
   try {
-    const { propertyId } = req.params;
-    const userEmail = req.userEmail;
-
-    const property = await queryOne<Property>(
-      'SELECT * FROM properties WHERE id = @id',
-      { id: propertyId }
-    );
+    const property = await findPropertyById(req.params.propertyId);
 
     if (!property) {
       res.status(404).json({ detail: 'Property not found' });
       return;
     }
 
-    // Check ownership
-    if (userEmail && property.user_email && property.user_email !== userEmail) {
-      res.status(403).json({ detail: 'Access denied: You can only view your own properties' });
-      return;
-    }
-
-    // Parse JSON fields
-    property.images = property.images ? JSON.parse(property.images as any) : [];
-    property.tags = property.tags ? JSON.parse(property.tags as any) : null;
-    property.comparables_data = property.comparables_data ? JSON.parse(property.comparables_data as any) : null;
-    property.confidence_scoring = property.confidence_scoring ? JSON.parse(property.confidence_scoring as any) : null;
-    property.valuation_history = property.valuation_history ? JSON.parse(property.valuation_history as any) : null;
-
     res.json(property);
   } catch (error) {
     console.error('Get property error:', error);
@@ -332,74 +275,23 @@ router.get('/:propertyId', async (req: Request, res: Response) => {
 });
 
 // PUT /api/properties/:propertyId
-router.put('/:propertyId', async (req: Request, res: Response) => {
+router.put('/:propertyId', requirePropertyAccess('write'), async (req: Request, res: Response) => {
   try {
     const { propertyId } = req.params;
-    const userEmail = req.userEmail;
     const updateData = req.body as PropertyCreate;
 
-    const property = await queryOne<Property>(
-      'SELECT * FROM properties WHERE id = @id',
-      { id: propertyId }
-    );
-
-    if (!property) {
-      res.status(404).json({ detail: 'Property not found' });
-      return;
+    // Missing or null values keep what is stored
+    const fields: Record<string, unknown> = {};
+    for (const key of PUT_FIELDS) {
+      if (updateData[key] !== undefined && updateData[key] !== null) {
+        fields[key] = updateData[key];
+      }
     }
-
-    if (userEmail && property.user_email && property.user_email !== userEmail) {
-      res.status(403).json({ detail: 'Access denied' });
-      return;
+    if (Object.keys(fields).length > 0) {
+      await updateProperty(propertyId, fields as PropertyFields);
     }
 
-    await execute(
-      `UPDATE properties SET
-        beds = @beds, baths = @baths, carpark = @carpark, location = @location,
-        price = @price, size = @size, property_type = @property_type, features = @features,
-        strata_body_corps = @strata_body_corps, council_rates = @council_rates, images = @images,
-        agent1_name = @agent1_name, agent1_phone = @agent1_phone, agent2_name = @agent2_name,
-        agent2_phone = @agent2_phone, agent_email = @agent_email,
-        neighbouring_suburb = @neighbouring_suburb, neighbouring_postcode = @neighbouring_postcode, neighbouring_state = @neighbouring_state,
-        rp_data_report = @rp_data_report, additional_report = @additional_report,
-        marketing_package = @marketing_package, marketing_cost = @marketing_cost
-       WHERE id = @id`,
-      {
-        id: propertyId,
-        beds: updateData.beds ?? property.beds,
-        baths: updateData.baths ?? property.baths,
-        carpark: updateData.carpark ?? property.carpark,
-        location: updateData.location ?? property.location,
-        price: updateData.price ?? property.price,
-        size: updateData.size ?? property.size,
-        property_type: updateData.property_type ?? property.property_type,
-        features: updateData.features ?? property.features,
-        strata_body_corps: updateData.strata_body_corps ?? property.strata_body_corps,
-        council_rates: updateData.council_rates ?? property.council_rates,
-        images: updateData.images ? JSON.stringify(updateData.images) : property.images,
-        agent1_name: updateData.agent1_name ?? property.agent1_name,
-        agent1_phone: updateData.agent1_phone ?? property.agent1_phone,
-        agent2_name: updateData.agent2_name ?? property.agent2_name,
-        agent2_phone: updateData.agent2_phone ?? property.agent2_phone,
-        agent_email: updateData.agent_email ?? property.agent_email,
-        neighbouring_suburb: updateData.neighbouring_suburb ?? property.neighbouring_suburb,
-        neighbouring_postcode: updateData.neighbouring_postcode ?? property.neighbouring_postcode,
-        neighbouring_state: updateData.neighbouring_state ?? property.neighbouring_state,
-        rp_data_report: updateData.rp_data_report ?? property.rp_data_report,
-        additional_report: updateData.additional_report ?? property.additional_report,
-        marketing_package: updateData.marketing_package ?? property.marketing_package,
-        marketing_cost: updateData.marketing_cost ?? property.marketing_cost
-      }
-    );
-
-    const updated = await queryOne<Property>(
-      'SELECT * FROM properties WHERE id = @id',
-      { id: propertyId }
-    );
-
-    if (updated) {
-      updated.images = updated.images ? JSON.parse(updated.images as any) : [];
-    }
+    const updated = await findPropertyById(propertyId);
 
     res.json(updated);
   } catch (error: any) {
@@ -409,53 +301,33 @@ router.put('/:propertyId', async (req: Request, res: Response) => {
 });
 
 // PATCH /api/properties/:propertyId
-router.patch('/:propertyId', async (req: Request, res: Response) => {
+router.patch('/:propertyId', requirePropertyAccess('write'), async (req: Request, res: Response) => {
   try {
     const { propertyId } = req.params;
     const updateData = req.body;
 
     const allowedFields = ['latitude', 'longitude', 'status', 'is_favourite', 'tags', 'estimated_value_range', 'rp_data_report', 'additional_report', 'rp_data_upload_date'];
-    const updates: string[] = [];
-    const params: Record<string, any> = { id: propertyId };
+    const fields: Record<string, unknown> = {};
 
     for (const key of Object.keys(updateData)) {
       if (allowedFields.includes(key)) {
-        if (key === 'tags') {
-          updates.push(`${key} = @${key}`);
-          params[key] = JSON.stringify(updateData[key]);
-        } else if (key === 'is_favourite') {
-          updates.push(`${key} = @${key}`);
-          params[key] = updateData[key] ? 1 : 0;
-        } else {
-          updates.push(`${key} = @${key}`);
-          params[key] = updateData[key];
-        }
+        fields[key] = updateData[key];
       }
     }
 
-    if (updates.length === 0) {
+    if (Object.keys(fields).length === 0) {
       res.status(400).json({ detail: 'No valid fields to update' });
       return;
     }
 
-    const rowsAffected = await execute(
-      `UPDATE properties SET ${updates.join(', ')} WHERE id = @id`,
-      params
-    );
+    const rowsAffected = await updateProperty(propertyId, fields as PropertyFields);
 
     if (rowsAffected === 0) {
       res.status(404).json({ detail: 'Property not found' });
       return;
     }
 
-    const updated = await queryOne<Property>(
-      'SELECT * FROM properties WHERE id = @id',
-      { id: propertyId }
-    );
-
-    if (updated) {
-      updated.images = updated.images ? JSON.parse(updated.images as any) : [];
-    }
+    const updated = await findPropertyById(propertyId);
 
     res.json(updated);
   } catch (error: any) {
@@ -465,27 +337,9 @@ router.patch('/:propertyId', async (req: Request, res: Response) => {
 });
 
 // DELETE /api/properties/:propertyId
-router.delete('/:propertyId', async (req: Request, res: Response) => {
+router.delete('/:propertyId', requirePropertyAccess('write'), async (req: Request, res: Response) => {
   try {
-    const { propertyId } = req.params;
-    const userEmail = req.userEmail;
-
-    const property = await queryOne<Property>(
-      'SELECT * FROM properties WHERE id = @id',
-      { id: propertyId }
-    );
-
-    if (!property) {
-      res.status(404).json({ detail: 'Property not found' });
-      return;
-    }
-
-    if (userEmail && property.user_email && property.user_email !== userEmail) {
-      res.status(403).json({ detail: 'Access denied' });
-      return;
-    }
-
-    await execute('DELETE FROM properties WHERE id = @id', { id: propertyId });
+    await deleteProperty(req.params.propertyId);
 
     res.json({ success: true, message: 'Property deleted successfully' });
   } catch (error) {
@@ -495,14 +349,11 @@ router.delete('/:propertyId', async (req: Request, res: Response) => {
 });
 
 // POST /api/properties/:propertyId/generate-pitch
-router.post('/:propertyId/generate-pitch', async (req: Request, res: Response) => {
+router.post('/:propertyId/generate-pitch', requirePropertyAccess('write'), async (req: Request, res: Response) => {
   try {
     const { propertyId } = req.params;
 
-    const property = await queryOne<Property>(
-      'SELECT * FROM properties WHERE id = @id',
-      { id: propertyId }
-    );
+    const property = await findPropertyById(propertyId);
 
     if (!property) {
       res.status(404).json({ detail: 'Property not found' });
@@ -538,10 +389,7 @@ router.post('/:propertyId/generate-pitch', async (req: Request, res: Response) =
 
     const pitch = completion.choices[0]?.message?.content || 'Unable to generate pitch';
 
-    await execute(
-      'UPDATE properties SET pitch = @pitch WHERE id = @id',
-      { pitch, id: propertyId }
-    );
+    await updateProperty(propertyId, { pitch });
 
     res.json({ pitch, success: true });
   } catch (error: any) {
@@ -551,7 +399,7 @@ router.post('/:propertyId/generate-pitch', async (req: Request, res: Response) =
 });
 
 // PUT /api/properties/:propertyId/update-pitch
-router.put('/:propertyId/update-pitch', async (req: Request, res: Response) => {
+router.put('/:propertyId/update-pitch', requirePropertyAccess('write'), async (req: Request, res: Response) => {
   try {
     const { propertyId } = req.params;
     const { pitch } = req.body;
@@ -561,10 +409,7 @@ router.put('/:propertyId/update-pitch', async (req: Request, res: Response) => {
       return;
     }
 
-    const rowsAffected = await execute(
-      'UPDATE properties SET pitch = @pitch WHERE id = @id',
-      { pitch, id: propertyId }
-    );
+    const rowsAffected = await updateProperty(propertyId, { pitch });
 
     if (rowsAffected === 0) {
       res.status(404).json({ detail: 'Property not found' });
@@ -579,7 +424,7 @@ router.put('/:propertyId/update-pitch', async (req: Request, res: Response) => {
 });
 
 // PUT /api/properties/:propertyId/update-rp-data
-router.put('/:propertyId/update-rp-data', async (req: Request, res: Response) => {
+router.put('/:propertyId/update-rp-data', requirePropertyAccess('write'), async (req: Request, res: Response) => {
   try {
     const { propertyId } = req.params;
     const { report } = req.body;
@@ -589,10 +434,7 @@ router.put('/:propertyId/update-rp-data', async (req: Request, res: Response) =>
       return;
     }
 
-    const rowsAffected = await execute(
-      `UPDATE properties SET rp_data_report = @report, rp_data_upload_date = @upload_date WHERE id = @id`,
-      { report, upload_date: new Date(), id: propertyId }
-    );
+    const rowsAffected = await updateProperty(propertyId, { rp_data_report: report, rp_data_upload_date: new Date() });
 
     if (rowsAffected === 0) {
       res.status(404).json({ detail: 'Property not found' });
@@ -607,7 +449,7 @@ router.put('/:propertyId/update-rp-data', async (req: Request, res: Response) =>
 });
 
 // PUT /api/properties/:propertyId/update-additional-report
-router.put('/:propertyId/update-additional-report', async (req: Request, res: Response) => {
+router.put('/:propertyId/update-additional-report', requirePropertyAccess('write'), async (req: Request, res: Response) => {
   try {
     const { propertyId } = req.params;
     const { report } = req.body;
@@ -617,10 +459,7 @@ router.put('/:propertyId/update-additional-report', async (req: Request, res: Re
       return;
     }
 
-    const rowsAffected = await execute(
-      `UPDATE properties SET additional_report = @report WHERE id = @id`,
-      { report, id: propertyId }
-    );
+    const rowsAffected = await updateProperty(propertyId, { additional_report: report });
 
     if (rowsAffected === 0) {
       res.status(404).json({ detail: 'Property not found' });
@@ -635,7 +474,7 @@ router.put('/:propertyId/update-additional-report', async (req: Request, res: Re
 });
 
 // POST /api/properties/:propertyId/upload-additional-report-pdf
-router.post('/:propertyId/upload-additional-report-pdf', upload.single('file'), async (req: Request, res: Response) => {
+router.post('/:propertyId/upload-additional-report-pdf', requirePropertyAccess('write'), upload.single('file'), async (req: Request, res: Response) => {
   try {
     const { propertyId } = req.params;
     console.log(`[upload-additional-report-pdf] Request for property ${propertyId}`);
@@ -671,10 +510,7 @@ router.post('/:propertyId/upload-additional-report-pdf', upload.single('file'),
     }
 
     // Save the extracted text to the property
-    const rowsAffected = await execute(
-      `UPDATE properties SET additional_report = @report WHERE id = @id`,
-      { report: pdfText, id: propertyId }
-    );
+    const rowsAffected = await updateProperty(propertyId, { additional_report: pdfText });
 
     if (rowsAffected === 0) {
       res.status(404).json({ detail: 'Property not found' });
@@ -689,8 +525,15 @@ router.post('/:propertyId/upload-additional-report-pdf', upload.single('file'),
   }
 });
 
+// A calendar date as YYYY-MM-DD (rejects 2026-02-30 as well as free text)
+function isValidDay(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
 // POST /api/properties/:propertyId/mark-sold
-router.post('/:propertyId/mark-sold', async (req: Request, res: Response) => {
+router.post('/:propertyId/mark-sold', requirePropertyAccess('write'), async (req: Request, res: Response) => {
   try {
     const { propertyId } = req.params;
     const { sold_price, sale_date } = req.body;
@@ -700,21 +543,32 @@ router.post('/:propertyId/mark-sold', async (req: Request, res: Response) => {
       return;
     }
 
-    const rowsAffected = await execute(
-      `UPDATE properties SET status = 'sold', sold_price = @sold_price, sale_date = @sale_date WHERE id = @id`,
-      {
-        sold_price,
-        sale_date: sale_date || new Date().toISOString().split('T')[0],
-        id: propertyId
-      }
-    );
+    if (sale_date != null && sale_date !== '' && !isValidDay(sale_date)) {
+      res.status(400).json({ detail: 'sale_date must be a date in YYYY-MM-DD format' });
+      return;
+    }
 
-    if (rowsAffected === 0) {
+    const saleDate = sale_date || new Date().toISOString().split('T')[0];
+
+    // The sale and the accuracy scores it produces are saved together or not at all
+    const scored = await withTransaction(async tx => {
+      const rowsAffected = await updateProperty(propertyId, { status: 'sold', sold_price, sale_date: saleDate }, tx);
+      if (rowsAffected === 0) return null;
+
+      // Score the valuations made before the sale against the actual price
+      return recordSaleAccuracy(propertyId, sold_price, saleDate, tx);
+    });
+
+    if (!scored) {
       res.status(404).json({ detail: 'Property not found' });
       return;
     }
 
-    res.json({ success: true });
+    res.json({
+      success: true,
+      valuations_scored: scored.length,
+      latest_valuation_accuracy: scored.length > 0 ? scored[scored.length - 1].accuracy : null
+    });
   } catch (error) {
     console.error('Mark as sold error:', error);
     res.status(500).json({ detail: 'Failed to mark property as sold' });
@@ -722,80 +576,173 @@ router.post('/:propertyId/mark-sold', async (req: Request, res: Response) => {
 });
 
 // POST /api/properties/:propertyId/save-evaluation
-router.post('/:propertyId/save-evaluation', async (req: Request, res: Response) => {
+router.post('/:propertyId/save-evaluation', requirePropertyAccess('write'), async (req: Request, res: Response) => {
   try {
     const { propertyId } = req.params;
-    const { evaluation_report, comparables_data, confidence_scoring, valuation_entry, evaluation_type } = req.body;
+    const { evaluation_report, evaluation_type, job_id } = req.body;
+    let { comparables_data, valuation_entry } = req.body;
 
     if (!evaluation_report || typeof evaluation_report !== 'string') {
       res.status(400).json({ detail: 'Evaluation report is required' });
       return;
     }
 
-    // Use the valuation_entry values that were already correctly extracted from the
-    // "Estimated Value Range" section by the frontend evaluate API route.
-    // This ensures consistency between what's displayed and what's saved.
-    let estimated_value_range: string | null = null;
+    const property = await findPropertyById(propertyId);
+    if (!property) {
+      res.status(404).json({ detail: 'Property not found' });
+      return;
+    }
 
+    // Confidence is computed here from the comparables, never taken from the client.
+    // When the evaluation job is given, its server-side result is used as-is.
+    let confidence_scoring: ConfidenceScoring | null = null;
+    let structured_valuation: StructuredValuation | null = null;
+    let jobResult: any = null;
+    if (job_id) {
+      const job = await getJob(job_id);
+      if (!job || !ownsJob(job, req.user)) {
+        res.status(404).json({ detail: 'Evaluation job not found' });
+        return;
+      }
+      jobResult = await getJobResult(job_id);
+    }
+    if (jobResult) {
+      comparables_data = jobResult.comparables_data || comparables_data;
+      confidence_scoring = jobResult.confidence_scoring || null;
+      structured_valuation = jobResult.structured_valuation || null;
+    } else if (req.body.structured_valuation) {
+      const result = validateStructuredValuation(req.body.structured_valuation);
+      if (!result.valid) {
+        res.status(400).json({ detail: `Invalid structured_valuation: ${result.errors.join('; ')}` });
+        return;
+      }
+      structured_valuation = result.valuation;
+    }
+    if (!confidence_scoring && Array.isArray(comparables_data?.comparable_sold)) {
+      confidence_scoring = computeConfidenceScoring(
+        {
+          beds: property.beds,
+          baths: property.baths,
+          latitude: property.latitude ?? null,
+          longitude: property.longitude ?? null,
+          neighbouring_suburb: property.neighbouring_suburb ?? null
+        },
+        comparables_data.comparable_sold,
+        jobResult?.statistical_valuation || null
+      );
+    }
+
+    // Structured values from the evaluation take precedence over client-extracted ones
+    if (structured_valuation) {
+      const { conservative, market, premium } = structured_valuation.estimated_value;
+      const entry: ValuationHistoryEntry = {
+        date: new Date().toISOString(),
+        estimated_value: market,
+        value_low: conservative,
+        value_high: premium,
+        confidence_score: confidence_scoring?.overall_score ?? 0,
+        confidence_level: confidence_scoring?.level ?? 'low',
+        data_source: comparables_data?.data_source || 'unknown',
+        comparables_count: comparables_data?.comparable_sold?.length || 0
+      };
+      valuation_entry = entry;
+    }
+
+    if (valuation_entry != null) {
+      const errors = validateValuationEntry(valuation_entry);
+      if (errors.length > 0) {
+        res.status(400).json({ detail: `Invalid valuation_entry: ${errors.join('; ')}` });
+        return;
+      }
+    }
+
+    let estimated_value_range: string | null = null;
     if (valuation_entry?.value_low && valuation_entry?.value_high) {
-      // Format as "$X - $Y" using the pre-extracted values
       const formatPrice = (price: number) => '$' + price.toLocaleString();
       estimated_value_range = `${formatPrice(valuation_entry.value_low)} - ${formatPrice(valuation_entry.value_high)}`;
-      console.log(`[SaveEvaluation] Using valuation_entry values: ${estimated_value_range}`);
-    } else {
-      // Fallback: Find "## X. Estimated Value Range" section, then extract value after "estimated value range" text
-      const sectionMatch = evaluation_report.match(/##\s*\d+\.?\s*Estimated Value Range\s*\n([\s\S]*?)(?=##|$)/i);
-      if (sectionMatch) {
-        const sectionContent = sectionMatch[1];
-        const rangeMatch = sectionContent.match(/estimated value range[^$]*\$\s*([\d,]+)\s*(?:to|-|–|and)\s*\$\s*([\d,]+)/i);
-        if (rangeMatch) {
-          estimated_value_range = `$${rangeMatch[1]} - $${rangeMatch[2]}`;
-          console.log(`[SaveEvaluation] Extracted from section: ${estimated_value_range}`);
-        }
-      }
+      console.log(`[SaveEvaluation] Estimated value range: ${estimated_value_range}`);
     }
 
-    const valuation_history = valuation_entry ? JSON.stringify([valuation_entry]) : null;
-
-    const rowsAffected = await execute(
-      `UPDATE properties SET
-        evaluation_report = @evaluation_report,
-        evaluation_date = @evaluation_date,
-        comparables_data = @comparables_data,
-        confidence_scoring = @confidence_scoring,
-        valuation_history = @valuation_history,
-        estimated_value_range = @estimated_value_range,
-        evaluation_type = @evaluation_type,
-        improvements_detected = NULL,
-        evaluation_ad = NULL
-       WHERE id = @id`,
-      {
+    // The report and its history entry are saved together or not at all
+    const saved = await withTransaction(async tx => {
+      const rowsAffected = await updateProperty(propertyId, {
         evaluation_report,
         evaluation_date: new Date(),
-        comparables_data: comparables_data ? JSON.stringify(comparables_data) : null,
-        confidence_scoring: confidence_scoring ? JSON.stringify(confidence_scoring) : null,
-        valuation_history,
+        comparables_data: comparables_data || null,
+        confidence_scoring,
         estimated_value_range,
+        value_conservative: valuation_entry?.value_low ?? null,
+        value_market: valuation_entry?.estimated_value ?? null,
+        value_premium: valuation_entry?.value_high ?? null,
+        structured_valuation,
         evaluation_type: evaluation_type || null,
-        id: propertyId
+        improvements_detected: null,
+        evaluation_ad: null
+      }, tx);
+      if (rowsAffected === 0) return false;
+
+      // Each evaluation is appended to the history rather than replacing the last one
+      if (valuation_entry) {
+        const timeline = await appendValuation(propertyId, {
+          entry: { ...valuation_entry, evaluation_type: evaluation_type || null },
+          evaluation_type: evaluation_type || null,
+          job_id: jobResult ? job_id : null,
+          created_by: req.user!.email,
+          evaluation_report,
+          comparables_data,
+          confidence_scoring,
+          structured_valuation
+        }, tx);
+        valuation_entry = timeline[timeline.length - 1];
       }
-    );
+      return true;
+    });
 
-    if (rowsAffected === 0) {
+    if (!saved) {
       res.status(404).json({ detail: 'Property not found' });
       return;
     }
 
     console.log(`[SaveEvaluation] Saved evaluation for property ${propertyId}`);
-    res.json({ success: true, estimated_value_range });
+    res.json({ success: true, estimated_value_range, confidence_scoring, valuation_entry: valuation_entry || null });
   } catch (error) {
     console.error('Save evaluation error:', error);
     res.status(500).json({ detail: 'Failed to save evaluation' });
   }
 });
 
+// GET /api/properties/:propertyId/valuations
+router.get('/:propertyId/valuations', requirePropertyAccess('read'), async (req: Request, res: Response) => {
+  try {
+    const { propertyId } = req.params;
+
+    const valuations = await listValuations(propertyId);
+    res.json({ property_id: propertyId, valuations });
+  } catch (error) {
+    console.error('List valuations error:', error);
+    res.status(500).json({ detail: 'Failed to get valuation history' });
+  }
+});
+
+// GET /api/properties/:propertyId/valuations/:entryId
+router.get('/:propertyId/valuations/:entryId', requirePropertyAccess('read'), async (req: Request, res: Response) => {
+  try {
+    const { propertyId, entryId } = req.params;
+
+    const valuation = await getValuation(propertyId, entryId);
+    if (!valuation) {
+      res.status(404).json({ detail: 'Valuation not found' });
+      return;
+    }
+    res.json(valuation);
+  } catch (error) {
+    console.error('Get valuation error:', error);
+    res.status(500).json({ detail: 'Failed to get valuation' });
+  }
+});
+
 // POST /api/properties/:propertyId/apply-valuation
-router.post('/:propertyId/apply-valuation', async (req: Request, res: Response) => {
+router.post('/:propertyId/apply-valuation', requirePropertyAccess('write'), async (req: Request, res: Response) => {
   try {
     const { propertyId } = req.params;
     const { market_value } = req.body;
@@ -805,10 +752,7 @@ router.post('/:propertyId/apply-valuation', async (req: Request, res: Response)
       return;
     }
 
-    const rowsAffected = await execute(
-      'UPDATE properties SET price = @price WHERE id = @id',
-      { price: market_value, id: propertyId }
-    );
+    const rowsAffected = await updateProperty(propertyId, { price: market_value });
 
     if (rowsAffected === 0) {
       res.status(404).json({ detail: 'Property not found' });
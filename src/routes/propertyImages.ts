@@ -1,31 +1,27 @@
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { queryOne, queryMany, execute } from '../utils/database';
+import { findPropertyImages, updateProperty } from '../repositories/propertyRepository';
+import { requireUser } from '../middleware/auth';
+import { requirePropertyAccess } from '../middleware/propertyAccess';
 
 const router = Router();
 
+router.use(requireUser);
+
 // Note: Images are stored in the properties table as a JSON array in the images column
 // This route provides a separate API for managing images
 
 // GET /api/property-images/:propertyId - Get all images for a property
-router.get('/:propertyId', async (req: Request, res: Response) => {
+router.get('/:propertyId', requirePropertyAccess('read'), async (req: Request, res: Response) => {
   try {
     const { propertyId } = req.params;
 
-    const property = await queryOne<{ images: string }>(
-      `SELECT images FROM properties WHERE id = @propertyId`,
-      { propertyId }
-    );
+    const images = await findPropertyImages(propertyId);
 
-    if (!property) {
+    if (!images) {
       return res.status(404).json({ error: 'Property not found' });
     }
 
-    let images: string[] = [];
-    try {
-      images = property.images ? JSON.parse(property.images) : [];
-    } catch { }
-
     // Convert to image objects with IDs for compatibility
     const imageObjects = images.map((url: string, index: number) => ({
       id: `img_${index}`,
@@ -42,7 +38,7 @@ router.get('/:propertyId', async (req: Request, res: Response) => {
 });
 
 // POST /api/property-images/:propertyId - Add images to a property
-router.post('/:propertyId', async (req: Request, res: Response) => {
+router.post('/:propertyId', requirePropertyAccess('write'), async (req: Request, res: Response) => {
   try {
     const { propertyId } = req.params;
     const { image_urls } = req.body;
@@ -51,26 +47,15 @@ router.post('/:propertyId', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'image_urls array is required' });
     }
 
-    const property = await queryOne<{ images: string }>(
-      `SELECT images FROM properties WHERE id = @propertyId`,
-      { propertyId }
-    );
+    const existingImages = await findPropertyImages(propertyId);
 
-    if (!property) {
+    if (!existingImages) {
       return res.status(404).json({ error: 'Property not found' });
     }
 
-    let existingImages: string[] = [];
-    try {
-      existingImages = property.images ? JSON.parse(property.images) : [];
-    } catch { }
-
     const updatedImages = [...existingImages, ...image_urls];
 
-    await execute(
-      `UPDATE properties SET images = @images WHERE id = @propertyId`,
-      { propertyId, images: JSON.stringify(updatedImages) }
-    );
+    await updateProperty(propertyId, { images: updatedImages });
 
     res.status(201).json({
       success: true,
@@ -88,7 +73,7 @@ router.post('/:propertyId', async (req: Request, res: Response) => {
 });
 
 // PUT /api/property-images/:propertyId/reorder - Reorder images
-router.put('/:propertyId/reorder', async (req: Request, res: Response) => {
+router.put('/:propertyId/reorder', requirePropertyAccess('write'), async (req: Request, res: Response) => {
   try {
     const { propertyId } = req.params;
     const { image_order } = req.body; // Array of image URLs in new order
@@ -97,10 +82,7 @@ router.put('/:propertyId/reorder', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'image_order array is required' });
     }
 
-    await execute(
-      `UPDATE properties SET images = @images WHERE id = @propertyId`,
-      { propertyId, images: JSON.stringify(image_order) }
-    );
+    await updateProperty(propertyId, { images: image_order });
 
     res.json({ success: true });
   } catch (error) {
@@ -110,35 +92,24 @@ router.put('/:propertyId/reorder', async (req: Request, res: Response) => {
 });
 
 // DELETE /api/property-images/:propertyId/:imageIndex - Delete a specific image
-router.delete('/:propertyId/:imageIndex', async (req: Request, res: Response) => {
+router.delete('/:propertyId/:imageIndex', requirePropertyAccess('write'), async (req: Request, res: Response) => {
   try {
     const { propertyId, imageIndex } = req.params;
     const index = parseInt(imageIndex, 10);
 
-    const property = await queryOne<{ images: string }>(
-      `SELECT images FROM properties WHERE id = @propertyId`,
-      { propertyId }
-    );
+    const images = await findPropertyImages(propertyId);
 
-    if (!property) {
+    if (!images) {
       return res.status(404).json({ error: 'Property not found' });
     }
 
-    let images: string[] = [];
-    try {
-      images = property.images ? JSON.parse(property.images) : [];
-    } catch { }
-
     if (index < 0 || index >= images.length) {
       return res.status(404).json({ error: 'Image not found' });
     }
 
     images.splice(index, 1);
 
-    await execute(
-      `UPDATE properties SET images = @images WHERE id = @propertyId`,
-      { propertyId, images: JSON.stringify(images) }
-    );
+    await updateProperty(propertyId, { images });
 
     res.json({ success: true });
   } catch (error) {
@@ -148,14 +119,11 @@ router.delete('/:propertyId/:imageIndex', async (req: Request, res: Response) =>
 });
 
 // DELETE /api/property-images/:propertyId - Delete all images for a property
-router.delete('/:propertyId', async (req: Request, res: Response) => {
+router.delete('/:propertyId', requirePropertyAccess('write'), async (req: Request, res: Response) => {
   try {
     const { propertyId } = req.params;
 
-    await execute(
-      `UPDATE properties SET images = '[]' WHERE id = @propertyId`,
-      { propertyId }
-    );
+    await updateProperty(propertyId, { images: [] });
 
     res.json({ success: true, message: 'All images deleted' });
   } catch (error) {
@@ -0,0 +1,40 @@
+import { Router, Request, Response } from 'express';
+import { getValuationAccuracyReport } from '../services/valuationAccuracy';
+import { requireUser } from '../middleware/auth';
+import { hasRole } from '../services/roles';
+
+const router = Router();
+
+router.use(requireUser);
+
+function parseDate(value: unknown): Date | null | undefined {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// GET /api/reports/valuation-accuracy?from=&to=&latest_only=true
+router.get('/valuation-accuracy', async (req: Request, res: Response) => {
+  try {
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if (from === null || to === null) {
+      res.status(400).json({ detail: 'from and to must be valid dates' });
+      return;
+    }
+
+    const report = await getValuationAccuracyReport({
+      from,
+      to,
+      latest_only: req.query.latest_only === 'true',
+      // Admins report across every property, everyone else across their own
+      user_email: hasRole(req.user, 'admin') ? undefined : req.user!.email
+    });
+    res.json(report);
+  } catch (error) {
+    console.error('Valuation accuracy report error:', error);
+    res.status(500).json({ detail: 'Failed to build valuation accuracy report' });
+  }
+});
+
+export default router;
@@ -1,13 +1,17 @@
 import { Router, Request, Response } from 'express';
 import { queryOne, queryMany, execute } from '../utils/database';
-import { extractUserEmail } from '../middleware/auth';
+import { extractUserEmail, authenticateToken, requireRole } from '../middleware/auth';
 import { MarketContext, MarketingPackage } from '../models/types';
+import { getProviderSettings, normaliseProviderSettings, listProviders } from '../services/comparablesProviders';
 import { v4 as uuidv4 } from 'uuid';
 
 const router = Router();
 
 router.use(extractUserEmail);
 
+// This router is also mounted at /api, so API key and provider routes are guarded one by one
+// rather than with router.use
+
 // Helper to parse JSON from setting_data column
 function parseSettingData(setting: { setting_id: string; setting_data: string | null } | null): any {
   if (!setting || !setting.setting_data) return null;
@@ -131,7 +135,7 @@ router.put('/agent', async (req: Request, res: Response) => {
 });
 
 // GET /api/api-settings
-router.get('/', async (req: Request, res: Response) => {
+router.get('/', authenticateToken, requireRole('agency_owner'), async (req: Request, res: Response) => {
   try {
     const setting = await queryOne<{ setting_id: string; setting_data: string }>(
       `SELECT * FROM settings WHERE setting_id = 'api_keys'`
@@ -171,7 +175,7 @@ router.get('/', async (req: Request, res: Response) => {
 });
 
 // POST /api/api-settings
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', authenticateToken, requireRole('admin'), async (req: Request, res: Response) => {
   try {
     const settings = req.body;
 
@@ -212,7 +216,7 @@ router.post('/', async (req: Request, res: Response) => {
 });
 
 // GET /api/settings/api-keys
-router.get('/api-keys', async (req: Request, res: Response) => {
+router.get('/api-keys', authenticateToken, requireRole('agency_owner'), async (req: Request, res: Response) => {
   try {
     const setting = await queryOne<{ setting_id: string; setting_data: string }>(
       `SELECT * FROM settings WHERE setting_id = 'api_keys'`
@@ -246,7 +250,7 @@ router.get('/api-keys', async (req: Request, res: Response) => {
 });
 
 // GET /api/settings/api-keys-internal
-router.get('/api-keys-internal', async (req: Request, res: Response) => {
+router.get('/api-keys-internal', authenticateToken, requireRole('admin'), async (req: Request, res: Response) => {
   try {
     const setting = await queryOne<{ setting_id: string; setting_data: string }>(
       `SELECT * FROM settings WHERE setting_id = 'api_keys'`
@@ -261,7 +265,7 @@ router.get('/api-keys-internal', async (req: Request, res: Response) => {
 });
 
 // PUT /api/settings/api-keys
-router.put('/api-keys', async (req: Request, res: Response) => {
+router.put('/api-keys', authenticateToken, requireRole('admin'), async (req: Request, res: Response) => {
   try {
     const settings = req.body;
 
@@ -329,7 +333,7 @@ router.get('/market-context', async (req: Request, res: Response) => {
 });
 
 // PUT /api/settings/market-context
-router.put('/market-context', async (req: Request, res: Response) => {
+router.put('/market-context', authenticateToken, requireRole('admin'), async (req: Request, res: Response) => {
   try {
     const context = req.body;
     context.last_updated = new Date();
@@ -358,6 +362,64 @@ router.put('/market-context', async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/settings/comparables-providers
+router.get('/comparables-providers', async (req: Request, res: Response) => {
+  try {
+    const settings = await getProviderSettings();
+    const providers = listProviders().map(p => ({
+      id: p.id,
+      name: p.name,
+      capabilities: p.capabilities,
+      enabled: settings.enabled[p.id],
+      position: settings.order.indexOf(p.id)
+    }));
+
+    res.json({ ...settings, providers });
+  } catch (error) {
+    console.error('Get comparables provider settings error:', error);
+    res.status(500).json({ detail: 'Failed to get comparables provider settings' });
+  }
+});
+
+// PUT /api/settings/comparables-providers
+router.put('/comparables-providers', authenticateToken, requireRole('admin'), async (req: Request, res: Response) => {
+  try {
+    const { order, enabled } = req.body;
+
+    if (order !== undefined && !Array.isArray(order)) {
+      return res.status(400).json({ detail: 'order must be an array of provider ids' });
+    }
+    const known = listProviders().map(p => p.id);
+    const unknown = [...(order || []), ...Object.keys(enabled || {})].filter((id: string) => !known.includes(id));
+    if (unknown.length > 0) {
+      return res.status(400).json({ detail: `Unknown providers: ${unknown.join(', ')}. Available: ${known.join(', ')}` });
+    }
+
+    const settings = normaliseProviderSettings({ order, enabled });
+
+    const existing = await queryOne<{ setting_id: string }>(
+      `SELECT setting_id FROM settings WHERE setting_id = 'comparables_providers'`
+    );
+
+    if (existing) {
+      await execute(
+        `UPDATE settings SET setting_data = @data, updated_at = @updated_at WHERE setting_id = 'comparables_providers'`,
+        { data: JSON.stringify(settings), updated_at: new Date() }
+      );
+    } else {
+      await execute(
+        `INSERT INTO settings (setting_id, setting_data, updated_at) VALUES ('comparables_providers', @data, @updated_at)`,
+        { data: JSON.stringify(settings), updated_at: new Date() }
+      );
+    }
+
+    res.json({ success: true, ...settings });
+  } catch (error) {
+    console.error('Update comparables provider settings error:', error);
+    res.status(500).json({ detail: 'Failed to update comparables provider settings' });
+  }
+});
+
 // GET /api/marketing-packages - Return empty for now (can be added to schema later)
 router.get('/marketing-packages', async (req: Request, res: Response) => {
   try {
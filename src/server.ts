@@ -2,9 +2,24 @@
 import dotenv from 'dotenv';
 dotenv.config();
 
+// Offline mode: answer Domain, CoreLogic, realestate.com.au and OpenAI requests from fixtures
+import { installProviderMocks, isProviderMockMode } from './services/providerMocks';
+installProviderMocks();
+
+// Outgoing mail: a missing transport is reported here and fails only the sends, not the server
+import { getMailTransport } from './services/mailer';
+try {
+  console.log(`[Mailer] Sending mail with the ${getMailTransport().name} transport`);
+} catch (error: any) {
+  console.error(`[Mailer] ${error.message}; emails will fail until this is fixed`);
+}
+
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import { connectToDatabase, closeDatabase } from './utils/database';
+import { startEvaluationWorker } from './services/evaluationJobs';
+import { migrateUp } from './utils/migrations';
+import { isAuthCompatMode } from './middleware/auth';
 
 // Import routes
 import authRoutes from './routes/auth';
@@ -19,6 +34,8 @@ import auditRoutes from './routes/audit';
 import historicSalesCacheRoutes from './routes/historicSalesCache';
 import historicSalesWeightsRoutes from './routes/historicSalesWeights';
 import nswSalesImportRoutes from './routes/nswSalesImport';
+import reportRoutes from './routes/reports';
+import adminRoutes from './routes/admin';
 
 const app = express();
 const PORT = process.env.PORT || 8000;
@@ -66,6 +83,12 @@ const corsOptions = {
   credentials: true
 };
 
+// Behind the Azure, Render and Vercel front ends; req.ip is then the client address (shown in session lists).
+// Only the proxies we run behind are trusted, so a client can't pick its own address with X-Forwarded-For:
+// TRUST_PROXY is a hop count (default 1) or Express's list of trusted addresses and subnets.
+const trustProxy = process.env.TRUST_PROXY || '1';
+app.set('trust proxy', /^\d+$/.test(trustProxy) ? parseInt(trustProxy, 10) : trustProxy);
+
 // Middleware
 app.use(cors(corsOptions));
 
@@ -131,6 +154,8 @@ app.use('/api/audit', auditRoutes);
 app.use('/api/historic-sales-cache', historicSalesCacheRoutes);
 app.use('/api/historic-sales-weights', historicSalesWeightsRoutes);
 app.use('/api/nsw-sales', nswSalesImportRoutes);
+app.use('/api/reports', reportRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Root route
 app.get('/', (req: Request, res: Response) => {
@@ -148,6 +173,8 @@ app.get('/api/health', (req: Request, res: Response) => {
     timestamp: new Date().toISOString(),
     env: {
       hasOpenAI: !!process.env.OPENAI_API_KEY,
+      providerMockMode: isProviderMockMode(),
+      authCompatMode: isAuthCompatMode(),
       hasSqlServer: !!process.env.SQL_SERVER,
       hasSqlUser: !!process.env.SQL_USER,
       nodeEnv: process.env.NODE_ENV
@@ -155,29 +182,6 @@ app.get('/api/health', (req: Request, res: Response) => {
   });
 });
 
-// Admin endpoint to clear all base64 images from properties
-app.post('/api/admin/clear-images', async (req: Request, res: Response) => {
-  try {
-    const { execute } = await import('./utils/database');
-
-    // Update all properties to have empty images array
-    const rowsAffected = await execute(
-      `UPDATE properties SET images = '[]'`
-    );
-
-    console.log(`[Admin] Cleared images from ${rowsAffected} properties`);
-
-    res.json({
-      success: true,
-      message: `Cleared images from ${rowsAffected} properties`,
-      modifiedCount: rowsAffected
-    });
-  } catch (error: any) {
-    console.error('[Admin] Clear images error:', error);
-    res.status(500).json({ detail: 'Failed to clear images: ' + error.message });
-  }
-});
-
 // Error handling middleware
 app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
   console.error('Unhandled error:', err);
@@ -189,21 +193,37 @@ app.use((req: Request, res: Response) => {
   res.status(404).json({ detail: 'Not found' });
 });
 
-// Connect to database on cold start
-connectToDatabase().catch(err => {
-  console.error('Failed to connect to database:', err);
-});
+// Under NODE_ENV=test the app is only exported: no cold-start connection, listener or worker,
+// so a test harness can import it and drive it against its own database
+const isTest = process.env.NODE_ENV === 'test';
+
+// Connect to database on cold start, applying pending migrations when MIGRATE_ON_START=true
+if (!isTest) {
+  connectToDatabase()
+    .then(async () => {
+      if (process.env.MIGRATE_ON_START === 'true') {
+        const ran = await migrateUp();
+        console.log(`[Migrations] ${ran.length ? `Applied ${ran.join(', ')}` : 'Database is up to date'}`);
+      }
+    })
+    .catch(err => {
+      console.error('Failed to connect to database:', err);
+    });
+}
 
 // Export for Vercel serverless
 export default app;
 
 // Start server when NOT on Vercel (works for local dev AND Azure)
-if (!process.env.VERCEL) {
+if (!process.env.VERCEL && !isTest) {
   app.listen(PORT, () => {
     console.log(`Server running on http://localhost:${PORT}`);
     console.log(`CORS enabled for: ${corsOrigins.join(', ')}`);
   });
 
+  // Background worker for queued evaluations (Vercel drains the queue per request instead)
+  startEvaluationWorker();
+
   // Handle graceful shutdown
   process.on('SIGINT', async () => {
     console.log('\nShutting down gracefully...');
@@ -0,0 +1,80 @@
+/**
+ * Account tokens
+ * Email verification and password reset links. Each link carries a signed token
+ * that expires (VERIFY_EMAIL_TOKEN_HOURS, default 48; RESET_PASSWORD_TOKEN_MINUTES,
+ * default 60) and can be redeemed once; sending a new link retires the older ones.
+ * Links point at the frontend (APP_URL, default http://localhost:3000).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { AccountTokenPurpose, User } from '../models/types';
+import { signAccountToken, verifyAccountToken } from '../utils/auth';
+import { insertAccountToken, redeemAccountToken, retireAccountTokens } from '../repositories/accountTokenRepository';
+import { sendMail } from './mailer';
+
+export class AccountTokenError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+const VERIFY_EMAIL_TOKEN_SECONDS = parseInt(process.env.VERIFY_EMAIL_TOKEN_HOURS || '48', 10) * 60 * 60;
+const RESET_PASSWORD_TOKEN_SECONDS = parseInt(process.env.RESET_PASSWORD_TOKEN_MINUTES || '60', 10) * 60;
+
+function appUrl(): string {
+  return (process.env.APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+}
+
+async function issueAccountToken(userId: string, purpose: AccountTokenPurpose, expiresInSeconds: number): Promise<string> {
+  const id = uuidv4();
+  await retireAccountTokens(userId, purpose);
+  await insertAccountToken(id, userId, purpose, new Date(Date.now() + expiresInSeconds * 1000));
+  return signAccountToken({ sub: userId, jti: id, purpose }, expiresInSeconds);
+}
+
+/**
+ * Check a token's signature, purpose and expiry and mark it used; returns the user id
+ */
+export async function redeemToken(token: string, purpose: AccountTokenPurpose): Promise<string> {
+  const payload = verifyAccountToken(token, purpose);
+  if (!payload || !(await redeemAccountToken(payload.jti, payload.sub, purpose))) {
+    throw new AccountTokenError('Invalid or expired token', 400);
+  }
+  return payload.sub;
+}
+
+export async function sendVerificationEmail(user: Pick<User, 'id' | 'email' | 'username'>): Promise<void> {
+  const token = await issueAccountToken(user.id, 'verify_email', VERIFY_EMAIL_TOKEN_SECONDS);
+  const link = `${appUrl()}/verify-email?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: [
+      `Hi ${user.username},`,
+      '',
+      'Please confirm your email address by opening this link:',
+      link,
+      '',
+      `The link expires in ${Math.round(VERIFY_EMAIL_TOKEN_SECONDS / 3600)} hours.`
+    ].join('\n')
+  });
+}
+
+export async function sendPasswordResetEmail(user: Pick<User, 'id' | 'email' | 'username'>): Promise<void> {
+  const token = await issueAccountToken(user.id, 'reset_password', RESET_PASSWORD_TOKEN_SECONDS);
+  const link = `${appUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: [
+      `Hi ${user.username},`,
+      '',
+      'We received a request to reset your password. Choose a new one here:',
+      link,
+      '',
+      `The link expires in ${Math.round(RESET_PASSWORD_TOKEN_SECONDS / 60)} minutes. If you did not ask for this, you can ignore this email.`
+    ].join('\n')
+  });
+}
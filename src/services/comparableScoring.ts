@@ -0,0 +1,238 @@
+/**
+ * Comparable scoring engine
+ * Ranks historic sales against a subject property using HistoricSalesWeights,
+ * so every client (evaluations, exports, admin UI) orders comparables identically
+ */
+
+import {
+  HistoricProp,
+  HistoricSalesWeights,
+  ScoringSubject,
+  ScoreFactor,
+  ScoredComparable
+} from '../models/types';
+
+// Every comparable starts from this score before bonuses and penalties are applied
+export const BASE_SIMILARITY_SCORE = 100;
+
+export type ScoringWeights = Omit<HistoricSalesWeights, 'id' | 'name' | 'created_at' | 'updated_at' | 'is_active'>;
+
+/**
+ * Density level used for house vs townhouse vs unit matching
+ * 0 = house, 1 = subdivision (townhouse/villa/duplex), 2 = unit/apartment
+ */
+export function getDensityLevel(propertyType: string | null | undefined): number | null {
+  if (!propertyType) return null;
+  const type = propertyType.toLowerCase();
+
+  if (type.includes('unit') || type.includes('apartment') || type.includes('flat') || type.includes('studio')) {
+    return 2;
+  }
+  if (type.includes('townhouse') || type.includes('villa') || type.includes('duplex') || type.includes('terrace') || type.includes('semi')) {
+    return 1;
+  }
+  if (type.includes('house') || type.includes('residence')) {
+    return 0;
+  }
+
+  return null;
+}
+
+/**
+ * Great-circle distance between two coordinates in km (haversine)
+ */
+export function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Whole and fractional months between a sale date and the reference date
+ */
+export function monthsBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / (1000 * 60 * 60 * 24 * 30.4375);
+}
+
+function scoreBedrooms(subject: ScoringSubject, comp: HistoricProp, w: ScoringWeights): ScoreFactor {
+  if (subject.beds == null || comp.beds == null) {
+    return { adjustment: 0, detail: 'Bedrooms unknown' };
+  }
+  const diff = Math.abs(subject.beds - comp.beds);
+  if (diff === 0) {
+    return { adjustment: w.bedroom_exact_match_bonus, detail: 'Exact bedroom match' };
+  }
+  return {
+    adjustment: -diff * w.bedroom_diff_penalty_per_bed,
+    detail: `${diff} bedroom${diff === 1 ? '' : 's'} different`
+  };
+}
+
+function scoreBathrooms(subject: ScoringSubject, comp: HistoricProp, w: ScoringWeights): ScoreFactor {
+  if (subject.baths == null || comp.baths == null) {
+    return { adjustment: 0, detail: 'Bathrooms unknown' };
+  }
+  const diff = Math.abs(subject.baths - comp.baths);
+  if (diff === 0) {
+    return { adjustment: w.bathroom_exact_match_bonus, detail: 'Exact bathroom match' };
+  }
+  return {
+    adjustment: -diff * w.bathroom_diff_penalty_per_bath,
+    detail: `${diff} bathroom${diff === 1 ? '' : 's'} different`
+  };
+}
+
+function scoreDensity(subject: ScoringSubject, comp: HistoricProp, w: ScoringWeights): ScoreFactor {
+  const subjectLevel = getDensityLevel(subject.property_type);
+  const compLevel = getDensityLevel(comp.property_type);
+
+  if (subjectLevel === null || compLevel === null) {
+    return { adjustment: 0, detail: 'Property type unknown' };
+  }
+
+  const diff = Math.abs(subjectLevel - compLevel);
+  if (diff === 0) {
+    return { adjustment: 0, detail: 'Same property type' };
+  }
+  if (diff === 2) {
+    return { adjustment: -w.density_house_to_unit_penalty, detail: 'House vs unit mismatch' };
+  }
+  return { adjustment: -w.density_house_to_subdivision_penalty, detail: 'House vs townhouse/villa mismatch' };
+}
+
+function scoreDistance(distance: number | null, w: ScoringWeights): ScoreFactor {
+  if (distance === null) {
+    return { adjustment: 0, detail: 'Distance unknown' };
+  }
+
+  const metres = Math.round(distance * 1000);
+  if (distance < w.distance_ultra_close_threshold_km) {
+    return { adjustment: w.distance_ultra_close_bonus, detail: `Ultra close (${metres}m)` };
+  }
+  if (distance < w.distance_very_close_threshold_km) {
+    return { adjustment: w.distance_very_close_bonus, detail: `Very close (${metres}m)` };
+  }
+  if (distance < w.distance_close_threshold_km) {
+    return { adjustment: w.distance_close_bonus, detail: `Close (${metres}m)` };
+  }
+  if (distance < w.distance_moderate_threshold_km) {
+    return { adjustment: -w.distance_moderate_penalty, detail: `Moderate distance (${metres}m)` };
+  }
+  if (distance <= w.distance_far_threshold_km) {
+    return { adjustment: -w.distance_far_penalty, detail: `Far (${distance.toFixed(1)}km)` };
+  }
+  if (distance <= w.distance_very_far_threshold_km) {
+    // Between the far and very far thresholds the penalty climbs from one to the other
+    const span = w.distance_very_far_threshold_km - w.distance_far_threshold_km;
+    const progress = span > 0 ? (distance - w.distance_far_threshold_km) / span : 1;
+    const penalty = w.distance_far_penalty + (w.distance_very_far_penalty - w.distance_far_penalty) * progress;
+    return { adjustment: -Math.round(penalty), detail: `Distant (${distance.toFixed(1)}km)` };
+  }
+  return { adjustment: -w.distance_very_far_penalty, detail: `Very far (${distance.toFixed(1)}km)` };
+}
+
+function scoreRecency(months: number | null, w: ScoringWeights): ScoreFactor {
+  if (months === null) {
+    return { adjustment: 0, detail: 'Sale date unknown' };
+  }
+
+  const label = `${Math.max(0, Math.round(months))} months ago`;
+  if (months <= w.recency_very_recent_threshold_months) {
+    return { adjustment: w.recency_very_recent_bonus, detail: `Very recent (${label})` };
+  }
+  if (months <= w.recency_recent_threshold_months) {
+    return { adjustment: w.recency_recent_bonus, detail: `Recent (${label})` };
+  }
+  if (months > w.recency_very_old_threshold_months) {
+    return { adjustment: -w.recency_very_old_penalty, detail: `Very old (${label})` };
+  }
+  if (months > w.recency_old_threshold_months) {
+    return { adjustment: -w.recency_old_penalty, detail: `Old (${label})` };
+  }
+  if (months > w.recency_getting_old_threshold_months) {
+    return { adjustment: -w.recency_getting_old_penalty, detail: `Getting old (${label})` };
+  }
+  return { adjustment: 0, detail: label };
+}
+
+function scoreLandArea(subject: ScoringSubject, comp: HistoricProp, w: ScoringWeights): ScoreFactor {
+  if (!w.land_area_weight) {
+    return { adjustment: 0, detail: 'Land area not weighted' };
+  }
+  if (!subject.land_area || !comp.land_area) {
+    return { adjustment: 0, detail: 'Land area unknown' };
+  }
+
+  const diffPercent = (Math.abs(subject.land_area - comp.land_area) / subject.land_area) * 100;
+  if (diffPercent <= w.land_area_tolerance_percent) {
+    return { adjustment: 0, detail: `Land area within ${w.land_area_tolerance_percent}% (${Math.round(diffPercent)}%)` };
+  }
+
+  return {
+    adjustment: -Math.round((diffPercent - w.land_area_tolerance_percent) * w.land_area_weight),
+    detail: `Land area differs by ${Math.round(diffPercent)}%`
+  };
+}
+
+/**
+ * Score a single comparable against the subject property
+ */
+export function scoreComparable(
+  subject: ScoringSubject,
+  comp: HistoricProp,
+  weights: ScoringWeights
+): ScoredComparable {
+  const referenceDate = subject.reference_date ? new Date(subject.reference_date) : new Date();
+
+  const distance =
+    subject.latitude != null && subject.longitude != null && comp.latitude != null && comp.longitude != null
+      ? distanceKm(subject.latitude, subject.longitude, comp.latitude, comp.longitude)
+      : null;
+
+  const soldDate = comp.sold_date_raw ? new Date(comp.sold_date_raw) : null;
+  const months = soldDate && !isNaN(soldDate.getTime()) ? monthsBetween(soldDate, referenceDate) : null;
+
+  const breakdown = {
+    base: BASE_SIMILARITY_SCORE,
+    bedrooms: scoreBedrooms(subject, comp, weights),
+    bathrooms: scoreBathrooms(subject, comp, weights),
+    density: scoreDensity(subject, comp, weights),
+    distance: scoreDistance(distance, weights),
+    recency: scoreRecency(months, weights),
+    land_area: scoreLandArea(subject, comp, weights)
+  };
+
+  const total =
+    breakdown.base +
+    breakdown.bedrooms.adjustment +
+    breakdown.bathrooms.adjustment +
+    breakdown.density.adjustment +
+    breakdown.distance.adjustment +
+    breakdown.recency.adjustment +
+    breakdown.land_area.adjustment;
+
+  return {
+    comparable: comp,
+    similarity_score: Math.max(0, total),
+    distance_km: distance !== null ? Math.round(distance * 1000) / 1000 : null,
+    months_since_sale: months !== null ? Math.round(months * 10) / 10 : null,
+    breakdown
+  };
+}
+
+/**
+ * Score and rank comparables, highest similarity first
+ */
+export function scoreComparables(
+  subject: ScoringSubject,
+  comparables: HistoricProp[],
+  weights: ScoringWeights
+): ScoredComparable[] {
+  return comparables
+    .map(comp => scoreComparable(subject, comp, weights))
+    .sort((a, b) => b.similarity_score - a.similarity_score);
+}
@@ -0,0 +1,136 @@
+/**
+ * Comparables merge stage
+ * Combines results from every provider, collapses the same sale reported by
+ * several sources into one comparable, fills each attribute from the highest
+ * priority source that has it, and records which source supplied each field.
+ */
+
+import { ComparableProperty } from '../models/types';
+import { addressKey } from '../utils/location';
+
+// Attributes that can be filled in from a lower priority source
+const MERGE_FIELDS = [
+  'price',
+  'beds',
+  'baths',
+  'carpark',
+  'property_type',
+  'sold_date',
+  'land_size',
+  'building_size',
+  'latitude',
+  'longitude',
+  'images',
+  'distance_km',
+  'months_since_sale',
+  'similarity_score'
+] as const;
+
+type MergeField = typeof MERGE_FIELDS[number];
+
+// Two reports of the same address more than this far apart are separate sales
+const SAME_SALE_WINDOW_DAYS = 60;
+// Two listings of the same address asking prices further apart than this are separate listings
+const SAME_LISTING_PRICE_PERCENT = 10;
+
+export interface MergeSummary {
+  raw_count: number;
+  merged_count: number;
+  duplicates_removed: number;
+  by_source: Record<string, number>;
+}
+
+function isEmpty(field: MergeField, value: any): boolean {
+  if (value === null || value === undefined || value === '') return true;
+  if (field === 'images') return !Array.isArray(value) || value.length === 0;
+  if (field === 'property_type') return String(value).toLowerCase() === 'unknown';
+  return false;
+}
+
+function saleTime(comp: ComparableProperty): number | null {
+  if (!comp.sold_date) return null;
+  const time = new Date(comp.sold_date).getTime();
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * A sale only matches another with a known date close to its own; an unknown date
+ * ('Recently', missing) could be any sale of the address, so it stays separate.
+ * Current listings carry no date, so they must be asking about the same price:
+ * a unit block or a relisting can put several different listings at one address.
+ */
+function isSameSale(a: ComparableProperty, b: ComparableProperty): boolean {
+  if (a.listing_type === 'listing') {
+    if (!a.price || !b.price) return false;
+    return Math.abs(a.price - b.price) / Math.max(a.price, b.price) <= SAME_LISTING_PRICE_PERCENT / 100;
+  }
+  const timeA = saleTime(a);
+  const timeB = saleTime(b);
+  if (timeA === null || timeB === null) return false;
+  return Math.abs(timeA - timeB) <= SAME_SALE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+}
+
+function startEntry(comp: ComparableProperty): ComparableProperty {
+  const source = comp.source || 'unknown';
+  const fieldSources: Record<string, string> = { address: source };
+  for (const field of MERGE_FIELDS) {
+    if (!isEmpty(field, comp[field])) {
+      fieldSources[field] = source;
+    }
+  }
+  return { ...comp, sources: [source], field_sources: fieldSources };
+}
+
+function absorb(entry: ComparableProperty, comp: ComparableProperty): void {
+  const source = comp.source || 'unknown';
+  if (!entry.sources!.includes(source)) {
+    entry.sources!.push(source);
+  }
+  for (const field of MERGE_FIELDS) {
+    if (isEmpty(field, entry[field]) && !isEmpty(field, comp[field])) {
+      (entry as any)[field] = comp[field];
+      entry.field_sources![field] = source;
+    }
+  }
+}
+
+/**
+ * Merge provider results given in priority order (highest first)
+ */
+export function mergeComparables(lists: ComparableProperty[][]): { comparables: ComparableProperty[]; summary: MergeSummary } {
+  const groups: Map<string, ComparableProperty[]> = new Map();
+  const merged: ComparableProperty[] = [];
+  const bySource: Record<string, number> = {};
+  let rawCount = 0;
+
+  for (const list of lists) {
+    for (const comp of list) {
+      rawCount++;
+      const source = comp.source || 'unknown';
+      bySource[source] = (bySource[source] || 0) + 1;
+
+      const key = `${addressKey(comp.address)}|${comp.listing_type || 'sold'}`;
+      const group = groups.get(key) || [];
+      const existing = group.find(entry => isSameSale(entry, comp));
+
+      if (existing) {
+        absorb(existing, comp);
+      } else {
+        const entry = startEntry(comp);
+        group.push(entry);
+        groups.set(key, group);
+        merged.push(entry);
+      }
+    }
+  }
+
+  return {
+    comparables: merged,
+    summary: {
+      raw_count: rawCount,
+      merged_count: merged.length,
+      duplicates_removed: rawCount - merged.length,
+      by_source: bySource
+    }
+  };
+}
@@ -0,0 +1,452 @@
+/**
+ * Comparables provider registry
+ * Each data source (CoreLogic, Domain, realestate.com.au scraper, ...) implements
+ * ComparablesProvider and normalises its results to ComparableProperty. Which
+ * providers run, and their priority when merging, is read from the
+ * 'comparables_providers' setting.
+ */
+
+import { createHash } from 'crypto';
+import { queryOne } from '../utils/database';
+import {
+  ComparableProperty,
+  ComparablesData,
+  ComparablesStatistics,
+  ComparablesProviderAttempt,
+  ComparablesProviderSettings,
+  ScoredComparable
+} from '../models/types';
+import { getComparableProperties as getDomainComparables, DomainProperty } from './domainApi';
+import {
+  searchComparableSales as getCoreLogicComparables,
+  getPropertyAVM,
+  CoreLogicAVM,
+  CoreLogicSale
+} from './corelogicApi';
+import { scrapeComparableProperties, ScrapedProperty } from './propertyScraper';
+import { mergeComparables } from './comparablesMerge';
+import { findLocalSales } from './localSales';
+
+export interface ApiKeys {
+  domain_api_key: string | null;
+  corelogic_client_key: string | null;
+  corelogic_secret_key: string | null;
+}
+
+export interface ComparablesQuery {
+  location: string;
+  beds: number;
+  baths: number;
+  property_type: string;
+  land_area?: number | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  neighbouring_suburb?: string | null;
+}
+
+export interface ProviderCapabilities {
+  sold: boolean;      // Returns sold comparables
+  listings: boolean;  // Returns current listings
+  avm: boolean;       // Returns an automated valuation for the subject
+  requires_keys: (keyof ApiKeys)[];
+}
+
+export interface ProviderResult {
+  sold: ComparableProperty[];
+  listings: ComparableProperty[];
+  avm?: CoreLogicAVM | null;
+}
+
+export interface ComparablesProvider {
+  id: string;
+  name: string;
+  capabilities: ProviderCapabilities;
+  fetch(query: ComparablesQuery, apiKeys: ApiKeys): Promise<ProviderResult>;
+}
+
+export type ProviderEventHandler = (
+  provider: string,
+  status: 'trying' | 'succeeded' | 'failed',
+  extra?: Record<string, any>
+) => Promise<void> | void;
+
+export const DEFAULT_PROVIDER_SETTINGS: ComparablesProviderSettings = {
+  order: ['corelogic', 'domain', 'historic', 'scraper'],
+  enabled: { corelogic: true, domain: true, historic: true, scraper: true }
+};
+
+const providers: Map<string, ComparablesProvider> = new Map();
+
+export function registerProvider(provider: ComparablesProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getProvider(id: string): ComparablesProvider | null {
+  return providers.get(id) || null;
+}
+
+export function listProviders(): ComparablesProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Get API keys from environment, falling back to the 'api_keys' setting
+ */
+export async function getApiKeys(): Promise<ApiKeys> {
+  const keys: ApiKeys = {
+    domain_api_key: process.env.DOMAIN_API_KEY || null,
+    corelogic_client_key: process.env.CORELOGIC_CLIENT_KEY || null,
+    corelogic_secret_key: process.env.CORELOGIC_SECRET_KEY || null
+  };
+
+  try {
+    const setting = await queryOne<{ setting_id: string; setting_data: string }>(
+      `SELECT * FROM settings WHERE setting_id = 'api_keys'`
+    );
+    if (setting && setting.setting_data) {
+      const settings = JSON.parse(setting.setting_data);
+      if (!keys.domain_api_key && settings.domain_api_key) {
+        keys.domain_api_key = settings.domain_api_key;
+      }
+      if (!keys.corelogic_client_key && settings.corelogic_client_key) {
+        keys.corelogic_client_key = settings.corelogic_client_key;
+      }
+      if (!keys.corelogic_secret_key && settings.corelogic_secret_key) {
+        keys.corelogic_secret_key = settings.corelogic_secret_key;
+      }
+    }
+  } catch (e) {
+    console.error('Error fetching API keys from database:', e);
+  }
+
+  return keys;
+}
+
+/**
+ * Provider order and enablement from the 'comparables_providers' setting
+ * Registered providers missing from the saved order are appended, enabled
+ */
+export async function getProviderSettings(): Promise<ComparablesProviderSettings> {
+  let saved: Partial<ComparablesProviderSettings> = {};
+  try {
+    const setting = await queryOne<{ setting_id: string; setting_data: string }>(
+      `SELECT * FROM settings WHERE setting_id = 'comparables_providers'`
+    );
+    if (setting && setting.setting_data) {
+      saved = JSON.parse(setting.setting_data);
+    }
+  } catch (e) {
+    console.error('Error fetching comparables provider settings:', e);
+  }
+
+  return normaliseProviderSettings(saved);
+}
+
+export function normaliseProviderSettings(input: Partial<ComparablesProviderSettings>): ComparablesProviderSettings {
+  const order = (Array.isArray(input.order) ? input.order : DEFAULT_PROVIDER_SETTINGS.order)
+    .filter((id, index, all) => providers.has(id) && all.indexOf(id) === index);
+  for (const id of [...DEFAULT_PROVIDER_SETTINGS.order, ...providers.keys()]) {
+    if (providers.has(id) && !order.includes(id)) {
+      order.push(id);
+    }
+  }
+
+  const enabled: Record<string, boolean> = {};
+  for (const id of order) {
+    enabled[id] = input.enabled?.[id] ?? DEFAULT_PROVIDER_SETTINGS.enabled[id] ?? true;
+  }
+
+  return { order, enabled };
+}
+
+function comparableId(source: string, address: string, date?: string | null): string {
+  return createHash('md5').update(`${source}|${address}|${date || ''}`).digest('hex').slice(0, 16);
+}
+
+/**
+ * Map a raw provider row to ComparableProperty; rows without a price are dropped
+ */
+export function toComparable(
+  source: string,
+  listingType: 'sold' | 'listing',
+  raw: {
+    address?: string | null;
+    price?: number | null;
+    beds?: number | null;
+    baths?: number | null;
+    cars?: number | null;
+    property_type?: string | null;
+    sold_date?: string | null;
+    images?: string[];
+    land_area?: number | null;
+    building_area?: number | null;
+    latitude?: number | null;
+    longitude?: number | null;
+  }
+): ComparableProperty | null {
+  if (!raw.price || !raw.address) return null;
+  return {
+    id: comparableId(source, raw.address, raw.sold_date),
+    address: raw.address,
+    price: raw.price,
+    beds: raw.beds ?? null,
+    baths: raw.baths ?? null,
+    carpark: raw.cars ?? null,
+    property_type: raw.property_type || 'Unknown',
+    sold_date: raw.sold_date || undefined,
+    source,
+    listing_type: listingType,
+    images: raw.images && raw.images.length > 0 ? raw.images : undefined,
+    land_size: raw.land_area ?? null,
+    building_size: raw.building_area ?? null,
+    latitude: raw.latitude ?? null,
+    longitude: raw.longitude ?? null
+  };
+}
+
+// Placeholders some sources put in place of an address they couldn't read
+const UNKNOWN_ADDRESS = /^(Address not available|Property in .+)$/i;
+
+function knownAddress(address: string | null | undefined): string | null {
+  return address && !UNKNOWN_ADDRESS.test(address.trim()) ? address : null;
+}
+
+/**
+ * Per-source adapters to ComparableProperty; each returns null for a row that can't be compared
+ */
+export function fromCoreLogicSale(sale: CoreLogicSale): ComparableProperty | null {
+  return toComparable('corelogic', 'sold', {
+    address: knownAddress(sale.address),
+    price: sale.price,
+    beds: sale.beds,
+    baths: sale.baths,
+    cars: sale.cars,
+    property_type: sale.property_type,
+    sold_date: sale.sold_date,
+    images: sale.images
+  });
+}
+
+export function fromDomainProperty(property: DomainProperty, listingType: 'sold' | 'listing'): ComparableProperty | null {
+  return toComparable('domain', listingType, {
+    address: property.address,
+    price: property.price,
+    beds: property.beds,
+    baths: property.baths,
+    cars: property.cars,
+    property_type: property.property_type,
+    sold_date: listingType === 'sold' ? property.sold_date : null,
+    images: property.images
+  });
+}
+
+// The scraper labels each row 'Sold' or 'For Sale'; rows from its fallback parser have no real address
+export function fromScrapedProperty(property: ScrapedProperty): ComparableProperty | null {
+  const sold = property.listing_type.toLowerCase() === 'sold';
+  return toComparable('scraper', sold ? 'sold' : 'listing', {
+    address: knownAddress(property.address),
+    price: property.price,
+    beds: property.beds,
+    baths: property.baths,
+    cars: property.cars,
+    property_type: property.property_type,
+    sold_date: sold ? property.sold_date : null
+  });
+}
+
+// Local sales keep the source they were imported from and their scoring against the subject
+export function fromLocalSale({ comparable, similarity_score, distance_km, months_since_sale }: ScoredComparable): ComparableProperty | null {
+  const comp = toComparable(comparable.source || 'historic', 'sold', {
+    ...comparable,
+    sold_date: comparable.sold_date_raw
+      ? new Date(comparable.sold_date_raw).toISOString().split('T')[0]
+      : comparable.sold_date
+  });
+  return comp && {
+    ...comp,
+    similarity_score,
+    distance_km: distance_km ?? undefined,
+    months_since_sale,
+    is_neighbouring: comparable.is_neighbouring
+  };
+}
+
+function adaptAll<T>(rows: T[], adapt: (row: T) => ComparableProperty | null): ComparableProperty[] {
+  return rows.map(adapt).filter((c): c is ComparableProperty => c !== null);
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : null;
+}
+
+export function buildStatistics(sold: ComparableProperty[], listings: ComparableProperty[]): ComparablesStatistics {
+  const soldPrices = sold.map(c => c.price);
+  const listingPrices = listings.map(c => c.price);
+  const allPrices = [...soldPrices, ...listingPrices].sort((a, b) => a - b);
+
+  return {
+    total_found: allPrices.length,
+    sold_count: soldPrices.length,
+    listing_count: listingPrices.length,
+    price_range: {
+      min: allPrices.length > 0 ? allPrices[0] : null,
+      max: allPrices.length > 0 ? allPrices[allPrices.length - 1] : null,
+      avg: average(allPrices),
+      median: allPrices.length > 0 ? allPrices[Math.floor(allPrices.length / 2)] : null
+    },
+    sold_avg: average(soldPrices),
+    listing_avg: average(listingPrices)
+  };
+}
+
+export function emptyComparablesData(): ComparablesData {
+  return {
+    comparable_sold: [],
+    comparable_listings: [],
+    statistics: buildStatistics([], [])
+  };
+}
+
+function isConfigured(provider: ComparablesProvider, apiKeys: ApiKeys): boolean {
+  return provider.capabilities.requires_keys.every(key => !!apiKeys[key]);
+}
+
+/**
+ * Query every enabled, configured provider and merge their results
+ * Provider order is the merge priority: earlier providers win field conflicts
+ */
+export async function fetchComparables(
+  query: ComparablesQuery,
+  options: { apiKeys?: ApiKeys; settings?: ComparablesProviderSettings; onEvent?: ProviderEventHandler } = {}
+): Promise<ComparablesData> {
+  const apiKeys = options.apiKeys || await getApiKeys();
+  const settings = options.settings || await getProviderSettings();
+
+  const active: ComparablesProvider[] = [];
+  const attempts: ComparablesProviderAttempt[] = [];
+
+  for (const id of settings.order) {
+    const provider = providers.get(id);
+    if (!provider || !settings.enabled[id]) continue;
+
+    if (!isConfigured(provider, apiKeys)) {
+      attempts.push({ provider: id, status: 'skipped', comparables: 0, error: 'Not configured' });
+      continue;
+    }
+    active.push(provider);
+  }
+
+  const results = await Promise.all(active.map(async (provider): Promise<ProviderResult | null> => {
+    console.log(`[Comparables] Fetching from ${provider.name}`);
+    await options.onEvent?.(provider.id, 'trying');
+    try {
+      const result = await provider.fetch(query, apiKeys);
+      const found = result.sold.length + result.listings.length;
+      attempts.push({ provider: provider.id, status: 'succeeded', comparables: found });
+      await options.onEvent?.(provider.id, 'succeeded', { comparables: found });
+      return result;
+    } catch (e: any) {
+      console.error(`[Comparables] ${provider.name} error:`, e.message);
+      attempts.push({ provider: provider.id, status: 'failed', comparables: 0, error: e.message });
+      await options.onEvent?.(provider.id, 'failed', { error: e.message });
+      return null;
+    }
+  }));
+
+  // results is in priority order, so earlier providers take precedence in the merge
+  const succeeded = results.filter((r): r is ProviderResult => r !== null);
+  const sold = mergeComparables(succeeded.map(r => r.sold));
+  const listings = mergeComparables(succeeded.map(r => r.listings));
+  const avm = succeeded.find(r => r.avm)?.avm;
+
+  const sources = active
+    .filter((_, i) => results[i] && results[i]!.sold.length + results[i]!.listings.length > 0)
+    .map(p => p.id);
+
+  attempts.sort((a, b) => settings.order.indexOf(a.provider) - settings.order.indexOf(b.provider));
+
+  const bySource: Record<string, number> = { ...sold.summary.by_source };
+  for (const [source, count] of Object.entries(listings.summary.by_source)) {
+    bySource[source] = (bySource[source] || 0) + count;
+  }
+
+  const data: ComparablesData = {
+    comparable_sold: sold.comparables,
+    comparable_listings: listings.comparables,
+    statistics: buildStatistics(sold.comparables, listings.comparables),
+    data_source: sources.join(',') || 'none',
+    providers: attempts,
+    merge: {
+      raw_count: sold.summary.raw_count + listings.summary.raw_count,
+      merged_count: sold.summary.merged_count + listings.summary.merged_count,
+      duplicates_removed: sold.summary.duplicates_removed + listings.summary.duplicates_removed,
+      by_source: bySource
+    }
+  };
+  if (avm) {
+    data.corelogic_avm = avm;
+  }
+
+  console.log(`[Comparables] Merged ${data.merge!.raw_count} results from ${sources.length} source(s) into ${data.merge!.merged_count}`);
+  return data;
+}
+
+registerProvider({
+  id: 'corelogic',
+  name: 'CoreLogic',
+  capabilities: { sold: true, listings: false, avm: true, requires_keys: ['corelogic_client_key', 'corelogic_secret_key'] },
+  async fetch(query, apiKeys) {
+    const clientKey = apiKeys.corelogic_client_key as string;
+    const secretKey = apiKeys.corelogic_secret_key as string;
+
+    const avm = await getPropertyAVM(clientKey, secretKey, query.location.split(',')[0].trim(), query.location);
+    const result = await getCoreLogicComparables(
+      clientKey, secretKey, query.location, query.beds, query.baths, query.property_type
+    );
+
+    return {
+      sold: adaptAll(result.comparable_sold, fromCoreLogicSale),
+      listings: [],
+      avm
+    };
+  }
+});
+
+registerProvider({
+  id: 'domain',
+  name: 'Domain API',
+  capabilities: { sold: true, listings: false, avm: false, requires_keys: ['domain_api_key'] },
+  async fetch(query, apiKeys) {
+    const result = await getDomainComparables(
+      apiKeys.domain_api_key as string, query.location, query.beds, query.baths, query.property_type
+    );
+    return {
+      sold: adaptAll(result.comparable_sold, row => fromDomainProperty(row, 'sold')),
+      listings: adaptAll(result.comparable_listings, row => fromDomainProperty(row, 'listing'))
+    };
+  }
+});
+
+registerProvider({
+  id: 'historic',
+  name: 'Local sales history (historic_prop)',
+  capabilities: { sold: true, listings: false, avm: false, requires_keys: [] },
+  async fetch(query) {
+    return { sold: adaptAll(await findLocalSales(query), fromLocalSale), listings: [] };
+  }
+});
+
+registerProvider({
+  id: 'scraper',
+  name: 'realestate.com.au scraper',
+  capabilities: { sold: true, listings: true, avm: false, requires_keys: [] },
+  async fetch(query) {
+    const result = await scrapeComparableProperties(
+      query.location, query.beds, query.baths, query.property_type.toLowerCase()
+    );
+    return {
+      sold: adaptAll(result.comparable_sold, fromScrapedProperty),
+      listings: adaptAll(result.comparable_listings, fromScrapedProperty)
+    };
+  }
+});
@@ -0,0 +1,213 @@
+/**
+ * Valuation confidence scoring
+ * Scores how far an evaluation can be trusted from the comparables it used:
+ * how many there are, how recent, how close, how similar and how consistent
+ * their prices are, with recommendations for improving a weak result.
+ */
+
+import { ComparableProperty, ConfidenceScoring, StatisticalValuation } from '../models/types';
+
+// Factor weights, summing to 1
+export const CONFIDENCE_WEIGHTS = {
+  comparables_count: 0.25,
+  data_recency: 0.2,
+  location_match: 0.2,
+  property_similarity: 0.2,
+  price_consistency: 0.15
+};
+
+export interface ConfidenceSubject {
+  beds: number | null;
+  baths: number | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  neighbouring_suburb?: string | null;
+}
+
+const clamp = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+function monthsSince(comp: ComparableProperty, now: Date): number | null {
+  if (comp.months_since_sale != null) return comp.months_since_sale;
+  if (!comp.sold_date) return null;
+  const date = new Date(comp.sold_date.replace(/^sold\s+(on\s+)?/i, ''));
+  if (isNaN(date.getTime())) return null;
+  return (now.getTime() - date.getTime()) / (1000 * 60 * 60 * 24 * 30.4375);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function countFactor(count: number) {
+  const score = count >= 8 ? 100 : count >= 6 ? 90 : [0, 20, 35, 50, 65, 80][count];
+  return {
+    score,
+    weight: CONFIDENCE_WEIGHTS.comparables_count,
+    description: `${count} comparable sale${count === 1 ? '' : 's'} used`
+  };
+}
+
+function recencyFactor(comps: ComparableProperty[], now: Date) {
+  const ages = comps.map(c => monthsSince(c, now)).filter((m): m is number => m !== null);
+  if (ages.length === 0) {
+    return {
+      factor: { score: 0, weight: CONFIDENCE_WEIGHTS.data_recency, description: 'Sale dates unknown' },
+      recentCount: 0
+    };
+  }
+
+  const medianAge = median(ages);
+  const recentCount = ages.filter(m => m <= 6).length;
+  // Full marks at a median age of 3 months, nothing at 24 months
+  const score = clamp(100 - ((medianAge - 3) / 21) * 100);
+
+  return {
+    factor: {
+      score,
+      weight: CONFIDENCE_WEIGHTS.data_recency,
+      description: `${recentCount} sale${recentCount === 1 ? '' : 's'} in the last 6 months; median age ${Math.round(medianAge)} months`
+    },
+    recentCount
+  };
+}
+
+function locationFactor(comps: ComparableProperty[]) {
+  const distances = comps.map(c => c.distance_km).filter((d): d is number => d != null);
+
+  if (distances.length > 0) {
+    const avg = distances.reduce((a, b) => a + b, 0) / distances.length;
+    const within1km = distances.filter(d => d <= 1).length;
+    return {
+      factor: {
+        score: clamp(100 - avg * 20),
+        weight: CONFIDENCE_WEIGHTS.location_match,
+        description: `${within1km} of ${distances.length} within 1km; average ${avg.toFixed(1)}km away`
+      },
+      distancesKnown: true
+    };
+  }
+
+  // Without coordinates the best we can say is whether sales are in the subject suburb
+  const sameSuburb = comps.filter(c => !c.is_neighbouring).length;
+  return {
+    factor: {
+      score: comps.length > 0 ? clamp((sameSuburb / comps.length) * 70) : 0,
+      weight: CONFIDENCE_WEIGHTS.location_match,
+      description: `${sameSuburb} of ${comps.length} in the subject suburb (distances unknown)`
+    },
+    distancesKnown: false
+  };
+}
+
+function similarityFactor(subject: ConfidenceSubject, comps: ComparableProperty[], valuation: StatisticalValuation | null) {
+  const exact = comps.filter(c => c.beds === subject.beds && (subject.baths == null || c.baths === subject.baths)).length;
+  const scores = valuation
+    ? valuation.comparables.filter(c => c.included).map(c => c.similarity_score)
+    : comps.map(c => c.similarity_score).filter((s): s is number => s != null);
+
+  let score: number;
+  if (scores.length > 0) {
+    // A comparable with no bonuses or penalties scores 100; exact matches on everything reach ~130
+    score = clamp((scores.reduce((a, b) => a + b, 0) / scores.length) / 1.3);
+  } else {
+    score = comps.length > 0 ? clamp((exact / comps.length) * 100) : 0;
+  }
+
+  return {
+    factor: {
+      score,
+      weight: CONFIDENCE_WEIGHTS.property_similarity,
+      description: `${exact} of ${comps.length} match the subject's bedrooms${subject.baths != null ? ' and bathrooms' : ''}`
+    },
+    exact
+  };
+}
+
+function consistencyFactor(comps: ComparableProperty[], valuation: StatisticalValuation | null) {
+  const prices = valuation
+    ? valuation.comparables.filter(c => c.included).map(c => c.adjusted_price)
+    : comps.map(c => c.price);
+
+  if (prices.length < 2) {
+    return {
+      factor: { score: prices.length ? 40 : 0, weight: CONFIDENCE_WEIGHTS.price_consistency, description: 'Too few prices to measure consistency' },
+      variation: null
+    };
+  }
+
+  const mean = prices.reduce((a, b) => a + b, 0) / prices.length;
+  const variation = Math.sqrt(prices.reduce((sum, p) => sum + Math.pow(p - mean, 2), 0) / prices.length) / mean;
+
+  return {
+    factor: {
+      score: clamp(100 - variation * 400),
+      weight: CONFIDENCE_WEIGHTS.price_consistency,
+      description: `${valuation ? 'Adjusted prices' : 'Prices'} vary by ±${Math.round(variation * 100)}%`
+    },
+    variation
+  };
+}
+
+/**
+ * Score confidence in an evaluation from the comparables behind it
+ */
+export function computeConfidenceScoring(
+  subject: ConfidenceSubject,
+  comparables: ComparableProperty[],
+  valuation: StatisticalValuation | null,
+  now: Date = new Date()
+): ConfidenceScoring {
+  const sold = comparables.filter(c => c.listing_type !== 'listing');
+  const includedIds = valuation ? new Set(valuation.comparables.filter(c => c.included).map(c => c.comparable_id)) : null;
+  const used = includedIds ? sold.filter(c => includedIds.has(c.id)) : sold;
+
+  const count = countFactor(used.length);
+  const recency = recencyFactor(used, now);
+  const location = locationFactor(used);
+  const similarity = similarityFactor(subject, used, valuation);
+  const consistency = consistencyFactor(used, valuation);
+
+  const factors = {
+    comparables_count: count,
+    data_recency: recency.factor,
+    location_match: location.factor,
+    property_similarity: similarity.factor,
+    price_consistency: consistency.factor
+  };
+
+  const overall = clamp(Object.values(factors).reduce((sum, f) => sum + f.score * f.weight, 0));
+
+  const recommendations: string[] = [];
+  if (used.length === 0) {
+    recommendations.push('No comparable sales found - configure Domain or CoreLogic API keys, or import NSW Valuer General sales for this suburb');
+  } else {
+    if (recency.recentCount < 3) {
+      recommendations.push(
+        subject.neighbouring_suburb
+          ? `Only ${recency.recentCount} sale${recency.recentCount === 1 ? '' : 's'} in the last 6 months - import recent sales for this suburb and ${subject.neighbouring_suburb}`
+          : `Only ${recency.recentCount} sale${recency.recentCount === 1 ? '' : 's'} in the last 6 months - widen to a neighbouring suburb`
+      );
+    }
+    if (used.length < 3) {
+      recommendations.push(`Only ${used.length} comparable sale${used.length === 1 ? '' : 's'} - treat the estimate as indicative`);
+    }
+    if (!location.distancesKnown && (subject.latitude == null || subject.longitude == null)) {
+      recommendations.push("Add the property's coordinates so comparables can be ranked by distance");
+    }
+    if (similarity.exact < Math.min(2, used.length)) {
+      recommendations.push("Few comparables match the subject's bedrooms and bathrooms - review the selected comparables");
+    }
+    if (consistency.variation !== null && consistency.variation > 0.15) {
+      recommendations.push(`Comparable prices vary by ±${Math.round(consistency.variation * 100)}% - check for outliers or mismatched property types`);
+    }
+  }
+
+  return {
+    overall_score: overall,
+    level: overall >= 75 ? 'high' : overall >= 50 ? 'medium' : 'low',
+    factors,
+    recommendations
+  };
+}
@@ -5,7 +5,7 @@
 
 const CORELOGIC_API_BASE = 'https://api-trestle.corelogic.com';
 
-interface PropertyAVM {
+export interface CoreLogicAVM {
   valuation: number | null;
   lower_estimate: number | null;
   upper_estimate: number | null;
@@ -19,7 +19,7 @@ interface PropertyAVM {
   carspaces: number | null;
 }
 
-interface ComparableSale {
+export interface CoreLogicSale {
   address: string;
   price: number;
   beds: number | null;
@@ -30,9 +30,9 @@ interface ComparableSale {
   images: string[];
 }
 
-interface ComparablesData {
-  comparable_sold: ComparableSale[];
-  comparable_listings: any[];
+export interface CoreLogicComparablesData {
+  comparable_sold: CoreLogicSale[];
+  comparable_listings: CoreLogicSale[];
   statistics: {
     total_found: number;
     sold_count: number;
@@ -44,7 +44,7 @@ interface ComparablesData {
     };
     sold_avg: number | null;
   };
-  corelogic_avm?: PropertyAVM;
+  corelogic_avm?: CoreLogicAVM;
 }
 
 /**
@@ -114,7 +114,7 @@ export async function getPropertyAVM(
   secretKey: string,
   address: string,
   location: string
-): Promise<PropertyAVM | null> {
+): Promise<CoreLogicAVM | null> {
   try {
     const accessToken = await getOAuthToken(clientKey, secretKey);
     if (!accessToken) {
@@ -178,8 +178,8 @@ export async function searchComparableSales(
   beds: number,
   baths: number,
   propertyType: string = 'House'
-): Promise<ComparablesData> {
-  const emptyResult: ComparablesData = {
+): Promise<CoreLogicComparablesData> {
+  const emptyResult: CoreLogicComparablesData = {
     comparable_sold: [],
     comparable_listings: [],
     statistics: {
@@ -221,7 +221,7 @@ export async function searchComparableSales(
     if (response.ok) {
       const data: any = await response.json();
       const sales = data.sales || [];
-      const properties: ComparableSale[] = [];
+      const properties: CoreLogicSale[] = [];
 
       for (const sale of sales.slice(0, 10)) {
         if (sale.price) {
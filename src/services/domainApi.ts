@@ -5,7 +5,7 @@
 
 const DOMAIN_API_BASE = 'https://api.domain.com.au';
 
-interface PropertyDetails {
+export interface DomainProperty {
   address: string;
   price: number | null;
   beds: number | null;
@@ -17,9 +17,9 @@ interface PropertyDetails {
   images?: string[];
 }
 
-interface ComparablesData {
-  comparable_sold: PropertyDetails[];
-  comparable_listings: PropertyDetails[];
+export interface DomainComparablesData {
+  comparable_sold: DomainProperty[];
+  comparable_listings: DomainProperty[];
   statistics: {
     total_found: number;
     sold_count: number;
@@ -82,7 +82,7 @@ export async function searchSoldProperties(
   beds: number,
   baths: number,
   propertyType: string = 'House'
-): Promise<PropertyDetails[]> {
+): Promise<DomainProperty[]> {
   try {
     const suburb = extractSuburb(location);
     const state = extractState(location);
@@ -141,11 +141,11 @@ export async function searchSoldProperties(
       clearTimeout(timeout);
       throw e;
     }
-    const properties: PropertyDetails[] = [];
+    const properties: DomainProperty[] = [];
 
     for (const listing of listings.slice(0, 10)) {
       try {
-        const propData: PropertyDetails = {
+        const propData: DomainProperty = {
           address: listing.headline || 'Address not available',
           price: null,
           beds: null,
@@ -214,7 +214,7 @@ export async function getComparableProperties(
   beds: number,
   baths: number,
   propertyType: string = 'House'
-): Promise<ComparablesData> {
+): Promise<DomainComparablesData> {
   try {
     // Search for sold properties
     const soldProperties = await searchSoldProperties(apiKey, location, beds, baths, propertyType);
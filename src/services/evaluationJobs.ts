@@ -0,0 +1,571 @@
+/**
+ * Durable evaluation job queue
+ * Jobs and their results live in the database so any instance (local, Azure,
+ * Vercel) can pick up, finish or report on a job, and a crash never loses one.
+ * Besides evaluations the queue runs weights calibrations; each job type has
+ * its own processor, and a worker only claims the types it has one for.
+ *
+ * Tables:
+ *   evaluation_jobs        - job state, attempts and scheduling
+ *   evaluation_job_results - completed result JSON (kept apart from the hot jobs table)
+ *   evaluation_job_events  - progress events (stages, providers tried) streamed to clients
+ */
+
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { queryOne, queryMany, execute, query, withTransaction } from '../utils/database';
+import { PropertyCreate, User } from '../models/types';
+import { hasRole } from './roles';
+
+export type JobType = 'evaluation' | 'calibration';
+
+export interface EvaluationJob {
+  job_id: string;
+  job_type: JobType;
+  status: 'queued' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
+  stage: string;
+  created_at: string;
+  completed_at?: string;
+  failed_at?: string;
+  cancelled_at?: string;
+  expires_at?: string;
+  property_data?: PropertyCreate;
+  user_email?: string | null;
+  result?: any;
+  error?: string;
+  attempts?: number;
+  payload?: any;
+  progress?: number;
+}
+
+export interface JobListFilters {
+  userEmail?: string;
+  status?: EvaluationJob['status'];
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface EvaluationJobEvent {
+  id: number;
+  job_id: string;
+  type: 'stage' | 'provider';
+  data: Record<string, any>;
+  created_at: string;
+}
+
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+interface JobRow {
+  job_id: string;
+  job_type: string | null;
+  created_at: Date;
+  property_data: string | null;
+  stage: string;
+  status: string;
+  attempts: number | null;
+  next_attempt_at: Date | null;
+  started_at: Date | null;
+  completed_at: Date | null;
+  failed_at: Date | null;
+  updated_at: Date | null;
+  error: string | null;
+  worker_id: string | null;
+  user_email: string | null;
+  cancelled_at: Date | null;
+  payload: string | null;
+  progress: number | null;
+}
+
+export type JobProcessor = (job: EvaluationJob, context: { finalAttempt: boolean }) => Promise<any>;
+
+export const MAX_JOB_ATTEMPTS = parseInt(process.env.EVALUATION_MAX_ATTEMPTS || '3', 10);
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const POLL_INTERVAL_MS = 5 * 1000;
+const RECOVERY_INTERVAL_MS = 60 * 1000;
+// A job that hasn't reported progress for this long is assumed orphaned by a crashed worker
+const ORPHAN_TIMEOUT_MS = 10 * 60 * 1000;
+// Running jobs renew their lease this often, well inside ORPHAN_TIMEOUT_MS, even during a slow stage
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+// Finished jobs (and their results) stay retrievable for this long
+export const JOB_RETENTION_HOURS = parseInt(process.env.EVALUATION_JOB_RETENTION_HOURS || '72', 10);
+
+const WORKER_ID = `${os.hostname()}-${process.pid}-${uuidv4().slice(0, 8)}`;
+
+function toJob(row: JobRow): EvaluationJob {
+  const finishedAt = row.completed_at || row.failed_at || row.cancelled_at;
+  return {
+    job_id: row.job_id,
+    job_type: (row.job_type || 'evaluation') as JobType,
+    status: row.status as EvaluationJob['status'],
+    stage: row.stage,
+    created_at: row.created_at?.toISOString() || new Date().toISOString(),
+    completed_at: row.completed_at?.toISOString(),
+    failed_at: row.failed_at?.toISOString(),
+    cancelled_at: row.cancelled_at?.toISOString(),
+    expires_at: finishedAt
+      ? new Date(finishedAt.getTime() + JOB_RETENTION_HOURS * 60 * 60 * 1000).toISOString()
+      : undefined,
+    property_data: row.property_data ? JSON.parse(row.property_data) : undefined,
+    user_email: row.user_email,
+    error: row.error || undefined,
+    attempts: row.attempts || 0,
+    payload: row.payload ? JSON.parse(row.payload) : undefined,
+    progress: row.progress ?? undefined
+  };
+}
+
+function retentionCutoff(): Date {
+  return new Date(Date.now() - JOB_RETENTION_HOURS * 60 * 60 * 1000);
+}
+
+/**
+ * Errors worth retrying: rate limits, provider outages, timeouts and dropped connections
+ */
+export function isTransientError(error: any): boolean {
+  if (!error) return false;
+  const status = error.status || error.statusCode || error.response?.status;
+  if ([408, 425, 429, 500, 502, 503, 504].includes(status)) return true;
+  if (['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_CONNECT_TIMEOUT'].includes(error.code)) return true;
+  if (error.name === 'AbortError' || error.name === 'APIConnectionError' || error.name === 'APIConnectionTimeoutError') return true;
+  return /timed? ?out|rate limit|temporarily unavailable/i.test(error.message || '');
+}
+
+/**
+ * Whether the user may see a job and its result: its owner or an admin
+ * Jobs created before sign-in was required have no owner and stay reachable by job_id alone
+ */
+export function ownsJob(job: EvaluationJob, user: Pick<User, 'email' | 'roles'> | undefined): boolean {
+  if (!job.user_email || hasRole(user, 'admin')) return true;
+  return !!user && job.user_email.toLowerCase() === user.email.toLowerCase();
+}
+
+/**
+ * A job of the given type visible to clients, or null when it does not exist or has expired.
+ * Database errors are thrown, so callers can tell them apart from a missing job.
+ */
+export async function getJob(jobId: string, jobType: JobType = 'evaluation'): Promise<EvaluationJob | null> {
+  const row = await queryOne<JobRow>(
+    `SELECT * FROM evaluation_jobs
+     WHERE job_id = @jobId AND job_type = @jobType
+       AND ISNULL(ISNULL(completed_at, failed_at), ISNULL(cancelled_at, @now)) >= @cutoff`,
+    { jobId, jobType, now: new Date(), cutoff: retentionCutoff() }
+  );
+  return row ? toJob(row) : null;
+}
+
+export async function getJobResult(jobId: string): Promise<any | null> {
+  const row = await queryOne<{ result: string }>(
+    `SELECT result FROM evaluation_job_results WHERE job_id = @jobId`,
+    { jobId }
+  );
+  return row ? JSON.parse(row.result) : null;
+}
+
+export async function createJob(propertyData: PropertyCreate, userEmail: string | null = null): Promise<EvaluationJob> {
+  const now = new Date();
+  const job: EvaluationJob = {
+    job_id: uuidv4(),
+    job_type: 'evaluation',
+    status: 'queued',
+    stage: 'queued',
+    created_at: now.toISOString(),
+    property_data: propertyData,
+    user_email: userEmail,
+    attempts: 0
+  };
+
+  await execute(
+    `INSERT INTO evaluation_jobs (job_id, created_at, property_data, stage, status, attempts, updated_at, user_email)
+     VALUES (@jobId, @created_at, @property_data, @stage, @status, 0, @created_at, @user_email)`,
+    {
+      jobId: job.job_id,
+      created_at: now,
+      property_data: JSON.stringify(propertyData),
+      stage: job.stage,
+      status: job.status,
+      user_email: userEmail
+    }
+  );
+
+  return job;
+}
+
+/**
+ * Queue a job of another type; its input travels as the JSON payload
+ */
+export async function enqueueJob(jobType: JobType, payload: any, userEmail: string | null = null): Promise<EvaluationJob> {
+  const now = new Date();
+  const job: EvaluationJob = {
+    job_id: uuidv4(),
+    job_type: jobType,
+    status: 'queued',
+    stage: 'queued',
+    created_at: now.toISOString(),
+    user_email: userEmail,
+    attempts: 0,
+    payload,
+    progress: 0
+  };
+
+  await execute(
+    `INSERT INTO evaluation_jobs (job_id, job_type, created_at, payload, progress, stage, status, attempts, updated_at, user_email)
+     VALUES (@jobId, @jobType, @created_at, @payload, 0, @stage, @status, 0, @created_at, @user_email)`,
+    {
+      jobId: job.job_id,
+      jobType,
+      created_at: now,
+      payload: JSON.stringify(payload),
+      stage: job.stage,
+      status: job.status,
+      user_email: userEmail
+    }
+  );
+
+  return job;
+}
+
+/**
+ * List retained evaluation jobs, newest first
+ */
+export async function listJobs(filters: JobListFilters): Promise<{ jobs: EvaluationJob[]; total: number }> {
+  let where = `WHERE job_type = 'evaluation' AND ISNULL(ISNULL(completed_at, failed_at), ISNULL(cancelled_at, @now)) >= @cutoff`;
+  const params: Record<string, any> = { now: new Date(), cutoff: retentionCutoff() };
+
+  if (filters.userEmail) {
+    where += ' AND user_email = @userEmail';
+    params.userEmail = filters.userEmail;
+  }
+  if (filters.status) {
+    where += ' AND status = @status';
+    params.status = filters.status;
+  }
+  if (filters.from) {
+    where += ' AND created_at >= @from';
+    params.from = filters.from;
+  }
+  if (filters.to) {
+    where += ' AND created_at <= @to';
+    params.to = filters.to;
+  }
+
+  const rows = await queryMany<JobRow>(
+    `SELECT * FROM evaluation_jobs ${where}
+     ORDER BY created_at DESC OFFSET @offset ROWS FETCH NEXT @limit ROWS ONLY`,
+    { ...params, offset: filters.offset || 0, limit: filters.limit || 50 }
+  );
+  const count = await queryOne<{ total: number }>(`SELECT COUNT(*) as total FROM evaluation_jobs ${where}`, params);
+
+  return { jobs: rows.map(toJob), total: count?.total || 0 };
+}
+
+/**
+ * Append a progress event for streaming; failures are logged, never fatal to the job
+ */
+export async function recordJobEvent(
+  jobId: string,
+  type: EvaluationJobEvent['type'],
+  data: Record<string, any>
+): Promise<void> {
+  try {
+    await execute(
+      `INSERT INTO evaluation_job_events (job_id, type, data, created_at) VALUES (@jobId, @type, @data, @now)`,
+      { jobId, type, data: JSON.stringify(data), now: new Date() }
+    );
+  } catch (e) {
+    console.error('Error recording job event:', e);
+  }
+}
+
+/**
+ * Events for a job after the given event id, oldest first
+ */
+export async function getJobEvents(jobId: string, afterId = 0): Promise<EvaluationJobEvent[]> {
+  const rows = await queryMany<{ id: number | string; job_id: string; type: string; data: string | null; created_at: Date }>(
+    `SELECT id, job_id, type, data, created_at FROM evaluation_job_events
+     WHERE job_id = @jobId AND id > @afterId ORDER BY id`,
+    { jobId, afterId }
+  );
+  return rows.map(row => ({
+    id: Number(row.id),
+    job_id: row.job_id,
+    type: row.type as EvaluationJobEvent['type'],
+    data: row.data ? JSON.parse(row.data) : {},
+    created_at: row.created_at.toISOString()
+  }));
+}
+
+/**
+ * Record progress; also acts as the heartbeat used for orphan detection
+ * Throws JobCancelledError once the job was cancelled or has left this worker so the processor stops early
+ */
+export async function updateJobStage(jobId: string, stage: string): Promise<void> {
+  let rowsAffected = 1;
+  try {
+    rowsAffected = await execute(
+      `UPDATE evaluation_jobs SET stage = @stage, updated_at = @now
+       WHERE job_id = @jobId AND status = 'in_progress' AND worker_id = @workerId`,
+      { jobId, stage, now: new Date(), workerId: WORKER_ID }
+    );
+  } catch (e) {
+    console.error('Error updating job stage:', e);
+  }
+  if (rowsAffected === 0) {
+    throw new JobCancelledError(jobId);
+  }
+  await recordJobEvent(jobId, 'stage', { stage });
+}
+
+/**
+ * Record percentage progress for a long-running job; renews the lease like a stage update
+ * Throws JobCancelledError once the job has left this worker so the processor stops early
+ */
+export async function updateJobProgress(jobId: string, progress: number): Promise<void> {
+  let rowsAffected = 1;
+  try {
+    rowsAffected = await execute(
+      `UPDATE evaluation_jobs SET progress = @progress, updated_at = @now
+       WHERE job_id = @jobId AND status = 'in_progress' AND worker_id = @workerId`,
+      { jobId, progress, now: new Date(), workerId: WORKER_ID }
+    );
+  } catch (e) {
+    console.error('Error updating job progress:', e);
+  }
+  if (rowsAffected === 0) {
+    throw new JobCancelledError(jobId);
+  }
+}
+
+/**
+ * Cancel a queued or running job
+ * Running jobs stop at their next stage update; any result they produce is discarded
+ */
+export async function cancelJob(jobId: string): Promise<boolean> {
+  const now = new Date();
+  const rowsAffected = await execute(
+    `UPDATE evaluation_jobs SET status = 'cancelled', stage = 'cancelled', cancelled_at = @now, updated_at = @now
+     WHERE job_id = @jobId AND status IN ('queued', 'in_progress')`,
+    { jobId, now }
+  );
+  return rowsAffected > 0;
+}
+
+/**
+ * Put a failed or cancelled job back on the queue with a fresh set of attempts
+ */
+export async function retryJob(jobId: string): Promise<boolean> {
+  const rowsAffected = await execute(
+    `UPDATE evaluation_jobs SET status = 'queued', stage = 'queued', attempts = 0, next_attempt_at = NULL,
+      error = NULL, failed_at = NULL, cancelled_at = NULL, updated_at = @now, worker_id = NULL
+     WHERE job_id = @jobId AND status IN ('failed', 'cancelled') AND property_data IS NOT NULL`,
+    { jobId, now: new Date() }
+  );
+  return rowsAffected > 0;
+}
+
+/**
+ * Delete finished jobs and their results once they pass the retention window
+ */
+export async function purgeExpiredJobs(): Promise<number> {
+  const params = { cutoff: retentionCutoff() };
+  const expired = `SELECT job_id FROM evaluation_jobs
+     WHERE status IN ('completed', 'failed', 'cancelled')
+       AND ISNULL(ISNULL(completed_at, failed_at), cancelled_at) < @cutoff`;
+
+  await execute(`DELETE FROM evaluation_job_results WHERE job_id IN (${expired})`, params);
+  await execute(`DELETE FROM evaluation_job_events WHERE job_id IN (${expired})`, params);
+  const deleted = await execute(`DELETE FROM evaluation_jobs WHERE job_id IN (${expired})`, params);
+
+  if (deleted > 0) {
+    console.log(`[Evaluation Queue] Purged ${deleted} jobs older than ${JOB_RETENTION_HOURS}h`);
+  }
+  return deleted;
+}
+
+/**
+ * Atomically claim the oldest runnable job of the given types for this worker
+ * READPAST lets concurrent instances skip rows another worker has locked
+ */
+async function claimNextJob(jobTypes: JobType[]): Promise<EvaluationJob | null> {
+  const now = new Date();
+  const typeParams: Record<string, JobType> = {};
+  jobTypes.forEach((jobType, i) => { typeParams[`jobType${i}`] = jobType; });
+  const result = await query<JobRow>(
+    `WITH next_job AS (
+       SELECT TOP 1 * FROM evaluation_jobs WITH (UPDLOCK, READPAST, ROWLOCK)
+       WHERE status = 'queued' AND (next_attempt_at IS NULL OR next_attempt_at <= @now)
+         AND job_type IN (${Object.keys(typeParams).map(name => `@${name}`).join(', ')})
+       ORDER BY created_at
+     )
+     UPDATE next_job SET
+       status = 'in_progress', stage = 'starting', attempts = ISNULL(attempts, 0) + 1,
+       started_at = @now, updated_at = @now, worker_id = @workerId, error = NULL
+     OUTPUT INSERTED.*`,
+    { now, workerId: WORKER_ID, ...typeParams }
+  );
+  const row = result.recordset[0];
+  return row ? toJob(row) : null;
+}
+
+/**
+ * Store the result and mark the job completed in one transaction
+ * The status flips last, so a poll that sees 'completed' always finds the result
+ */
+async function completeJob(jobId: string, result: any): Promise<void> {
+  const now = new Date();
+  await withTransaction(async tx => {
+    await tx.execute(`DELETE FROM evaluation_job_results WHERE job_id = @jobId`, { jobId });
+    await tx.execute(
+      `INSERT INTO evaluation_job_results (job_id, result, created_at) VALUES (@jobId, @result, @now)`,
+      { jobId, result: JSON.stringify(result), now }
+    );
+
+    const rowsAffected = await tx.execute(
+      `UPDATE evaluation_jobs SET status = 'completed', stage = 'completed', completed_at = @now, updated_at = @now
+       WHERE job_id = @jobId AND status = 'in_progress' AND worker_id = @workerId`,
+      { jobId, now, workerId: WORKER_ID }
+    );
+    if (rowsAffected === 0) {
+      // Cancelled, or recovered and handed to another worker; roll the result back
+      throw new JobCancelledError(jobId);
+    }
+  });
+}
+
+/**
+ * Renew this worker's lease on a running job while the processor works on it
+ * Keeps a slow stage from looking orphaned; stops once the job leaves this worker
+ */
+function startHeartbeat(jobId: string): () => void {
+  const timer = setInterval(() => {
+    execute(
+      `UPDATE evaluation_jobs SET updated_at = @now WHERE job_id = @jobId AND status = 'in_progress' AND worker_id = @workerId`,
+      { jobId, now: new Date(), workerId: WORKER_ID }
+    ).catch(e => console.error(`[Job ${jobId}] Heartbeat error:`, e));
+  }, HEARTBEAT_INTERVAL_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+async function failOrRetryJob(job: EvaluationJob, error: any): Promise<void> {
+  const now = new Date();
+  const attempts = job.attempts || 1;
+
+  if (isTransientError(error) && attempts < MAX_JOB_ATTEMPTS) {
+    const delay = RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1);
+    await execute(
+      `UPDATE evaluation_jobs SET status = 'queued', stage = 'retry_scheduled', next_attempt_at = @nextAttempt,
+        error = @error, updated_at = @now, worker_id = NULL
+       WHERE job_id = @jobId AND status = 'in_progress' AND worker_id = @workerId`,
+      { jobId: job.job_id, nextAttempt: new Date(now.getTime() + delay), error: error.message, now, workerId: WORKER_ID }
+    );
+    console.warn(`[Job ${job.job_id}] Transient error on attempt ${attempts}, retrying in ${delay / 1000}s: ${error.message}`);
+    return;
+  }
+
+  await execute(
+    `UPDATE evaluation_jobs SET status = 'failed', stage = 'failed', failed_at = @now, error = @error, updated_at = @now
+     WHERE job_id = @jobId AND status = 'in_progress' AND worker_id = @workerId`,
+    { jobId: job.job_id, error: error.message, now, workerId: WORKER_ID }
+  );
+  console.error(`[Job ${job.job_id}] ${jobLabel(job)} failed after ${attempts} attempt(s):`, error.message);
+}
+
+/**
+ * Requeue (or fail) jobs left in_progress by a worker that stopped heartbeating
+ * Live workers renew updated_at every HEARTBEAT_INTERVAL_MS, so only jobs whose
+ * lease has lapsed for ORPHAN_TIMEOUT_MS are taken back. Pass a jobId to check
+ * just that job, as the routes do while it is being polled.
+ */
+export async function recoverOrphanedJobs(jobId?: string): Promise<number> {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - ORPHAN_TIMEOUT_MS);
+  const onlyJob = jobId ? 'AND job_id = @jobId' : '';
+
+  const failed = await execute(
+    `UPDATE evaluation_jobs SET status = 'failed', stage = 'failed', failed_at = @now, updated_at = @now,
+      error = 'Evaluation worker stopped responding'
+     WHERE status = 'in_progress' AND ISNULL(updated_at, created_at) < @staleBefore AND ISNULL(attempts, 0) >= @maxAttempts ${onlyJob}`,
+    { now, staleBefore, maxAttempts: MAX_JOB_ATTEMPTS, jobId }
+  );
+  const requeued = await execute(
+    `UPDATE evaluation_jobs SET status = 'queued', stage = 'recovered', next_attempt_at = NULL, updated_at = @now, worker_id = NULL
+     WHERE status = 'in_progress' AND ISNULL(updated_at, created_at) < @staleBefore ${onlyJob}`,
+    { now, staleBefore, jobId }
+  );
+
+  if (failed + requeued > 0) {
+    console.warn(`[Evaluation Queue] Recovered orphaned jobs: ${requeued} requeued, ${failed} failed`);
+  }
+  return failed + requeued;
+}
+
+const processors: Map<JobType, JobProcessor> = new Map();
+let draining = false;
+
+export function registerJobProcessor(fn: JobProcessor, jobType: JobType = 'evaluation'): void {
+  processors.set(jobType, fn);
+}
+
+function jobLabel(job: EvaluationJob): string {
+  return job.job_type === 'calibration' ? 'Calibration' : 'Evaluation';
+}
+
+/**
+ * Run queued jobs until none are runnable
+ * Safe to call from anywhere; concurrent calls on one instance are coalesced
+ */
+export async function drainQueue(): Promise<void> {
+  if (draining || processors.size === 0) return;
+  draining = true;
+
+  try {
+    let job: EvaluationJob | null;
+    while ((job = await claimNextJob([...processors.keys()]))) {
+      const processor = processors.get(job.job_type)!;
+      console.log(`[Job ${job.job_id}] Claimed by ${WORKER_ID} (attempt ${job.attempts})`);
+      const stopHeartbeat = startHeartbeat(job.job_id);
+      try {
+        const result = await processor(job, { finalAttempt: (job.attempts || 1) >= MAX_JOB_ATTEMPTS });
+        await completeJob(job.job_id, result);
+        console.log(`[Job ${job.job_id}] ${jobLabel(job)} completed`);
+      } catch (error: any) {
+        if (error instanceof JobCancelledError) {
+          console.log(`[Job ${job.job_id}] Cancelled, result discarded`);
+        } else {
+          await failOrRetryJob(job, error);
+        }
+      } finally {
+        stopHeartbeat();
+      }
+    }
+  } catch (e) {
+    console.error('[Evaluation Queue] Error draining queue:', e);
+  } finally {
+    draining = false;
+  }
+}
+
+/**
+ * Start the background worker loop (long-running hosts only, not Vercel)
+ */
+export function startEvaluationWorker(): void {
+  console.log(`[Evaluation Queue] Worker ${WORKER_ID} started`);
+
+  recoverOrphanedJobs().catch(e => console.error('[Evaluation Queue] Recovery error:', e));
+
+  setInterval(() => {
+    drainQueue();
+  }, POLL_INTERVAL_MS).unref();
+
+  setInterval(() => {
+    recoverOrphanedJobs().catch(e => console.error('[Evaluation Queue] Recovery error:', e));
+    purgeExpiredJobs().catch(e => console.error('[Evaluation Queue] Purge error:', e));
+  }, RECOVERY_INTERVAL_MS).unref();
+}
@@ -0,0 +1,78 @@
+/**
+ * Local sales lookup
+ * Finds comparable sales in historic_prop (NSW Valuer General imports and cached
+ * Homely sales) for the subject suburb and its neighbouring suburb, filtered by
+ * property type and recency and ranked with the active weights profile.
+ */
+
+import { parseLocation, normaliseAddress } from '../utils/location';
+import { ScoredComparable } from '../models/types';
+import { scoreComparables, getDensityLevel } from './comparableScoring';
+import { getActiveProfile } from './weightProfiles';
+import { findRecentSuburbSales } from '../repositories/historicPropRepository';
+
+export const LOCAL_SALES_LOOKBACK_MONTHS = parseInt(process.env.LOCAL_SALES_LOOKBACK_MONTHS || '24', 10);
+export const LOCAL_SALES_LIMIT = 30;
+
+export interface LocalSalesQuery {
+  location: string;
+  beds: number | null;
+  baths: number | null;
+  property_type: string | null;
+  land_area?: number | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  neighbouring_suburb?: string | null;
+}
+
+export interface LocalSalesOptions {
+  lookbackMonths?: number;
+  limit?: number;
+}
+
+/**
+ * Local sales for the subject, best matches first
+ */
+export async function findLocalSales(query: LocalSalesQuery, options: LocalSalesOptions = {}): Promise<ScoredComparable[]> {
+  const { street, suburb } = parseLocation(query.location);
+  if (!suburb) {
+    return [];
+  }
+
+  const lookbackMonths = options.lookbackMonths || LOCAL_SALES_LOOKBACK_MONTHS;
+  const fromDate = new Date();
+  fromDate.setMonth(fromDate.getMonth() - lookbackMonths);
+
+  const neighbouring = query.neighbouring_suburb?.trim().toLowerCase() || null;
+
+  const rows = await findRecentSuburbSales(suburb.toLowerCase(), neighbouring, fromDate);
+
+  // Same density (house / townhouse / unit) as the subject; untyped subjects keep everything
+  const subjectDensity = getDensityLevel(query.property_type);
+  const ownAddress = street ? normaliseAddress(street) : null;
+
+  const candidates = rows
+    .filter(row => subjectDensity === null || getDensityLevel(row.property_type) === subjectDensity)
+    .filter(row => !ownAddress || normaliseAddress(row.address) !== ownAddress)
+    .map(row => ({
+      ...row,
+      is_neighbouring: row.is_neighbouring || (neighbouring !== null && row.source_suburb?.toLowerCase() === neighbouring)
+    }));
+
+  const weights = await getActiveProfile();
+  const scored = scoreComparables(
+    {
+      beds: query.beds,
+      baths: query.baths,
+      property_type: query.property_type,
+      latitude: query.latitude ?? null,
+      longitude: query.longitude ?? null,
+      land_area: query.land_area ?? null
+    },
+    candidates,
+    weights
+  );
+
+  console.log(`[Local Sales] ${scored.length} of ${rows.length} sales in ${suburb}${neighbouring ? ` + ${query.neighbouring_suburb}` : ''} match the subject`);
+  return scored.slice(0, options.limit || LOCAL_SALES_LIMIT);
+}
@@ -0,0 +1,117 @@
+/**
+ * Mailer
+ * Outgoing email goes through a MailTransport, chosen with MAIL_TRANSPORT:
+ *   http               POST each message as JSON to MAIL_HTTP_URL with MAIL_API_KEY as a
+ *                      bearer token (Resend's send API, or a relay that accepts the same body)
+ *   console (default)  log the recipient and subject; the body is never logged, since
+ *                      it carries live verification and reset links
+ *   file               write each message as a .eml file to MAIL_DIR (default mail-outbox)
+ * Any other provider plugs in with setMailTransport before the server starts.
+ * console and file are for development: in production the transport has to be
+ * http or one set in code. Otherwise the transport is resolved again on every send
+ * and each send throws, so only the features that email fail.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+function mailFrom(): string {
+  return process.env.MAIL_FROM || 'PropertyEval <no-reply@propertyeval.com.au>';
+}
+
+export const consoleTransport: MailTransport = {
+  name: 'console',
+  async send(message) {
+    console.log(`[Mailer] "${message.subject}" for ${message.to} (body not logged; use MAIL_TRANSPORT=file to read it)`);
+  }
+};
+
+export function createFileTransport(dir: string): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.promises.mkdir(dir, { recursive: true });
+      const safeTo = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+      const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${safeTo}.eml`);
+      const contents = [
+        `From: ${mailFrom()}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Date: ${new Date().toUTCString()}`,
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        message.text
+      ].join('\r\n');
+      await fs.promises.writeFile(file, contents, 'utf8');
+      console.log(`[Mailer] Wrote "${message.subject}" for ${message.to} to ${file}`);
+    }
+  };
+}
+
+export function createHttpTransport(url: string, apiKey: string): MailTransport {
+  return {
+    name: 'http',
+    async send(message) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+        body: JSON.stringify({ from: mailFrom(), to: [message.to], subject: message.subject, text: message.text, html: message.html })
+      });
+      if (!response.ok) {
+        throw new Error(`Mail provider responded ${response.status}: ${(await response.text()).slice(0, 200)}`);
+      }
+    }
+  };
+}
+
+function transportFromEnv(): MailTransport {
+  const name = (process.env.MAIL_TRANSPORT || 'console').toLowerCase();
+  if (name === 'http') {
+    if (!process.env.MAIL_HTTP_URL || !process.env.MAIL_API_KEY) {
+      throw new Error('MAIL_TRANSPORT=http needs MAIL_HTTP_URL and MAIL_API_KEY');
+    }
+    return createHttpTransport(process.env.MAIL_HTTP_URL, process.env.MAIL_API_KEY);
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error(`MAIL_TRANSPORT=${name} cannot deliver mail; set MAIL_TRANSPORT=http in production`);
+  }
+  if (name === 'file') {
+    return createFileTransport(path.resolve(process.env.MAIL_DIR || 'mail-outbox'));
+  }
+  if (name !== 'console') {
+    console.warn(`[Mailer] Unknown MAIL_TRANSPORT "${name}", using console`);
+  }
+  return consoleTransport;
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * The configured transport; throws when the environment names none that can deliver
+ */
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = transportFromEnv();
+  }
+  return transport;
+}
+
+export function setMailTransport(next: MailTransport): void {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
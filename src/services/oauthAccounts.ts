@@ -0,0 +1,96 @@
+/**
+ * OAuth accounts
+ * Turns a verified provider identity into a user. A linked identity always signs
+ * in to its user. Otherwise the identity is linked to the user with the same email
+ * only when the provider verified that email; a user whose own email was never
+ * verified loses their password and sessions on linking, since whoever registered
+ * it may not own the address. With no such user, a new one is created.
+ */
+
+import { User } from '../models/types';
+import { findUserById, findUserByEmail, createUser, updateUser } from '../repositories/userRepository';
+import { findIdentity, insertIdentity, touchIdentity } from '../repositories/identityRepository';
+import { assignDefaultRole } from './roles';
+import { endAllSessions } from './sessions';
+import { OAuthError, VerifiedIdentity } from './oauthVerification';
+
+export interface OAuthSignIn {
+  user: User;
+  isNew: boolean;
+}
+
+function signInFields(user: User, identity: VerifiedIdentity) {
+  return {
+    last_login: new Date(),
+    username: user.username || identity.name || user.email.split('@')[0],
+    picture: user.picture || identity.picture || null
+  };
+}
+
+export async function signInWithIdentity(identity: VerifiedIdentity): Promise<OAuthSignIn> {
+  const link = await findIdentity(identity.provider, identity.subject);
+  const linkedUser = link ? await findUserById(link.user_id) : null;
+
+  if (linkedUser) {
+    if (!linkedUser.is_active) {
+      throw new OAuthError('Account is disabled', 403);
+    }
+    await touchIdentity(identity.provider, identity.subject, identity.email);
+    await updateUser(linkedUser.id, signInFields(linkedUser, identity));
+    return { user: (await findUserById(linkedUser.id))!, isNew: false };
+  }
+
+  if (!identity.email) {
+    throw new OAuthError('The ID token has no email address', 400);
+  }
+
+  const existing = await findUserByEmail(identity.email);
+
+  if (existing) {
+    if (!identity.email_verified) {
+      throw new OAuthError('The provider has not verified this email address, so it cannot be linked to the existing account', 403);
+    }
+    if (!existing.is_active) {
+      throw new OAuthError('Account is disabled', 403);
+    }
+
+    if (!existing.email_verified) {
+      await endAllSessions(existing.id, 'oauth_link');
+      await updateUser(existing.id, {
+        hashed_password: '',
+        email_verified: true,
+        email_verified_at: new Date()
+      });
+      console.warn(`[OAuth] Linked ${identity.provider} to unverified user ${existing.id}; password and sessions cleared`);
+    }
+
+    await insertIdentity({ provider: identity.provider, subject: identity.subject, user_id: existing.id, email: identity.email });
+    await updateUser(existing.id, signInFields(existing, identity));
+    console.log(`[OAuth] Linked ${identity.provider} identity to user ${existing.id}`);
+    return { user: (await findUserById(existing.id))!, isNew: false };
+  }
+
+  const userId = Date.now().toString();
+  const now = new Date();
+
+  const user = await createUser({
+    id: userId,
+    email: identity.email,
+    username: identity.name || identity.email.split('@')[0],
+    hashed_password: '',
+    subscription_tier: 'free',
+    subscription_active: false,
+    trial_active: false,
+    created_at: now,
+    last_login: now,
+    is_active: true,
+    auth_provider: identity.provider,
+    picture: identity.picture,
+    email_verified: identity.email_verified,
+    email_verified_at: identity.email_verified ? now : null
+  });
+  await assignDefaultRole(userId);
+  await insertIdentity({ provider: identity.provider, subject: identity.subject, user_id: userId, email: identity.email });
+
+  return { user, isNew: true };
+}
@@ -0,0 +1,204 @@
+/**
+ * OAuth ID token verification
+ * Checks Google and Microsoft ID tokens against the provider's published signing
+ * keys (JWKS): RS256 signature, expiry, audience (our client ids) and issuer.
+ *
+ * Configuration:
+ *   GOOGLE_CLIENT_ID       comma-separated client ids accepted as audience
+ *   GOOGLE_JWKS_URI        default https://www.googleapis.com/oauth2/v3/certs
+ *   MICROSOFT_CLIENT_ID    comma-separated client ids accepted as audience
+ *   MICROSOFT_TENANT_ID    optional comma-separated tenant ids to accept (default any)
+ *   MICROSOFT_JWKS_URI     default https://login.microsoftonline.com/common/discovery/v2.0/keys
+ *   OAUTH_JWKS_CACHE_SECONDS  how long fetched keys are reused (default 3600)
+ * A JWKS URI may also be a file path (or file:// URL) to keys on disk. Under
+ * PROVIDER_MOCK_MODE=fixtures with the mock client ids, the default URIs are answered
+ * from fixtures/providers/oauth.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import jwt from 'jsonwebtoken';
+import { OAuthProvider } from '../models/types';
+
+export class OAuthError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+// What a verified ID token tells us about the person signing in
+export interface VerifiedIdentity {
+  provider: OAuthProvider;
+  subject: string;
+  email: string | null;
+  email_verified: boolean;
+  name: string | null;
+  picture: string | null;
+}
+
+interface ProviderConfig {
+  label: string;
+  clientIds: string[];
+  jwksUri: string;
+  checkIssuer: (claims: jwt.JwtPayload) => boolean;
+  toIdentity: (claims: jwt.JwtPayload) => VerifiedIdentity;
+}
+
+const GOOGLE_ISSUERS = ['https://accounts.google.com', 'accounts.google.com'];
+
+function listEnv(name: string): string[] {
+  return (process.env[name] || '').split(',').map(v => v.trim()).filter(Boolean);
+}
+
+function isTrue(value: unknown): boolean {
+  return value === true || value === 'true';
+}
+
+function providerConfig(provider: OAuthProvider): ProviderConfig {
+  if (provider === 'google') {
+    return {
+      label: 'Google',
+      clientIds: listEnv('GOOGLE_CLIENT_ID'),
+      jwksUri: process.env.GOOGLE_JWKS_URI || 'https://www.googleapis.com/oauth2/v3/certs',
+      checkIssuer: claims => GOOGLE_ISSUERS.includes(String(claims.iss)),
+      toIdentity: claims => ({
+        provider,
+        subject: String(claims.sub),
+        email: claims.email ? String(claims.email).toLowerCase() : null,
+        email_verified: isTrue(claims.email_verified),
+        name: claims.name ? String(claims.name) : null,
+        picture: claims.picture ? String(claims.picture) : null
+      })
+    };
+  }
+
+  const tenants = listEnv('MICROSOFT_TENANT_ID');
+  return {
+    label: 'Microsoft',
+    clientIds: listEnv('MICROSOFT_CLIENT_ID'),
+    jwksUri: process.env.MICROSOFT_JWKS_URI || 'https://login.microsoftonline.com/common/discovery/v2.0/keys',
+    // Multi-tenant tokens name their tenant in both iss and tid
+    checkIssuer: claims =>
+      typeof claims.tid === 'string' &&
+      claims.iss === `https://login.microsoftonline.com/${claims.tid}/v2.0` &&
+      (tenants.length === 0 || tenants.includes(claims.tid)),
+    toIdentity: claims => {
+      const email = claims.email || claims.preferred_username;
+      return {
+        provider,
+        subject: String(claims.sub),
+        email: email ? String(email).toLowerCase() : null,
+        // Microsoft does not verify the email claim; xms_edov says the tenant owns its domain
+        email_verified: !!claims.email && isTrue(claims.xms_edov),
+        name: claims.name ? String(claims.name) : null,
+        picture: null
+      };
+    }
+  };
+}
+
+interface JwksCacheEntry {
+  keys: Map<string, crypto.KeyObject>;
+  fetchedAt: number;
+}
+
+const jwksCache = new Map<string, JwksCacheEntry>();
+
+// Unknown key ids trigger a refetch (providers rotate keys), at most this often
+const MIN_REFETCH_MS = 60 * 1000;
+
+function cacheTtlMs(): number {
+  return parseInt(process.env.OAUTH_JWKS_CACHE_SECONDS || '3600', 10) * 1000;
+}
+
+async function loadJwks(uri: string): Promise<{ keys?: any[] }> {
+  if (!/^https?:\/\//i.test(uri)) {
+    const file = uri.startsWith('file:') ? fileURLToPath(uri) : uri;
+    return JSON.parse(await fs.promises.readFile(file, 'utf8'));
+  }
+
+  const response = await fetch(uri);
+  if (!response.ok) {
+    throw new Error(`JWKS request to ${uri} failed with ${response.status}`);
+  }
+  return response.json() as Promise<{ keys?: any[] }>;
+}
+
+async function fetchKeys(uri: string): Promise<JwksCacheEntry> {
+  const jwks = await loadJwks(uri);
+  const keys = new Map<string, crypto.KeyObject>();
+
+  for (const jwk of jwks.keys || []) {
+    if (jwk.kty !== 'RSA' || !jwk.kid || (jwk.use && jwk.use !== 'sig')) continue;
+    try {
+      keys.set(jwk.kid, crypto.createPublicKey({ key: { kty: jwk.kty, n: jwk.n, e: jwk.e }, format: 'jwk' }));
+    } catch (error) {
+      console.warn(`[OAuth] Skipping unreadable key ${jwk.kid} from ${uri}`);
+    }
+  }
+
+  const entry = { keys, fetchedAt: Date.now() };
+  jwksCache.set(uri, entry);
+  return entry;
+}
+
+async function getSigningKey(uri: string, kid: string): Promise<crypto.KeyObject | null> {
+  let entry = jwksCache.get(uri);
+  if (!entry || Date.now() - entry.fetchedAt > cacheTtlMs()) {
+    entry = await fetchKeys(uri);
+  } else if (!entry.keys.has(kid) && Date.now() - entry.fetchedAt > MIN_REFETCH_MS) {
+    entry = await fetchKeys(uri);
+  }
+  return entry.keys.get(kid) || null;
+}
+
+/**
+ * Forget fetched signing keys, so the next verification fetches them again
+ */
+export function clearJwksCache(): void {
+  jwksCache.clear();
+}
+
+export function isOAuthProvider(value: unknown): value is OAuthProvider {
+  return value === 'google' || value === 'microsoft';
+}
+
+export async function verifyIdToken(provider: OAuthProvider, idToken: string): Promise<VerifiedIdentity> {
+  const config = providerConfig(provider);
+  if (config.clientIds.length === 0) {
+    throw new OAuthError(`${config.label} sign-in is not configured`, 503);
+  }
+
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string' || decoded.header.alg !== 'RS256' || !decoded.header.kid) {
+    throw new OAuthError(`Invalid ${config.label} ID token`, 401);
+  }
+
+  let key: crypto.KeyObject | null;
+  try {
+    key = await getSigningKey(config.jwksUri, decoded.header.kid);
+  } catch (error) {
+    console.error(`[OAuth] Failed to load ${config.label} signing keys:`, error);
+    throw new OAuthError(`Could not verify ${config.label} ID token`, 502);
+  }
+  if (!key) {
+    throw new OAuthError(`Invalid ${config.label} ID token`, 401);
+  }
+
+  let claims: jwt.JwtPayload;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: ['RS256'],
+      audience: config.clientIds as [string, ...string[]]
+    }) as jwt.JwtPayload;
+  } catch (error: any) {
+    throw new OAuthError(`Invalid ${config.label} ID token: ${error.message}`, 401);
+  }
+
+  if (!config.checkIssuer(claims) || !claims.sub) {
+    throw new OAuthError(`Invalid ${config.label} ID token issuer`, 401);
+  }
+
+  return config.toIdentity(claims);
+}
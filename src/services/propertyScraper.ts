@@ -3,7 +3,7 @@
  * Scrapes realestate.com.au for current listings and sold properties
  */
 
-interface ScrapedProperty {
+export interface ScrapedProperty {
   address: string;
   price: number | null;
   beds: number | null;
@@ -15,7 +15,7 @@ interface ScrapedProperty {
   source: string;
 }
 
-interface ComparablesData {
+export interface ScrapedComparablesData {
   comparable_sold: ScrapedProperty[];
   comparable_listings: ScrapedProperty[];
   statistics: {
@@ -301,7 +301,7 @@ export async function scrapeComparableProperties(
   beds: number,
   baths: number,
   propertyType: string = 'house'
-): Promise<ComparablesData> {
+): Promise<ScrapedComparablesData> {
   try {
     // Run both scrapers concurrently
     const [listings, sold] = await Promise.all([
@@ -0,0 +1,199 @@
+/**
+ * Provider mock mode
+ * With PROVIDER_MOCK_MODE=fixtures, outbound requests to Domain, CoreLogic,
+ * realestate.com.au, OpenAI and the Google and Microsoft signing keys are answered
+ * from recorded fixtures instead of the network, so evaluations, pitch generation
+ * and OAuth sign-in run end-to-end without live keys. Requests to any other host go
+ * to the real fetch.
+ *
+ * Fixtures live in fixtures/providers (override with PROVIDER_FIXTURES_DIR):
+ *   domain/residential-search.json     POST api.domain.com.au/v1/listings/residential/_search
+ *   corelogic/oauth-token.json         POST api-trestle.corelogic.com/oauth/token
+ *   corelogic/avm.json                 POST api-trestle.corelogic.com/api/v1/property/avm
+ *   corelogic/sales-search.json        POST api-trestle.corelogic.com/api/v1/sales/search
+ *   realestate/buy.html                GET  www.realestate.com.au/buy/...
+ *   realestate/sold.html               GET  www.realestate.com.au/sold/...
+ *   openai/<json_schema name>.json     POST api.openai.com/v1/chat/completions with a json_schema response_format
+ *   openai/chat-completion.json        POST api.openai.com/v1/chat/completions otherwise
+ *   oauth/jwks.json                    GET  www.googleapis.com/oauth2/v3/certs
+ *                                      GET  login.microsoftonline.com/<tenant>/discovery/v2.0/keys
+ *
+ * Mock mode is refused under NODE_ENV=production.
+ *
+ * The signing keys are only answered from the fixture while the provider's client id is
+ * the mock one (mock-google-client-id, mock-microsoft-client-id); with a real client id
+ * configured, keys come from the real provider. No key pair is committed: to sign ID
+ * tokens locally, generate an RSA key pair and put its public JWKS in oauth/jwks.json,
+ * which is git-ignored.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+interface FixtureRoute {
+  host: string;
+  method: string;
+  pattern: RegExp;
+  fixture: (body: any) => string;
+  enabled?: () => boolean;   // When false, the request goes to the real provider
+}
+
+const MOCKED_HOSTS = [
+  'api.domain.com.au', 'api-trestle.corelogic.com', 'www.realestate.com.au', 'api.openai.com',
+  'www.googleapis.com', 'login.microsoftonline.com'
+];
+
+const ROUTES: FixtureRoute[] = [
+  { host: 'api.domain.com.au', method: 'POST', pattern: /^\/v1\/listings\/residential\/_search$/, fixture: () => 'domain/residential-search.json' },
+  { host: 'api-trestle.corelogic.com', method: 'POST', pattern: /^\/oauth\/token$/, fixture: () => 'corelogic/oauth-token.json' },
+  { host: 'api-trestle.corelogic.com', method: 'POST', pattern: /^\/api\/v1\/property\/avm$/, fixture: () => 'corelogic/avm.json' },
+  { host: 'api-trestle.corelogic.com', method: 'POST', pattern: /^\/api\/v1\/sales\/search$/, fixture: () => 'corelogic/sales-search.json' },
+  { host: 'www.realestate.com.au', method: 'GET', pattern: /^\/buy\//, fixture: () => 'realestate/buy.html' },
+  { host: 'www.realestate.com.au', method: 'GET', pattern: /^\/sold\//, fixture: () => 'realestate/sold.html' },
+  {
+    host: 'www.googleapis.com',
+    method: 'GET',
+    pattern: /^\/oauth2\/v3\/certs$/,
+    fixture: () => 'oauth/jwks.json',
+    enabled: () => usesMockClientId('GOOGLE_CLIENT_ID')
+  },
+  {
+    host: 'login.microsoftonline.com',
+    method: 'GET',
+    pattern: /^\/[^/]+\/discovery\/v2\.0\/keys$/,
+    fixture: () => 'oauth/jwks.json',
+    enabled: () => usesMockClientId('MICROSOFT_CLIENT_ID')
+  },
+  {
+    host: 'api.openai.com',
+    method: 'POST',
+    pattern: /^\/v1\/chat\/completions$/,
+    fixture: body => {
+      const schemaName = body?.response_format?.json_schema?.name;
+      return schemaName ? `openai/${schemaName}.json` : 'openai/chat-completion.json';
+    }
+  }
+];
+
+const MOCK_KEYS = {
+  OPENAI_API_KEY: 'mock-openai-key',
+  DOMAIN_API_KEY: 'mock-domain-key',
+  CORELOGIC_CLIENT_KEY: 'mock-corelogic-client',
+  CORELOGIC_SECRET_KEY: 'mock-corelogic-secret',
+  GOOGLE_CLIENT_ID: 'mock-google-client-id',
+  MICROSOFT_CLIENT_ID: 'mock-microsoft-client-id'
+};
+
+let realFetch: typeof fetch | null = null;
+
+// Tokens for a real client id must only ever verify against the real provider's keys
+function usesMockClientId(name: 'GOOGLE_CLIENT_ID' | 'MICROSOFT_CLIENT_ID'): boolean {
+  return process.env[name] === MOCK_KEYS[name];
+}
+
+export function isProviderMockMode(): boolean {
+  return (process.env.PROVIDER_MOCK_MODE || '').toLowerCase() === 'fixtures';
+}
+
+export function getFixturesDir(): string {
+  return process.env.PROVIDER_FIXTURES_DIR || path.resolve(__dirname, '../../fixtures/providers');
+}
+
+function requestUrl(input: string | URL | Request): URL {
+  if (typeof input === 'string') return new URL(input);
+  if (input instanceof URL) return input;
+  return new URL(input.url);
+}
+
+function requestBody(init?: RequestInit): any {
+  if (typeof init?.body !== 'string') return null;
+  try {
+    return JSON.parse(init.body);
+  } catch {
+    return null;
+  }
+}
+
+function fixtureResponse(file: string, body: any): Response {
+  const fullPath = path.join(getFixturesDir(), file);
+  if (!fs.existsSync(fullPath)) {
+    console.warn(`[ProviderMocks] Missing fixture ${file}`);
+    return new Response(JSON.stringify({ error: `No fixture ${file}` }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  let content = fs.readFileSync(fullPath, 'utf8');
+  const isJson = file.endsWith('.json');
+
+  // Echo the requested model so responses look like they came from that model
+  if (isJson && file.startsWith('openai/') && body?.model) {
+    const completion = JSON.parse(content);
+    completion.model = body.model;
+    completion.created = Math.floor(Date.now() / 1000);
+    content = JSON.stringify(completion);
+  }
+
+  return new Response(content, {
+    status: 200,
+    headers: { 'Content-Type': isJson ? 'application/json' : 'text/html; charset=utf-8' }
+  });
+}
+
+/**
+ * fetch-compatible function answering provider requests from fixtures
+ */
+export async function mockFetch(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  const url = requestUrl(input);
+  if (!MOCKED_HOSTS.includes(url.hostname)) {
+    if (!realFetch) throw new Error(`[ProviderMocks] No real fetch available for ${url.hostname}`);
+    return realFetch(input, init);
+  }
+
+  const method = (init?.method || (input instanceof Request ? input.method : 'GET')).toUpperCase();
+  const route = ROUTES.find(r => r.host === url.hostname && r.method === method && r.pattern.test(url.pathname));
+  if (route?.enabled && !route.enabled()) {
+    if (!realFetch) throw new Error(`[ProviderMocks] No real fetch available for ${url.hostname}`);
+    return realFetch(input, init);
+  }
+  if (!route) {
+    // Never fall through to the live provider in mock mode
+    console.warn(`[ProviderMocks] No fixture route for ${method} ${url.hostname}${url.pathname}`);
+    return new Response(JSON.stringify({ error: 'No fixture route' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const body = requestBody(init);
+  const file = route.fixture(body);
+  console.log(`[ProviderMocks] ${method} ${url.hostname}${url.pathname} -> ${file}`);
+  return fixtureResponse(file, body);
+}
+
+/**
+ * Route global fetch through the fixtures when PROVIDER_MOCK_MODE=fixtures.
+ * Missing provider keys are filled with placeholders so every provider runs.
+ * Throws under NODE_ENV=production.
+ */
+export function installProviderMocks(): boolean {
+  if (!isProviderMockMode() || realFetch) {
+    return !!realFetch;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('PROVIDER_MOCK_MODE=fixtures cannot be used with NODE_ENV=production');
+  }
+
+  realFetch = globalThis.fetch.bind(globalThis);
+  globalThis.fetch = mockFetch as typeof fetch;
+
+  for (const [name, value] of Object.entries(MOCK_KEYS)) {
+    if (!process.env[name]) {
+      process.env[name] = value;
+    }
+  }
+
+  console.log(`[ProviderMocks] Serving Domain, CoreLogic, realestate.com.au, OpenAI and OAuth signing keys from ${getFixturesDir()}`);
+  return true;
+}
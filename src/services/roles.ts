@@ -0,0 +1,88 @@
+/**
+ * Roles
+ * Granting and revoking user roles. The admin role is mirrored in users.admin so
+ * older readers of that flag stay correct, and the last active admin cannot lose
+ * the role.
+ */
+
+import { withTransaction } from '../utils/database';
+import { Role, ROLES, DEFAULT_ROLE, User } from '../models/types';
+import { findUserById, updateUser } from '../repositories/userRepository';
+import {
+  findRolesByUserId,
+  grantRole as insertRole,
+  revokeRole as deleteRole,
+  countActiveUsersWithRole
+} from '../repositories/roleRepository';
+
+export class RoleError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+/**
+ * Whether a user holds `role` or a more privileged one
+ */
+export function hasRole(user: Pick<User, 'roles'> | undefined, role: Role): boolean {
+  const rank = ROLES.indexOf(role);
+  return !!user?.roles?.some(held => ROLES.indexOf(held) <= rank);
+}
+
+async function requireExistingUser(userId: string): Promise<User> {
+  const user = await findUserById(userId);
+  if (!user) {
+    throw new RoleError('User not found', 404);
+  }
+  return user;
+}
+
+/**
+ * Grant a role; returns the user's roles afterwards
+ */
+export async function grantUserRole(userId: string, role: Role, grantedBy: string | null): Promise<Role[]> {
+  await requireExistingUser(userId);
+
+  return withTransaction(async tx => {
+    const granted = await insertRole(userId, role, grantedBy, tx);
+    if (granted && role === 'admin') {
+      await updateUser(userId, { admin: true }, tx);
+    }
+    if (granted) {
+      console.log(`[Roles] ${grantedBy || 'system'} granted ${role} to ${userId}`);
+    }
+    return findRolesByUserId(userId, tx);
+  });
+}
+
+/**
+ * Revoke a role; returns the user's roles afterwards
+ */
+export async function revokeUserRole(userId: string, role: Role, revokedBy: string | null): Promise<Role[]> {
+  await requireExistingUser(userId);
+
+  return withTransaction(async tx => {
+    const revoked = await deleteRole(userId, role, tx);
+    if (revoked && role === 'admin') {
+      if (await countActiveUsersWithRole('admin', tx) === 0) {
+        throw new RoleError('Cannot revoke the admin role from the last active admin', 400);
+      }
+      await updateUser(userId, { admin: false }, tx);
+    }
+    if (revoked) {
+      console.log(`[Roles] ${revokedBy || 'system'} revoked ${role} from ${userId}`);
+    }
+    return findRolesByUserId(userId, tx);
+  });
+}
+
+/**
+ * Give a newly created user the default role
+ */
+export async function assignDefaultRole(userId: string): Promise<void> {
+  await insertRole(userId, DEFAULT_ROLE, null);
+}
@@ -0,0 +1,147 @@
+/**
+ * Sessions
+ * Every sign-in starts a session with a short-lived access token and a long-lived
+ * refresh token. Refreshing rotates the refresh token; presenting one that was
+ * already rotated away means it leaked, so the whole session is revoked. Access
+ * tokens carry the session id (sid) and stop working once their session is revoked.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { User, UserSession } from '../models/types';
+import {
+  createAccessToken,
+  createRefreshToken,
+  hashToken,
+  accessTokenExpiresInSeconds,
+  REFRESH_TOKEN_EXPIRE_DAYS
+} from '../utils/auth';
+import { findUserById } from '../repositories/userRepository';
+import {
+  insertSession,
+  findSessionById,
+  findSessionByTokenHash,
+  rotateSessionToken,
+  revokeSession,
+  revokeUserSessions
+} from '../repositories/sessionRepository';
+
+export class SessionError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+// Where a sign-in or refresh came from, shown in the sessions list
+export interface SessionClient {
+  user_agent: string | null;
+  ip_address: string | null;
+}
+
+export interface SessionTokens {
+  access_token: string;
+  refresh_token: string;
+  token_type: 'bearer';
+  expires_in: number;       // Access token lifetime in seconds
+  session_id: string;
+}
+
+function refreshExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_EXPIRE_DAYS * 24 * 60 * 60 * 1000);
+}
+
+function issueTokens(user: Pick<User, 'id' | 'email'>, sessionId: string, refreshToken: string): SessionTokens {
+  return {
+    access_token: createAccessToken({ sub: user.id, email: user.email, sid: sessionId }),
+    refresh_token: refreshToken,
+    token_type: 'bearer',
+    expires_in: accessTokenExpiresInSeconds(),
+    session_id: sessionId
+  };
+}
+
+function isLive(session: UserSession): boolean {
+  return !session.revoked_at && new Date(session.expires_at).getTime() > Date.now();
+}
+
+export async function startSession(user: Pick<User, 'id' | 'email'>, client: SessionClient): Promise<SessionTokens> {
+  const sessionId = uuidv4();
+  const refreshToken = createRefreshToken();
+
+  await insertSession({
+    id: sessionId,
+    user_id: user.id,
+    refresh_token_hash: hashToken(refreshToken),
+    user_agent: client.user_agent,
+    ip_address: client.ip_address,
+    expires_at: refreshExpiry()
+  });
+
+  return issueTokens(user, sessionId, refreshToken);
+}
+
+/**
+ * Exchange a refresh token for a new access token and refresh token
+ */
+export async function refreshSession(refreshToken: string, client: SessionClient): Promise<SessionTokens> {
+  const tokenHash = hashToken(refreshToken);
+  const match = await findSessionByTokenHash(tokenHash);
+
+  if (!match || !isLive(match.session)) {
+    throw new SessionError('Invalid or expired refresh token', 401);
+  }
+
+  const { session } = match;
+  if (!match.current) {
+    await revokeSession(session.id, session.user_id, 'token_reuse');
+    console.warn(`[Sessions] Refresh token reused for session ${session.id}; session revoked`);
+    throw new SessionError('Refresh token has already been used', 401);
+  }
+
+  const user = await findUserById(session.user_id);
+  if (!user || !user.is_active) {
+    await revokeSession(session.id, session.user_id, 'user_inactive');
+    throw new SessionError('User not found or inactive', 401);
+  }
+
+  const nextToken = createRefreshToken();
+  const rotated = await rotateSessionToken(session.id, tokenHash, hashToken(nextToken), refreshExpiry(), client);
+  if (!rotated) {
+    // Another request rotated or revoked it between the lookup and the update
+    throw new SessionError('Refresh token has already been used', 401);
+  }
+
+  return issueTokens(user, session.id, nextToken);
+}
+
+/**
+ * Revoke the session a refresh token belongs to; unknown tokens are ignored
+ */
+export async function endSessionByRefreshToken(refreshToken: string): Promise<void> {
+  const match = await findSessionByTokenHash(hashToken(refreshToken));
+  if (match) {
+    await revokeSession(match.session.id, match.session.user_id, 'logout');
+  }
+}
+
+export async function endSession(sessionId: string, userId: string, reason: string): Promise<boolean> {
+  return revokeSession(sessionId, userId, reason);
+}
+
+/**
+ * Revoke all of a user's sessions, e.g. after a password change, optionally keeping one
+ */
+export async function endAllSessions(userId: string, reason: string, exceptSessionId?: string): Promise<number> {
+  const revoked = await revokeUserSessions(userId, reason, exceptSessionId);
+  if (revoked > 0) {
+    console.log(`[Sessions] Revoked ${revoked} session(s) for user ${userId} (${reason})`);
+  }
+  return revoked;
+}
+
+/**
+ * Whether access tokens issued for this session are still accepted
+ */
+export async function isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+  const session = await findSessionById(sessionId);
+  return !!session && session.user_id === userId && isLive(session);
+}
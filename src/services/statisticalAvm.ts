@@ -0,0 +1,263 @@
+/**
+ * Statistical AVM (automated valuation model)
+ * Adjusts each comparable sale to the subject property (time, land size,
+ * bedrooms, bathrooms, property type), weights the adjusted prices by similarity
+ * and size of adjustment, and returns a point estimate, range and confidence.
+ * Deterministic: the same subject and comparables always produce the same value.
+ */
+
+import { queryOne } from '../utils/database';
+import {
+  ComparableProperty,
+  HistoricProp,
+  StatisticalValuation,
+  ComparableAdjustment
+} from '../models/types';
+import { scoreComparable, getDensityLevel, monthsBetween, ScoringWeights } from './comparableScoring';
+
+export const AVM_PARAMETERS = {
+  default_annual_growth_percent: 6,    // Used when no market_context setting is saved
+  bedroom_adjustment_percent: 7,       // Per bedroom difference
+  bathroom_adjustment_percent: 4,      // Per bathroom difference
+  land_elasticity: { house: 0.35, subdivision: 0.2, unit: 0.05 }, // % value change per % land change (log scale)
+  max_land_adjustment_percent: 30,
+  density_value_factor: [1, 0.85, 0.7], // house, townhouse/villa, unit
+  max_comparables: 8,
+  outlier_threshold_percent: 35,       // Drop adjusted prices this far from the weighted median
+  min_range_percent: 5
+};
+
+export interface AvmSubject {
+  beds: number | null;
+  baths: number | null;
+  property_type: string | null;
+  land_area: number | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  reference_date?: Date;
+}
+
+/**
+ * Annual growth from the saved market context (midpoint of min/max), else the default
+ */
+export async function getAnnualGrowthPercent(): Promise<number> {
+  try {
+    const setting = await queryOne<{ setting_data: string }>(
+      `SELECT setting_data FROM settings WHERE setting_id = 'market_context'`
+    );
+    if (setting?.setting_data) {
+      const context = JSON.parse(setting.setting_data);
+      const min = Number(context.annual_growth_rate_min);
+      const max = Number(context.annual_growth_rate_max);
+      if (Number.isFinite(min) && Number.isFinite(max)) {
+        return (min + max) / 2;
+      }
+    }
+  } catch (e) {
+    console.error('Error reading market context for AVM:', e);
+  }
+  return AVM_PARAMETERS.default_annual_growth_percent;
+}
+
+function parseSaleDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value.replace(/^sold\s+(on\s+)?/i, ''));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// The scoring engine works on historic_prop rows, so present the comparable in that shape
+function asHistoricProp(comp: ComparableProperty, soldDate: Date | null): HistoricProp {
+  return {
+    id: 0,
+    cache_id: null,
+    prop_id: comp.id,
+    address: comp.address,
+    price: comp.price,
+    beds: comp.beds,
+    baths: comp.baths,
+    cars: comp.carpark,
+    land_area: comp.land_size ?? null,
+    property_type: comp.property_type,
+    sold_date: comp.sold_date || null,
+    sold_date_raw: soldDate,
+    source: comp.source || 'unknown',
+    latitude: comp.latitude ?? null,
+    longitude: comp.longitude ?? null,
+    homely_url: null,
+    source_suburb: null,
+    is_neighbouring: !!comp.is_neighbouring
+  };
+}
+
+function landElasticity(densityLevel: number | null): number {
+  if (densityLevel === 2) return AVM_PARAMETERS.land_elasticity.unit;
+  if (densityLevel === 1) return AVM_PARAMETERS.land_elasticity.subdivision;
+  return AVM_PARAMETERS.land_elasticity.house;
+}
+
+function roundTo(value: number, step: number): number {
+  return Math.round(value / step) * step;
+}
+
+function weightedMedian(values: { value: number; weight: number }[]): number {
+  const sorted = [...values].sort((a, b) => a.value - b.value);
+  const total = sorted.reduce((sum, v) => sum + v.weight, 0);
+  let running = 0;
+  for (const v of sorted) {
+    running += v.weight;
+    if (running >= total / 2) return v.value;
+  }
+  return sorted[sorted.length - 1].value;
+}
+
+/**
+ * Adjust a single comparable's sale price to the subject
+ */
+export function adjustComparable(
+  subject: AvmSubject,
+  comp: ComparableProperty,
+  weights: ScoringWeights,
+  annualGrowthPercent: number
+): ComparableAdjustment {
+  const referenceDate = subject.reference_date || new Date();
+  const soldDate = parseSaleDate(comp.sold_date);
+  const months = soldDate ? Math.max(0, monthsBetween(soldDate, referenceDate)) : null;
+
+  const scored = scoreComparable(
+    {
+      beds: subject.beds,
+      baths: subject.baths,
+      property_type: subject.property_type,
+      land_area: subject.land_area,
+      latitude: subject.latitude,
+      longitude: subject.longitude,
+      reference_date: referenceDate
+    },
+    asHistoricProp(comp, soldDate),
+    weights
+  );
+
+  const price = comp.price;
+  const time = months !== null ? price * (Math.pow(1 + annualGrowthPercent / 100, months / 12) - 1) : 0;
+  const timeAdjusted = price + time;
+
+  const subjectDensity = getDensityLevel(subject.property_type);
+  const compDensity = getDensityLevel(comp.property_type);
+
+  let land = 0;
+  if (subject.land_area && comp.land_size) {
+    const cap = AVM_PARAMETERS.max_land_adjustment_percent / 100;
+    const change = landElasticity(subjectDensity) * Math.log(subject.land_area / comp.land_size);
+    land = timeAdjusted * Math.max(-cap, Math.min(cap, change));
+  }
+
+  const bedrooms = subject.beds != null && comp.beds != null
+    ? timeAdjusted * (subject.beds - comp.beds) * AVM_PARAMETERS.bedroom_adjustment_percent / 100
+    : 0;
+  const bathrooms = subject.baths != null && comp.baths != null
+    ? timeAdjusted * (subject.baths - comp.baths) * AVM_PARAMETERS.bathroom_adjustment_percent / 100
+    : 0;
+
+  let propertyType = 0;
+  if (subjectDensity !== null && compDensity !== null && subjectDensity !== compDensity) {
+    const factors = AVM_PARAMETERS.density_value_factor;
+    propertyType = timeAdjusted * (factors[subjectDensity] / factors[compDensity] - 1);
+  }
+
+  const adjustedPrice = timeAdjusted + land + bedrooms + bathrooms + propertyType;
+
+  // Comparables needing large non-time adjustments are weaker evidence
+  const grossAdjustment = (Math.abs(land) + Math.abs(bedrooms) + Math.abs(bathrooms) + Math.abs(propertyType)) / price;
+  let weight = Math.max(scored.similarity_score, 1) / (1 + 2 * grossAdjustment);
+  if (months === null) weight *= 0.7;
+
+  return {
+    comparable_id: comp.id,
+    address: comp.address,
+    source: comp.source || null,
+    sold_price: price,
+    sold_date: comp.sold_date || null,
+    months_since_sale: months !== null ? Math.round(months * 10) / 10 : null,
+    similarity_score: scored.similarity_score,
+    adjustments: {
+      time: Math.round(time),
+      land: Math.round(land),
+      bedrooms: Math.round(bedrooms),
+      bathrooms: Math.round(bathrooms),
+      property_type: Math.round(propertyType)
+    },
+    adjusted_price: Math.round(adjustedPrice),
+    weight: Math.round(weight * 100) / 100,
+    included: true
+  };
+}
+
+/**
+ * Value the subject from sold comparables; null when there are none to work from
+ */
+export function computeStatisticalValuation(
+  subject: AvmSubject,
+  comparables: ComparableProperty[],
+  weights: ScoringWeights,
+  annualGrowthPercent: number = AVM_PARAMETERS.default_annual_growth_percent
+): StatisticalValuation | null {
+  const sold = comparables.filter(c => c.price > 0 && c.listing_type !== 'listing');
+  if (sold.length === 0) {
+    return null;
+  }
+
+  const adjusted = sold
+    .map(comp => adjustComparable(subject, comp, weights, annualGrowthPercent))
+    .sort((a, b) => b.weight - a.weight);
+
+  const used = adjusted.slice(0, AVM_PARAMETERS.max_comparables);
+  adjusted.slice(AVM_PARAMETERS.max_comparables).forEach(a => { a.included = false; });
+
+  const notes: string[] = [];
+
+  // Drop outliers once there are enough comparables to tell what an outlier is
+  if (used.length >= 4) {
+    const median = weightedMedian(used.map(a => ({ value: a.adjusted_price, weight: a.weight })));
+    for (const a of used) {
+      if (Math.abs(a.adjusted_price - median) / median > AVM_PARAMETERS.outlier_threshold_percent / 100) {
+        a.included = false;
+        notes.push(`Excluded ${a.address} as an outlier ($${a.adjusted_price.toLocaleString()} adjusted)`);
+      }
+    }
+  }
+
+  const included = used.filter(a => a.included);
+  const totalWeight = included.reduce((sum, a) => sum + a.weight, 0);
+  const estimate = included.reduce((sum, a) => sum + a.adjusted_price * a.weight, 0) / totalWeight;
+
+  const variance = included.reduce((sum, a) => sum + a.weight * Math.pow(a.adjusted_price - estimate, 2), 0) / totalWeight;
+  const spread = Math.max(Math.sqrt(variance), estimate * AVM_PARAMETERS.min_range_percent / 100);
+  const dispersion = Math.sqrt(variance) / estimate;
+
+  // Confidence: enough comparables, agreeing with each other, that closely resemble the subject
+  const avgSimilarity = included.reduce((sum, a) => sum + a.similarity_score, 0) / included.length;
+  const countScore = Math.min(included.length / 6, 1) * 40;
+  const dispersionScore = Math.max(0, 1 - dispersion / 0.2) * 35;
+  const similarityScore = Math.min(avgSimilarity / 120, 1) * 25;
+  const confidenceScore = Math.round(countScore + dispersionScore + similarityScore);
+
+  if (included.length < 3) {
+    notes.push(`Only ${included.length} comparable sale${included.length === 1 ? '' : 's'} available`);
+  }
+  if (dispersion > 0.15) {
+    notes.push(`Adjusted comparable prices vary widely (±${Math.round(dispersion * 100)}%)`);
+  }
+
+  return {
+    estimate: roundTo(estimate, 1000),
+    low: roundTo(estimate - spread, 1000),
+    high: roundTo(estimate + spread, 1000),
+    confidence_score: confidenceScore,
+    confidence_level: confidenceScore >= 75 ? 'high' : confidenceScore >= 50 ? 'medium' : 'low',
+    comparables_used: included.length,
+    annual_growth_percent: annualGrowthPercent,
+    method: 'similarity_weighted_adjusted_comparables',
+    comparables: adjusted,
+    notes
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Valuation accuracy reporting
+ * Aggregates the error of scored valuations (see recordSaleAccuracy) by suburb,
+ * property type, data source and confidence level, so it is visible whether a
+ * "high confidence" valuation is actually closer to the sale price.
+ */
+
+import { queryMany } from '../utils/database';
+import { parseLocation } from '../utils/location';
+
+export interface AccuracyFilters {
+  from?: Date | null;          // sale date range
+  to?: Date | null;
+  latest_only?: boolean;       // only the last valuation before each sale
+  user_email?: string;         // only properties owned by this user
+}
+
+export interface AccuracyBucket {
+  key: string;
+  count: number;
+  mean_error_percent: number;          // signed: positive means over-valued on average
+  mean_absolute_error_percent: number;
+  median_absolute_error_percent: number;
+  within_range_percent: number;        // share of sales that landed inside the valuation range
+}
+
+export interface ValuationAccuracyReport {
+  filters: { from: string | null; to: string | null; latest_only: boolean };
+  overall: AccuracyBucket;
+  by_suburb: AccuracyBucket[];
+  by_property_type: AccuracyBucket[];
+  by_data_source: AccuracyBucket[];
+  by_confidence_level: AccuracyBucket[];
+}
+
+interface ScoredRow {
+  property_id: string;
+  sale_date: Date | null;
+  created_at: Date;
+  data_source: string | null;
+  confidence_level: string;
+  error_percent: number;
+  within_range: boolean;
+  location: string | null;
+  property_type: string | null;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+function bucket(key: string, rows: ScoredRow[]): AccuracyBucket {
+  if (rows.length === 0) {
+    return { key, count: 0, mean_error_percent: 0, mean_absolute_error_percent: 0, median_absolute_error_percent: 0, within_range_percent: 0 };
+  }
+
+  const absolute = rows.map(r => Math.abs(r.error_percent)).sort((a, b) => a - b);
+  const mid = Math.floor(absolute.length / 2);
+  const median = absolute.length % 2 ? absolute[mid] : (absolute[mid - 1] + absolute[mid]) / 2;
+
+  return {
+    key,
+    count: rows.length,
+    mean_error_percent: round1(rows.reduce((sum, r) => sum + r.error_percent, 0) / rows.length),
+    mean_absolute_error_percent: round1(absolute.reduce((a, b) => a + b, 0) / absolute.length),
+    median_absolute_error_percent: round1(median),
+    within_range_percent: round1(rows.filter(r => r.within_range).length * 100 / rows.length)
+  };
+}
+
+function groupBy(rows: ScoredRow[], keyOf: (row: ScoredRow) => string): AccuracyBucket[] {
+  const groups: Map<string, ScoredRow[]> = new Map();
+  for (const row of rows) {
+    const key = keyOf(row);
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+  return Array.from(groups.entries())
+    .map(([key, group]) => bucket(key, group))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Accuracy of valuations against sale prices, overall and by dimension
+ */
+export async function getValuationAccuracyReport(filters: AccuracyFilters = {}): Promise<ValuationAccuracyReport> {
+  const conditions = ['v.sold_price IS NOT NULL'];
+  const params: Record<string, any> = {};
+  if (filters.from) {
+    conditions.push('v.sale_date >= @from');
+    params.from = filters.from;
+  }
+  if (filters.to) {
+    conditions.push('v.sale_date <= @to');
+    params.to = filters.to;
+  }
+  if (filters.user_email) {
+    conditions.push('p.user_email = @userEmail');
+    params.userEmail = filters.user_email;
+  }
+
+  let rows = await queryMany<ScoredRow>(
+    `SELECT v.property_id, v.sale_date, v.created_at, v.data_source, v.confidence_level, v.error_percent, v.within_range,
+            p.location, p.property_type
+     FROM property_valuations v
+     LEFT JOIN properties p ON p.id = v.property_id
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY v.property_id, v.sale_date, v.created_at DESC`,
+    params
+  );
+
+  if (filters.latest_only) {
+    // A property sold, resold and sold again has one latest valuation per sale
+    const seen = new Set<string>();
+    rows = rows.filter(r => {
+      const key = `${r.property_id}|${r.sale_date ? r.sale_date.toISOString() : ''}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  return {
+    filters: {
+      from: filters.from ? filters.from.toISOString().split('T')[0] : null,
+      to: filters.to ? filters.to.toISOString().split('T')[0] : null,
+      latest_only: !!filters.latest_only
+    },
+    overall: bucket('all', rows),
+    by_suburb: groupBy(rows, r => parseLocation(r.location || '').suburb || 'unknown'),
+    by_property_type: groupBy(rows, r => (r.property_type || 'unknown').toLowerCase()),
+    by_data_source: groupBy(rows, r => r.data_source || 'unknown'),
+    by_confidence_level: groupBy(rows, r => r.confidence_level || 'unknown')
+  };
+}
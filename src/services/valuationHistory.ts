@@ -0,0 +1,320 @@
+/**
+ * Append-only valuation history
+ * Every saved evaluation becomes a row in property_valuations together with a
+ * snapshot of its report and comparables. properties.valuation_history is kept
+ * as a denormalised copy of the timeline for existing readers.
+ *
+ * Table:
+ *   property_valuations - one row per saved evaluation; only the sale accuracy
+ *                         columns are filled in later, when the property sells
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { queryOne, queryMany, withTransaction, pooledContext, QueryContext, TransactionContext } from '../utils/database';
+import { ValuationHistoryEntry, ValuationRecord } from '../models/types';
+
+interface ValuationRow {
+  id: string;
+  property_id: string;
+  created_at: Date;
+  created_by: string | null;
+  estimated_value: number;
+  value_low: number;
+  value_high: number;
+  confidence_score: number;
+  confidence_level: string;
+  data_source: string | null;
+  comparables_count: number;
+  evaluation_type: string | null;
+  notes: string | null;
+  job_id: string | null;
+  evaluation_report: string | null;
+  comparables_data: string | null;
+  confidence_scoring: string | null;
+  structured_valuation: string | null;
+  sold_price: number | null;
+  sale_date: Date | null;
+  error_amount: number | null;
+  error_percent: number | null;
+  within_range: boolean | null;
+}
+
+export interface NewValuation {
+  entry: ValuationHistoryEntry;
+  evaluation_type?: string | null;
+  job_id?: string | null;
+  created_by?: string | null;
+  evaluation_report: string;
+  comparables_data?: any;
+  confidence_scoring?: any;
+  structured_valuation?: any;
+}
+
+function toEntry(row: ValuationRow): ValuationHistoryEntry {
+  return {
+    id: row.id,
+    date: row.created_at.toISOString(),
+    estimated_value: row.estimated_value,
+    value_low: row.value_low,
+    value_high: row.value_high,
+    confidence_score: row.confidence_score,
+    confidence_level: row.confidence_level as ValuationHistoryEntry['confidence_level'],
+    data_source: row.data_source || 'unknown',
+    comparables_count: row.comparables_count,
+    evaluation_type: row.evaluation_type,
+    notes: row.notes || undefined,
+    accuracy: row.sold_price != null ? {
+      sold_price: row.sold_price,
+      sale_date: row.sale_date ? row.sale_date.toISOString().split('T')[0] : null,
+      error_amount: row.error_amount as number,
+      error_percent: row.error_percent as number,
+      within_range: !!row.within_range
+    } : null
+  };
+}
+
+function toRecord(row: ValuationRow): ValuationRecord {
+  return {
+    ...toEntry(row),
+    id: row.id,
+    property_id: row.property_id,
+    created_by: row.created_by,
+    job_id: row.job_id,
+    evaluation_report: row.evaluation_report,
+    comparables_data: row.comparables_data ? JSON.parse(row.comparables_data) : null,
+    confidence_scoring: row.confidence_scoring ? JSON.parse(row.confidence_scoring) : null,
+    structured_valuation: row.structured_valuation ? JSON.parse(row.structured_valuation) : null
+  };
+}
+
+const CONFIDENCE_LEVELS = ['high', 'medium', 'low'];
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+}
+
+/**
+ * Check a client-supplied valuation entry before anything is written; returns the problems found
+ */
+export function validateValuationEntry(value: any): string[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return ['valuation_entry must be an object'];
+  }
+
+  const errors: string[] = [];
+  if (!isPositiveNumber(value.estimated_value) || !isPositiveNumber(value.value_low) || !isPositiveNumber(value.value_high)) {
+    errors.push('estimated_value, value_low and value_high must be positive numbers');
+  } else if (!(value.value_low <= value.estimated_value && value.estimated_value <= value.value_high)) {
+    errors.push('value_low <= estimated_value <= value_high must hold');
+  }
+  if (value.confidence_score != null && (typeof value.confidence_score !== 'number' || !isFinite(value.confidence_score))) {
+    errors.push('confidence_score must be a number');
+  }
+  if (value.confidence_level != null && !CONFIDENCE_LEVELS.includes(value.confidence_level)) {
+    errors.push(`confidence_level must be one of ${CONFIDENCE_LEVELS.join(', ')}`);
+  }
+  if (value.comparables_count != null && (typeof value.comparables_count !== 'number' || !isFinite(value.comparables_count))) {
+    errors.push('comparables_count must be a number');
+  }
+  return errors;
+}
+
+async function insertRow(propertyId: string, valuation: NewValuation, createdAt: Date, ctx: QueryContext): Promise<string> {
+  const id = uuidv4();
+  const { entry } = valuation;
+  await ctx.execute(
+    `INSERT INTO property_valuations (
+      id, property_id, created_at, created_by, estimated_value, value_low, value_high,
+      confidence_score, confidence_level, data_source, comparables_count, evaluation_type, notes,
+      job_id, evaluation_report, comparables_data, confidence_scoring, structured_valuation
+    ) VALUES (
+      @id, @property_id, @created_at, @created_by, @estimated_value, @value_low, @value_high,
+      @confidence_score, @confidence_level, @data_source, @comparables_count, @evaluation_type, @notes,
+      @job_id, @evaluation_report, @comparables_data, @confidence_scoring, @structured_valuation
+    )`,
+    {
+      id,
+      property_id: propertyId,
+      created_at: createdAt,
+      created_by: valuation.created_by || null,
+      estimated_value: entry.estimated_value,
+      value_low: entry.value_low,
+      value_high: entry.value_high,
+      confidence_score: Math.round(entry.confidence_score || 0),
+      confidence_level: entry.confidence_level || 'low',
+      data_source: entry.data_source || null,
+      comparables_count: entry.comparables_count || 0,
+      evaluation_type: valuation.evaluation_type || entry.evaluation_type || null,
+      notes: entry.notes || null,
+      job_id: valuation.job_id || null,
+      evaluation_report: valuation.evaluation_report,
+      comparables_data: valuation.comparables_data ? JSON.stringify(valuation.comparables_data) : null,
+      confidence_scoring: valuation.confidence_scoring ? JSON.stringify(valuation.confidence_scoring) : null,
+      structured_valuation: valuation.structured_valuation ? JSON.stringify(valuation.structured_valuation) : null
+    }
+  );
+  return id;
+}
+
+/**
+ * Properties saved before the history table existed carry their one entry in
+ * properties.valuation_history; copy it across, unless the property already has rows.
+ * Holds an update lock on the property row, so concurrent imports of one property run once.
+ * Returns whether anything was imported.
+ */
+async function importLegacyEntries(propertyId: string, tx: TransactionContext): Promise<boolean> {
+  const property = await tx.queryOne<{ valuation_history: string | null; evaluation_report: string | null; comparables_data: string | null; confidence_scoring: string | null }>(
+    `SELECT valuation_history, evaluation_report, comparables_data, confidence_scoring
+     FROM properties WITH (UPDLOCK, HOLDLOCK) WHERE id = @propertyId`,
+    { propertyId }
+  );
+  if (!property?.valuation_history) return false;
+
+  const existing = await tx.queryOne<{ total: number }>(
+    `SELECT COUNT(*) as total FROM property_valuations WHERE property_id = @propertyId`,
+    { propertyId }
+  );
+  if (existing && existing.total > 0) return false;
+
+  let entries: ValuationHistoryEntry[] = [];
+  try {
+    entries = JSON.parse(property.valuation_history);
+  } catch {
+    return false;
+  }
+
+  let imported = false;
+  for (const entry of Array.isArray(entries) ? entries : []) {
+    if (!entry?.estimated_value) continue;
+    imported = true;
+    await insertRow(
+      propertyId,
+      {
+        entry: { ...entry, notes: entry.notes || 'Imported from properties.valuation_history' },
+        evaluation_report: property.evaluation_report || '',
+        comparables_data: property.comparables_data ? JSON.parse(property.comparables_data) : null,
+        confidence_scoring: property.confidence_scoring ? JSON.parse(property.confidence_scoring) : null
+      },
+      entry.date ? new Date(entry.date) : new Date(),
+      tx
+    );
+  }
+  return imported;
+}
+
+async function readTimeline(propertyId: string, ctx: QueryContext): Promise<ValuationHistoryEntry[]> {
+  const rows = await ctx.queryMany<ValuationRow>(
+    `SELECT * FROM property_valuations WHERE property_id = @propertyId ORDER BY created_at ASC`,
+    { propertyId }
+  );
+  return rows.map(toEntry);
+}
+
+// Keep the denormalised copy on the property in step with the table
+async function syncPropertyTimeline(propertyId: string, ctx: QueryContext): Promise<ValuationHistoryEntry[]> {
+  const timeline = await readTimeline(propertyId, ctx);
+  await ctx.execute(
+    `UPDATE properties SET valuation_history = @valuation_history WHERE id = @propertyId`,
+    { valuation_history: JSON.stringify(timeline), propertyId }
+  );
+  return timeline;
+}
+
+// Join the caller's transaction, or run in a new one
+function inTransaction<T>(tx: TransactionContext | undefined, work: (tx: TransactionContext) => Promise<T>): Promise<T> {
+  return tx ? work(tx) : withTransaction(work);
+}
+
+/**
+ * Timeline of a property's valuations, oldest first
+ * Read-only: legacy entries appear once importLegacyValuations (or a save or sale) has copied them
+ */
+export async function listValuations(propertyId: string): Promise<ValuationHistoryEntry[]> {
+  return readTimeline(propertyId, pooledContext);
+}
+
+/**
+ * One-off copy of every property's legacy valuation_history into the history table
+ * Run with `npm run import-legacy-valuations`; safe to repeat, as imported properties are skipped.
+ * Returns the number of properties imported.
+ */
+export async function importLegacyValuations(): Promise<number> {
+  const pending = await queryMany<{ id: string }>(
+    `SELECT id FROM properties p
+     WHERE valuation_history IS NOT NULL
+       AND NOT EXISTS (SELECT 1 FROM property_valuations v WHERE v.property_id = p.id)`
+  );
+
+  let imported = 0;
+  for (const { id } of pending) {
+    const done = await withTransaction(async tx => {
+      if (!(await importLegacyEntries(id, tx))) return false;
+      await syncPropertyTimeline(id, tx);
+      return true;
+    });
+    if (done) imported++;
+  }
+  return imported;
+}
+
+/**
+ * A single valuation with its full report and comparables snapshot
+ */
+export async function getValuation(propertyId: string, entryId: string): Promise<ValuationRecord | null> {
+  const row = await queryOne<ValuationRow>(
+    `SELECT * FROM property_valuations WHERE id = @entryId AND property_id = @propertyId`,
+    { entryId, propertyId }
+  );
+  return row ? toRecord(row) : null;
+}
+
+/**
+ * Append a valuation and refresh the denormalised timeline on the property
+ * Pass a transaction to make the append part of a larger write
+ */
+export async function appendValuation(propertyId: string, valuation: NewValuation, tx?: TransactionContext): Promise<ValuationHistoryEntry[]> {
+  return inTransaction(tx, async tx => {
+    await importLegacyEntries(propertyId, tx);
+    await insertRow(propertyId, valuation, new Date(), tx);
+    return syncPropertyTimeline(propertyId, tx);
+  });
+}
+
+/**
+ * Score every valuation made on or before the sale date against the sold price,
+ * returning the entries scored.
+ * Valuations already scored against an earlier sale (before a resell) keep that result;
+ * re-marking the same sale recalculates it.
+ */
+export async function recordSaleAccuracy(
+  propertyId: string,
+  soldPrice: number,
+  saleDate: string,
+  tx?: TransactionContext
+): Promise<ValuationHistoryEntry[]> {
+  const parsed = new Date(saleDate);
+  const day = isNaN(parsed.getTime()) ? saleDate : parsed.toISOString().split('T')[0];
+
+  return inTransaction(tx, async tx => {
+    await importLegacyEntries(propertyId, tx);
+
+    // error is estimate minus actual: positive means the property was over-valued
+    const scored = await tx.execute(
+      `UPDATE property_valuations SET
+        sold_price = @soldPrice,
+        sale_date = @saleDate,
+        error_amount = estimated_value - @soldPrice,
+        error_percent = (estimated_value - @soldPrice) * 100.0 / @soldPrice,
+        within_range = CASE WHEN @soldPrice BETWEEN value_low AND value_high THEN 1 ELSE 0 END,
+        accuracy_recorded_at = SYSUTCDATETIME()
+       WHERE property_id = @propertyId
+         AND created_at < DATEADD(day, 1, CAST(@saleDate AS DATETIME2))
+         AND (sold_price IS NULL OR sale_date = @saleDate)`,
+      { propertyId, soldPrice, saleDate: day }
+    );
+    if (scored === 0) return [];
+
+    const timeline = await syncPropertyTimeline(propertyId, tx);
+    return timeline.filter(entry => entry.accuracy?.sale_date === day);
+  });
+}
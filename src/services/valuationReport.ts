@@ -0,0 +1,200 @@
+/**
+ * Structured valuation output
+ * The AI is asked for JSON matching VALUATION_JSON_SCHEMA; the result is validated
+ * here and the markdown report is rendered from it, so value ranges never have to
+ * be recovered from report headings.
+ */
+
+import { PropertyCreate, StatisticalValuation, StructuredValuation } from '../models/types';
+
+const nullableString = { type: ['string', 'null'] };
+
+// OpenAI strict JSON schema: every property required, no extras
+export const VALUATION_JSON_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['estimated_value', 'comparable_adjustments', 'adjustment_summary', 'market_insights', 'pricing_strategy', 'summary'],
+  properties: {
+    estimated_value: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['conservative', 'market', 'premium'],
+      properties: {
+        conservative: { type: 'number' },
+        market: { type: 'number' },
+        premium: { type: 'number' }
+      }
+    },
+    comparable_adjustments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['address', 'sale_price', 'sale_date', 'adjustments', 'adjusted_price'],
+        properties: {
+          address: { type: 'string' },
+          sale_price: { type: 'number' },
+          sale_date: nullableString,
+          adjustments: {
+            type: 'array',
+            items: {
+              type: 'object',
+              additionalProperties: false,
+              required: ['factor', 'amount', 'reason'],
+              properties: {
+                factor: { type: 'string' },
+                amount: { type: 'number' },
+                reason: { type: 'string' }
+              }
+            }
+          },
+          adjusted_price: { type: 'number' }
+        }
+      }
+    },
+    adjustment_summary: { type: 'string' },
+    market_insights: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['buyer_demand', 'days_on_market', 'price_trends'],
+      properties: {
+        buyer_demand: { type: 'string' },
+        days_on_market: { type: 'string' },
+        price_trends: { type: 'string' }
+      }
+    },
+    pricing_strategy: { type: 'string' },
+    summary: { type: 'string' }
+  }
+};
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+/**
+ * Check a parsed model response against the schema and basic valuation sanity rules
+ */
+export function validateStructuredValuation(value: any): { valid: true; valuation: StructuredValuation } | { valid: false; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!value || typeof value !== 'object') {
+    return { valid: false, errors: ['Response is not an object'] };
+  }
+
+  const ev = value.estimated_value;
+  if (!ev || !isPositiveNumber(ev.conservative) || !isPositiveNumber(ev.market) || !isPositiveNumber(ev.premium)) {
+    errors.push('estimated_value must have positive conservative, market and premium values');
+  } else if (!(ev.conservative <= ev.market && ev.market <= ev.premium)) {
+    errors.push('estimated_value must satisfy conservative <= market <= premium');
+  }
+
+  if (!Array.isArray(value.comparable_adjustments)) {
+    errors.push('comparable_adjustments must be an array');
+  } else {
+    value.comparable_adjustments.forEach((comp: any, i: number) => {
+      if (!comp || !isString(comp.address) || !isPositiveNumber(comp.sale_price) || !isPositiveNumber(comp.adjusted_price)) {
+        errors.push(`comparable_adjustments[${i}] needs address, sale_price and adjusted_price`);
+      } else if (!Array.isArray(comp.adjustments) || comp.adjustments.some((a: any) => !a || !isString(a.factor) || typeof a.amount !== 'number')) {
+        errors.push(`comparable_adjustments[${i}].adjustments must be a list of { factor, amount, reason }`);
+      }
+    });
+  }
+
+  const mi = value.market_insights;
+  if (!mi || !isString(mi.buyer_demand) || !isString(mi.days_on_market) || !isString(mi.price_trends)) {
+    errors.push('market_insights must have buyer_demand, days_on_market and price_trends');
+  }
+
+  for (const field of ['adjustment_summary', 'pricing_strategy', 'summary']) {
+    if (!isString(value[field])) {
+      errors.push(`${field} must be a string`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return { valid: true, valuation: value as StructuredValuation };
+}
+
+/**
+ * Structured valuation from the statistical AVM alone (no AI narrative)
+ */
+export function structuredFromStatistical(valuation: StatisticalValuation): StructuredValuation {
+  const labels: Record<string, string> = {
+    time: 'Time',
+    land: 'Land size',
+    bedrooms: 'Bedrooms',
+    bathrooms: 'Bathrooms',
+    property_type: 'Property type'
+  };
+
+  return {
+    estimated_value: { conservative: valuation.low, market: valuation.estimate, premium: valuation.high },
+    comparable_adjustments: valuation.comparables
+      .filter(c => c.included)
+      .map(c => ({
+        address: c.address,
+        sale_price: c.sold_price,
+        sale_date: c.sold_date,
+        adjustments: Object.entries(c.adjustments)
+          .filter(([, amount]) => amount !== 0)
+          .map(([factor, amount]) => ({ factor: labels[factor] || factor, amount, reason: 'Statistical model adjustment' })),
+        adjusted_price: c.adjusted_price
+      })),
+    adjustment_summary: `Similarity-weighted average of ${valuation.comparables_used} adjusted comparable sales, time-adjusted at ${valuation.annual_growth_percent}% a year.`,
+    market_insights: { buyer_demand: 'Not assessed', days_on_market: 'Not assessed', price_trends: 'Not assessed' },
+    pricing_strategy: 'Not assessed',
+    summary: valuation.notes.join(' ') || `Statistical estimate with ${valuation.confidence_level} confidence.`
+  };
+}
+
+function money(value: number): string {
+  return `$${Math.round(value).toLocaleString()}`;
+}
+
+function signedMoney(value: number): string {
+  return `${value >= 0 ? '+' : '-'}${money(Math.abs(value))}`;
+}
+
+/**
+ * Markdown report rendered from the structured valuation
+ */
+export function renderValuationMarkdown(propertyData: PropertyCreate, valuation: StructuredValuation): string {
+  const { estimated_value: ev, market_insights: mi } = valuation;
+
+  const comparables = valuation.comparable_adjustments.map(comp => {
+    const adjustments = comp.adjustments.length > 0
+      ? comp.adjustments.map(a => `  - ${a.factor}: ${signedMoney(a.amount)}${a.reason ? ` (${a.reason})` : ''}`).join('\n')
+      : '  - No adjustments';
+    return `- **${comp.address}** - sold ${money(comp.sale_price)}${comp.sale_date ? ` (${comp.sale_date})` : ''}, adjusted to **${money(comp.adjusted_price)}**\n${adjustments}`;
+  }).join('\n');
+
+  return `## Property Valuation: ${propertyData.location}
+
+${valuation.summary}
+
+### Estimated Value Range
+- Conservative: ${money(ev.conservative)}
+- Market Value: ${money(ev.market)}
+- Premium/Well-Presented: ${money(ev.premium)}
+
+### Adjustment Analysis
+${valuation.adjustment_summary}
+
+### Comparable Sales Analysis
+${comparables || 'No comparable sales were available.'}
+
+### Market Insights
+- Buyer demand: ${mi.buyer_demand}
+- Days on market: ${mi.days_on_market}
+- Price trends: ${mi.price_trends}
+
+### Pricing Strategy Recommendation
+${valuation.pricing_strategy}`;
+}
@@ -0,0 +1,173 @@
+/**
+ * Weights backtesting
+ * Replays sold properties against the historic_prop sales that were available
+ * before each sale, estimates a price from the top-scored comparables and
+ * measures how far the estimate was from the actual sold price.
+ */
+
+import { queryMany } from '../utils/database';
+import { parseLocation, normaliseAddress } from '../utils/location';
+import { findSuburbSalesBefore } from '../repositories/historicPropRepository';
+import {
+  HistoricProp,
+  Property,
+  ScoringSubject,
+  BacktestMetrics,
+  BacktestPropertyResult
+} from '../models/types';
+import { scoreComparables, ScoringWeights } from './comparableScoring';
+
+export interface BacktestCase {
+  property_id: string;
+  location: string;
+  sale_date: Date;
+  sold_price: number;
+  subject: ScoringSubject;
+  comparables: HistoricProp[];
+}
+
+export interface BacktestOptions {
+  lookbackMonths?: number; // Only use sales this many months before the sale (default: 36)
+  limit?: number;          // Max sold properties to replay (default: all)
+}
+
+export const DEFAULT_BACKTEST_TOP_N = 5;
+
+/**
+ * Load every sold property with the historic sales that preceded it
+ * The dataset is loaded once and can be replayed against any number of weight sets
+ */
+export async function loadBacktestDataset(options: BacktestOptions = {}): Promise<BacktestCase[]> {
+  const lookbackMonths = options.lookbackMonths || 36;
+
+  const top = options.limit && options.limit > 0 ? `TOP ${Math.floor(options.limit)}` : '';
+  const sold = await queryMany<Property>(
+    `SELECT ${top} id, location, beds, baths, property_type, size, latitude, longitude, sold_price, sale_date
+     FROM properties
+     WHERE status = 'sold' AND sold_price > 0 AND sale_date IS NOT NULL
+     ORDER BY sale_date DESC`
+  );
+
+  const dataset: BacktestCase[] = [];
+
+  for (const property of sold) {
+    const saleDate = new Date(property.sale_date as string);
+    if (isNaN(saleDate.getTime())) continue;
+
+    const { street, suburb } = parseLocation(property.location);
+    if (!suburb) continue;
+
+    const fromDate = new Date(saleDate);
+    fromDate.setMonth(fromDate.getMonth() - lookbackMonths);
+
+    const candidates = await findSuburbSalesBefore(suburb.toLowerCase(), fromDate, saleDate);
+
+    // Never let the property's own sale (or an earlier sale of it) act as its comparable
+    const ownAddress = street ? normaliseAddress(street) : null;
+    const comparables = ownAddress
+      ? candidates.filter(c => normaliseAddress(c.address) !== ownAddress)
+      : candidates;
+
+    dataset.push({
+      property_id: property.id,
+      location: property.location,
+      sale_date: saleDate,
+      sold_price: property.sold_price as number,
+      subject: {
+        beds: property.beds,
+        baths: property.baths,
+        property_type: property.property_type,
+        latitude: property.latitude,
+        longitude: property.longitude,
+        land_area: property.size,
+        reference_date: saleDate
+      },
+      comparables
+    });
+  }
+
+  console.log(`[Backtest] Loaded ${dataset.length} sold properties for replay`);
+  return dataset;
+}
+
+/**
+ * Similarity-weighted mean price of the top N scored comparables
+ */
+export function estimateFromComparables(
+  subject: ScoringSubject,
+  comparables: HistoricProp[],
+  weights: ScoringWeights,
+  topN: number = DEFAULT_BACKTEST_TOP_N
+): { estimate: number; used: number } | null {
+  const top = scoreComparables(subject, comparables, weights)
+    .filter(s => s.similarity_score > 0 && s.comparable.price)
+    .slice(0, topN);
+
+  if (top.length === 0) return null;
+
+  const totalWeight = top.reduce((sum, s) => sum + s.similarity_score, 0);
+  const estimate = top.reduce((sum, s) => sum + (s.comparable.price as number) * s.similarity_score, 0) / totalWeight;
+
+  return { estimate: Math.round(estimate), used: top.length };
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function round(value: number, places: number = 2): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Replay a dataset against one set of weights
+ */
+export function runBacktest(
+  dataset: BacktestCase[],
+  weights: ScoringWeights,
+  topN: number = DEFAULT_BACKTEST_TOP_N
+): { metrics: BacktestMetrics; properties: BacktestPropertyResult[] } {
+  const properties: BacktestPropertyResult[] = [];
+  let skipped = 0;
+
+  for (const testCase of dataset) {
+    const result = estimateFromComparables(testCase.subject, testCase.comparables, weights, topN);
+    if (!result) {
+      skipped++;
+      continue;
+    }
+
+    const error = result.estimate - testCase.sold_price;
+    properties.push({
+      property_id: testCase.property_id,
+      location: testCase.location,
+      sale_date: testCase.sale_date.toISOString().split('T')[0],
+      sold_price: testCase.sold_price,
+      estimate: result.estimate,
+      error,
+      error_percent: round((error / testCase.sold_price) * 100),
+      comparables_used: result.used
+    });
+  }
+
+  const absErrors = properties.map(p => Math.abs(p.error));
+  const absPercents = properties.map(p => Math.abs(p.error_percent));
+  const count = properties.length;
+
+  const metrics: BacktestMetrics = {
+    properties_tested: count,
+    properties_skipped: skipped,
+    mae: count > 0 ? Math.round(absErrors.reduce((a, b) => a + b, 0) / count) : null,
+    mape: count > 0 ? round(absPercents.reduce((a, b) => a + b, 0) / count) : null,
+    median_error: count > 0 ? Math.round(median(absErrors) as number) : null,
+    median_error_percent: count > 0 ? round(median(absPercents) as number) : null,
+    within_5_percent: count > 0 ? round((absPercents.filter(p => p <= 5).length / count) * 100) : null,
+    within_10_percent: count > 0 ? round((absPercents.filter(p => p <= 10).length / count) * 100) : null
+  };
+
+  return { metrics, properties };
+}
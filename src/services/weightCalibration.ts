@@ -0,0 +1,282 @@
+/**
+ * Automatic weights calibration
+ * Coordinate search over the numeric HistoricSalesWeights fields that minimises
+ * backtest error (MAPE) on sold properties. The best weights found are saved as
+ * a new, non-active profile with their metrics attached.
+ */
+
+import { HistoricSalesWeights, BacktestMetrics } from '../models/types';
+import { ScoringWeights } from './comparableScoring';
+import { BacktestCase, loadBacktestDataset, runBacktest, DEFAULT_BACKTEST_TOP_N } from './weightBacktest';
+import { getActiveProfile, getProfile, createProfile } from './weightProfiles';
+import {
+  EvaluationJob,
+  enqueueJob,
+  getJob,
+  getJobResult,
+  updateJobStage,
+  updateJobProgress,
+  registerJobProcessor,
+  drainQueue
+} from './evaluationJobs';
+
+type WeightField = keyof ScoringWeights;
+
+// Search bounds for each tunable field [min, max, step]
+export const CALIBRATION_BOUNDS: Partial<Record<WeightField, [number, number, number]>> = {
+  bedroom_exact_match_bonus: [0, 30, 5],
+  bedroom_diff_penalty_per_bed: [0, 60, 5],
+  bathroom_exact_match_bonus: [0, 30, 5],
+  bathroom_diff_penalty_per_bath: [0, 50, 5],
+  density_house_to_unit_penalty: [0, 80, 10],
+  density_house_to_subdivision_penalty: [0, 50, 5],
+  distance_ultra_close_bonus: [0, 60, 5],
+  distance_ultra_close_threshold_km: [0.1, 0.3, 0.05],
+  distance_very_close_bonus: [0, 50, 5],
+  distance_very_close_threshold_km: [0.25, 0.5, 0.05],
+  distance_close_bonus: [0, 30, 5],
+  distance_close_threshold_km: [0.4, 0.8, 0.1],
+  distance_moderate_penalty: [0, 25, 2],
+  distance_moderate_threshold_km: [0.8, 1.5, 0.1],
+  distance_far_penalty: [0, 40, 5],
+  distance_far_threshold_km: [1.5, 3, 0.5],
+  distance_very_far_penalty: [0, 50, 5],
+  distance_very_far_threshold_km: [3, 10, 1],
+  recency_very_recent_bonus: [0, 25, 5],
+  recency_very_recent_threshold_months: [1, 4, 1],
+  recency_recent_bonus: [0, 20, 5],
+  recency_recent_threshold_months: [4, 9, 1],
+  recency_getting_old_penalty: [0, 20, 5],
+  recency_getting_old_threshold_months: [9, 15, 1],
+  recency_old_penalty: [0, 30, 5],
+  recency_old_threshold_months: [15, 21, 1],
+  recency_very_old_penalty: [0, 40, 5],
+  recency_very_old_threshold_months: [21, 36, 3],
+  land_area_weight: [0, 1, 0.1],
+  land_area_tolerance_percent: [5, 50, 5]
+};
+
+// Threshold fields must stay in ascending order for the scoring bands to make sense
+const ORDERED_THRESHOLDS: WeightField[][] = [
+  [
+    'distance_ultra_close_threshold_km',
+    'distance_very_close_threshold_km',
+    'distance_close_threshold_km',
+    'distance_moderate_threshold_km',
+    'distance_far_threshold_km',
+    'distance_very_far_threshold_km'
+  ],
+  [
+    'recency_very_recent_threshold_months',
+    'recency_recent_threshold_months',
+    'recency_getting_old_threshold_months',
+    'recency_old_threshold_months',
+    'recency_very_old_threshold_months'
+  ]
+];
+
+export interface CalibrationOptions {
+  base_weights_id?: string;   // Profile to start from (default: active)
+  passes?: number;            // Full sweeps over every field (default: 2)
+  top_n?: number;
+  lookback_months?: number;
+  limit?: number;
+  name?: string;
+}
+
+export interface CalibrationJob {
+  job_id: string;
+  status: 'queued' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
+  stage: string;
+  progress: number; // 0-100
+  created_at: string;
+  completed_at?: string;
+  failed_at?: string;
+  started_by: string | null;
+  options: CalibrationOptions;
+  baseline?: BacktestMetrics;
+  best?: BacktestMetrics;
+  result?: { weights_id: string; weights_name: string; changes: { field: string; from: number; to: number }[] };
+  error?: string;
+}
+
+// What a finished calibration stores as its job result
+interface CalibrationOutcome {
+  baseline: BacktestMetrics;
+  best: BacktestMetrics;
+  result: NonNullable<CalibrationJob['result']>;
+}
+
+function isOrdered(weights: ScoringWeights): boolean {
+  for (const group of ORDERED_THRESHOLDS) {
+    for (let i = 1; i < group.length; i++) {
+      if ((weights[group[i]] as number) <= (weights[group[i - 1]] as number)) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+function candidateValues([min, max, step]: [number, number, number]): number[] {
+  const values: number[] = [];
+  for (let v = min; v <= max + step / 1000; v += step) {
+    values.push(Math.round(v * 1000) / 1000);
+  }
+  return values;
+}
+
+/**
+ * Lower is better. Candidates that can no longer value as many properties
+ * as the baseline are rejected so the search cannot win by skipping hard cases.
+ */
+function objective(metrics: BacktestMetrics, minTested: number): number {
+  if (metrics.mape === null || metrics.properties_tested < minTested) {
+    return Infinity;
+  }
+  return metrics.mape;
+}
+
+/**
+ * Coordinate search: sweep each field across its bounds, keep the best value, repeat
+ */
+export async function calibrate(
+  dataset: BacktestCase[],
+  start: ScoringWeights,
+  options: { passes: number; topN: number },
+  onProgress?: (progress: number) => void | Promise<void>
+): Promise<{ weights: ScoringWeights; baseline: BacktestMetrics; best: BacktestMetrics }> {
+  const fields = Object.keys(CALIBRATION_BOUNDS) as WeightField[];
+  const baseline = runBacktest(dataset, start, options.topN).metrics;
+  const minTested = baseline.properties_tested;
+
+  let best = { ...start };
+  let bestMetrics = baseline;
+  let bestScore = objective(baseline, minTested);
+
+  const totalSteps = options.passes * fields.length;
+  let step = 0;
+
+  for (let pass = 0; pass < options.passes; pass++) {
+    let improved = false;
+
+    for (const field of fields) {
+      for (const value of candidateValues(CALIBRATION_BOUNDS[field]!)) {
+        if (value === best[field]) continue;
+
+        const candidate = { ...best, [field]: value } as ScoringWeights;
+        if (!isOrdered(candidate)) continue;
+
+        const metrics = runBacktest(dataset, candidate, options.topN).metrics;
+        const score = objective(metrics, minTested);
+        if (score < bestScore) {
+          best = candidate;
+          bestMetrics = metrics;
+          bestScore = score;
+          improved = true;
+        }
+      }
+
+      step++;
+      await onProgress?.(Math.round((step / totalSteps) * 100));
+      // Yield so a long calibration doesn't starve request handling
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    if (!improved) break;
+  }
+
+  await onProgress?.(100);
+  return { weights: best, baseline, best: bestMetrics };
+}
+
+/**
+ * Queue processor for calibration jobs; the worker stores the outcome as the job result
+ */
+async function runCalibrationJob(job: EvaluationJob): Promise<CalibrationOutcome> {
+  const options: CalibrationOptions = job.payload || {};
+  await updateJobStage(job.job_id, 'loading_data');
+
+  const start: HistoricSalesWeights = options.base_weights_id
+    ? await getProfile(options.base_weights_id)
+    : await getActiveProfile();
+
+  const dataset = await loadBacktestDataset({
+    lookbackMonths: options.lookback_months,
+    limit: options.limit
+  });
+  if (dataset.length === 0) {
+    throw new Error('No sold properties with a sold price and sale date to calibrate against');
+  }
+
+  await updateJobStage(job.job_id, 'searching');
+  const { weights, baseline, best } = await calibrate(
+    dataset,
+    start,
+    { passes: options.passes || 2, topN: options.top_n || DEFAULT_BACKTEST_TOP_N },
+    progress => updateJobProgress(job.job_id, progress)
+  );
+
+  await updateJobStage(job.job_id, 'saving');
+  const changes = (Object.keys(CALIBRATION_BOUNDS) as WeightField[])
+    .filter(field => weights[field] !== start[field])
+    .map(field => ({ field, from: start[field] as number, to: weights[field] as number }));
+
+  const now = new Date();
+  const saved = await createProfile(
+    {
+      ...weights,
+      name: options.name || `calibrated_${now.toISOString().split('T')[0]}`,
+      description: `Calibrated from ${start.name} v${start.version}: MAPE ${baseline.mape ?? 'n/a'}% -> ${best.mape ?? 'n/a'}% over ${best.properties_tested} sold properties`
+    },
+    job.user_email || null,
+    {
+      activate: false,
+      changeType: 'calibrated',
+      note: `Calibrated from ${start.name} v${start.version}`,
+      metrics: { baseline, calibrated: best, sold_properties: dataset.length }
+    }
+  );
+
+  console.log(`[Calibration ${job.job_id}] MAPE ${baseline.mape}% -> ${best.mape}%, saved as ${saved.name}`);
+  return { baseline, best, result: { weights_id: saved.id, weights_name: saved.name, changes } };
+}
+
+registerJobProcessor(runCalibrationJob, 'calibration');
+
+/**
+ * Queue a calibration and return its job; any instance's worker may run it
+ */
+export async function startCalibrationJob(options: CalibrationOptions, startedBy: string | null): Promise<CalibrationJob> {
+  const job = await enqueueJob('calibration', options, startedBy);
+  drainQueue();
+  return toCalibrationJob(job, null);
+}
+
+/**
+ * A retained calibration job with its outcome once completed, or null when unknown or expired
+ */
+export async function getCalibrationJob(jobId: string): Promise<CalibrationJob | null> {
+  const job = await getJob(jobId, 'calibration');
+  if (!job) return null;
+  const outcome: CalibrationOutcome | null = job.status === 'completed' ? await getJobResult(jobId) : null;
+  return toCalibrationJob(job, outcome);
+}
+
+function toCalibrationJob(job: EvaluationJob, outcome: CalibrationOutcome | null): CalibrationJob {
+  return {
+    job_id: job.job_id,
+    status: job.status,
+    stage: job.stage,
+    progress: job.status === 'completed' ? 100 : job.progress || 0,
+    created_at: job.created_at,
+    completed_at: job.completed_at,
+    failed_at: job.failed_at,
+    started_by: job.user_email || null,
+    options: job.payload || {},
+    baseline: outcome?.baseline,
+    best: outcome?.best,
+    result: outcome?.result,
+    error: job.error
+  };
+}
@@ -0,0 +1,541 @@
+/**
+ * Historic sales weight profiles
+ * Named HistoricSalesWeights profiles with an append-only version history.
+ * Changes to a profile run in a transaction holding an update lock on its row,
+ * so concurrent saves get consecutive versions instead of colliding.
+ *
+ * Tables:
+ *   historic_sales_weight_profiles - one row per named profile (exactly one is_active);
+ *                                    deleted profiles are kept with deleted_at set
+ *   historic_sales_weight_versions - every saved set of weights for a profile
+ *   historic_sales_weight_events   - activations, renames and deletions
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { queryOne, queryMany, withTransaction, pooledContext, QueryContext, TransactionContext } from '../utils/database';
+import {
+  HistoricSalesWeights,
+  WeightProfileVersion,
+  WeightProfileEvent,
+  WeightFieldDiff,
+  DEFAULT_HISTORIC_SALES_WEIGHTS
+} from '../models/types';
+
+// Legacy single-blob storage, imported as the first profile when present
+const LEGACY_WEIGHTS_SETTING_ID = 'historic_sales_weights';
+
+// Keys of the numeric fields that make up a set of weights (penalties, bonuses, thresholds)
+export type WeightField = {
+  [K in keyof HistoricSalesWeights]-?: HistoricSalesWeights[K] extends number ? K : never;
+}[keyof HistoricSalesWeights];
+
+export const WEIGHT_FIELDS = (Object.keys(DEFAULT_HISTORIC_SALES_WEIGHTS) as (keyof typeof DEFAULT_HISTORIC_SALES_WEIGHTS)[]).filter(
+  (key): key is WeightField => typeof DEFAULT_HISTORIC_SALES_WEIGHTS[key] === 'number'
+);
+
+interface ProfileRow {
+  id: string;
+  name: string;
+  description: string | null;
+  is_active: boolean;
+  current_version: number;
+  created_at: Date;
+  updated_at: Date;
+  created_by: string | null;
+  activated_at: Date | null;
+  activated_by: string | null;
+  deleted_at: Date | null;
+}
+
+interface VersionRow {
+  id: string;
+  profile_id: string;
+  version: number;
+  weights_data: string;
+  change_type: WeightProfileVersion['change_type'];
+  change_note: string | null;
+  changed_by: string | null;
+  created_at: Date;
+  metrics: string | null;
+}
+
+interface EventRow {
+  id: string;
+  profile_id: string;
+  event_type: WeightProfileEvent['event_type'];
+  version: number | null;
+  details: string | null;
+  changed_by: string | null;
+  created_at: Date;
+}
+
+export class WeightProfileError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+/**
+ * Keep only known numeric weight fields from arbitrary input
+ */
+export function pickWeightFields(input: Record<string, any>): Partial<HistoricSalesWeights> {
+  const picked: Record<string, number> = {};
+  for (const field of WEIGHT_FIELDS) {
+    const value = input[field];
+    if (typeof value === 'number' && isFinite(value)) {
+      picked[field] = value;
+    }
+  }
+  return picked as Partial<HistoricSalesWeights>;
+}
+
+/**
+ * Known weight fields whose value in the input is present but not a finite number
+ */
+export function invalidWeightFields(input: Record<string, any>): string[] {
+  return WEIGHT_FIELDS.filter(field => {
+    const value = input[field];
+    return value !== undefined && !(typeof value === 'number' && isFinite(value));
+  });
+}
+
+function toWeights(profile: ProfileRow, version: VersionRow): HistoricSalesWeights {
+  const data = JSON.parse(version.weights_data);
+  return {
+    ...DEFAULT_HISTORIC_SALES_WEIGHTS,
+    ...pickWeightFields(data),
+    id: profile.id,
+    name: profile.name,
+    description: profile.description || undefined,
+    is_active: !!profile.is_active,
+    version: profile.current_version,
+    created_at: profile.created_at,
+    updated_at: profile.updated_at,
+    created_by: profile.created_by || undefined
+  };
+}
+
+function toVersion(row: VersionRow): WeightProfileVersion {
+  return {
+    id: row.id,
+    profile_id: row.profile_id,
+    version: row.version,
+    weights: pickWeightFields(JSON.parse(row.weights_data)),
+    change_type: row.change_type,
+    change_note: row.change_note,
+    changed_by: row.changed_by,
+    created_at: row.created_at,
+    metrics: row.metrics ? JSON.parse(row.metrics) : null
+  };
+}
+
+function toEvent(row: EventRow): WeightProfileEvent {
+  return {
+    id: row.id,
+    profile_id: row.profile_id,
+    event_type: row.event_type,
+    version: row.version,
+    details: row.details ? JSON.parse(row.details) : null,
+    changed_by: row.changed_by,
+    created_at: row.created_at
+  };
+}
+
+/**
+ * A profile's row; deleted profiles are only found for reading their history
+ */
+async function getProfileRow(
+  id: string,
+  ctx: QueryContext = pooledContext,
+  options: { includeDeleted?: boolean } = {}
+): Promise<ProfileRow> {
+  const profile = await ctx.queryOne<ProfileRow>(
+    `SELECT * FROM historic_sales_weight_profiles WHERE id = @id`,
+    { id }
+  );
+  if (!profile || (profile.deleted_at && !options.includeDeleted)) {
+    throw new WeightProfileError('Weights configuration not found', 404);
+  }
+  return profile;
+}
+
+// Lock a profile's row for the rest of the transaction, so its changes are applied one at a time
+async function lockProfileRow(id: string, tx: TransactionContext): Promise<ProfileRow> {
+  const profile = await tx.queryOne<ProfileRow>(
+    `SELECT * FROM historic_sales_weight_profiles WITH (UPDLOCK, HOLDLOCK) WHERE id = @id AND deleted_at IS NULL`,
+    { id }
+  );
+  if (!profile) {
+    throw new WeightProfileError('Weights configuration not found', 404);
+  }
+  return profile;
+}
+
+async function getVersionRow(profileId: string, version: number, ctx: QueryContext = pooledContext): Promise<VersionRow> {
+  const row = await ctx.queryOne<VersionRow>(
+    `SELECT * FROM historic_sales_weight_versions WHERE profile_id = @profileId AND version = @version`,
+    { profileId, version }
+  );
+  if (!row) {
+    throw new WeightProfileError(`Version ${version} not found`, 404);
+  }
+  return row;
+}
+
+// SQL Server's unique constraint and unique index violations
+function isUniqueViolation(error: any): boolean {
+  return error?.number === 2627 || error?.number === 2601;
+}
+
+async function insertVersion(
+  profileId: string,
+  version: number,
+  weights: Partial<HistoricSalesWeights>,
+  changeType: WeightProfileVersion['change_type'],
+  changedBy: string | null,
+  changeNote: string | null,
+  metrics: Record<string, any> | null | undefined,
+  ctx: QueryContext
+): Promise<void> {
+  try {
+    await ctx.execute(
+      `INSERT INTO historic_sales_weight_versions
+        (id, profile_id, version, weights_data, change_type, change_note, changed_by, created_at, metrics)
+       VALUES (@id, @profileId, @version, @weights_data, @change_type, @change_note, @changed_by, @created_at, @metrics)`,
+      {
+        id: uuidv4(),
+        profileId,
+        version,
+        weights_data: JSON.stringify(pickWeightFields(weights)),
+        change_type: changeType,
+        change_note: changeNote,
+        changed_by: changedBy,
+        created_at: new Date(),
+        metrics: metrics ? JSON.stringify(metrics) : null
+      }
+    );
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new WeightProfileError('The weights were changed by someone else; reload and try again', 409);
+    }
+    throw error;
+  }
+}
+
+async function recordEvent(
+  profileId: string,
+  eventType: WeightProfileEvent['event_type'],
+  version: number | null,
+  details: Record<string, any> | null,
+  changedBy: string | null,
+  ctx: QueryContext
+): Promise<void> {
+  await ctx.execute(
+    `INSERT INTO historic_sales_weight_events (id, profile_id, event_type, version, details, changed_by, created_at)
+     VALUES (@id, @profileId, @eventType, @version, @details, @changedBy, @now)`,
+    {
+      id: uuidv4(),
+      profileId,
+      eventType,
+      version,
+      details: details ? JSON.stringify(details) : null,
+      changedBy,
+      now: new Date()
+    }
+  );
+}
+
+/**
+ * Import the legacy settings blob (or defaults) as the first, active profile
+ */
+async function seedInitialProfile(): Promise<void> {
+  const legacy = await queryOne<{ setting_data: string }>(
+    `SELECT setting_data FROM settings WHERE setting_id = @id`,
+    { id: LEGACY_WEIGHTS_SETTING_ID }
+  );
+
+  let seed: Partial<HistoricSalesWeights> = { ...DEFAULT_HISTORIC_SALES_WEIGHTS };
+  let note = 'Created from default weights';
+  if (legacy?.setting_data) {
+    try {
+      seed = { ...seed, ...JSON.parse(legacy.setting_data) };
+      note = 'Imported from legacy settings';
+    } catch {
+      // Fall back to defaults
+    }
+  }
+
+  await createProfile(seed, seed.created_by || 'system', { activate: true, note });
+  console.log(`[Weight Profiles] Seeded initial profile (${note.toLowerCase()})`);
+}
+
+/**
+ * List all profiles with their current weights
+ */
+export async function listProfiles(): Promise<HistoricSalesWeights[]> {
+  const profiles = await queryMany<ProfileRow>(
+    `SELECT * FROM historic_sales_weight_profiles WHERE deleted_at IS NULL ORDER BY is_active DESC, updated_at DESC`
+  );
+
+  const result: HistoricSalesWeights[] = [];
+  for (const profile of profiles) {
+    const version = await getVersionRow(profile.id, profile.current_version);
+    result.push(toWeights(profile, version));
+  }
+  return result;
+}
+
+/**
+ * Get a profile's current weights
+ */
+export async function getProfile(id: string, ctx: QueryContext = pooledContext): Promise<HistoricSalesWeights> {
+  const profile = await getProfileRow(id, ctx);
+  const version = await getVersionRow(id, profile.current_version, ctx);
+  return toWeights(profile, version);
+}
+
+/**
+ * Get the active profile, seeding one on first use
+ */
+export async function getActiveProfile(): Promise<HistoricSalesWeights> {
+  let profile = await queryOne<ProfileRow>(
+    `SELECT TOP 1 * FROM historic_sales_weight_profiles WHERE is_active = 1 ORDER BY updated_at DESC`
+  );
+
+  if (!profile) {
+    const anyProfile = await queryOne<{ id: string }>(
+      `SELECT TOP 1 id FROM historic_sales_weight_profiles WHERE deleted_at IS NULL`
+    );
+    if (!anyProfile) {
+      await seedInitialProfile();
+    } else {
+      await activateProfile(anyProfile.id, 'system');
+    }
+    profile = await queryOne<ProfileRow>(
+      `SELECT TOP 1 * FROM historic_sales_weight_profiles WHERE is_active = 1 ORDER BY updated_at DESC`
+    );
+  }
+
+  const version = await getVersionRow(profile!.id, profile!.current_version);
+  return toWeights(profile!, version);
+}
+
+/**
+ * Create a new profile at version 1
+ */
+export async function createProfile(
+  input: Partial<HistoricSalesWeights>,
+  changedBy: string | null,
+  options: { activate?: boolean; note?: string | null; changeType?: WeightProfileVersion['change_type']; metrics?: Record<string, any> | null } = {}
+): Promise<HistoricSalesWeights> {
+  const id = uuidv4();
+  const now = new Date();
+  const weights = { ...DEFAULT_HISTORIC_SALES_WEIGHTS, ...pickWeightFields(input) };
+
+  return withTransaction(async tx => {
+    await tx.execute(
+      `INSERT INTO historic_sales_weight_profiles
+        (id, name, description, is_active, current_version, created_at, updated_at, created_by)
+       VALUES (@id, @name, @description, 0, 1, @now, @now, @created_by)`,
+      {
+        id,
+        name: input.name || `custom_${now.toISOString().split('T')[0]}`,
+        description: input.description || null,
+        now,
+        created_by: changedBy
+      }
+    );
+
+    await insertVersion(id, 1, weights, options.changeType || 'created', changedBy, options.note || null, options.metrics, tx);
+
+    if (options.activate) {
+      await setActive(id, changedBy, tx);
+    }
+
+    return getProfile(id, tx);
+  });
+}
+
+/**
+ * Save new weights for a profile as the next version; a new name or
+ * description is recorded as a rename event
+ */
+export async function updateProfile(
+  id: string,
+  input: Partial<HistoricSalesWeights>,
+  changedBy: string | null,
+  note: string | null = null
+): Promise<HistoricSalesWeights> {
+  return withTransaction(async tx => {
+    const profile = await lockProfileRow(id, tx);
+    const current = await getProfile(id, tx);
+    const nextVersion = profile.current_version + 1;
+    const name = input.name || profile.name;
+    const description = input.description !== undefined ? input.description : profile.description;
+
+    await insertVersion(id, nextVersion, { ...current, ...pickWeightFields(input) }, 'updated', changedBy, note, null, tx);
+
+    await tx.execute(
+      `UPDATE historic_sales_weight_profiles SET
+        name = @name, description = @description, current_version = @version, updated_at = @updated_at
+       WHERE id = @id`,
+      { id, name, description: description || null, version: nextVersion, updated_at: new Date() }
+    );
+
+    if (name !== profile.name || (description || null) !== profile.description) {
+      const details: Record<string, any> = {};
+      if (name !== profile.name) details.name = { from: profile.name, to: name };
+      if ((description || null) !== profile.description) {
+        details.description = { from: profile.description, to: description || null };
+      }
+      await recordEvent(id, 'renamed', nextVersion, details, changedBy, tx);
+    }
+
+    return getProfile(id, tx);
+  });
+}
+
+// Switch the active flag to a profile, recording the hand-over on both profiles
+async function setActive(id: string, changedBy: string | null, tx: TransactionContext): Promise<void> {
+  const profile = await lockProfileRow(id, tx);
+  if (profile.is_active) {
+    return;
+  }
+
+  const previous = await tx.queryMany<ProfileRow>(
+    `SELECT * FROM historic_sales_weight_profiles WITH (UPDLOCK, HOLDLOCK) WHERE is_active = 1`
+  );
+
+  await tx.execute(
+    `UPDATE historic_sales_weight_profiles SET
+      is_active = CASE WHEN id = @id THEN 1 ELSE 0 END,
+      activated_at = CASE WHEN id = @id THEN @now ELSE activated_at END,
+      activated_by = CASE WHEN id = @id THEN @changed_by ELSE activated_by END`,
+    { id, now: new Date(), changed_by: changedBy }
+  );
+
+  for (const row of previous) {
+    await recordEvent(row.id, 'deactivated', row.current_version, { replaced_by: id }, changedBy, tx);
+  }
+  await recordEvent(
+    id,
+    'activated',
+    profile.current_version,
+    previous.length ? { replaced: previous.map(row => row.id) } : null,
+    changedBy,
+    tx
+  );
+}
+
+/**
+ * Make a profile the only active one
+ */
+export async function activateProfile(id: string, changedBy: string | null): Promise<HistoricSalesWeights> {
+  const weights = await withTransaction(async tx => {
+    await setActive(id, changedBy, tx);
+    return getProfile(id, tx);
+  });
+
+  console.log(`[Weight Profiles] Activated profile ${id}${changedBy ? ` by ${changedBy}` : ''}`);
+  return weights;
+}
+
+/**
+ * Delete a non-active profile. Its row, versions and events are kept, so its
+ * history can still be read; it just no longer appears in the profile list.
+ */
+export async function deleteProfile(id: string, changedBy: string | null): Promise<void> {
+  await withTransaction(async tx => {
+    const profile = await lockProfileRow(id, tx);
+    if (profile.is_active) {
+      throw new WeightProfileError('Cannot delete the active weights configuration. Activate another first.', 400);
+    }
+
+    await tx.execute(
+      `UPDATE historic_sales_weight_profiles SET deleted_at = @now, deleted_by = @changed_by WHERE id = @id`,
+      { id, now: new Date(), changed_by: changedBy }
+    );
+    await recordEvent(id, 'deleted', profile.current_version, { name: profile.name }, changedBy, tx);
+  });
+}
+
+/**
+ * Full version history for a profile, newest first
+ */
+export async function getVersions(id: string): Promise<WeightProfileVersion[]> {
+  await getProfileRow(id, pooledContext, { includeDeleted: true });
+
+  const rows = await queryMany<VersionRow>(
+    `SELECT * FROM historic_sales_weight_versions WHERE profile_id = @id ORDER BY version DESC`,
+    { id }
+  );
+  return rows.map(toVersion);
+}
+
+export async function getVersion(id: string, version: number): Promise<WeightProfileVersion> {
+  return toVersion(await getVersionRow(id, version));
+}
+
+/**
+ * Activations, renames and deletion of a profile, newest first
+ */
+export async function getEvents(id: string): Promise<WeightProfileEvent[]> {
+  await getProfileRow(id, pooledContext, { includeDeleted: true });
+
+  const rows = await queryMany<EventRow>(
+    `SELECT * FROM historic_sales_weight_events WHERE profile_id = @id ORDER BY created_at DESC`,
+    { id }
+  );
+  return rows.map(toEvent);
+}
+
+/**
+ * Restore an earlier version's weights as a new version (history is never rewritten)
+ */
+export async function rollbackProfile(
+  id: string,
+  version: number,
+  changedBy: string | null
+): Promise<HistoricSalesWeights> {
+  return withTransaction(async tx => {
+    const profile = await lockProfileRow(id, tx);
+    const target = await getVersionRow(id, version, tx);
+    const nextVersion = profile.current_version + 1;
+
+    await insertVersion(
+      id,
+      nextVersion,
+      JSON.parse(target.weights_data),
+      'rollback',
+      changedBy,
+      `Rolled back to version ${version}`,
+      null,
+      tx
+    );
+
+    await tx.execute(
+      `UPDATE historic_sales_weight_profiles SET current_version = @version, updated_at = @updated_at WHERE id = @id`,
+      { id, version: nextVersion, updated_at: new Date() }
+    );
+
+    return getProfile(id, tx);
+  });
+}
+
+/**
+ * Field-by-field differences between two versions of a profile
+ */
+export async function diffVersions(id: string, fromVersion: number, toVersion: number): Promise<WeightFieldDiff[]> {
+  const from = pickWeightFields(JSON.parse((await getVersionRow(id, fromVersion)).weights_data));
+  const to = pickWeightFields(JSON.parse((await getVersionRow(id, toVersion)).weights_data));
+
+  const diffs: WeightFieldDiff[] = [];
+  for (const field of WEIGHT_FIELDS) {
+    const before = from[field] ?? null;
+    const after = to[field] ?? null;
+    if (before !== after) {
+      diffs.push({ field, from: before, to: after });
+    }
+  }
+  return diffs;
+}
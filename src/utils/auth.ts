@@ -1,9 +1,11 @@
+import crypto from 'crypto';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
-import { TokenPayload } from '../models/types';
+import { TokenPayload, AccountTokenPurpose } from '../models/types';
 
 const SECRET_KEY = process.env.SECRET_KEY || 'your-secret-key-here';
 const ACCESS_TOKEN_EXPIRE_MINUTES = parseInt(process.env.ACCESS_TOKEN_EXPIRE_MINUTES || '30', 10);
+export const REFRESH_TOKEN_EXPIRE_DAYS = parseInt(process.env.REFRESH_TOKEN_EXPIRE_DAYS || '30', 10);
 
 export function hashPassword(password: string): string {
   return bcrypt.hashSync(password, 10);
@@ -13,7 +15,11 @@ export function verifyPassword(password: string, hashedPassword: string): boolea
   return bcrypt.compareSync(password, hashedPassword);
 }
 
-export function createAccessToken(data: { sub: string; email: string }): string {
+export function accessTokenExpiresInSeconds(): number {
+  return ACCESS_TOKEN_EXPIRE_MINUTES * 60;
+}
+
+export function createAccessToken(data: { sub: string; email: string; sid?: string }): string {
   const payload: TokenPayload = {
     ...data,
     iat: Math.floor(Date.now() / 1000),
@@ -31,3 +37,35 @@ export function decodeToken(token: string): TokenPayload | null {
     return null;
   }
 }
+
+// Opaque refresh tokens; only their SHA-256 hash is stored
+export function createRefreshToken(): string {
+  return crypto.randomBytes(48).toString('base64url');
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Account tokens (email verification, password reset) are signed with their own key
+// derived from SECRET_KEY, so they can never pass as access tokens
+const ACCOUNT_TOKEN_KEY = crypto.createHmac('sha256', SECRET_KEY).update('account-tokens').digest();
+
+export interface AccountTokenPayload {
+  sub: string;      // User id
+  jti: string;      // account_tokens id, marked used when the token is redeemed
+  purpose: AccountTokenPurpose;
+}
+
+export function signAccountToken(payload: AccountTokenPayload, expiresInSeconds: number): string {
+  return jwt.sign(payload, ACCOUNT_TOKEN_KEY, { expiresIn: expiresInSeconds });
+}
+
+export function verifyAccountToken(token: string, purpose: AccountTokenPurpose): AccountTokenPayload | null {
+  try {
+    const decoded = jwt.verify(token, ACCOUNT_TOKEN_KEY) as AccountTokenPayload;
+    return decoded.purpose === purpose && decoded.sub && decoded.jti ? decoded : null;
+  } catch (error) {
+    return null;
+  }
+}
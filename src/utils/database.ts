@@ -52,11 +52,19 @@ export async function closeDatabase(): Promise<void> {
   }
 }
 
-// Helper function to execute queries
-export async function query<T>(queryString: string, params?: Record<string, any>): Promise<sql.IResult<T>> {
-  const db = await getDb();
-  const request = db.request();
+// Query helpers, either on the pool or bound to a transaction
+export interface QueryContext {
+  query<T>(queryString: string, params?: Record<string, any>): Promise<sql.IResult<T>>;
+  queryOne<T>(queryString: string, params?: Record<string, any>): Promise<T | null>;
+  queryMany<T>(queryString: string, params?: Record<string, any>): Promise<T[]>;
+  execute(queryString: string, params?: Record<string, any>): Promise<number>;
+}
 
+export interface TransactionContext extends QueryContext {
+  transaction: sql.Transaction;
+}
+
+function runRequest<T>(request: sql.Request, queryString: string, params?: Record<string, any>): Promise<sql.IResult<T>> {
   if (params) {
     for (const [key, value] of Object.entries(params)) {
       request.input(key, value);
@@ -66,22 +74,70 @@ export async function query<T>(queryString: string, params?: Record<string, any>
   return request.query(queryString);
 }
 
-// Helper to get a single row
-export async function queryOne<T>(queryString: string, params?: Record<string, any>): Promise<T | null> {
-  const result = await query<T>(queryString, params);
-  return result.recordset.length > 0 ? result.recordset[0] : null;
+function createContext(runQuery: <T>(queryString: string, params?: Record<string, any>) => Promise<sql.IResult<T>>): QueryContext {
+  return {
+    query: runQuery,
+    async queryOne<T>(queryString: string, params?: Record<string, any>): Promise<T | null> {
+      const result = await runQuery<T>(queryString, params);
+      return result.recordset.length > 0 ? result.recordset[0] : null;
+    },
+    async queryMany<T>(queryString: string, params?: Record<string, any>): Promise<T[]> {
+      const result = await runQuery<T>(queryString, params);
+      return result.recordset;
+    },
+    async execute(queryString: string, params?: Record<string, any>): Promise<number> {
+      const result = await runQuery(queryString, params);
+      return result.rowsAffected[0] || 0;
+    }
+  };
 }
 
+// Helpers that run each statement on its own pooled connection
+export const pooledContext: QueryContext = createContext(async <T>(queryString: string, params?: Record<string, any>) => {
+  const db = await getDb();
+  return runRequest<T>(db.request(), queryString, params);
+});
+
+// Helper function to execute queries
+export const query = pooledContext.query;
+
+// Helper to get a single row
+export const queryOne = pooledContext.queryOne;
+
 // Helper to get multiple rows
-export async function queryMany<T>(queryString: string, params?: Record<string, any>): Promise<T[]> {
-  const result = await query<T>(queryString, params);
-  return result.recordset;
-}
+export const queryMany = pooledContext.queryMany;
 
 // Helper for INSERT/UPDATE/DELETE
-export async function execute(queryString: string, params?: Record<string, any>): Promise<number> {
-  const result = await query(queryString, params);
-  return result.rowsAffected[0] || 0;
+export const execute = pooledContext.execute;
+
+/**
+ * Run `work` in a transaction: committed when it resolves, rolled back when it throws.
+ * Statements must go through the given context; anything run on the pool is outside the transaction.
+ */
+export async function withTransaction<T>(work: (tx: TransactionContext) => Promise<T>): Promise<T> {
+  const db = await getDb();
+  const transaction = new sql.Transaction(db);
+  await transaction.begin();
+
+  const tx: TransactionContext = {
+    ...createContext(<R>(queryString: string, params?: Record<string, any>) =>
+      runRequest<R>(new sql.Request(transaction), queryString, params)
+    ),
+    transaction
+  };
+
+  try {
+    const result = await work(tx);
+    await transaction.commit();
+    return result;
+  } catch (error) {
+    try {
+      await transaction.rollback();
+    } catch {
+      // SQL Server may already have aborted the transaction
+    }
+    throw error;
+  }
 }
 
 export { sql };
@@ -0,0 +1,98 @@
+const AUSTRALIAN_STATES = ['NSW', 'VIC', 'QLD', 'SA', 'WA', 'TAS', 'NT', 'ACT'];
+
+export interface ParsedLocation {
+  street: string | null;
+  suburb: string;
+  state: string | null;
+  postcode: string | null;
+}
+
+/**
+ * Parse a free-text Australian location into street, suburb, state and postcode
+ * Handles formats like:
+ *   "7/12 Old Common Rd, Belgian Gardens QLD 4810, Australia"
+ *   "123 Main St, Bondi, NSW 2026"
+ *   "Bondi, NSW"
+ */
+export function parseLocation(location: string): ParsedLocation {
+  const parts = (location || '')
+    .split(',')
+    .map(p => p.trim())
+    .filter(p => p && p.toLowerCase() !== 'australia');
+
+  const stateRegex = new RegExp(`\\b(${AUSTRALIAN_STATES.join('|')})\\b`, 'i');
+  const postcodeMatch = (location || '').match(/\b(\d{4})\b(?!.*\b\d{4}\b)/);
+  const postcode = postcodeMatch ? postcodeMatch[1] : null;
+
+  let stateIndex = -1;
+  let state: string | null = null;
+  for (let i = parts.length - 1; i >= 0; i--) {
+    const match = parts[i].match(stateRegex);
+    if (match) {
+      stateIndex = i;
+      state = match[1].toUpperCase();
+      break;
+    }
+  }
+
+  let suburb = '';
+  let streetEnd = 0;
+
+  if (stateIndex >= 0) {
+    // "Belgian Gardens QLD 4810" - suburb precedes the state in the same part
+    const beforeState = parts[stateIndex].split(stateRegex)[0].trim();
+    if (beforeState) {
+      suburb = beforeState;
+      streetEnd = stateIndex;
+    } else if (stateIndex > 0) {
+      suburb = parts[stateIndex - 1];
+      streetEnd = stateIndex - 1;
+    }
+  } else if (parts.length >= 2) {
+    suburb = parts[1].replace(/\d{4}/, '').trim();
+    streetEnd = 1;
+  } else if (parts.length === 1) {
+    suburb = parts[0];
+  }
+
+  const street = streetEnd > 0 ? parts.slice(0, streetEnd).join(', ') : null;
+
+  return { street, suburb, state, postcode };
+}
+
+/**
+ * Normalise a street address for equality checks
+ * "Unit 7 12 Old Common Road" (NSW Valuer General format) and "7/12 Old Common Rd" both become "7/12 old common rd"
+ */
+export function normaliseAddress(address: string): string {
+  let value = (address || '').toLowerCase().split(',')[0];
+  // Only a leading unit/lot prefix: "12 Lotus St" must stay as it is
+  value = value.replace(/^\s*(unit|apartment|apt|flat|lot)(?![a-z])\s*(\w+)\s+/, '$2/');
+  value = value
+    .replace(/\broad\b/g, 'rd')
+    .replace(/\bstreet\b/g, 'st')
+    .replace(/\bavenue\b/g, 'ave')
+    .replace(/\bdrive\b/g, 'dr')
+    .replace(/\bcourt\b/g, 'ct')
+    .replace(/\bplace\b/g, 'pl')
+    .replace(/\bcrescent\b/g, 'cres')
+    .replace(/\bparade\b/g, 'pde')
+    .replace(/\bhighway\b/g, 'hwy')
+    .replace(/\bterrace\b/g, 'tce')
+    .replace(/\bclose\b/g, 'cl')
+    .replace(/\blane\b/g, 'ln');
+  return value.replace(/[^a-z0-9/]+/g, ' ').replace(/\s*\/\s*/g, '/').trim();
+}
+
+/**
+ * Key for comparing whole addresses: the normalised street plus the suburb, or the postcode when no suburb is given
+ * "Unit 3, 12 King Street, Newtown NSW 2042" and "3/12 King St, Newtown" share a key; 12 King St in Enmore does not
+ */
+export function addressKey(address: string): string {
+  const { street, suburb, postcode } = parseLocation(address);
+  if (!street) {
+    return `${normaliseAddress(address)}|`;
+  }
+  const locality = suburb ? suburb.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim() : postcode || '';
+  return `${normaliseAddress(street.replace(/,/g, ' '))}|${locality}`;
+}
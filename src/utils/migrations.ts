@@ -0,0 +1,212 @@
+/**
+ * Schema migrations
+ * Versioned SQL scripts in migrations/ (override with MIGRATIONS_DIR), named
+ * NNNN_description.up.sql / NNNN_description.down.sql. Scripts are split into
+ * batches on lines containing only GO. Each migration runs in its own
+ * transaction together with its schema_migrations row, under an application
+ * lock so two instances cannot apply the same migration at once.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { queryMany, execute, withTransaction, sql } from './database';
+
+export interface Migration {
+  version: string;
+  name: string;
+  up: string;
+  down: string;
+  checksum: string;
+}
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  applied: boolean;
+  applied_at: string | null;
+  modified: boolean;   // up script changed since it was applied
+}
+
+interface AppliedRow {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+const FILE_PATTERN = /^(\d{4})_([a-z0-9_]+)\.(up|down)\.sql$/;
+const LOCK_TIMEOUT_MS = 60 * 1000;
+
+export function getMigrationsDir(): string {
+  return process.env.MIGRATIONS_DIR || path.resolve(__dirname, '../../migrations');
+}
+
+/**
+ * Read migration scripts from disk, ordered by version
+ */
+export function loadMigrations(dir: string = getMigrationsDir()): Migration[] {
+  const found: Map<string, { name: string; up?: string; down?: string }> = new Map();
+
+  for (const file of fs.readdirSync(dir).sort()) {
+    const match = file.match(FILE_PATTERN);
+    if (!match) continue;
+    const [, version, name, direction] = match;
+
+    const entry = found.get(version) || { name };
+    if (entry.name !== name) {
+      throw new Error(`Migration ${version} has scripts with different names: ${entry.name}, ${name}`);
+    }
+    entry[direction as 'up' | 'down'] = fs.readFileSync(path.join(dir, file), 'utf8');
+    found.set(version, entry);
+  }
+
+  return Array.from(found.entries()).map(([version, entry]) => {
+    if (!entry.up || !entry.down) {
+      throw new Error(`Migration ${version}_${entry.name} needs both an up and a down script`);
+    }
+    return {
+      version,
+      name: entry.name,
+      up: entry.up,
+      down: entry.down,
+      checksum: crypto.createHash('sha256').update(entry.up).digest('hex')
+    };
+  });
+}
+
+export function splitBatches(script: string): string[] {
+  return script
+    .split(/^\s*GO\s*$/im)
+    .map(batch => batch.trim())
+    .filter(batch => batch.length > 0);
+}
+
+async function ensureMigrationsTable(): Promise<void> {
+  await execute(`
+    IF OBJECT_ID('schema_migrations', 'U') IS NULL
+    CREATE TABLE schema_migrations (
+      version NVARCHAR(20) NOT NULL PRIMARY KEY,
+      name NVARCHAR(200) NOT NULL,
+      checksum NVARCHAR(64) NOT NULL,
+      applied_at DATETIME2 NOT NULL
+    )
+  `);
+}
+
+async function getApplied(): Promise<Map<string, AppliedRow>> {
+  await ensureMigrationsTable();
+  const rows = await queryMany<AppliedRow>(`SELECT * FROM schema_migrations ORDER BY version`);
+  return new Map(rows.map(row => [row.version, row]));
+}
+
+/**
+ * Run one migration script and record (or remove) it, all or nothing
+ */
+async function runMigration(migration: Migration, direction: 'up' | 'down'): Promise<boolean> {
+  return withTransaction(async tx => {
+    const lock = await tx.queryOne<{ result: number }>(`
+      DECLARE @result INT;
+      EXEC @result = sp_getapplock @Resource = 'schema_migrations', @LockMode = 'Exclusive', @LockOwner = 'Transaction', @LockTimeout = @timeout;
+      SELECT @result AS result;
+    `, { timeout: LOCK_TIMEOUT_MS });
+    if (!lock || lock.result < 0) {
+      throw new Error('Timed out waiting for the schema_migrations lock');
+    }
+
+    // Another instance may have got here first while we waited for the lock
+    const current = await tx.queryOne(
+      `SELECT version FROM schema_migrations WHERE version = @version`,
+      { version: migration.version }
+    );
+    const isApplied = !!current;
+    if ((direction === 'up' && isApplied) || (direction === 'down' && !isApplied)) {
+      return false;
+    }
+
+    for (const batch of splitBatches(migration[direction])) {
+      await new sql.Request(tx.transaction).batch(batch);
+    }
+
+    if (direction === 'up') {
+      await tx.execute(
+        `INSERT INTO schema_migrations (version, name, checksum, applied_at) VALUES (@version, @name, @checksum, @applied_at)`,
+        { version: migration.version, name: migration.name, checksum: migration.checksum, applied_at: new Date() }
+      );
+    } else {
+      await tx.execute(`DELETE FROM schema_migrations WHERE version = @version`, { version: migration.version });
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Every known migration and whether it has been applied
+ */
+export async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  const migrations = loadMigrations();
+  const applied = await getApplied();
+
+  return migrations.map(migration => {
+    const row = applied.get(migration.version);
+    return {
+      version: migration.version,
+      name: migration.name,
+      applied: !!row,
+      applied_at: row ? row.applied_at.toISOString() : null,
+      modified: !!row && row.checksum !== migration.checksum
+    };
+  });
+}
+
+/**
+ * Apply pending migrations in order, up to and including `target` when given
+ */
+export async function migrateUp(target?: string): Promise<string[]> {
+  const migrations = loadMigrations();
+  const applied = await getApplied();
+  const ran: string[] = [];
+
+  for (const migration of migrations) {
+    if (target && migration.version > target) break;
+    if (applied.has(migration.version)) continue;
+
+    console.log(`[Migrations] Applying ${migration.version}_${migration.name}`);
+    if (await runMigration(migration, 'up')) {
+      ran.push(`${migration.version}_${migration.name}`);
+    }
+  }
+
+  return ran;
+}
+
+/**
+ * Roll back the latest `steps` applied migrations, or everything after `target`
+ */
+export async function migrateDown(options: { steps?: number; target?: string } = {}): Promise<string[]> {
+  const migrations = loadMigrations();
+  const applied = await getApplied();
+  const ran: string[] = [];
+
+  for (const version of applied.keys()) {
+    if (!migrations.some(m => m.version === version)) {
+      throw new Error(`Migration ${version} is applied but its scripts are missing`);
+    }
+  }
+
+  const candidates = migrations
+    .filter(m => applied.has(m.version))
+    .filter(m => options.target === undefined || m.version > options.target)
+    .reverse();
+
+  const toRollback = options.target === undefined ? candidates.slice(0, options.steps ?? 1) : candidates;
+  for (const migration of toRollback) {
+    console.log(`[Migrations] Rolling back ${migration.version}_${migration.name}`);
+    if (await runMigration(migration, 'down')) {
+      ran.push(`${migration.version}_${migration.name}`);
+    }
+  }
+
+  return ran;
+}
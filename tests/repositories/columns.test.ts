@@ -0,0 +1,30 @@
+import { parseJsonColumn, toBoolean, toColumnParams } from '../../src/repositories/columns';
+
+describe('column mapping', () => {
+  it('parses JSON columns and falls back on empty or invalid values', () => {
+    expect(parseJsonColumn('["a.jpg"]', [])).toEqual(['a.jpg']);
+    expect(parseJsonColumn(null, [])).toEqual([]);
+    expect(parseJsonColumn('', null)).toBeNull();
+    expect(parseJsonColumn('{not json', [])).toEqual([]);
+  });
+
+  it('reads BIT values from either driver form', () => {
+    expect([true, 1, '1'].map(toBoolean)).toEqual([true, true, true]);
+    expect([false, 0, '0', null, undefined].map(toBoolean)).toEqual([false, false, false, false, false]);
+  });
+
+  it('serialises JSON and BIT columns and skips undefined fields', () => {
+    const columns = { writable: ['id', 'tags', 'is_favourite', 'price'], json: ['tags'], bit: ['is_favourite'] };
+
+    expect(toColumnParams('properties', { id: 'p1', tags: ['new'], is_favourite: true, price: undefined }, columns)).toEqual({
+      id: 'p1',
+      tags: '["new"]',
+      is_favourite: 1
+    });
+    expect(toColumnParams('properties', { tags: null, is_favourite: false }, columns)).toEqual({ tags: null, is_favourite: 0 });
+  });
+
+  it('rejects columns it does not know', () => {
+    expect(() => toColumnParams('properties', { id: 'p1', owner: 'x' }, { writable: ['id'] })).toThrow('Unknown properties column: owner');
+  });
+});
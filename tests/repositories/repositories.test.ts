@@ -0,0 +1,98 @@
+import { v4 as uuidv4 } from 'uuid';
+import { findPropertyById, insertProperty, toProperty, updateProperty, PropertyRow } from '../../src/repositories/propertyRepository';
+import { createUser, findUserByEmail, toUser, updateUser, UserRow } from '../../src/repositories/userRepository';
+import { findNswSales, insertHistoricProp, toHistoricProp, HistoricPropRow } from '../../src/repositories/historicPropRepository';
+
+describe('property repository', () => {
+  it('round-trips JSON and BIT columns', async () => {
+    const id = uuidv4();
+    await insertProperty({
+      id,
+      created_at: new Date(),
+      location: '12 King St, Newtown NSW 2042',
+      images: ['front.jpg', 'kitchen.jpg'],
+      tags: ['auction'],
+      comparables_data: { comparables: [{ address: '14 King St', price: 1500000 }] } as any,
+      is_favourite: true
+    });
+
+    const property = (await findPropertyById(id))!;
+
+    expect(property.images).toEqual(['front.jpg', 'kitchen.jpg']);
+    expect(property.tags).toEqual(['auction']);
+    expect(property.comparables_data).toEqual({ comparables: [{ address: '14 King St', price: 1500000 }] });
+    expect(property.is_favourite).toBe(true);
+    expect(property.confidence_scoring).toBeNull();
+  });
+
+  it('updates only the columns given', async () => {
+    const id = uuidv4();
+    await insertProperty({ id, created_at: new Date(), location: '12 King St, Newtown NSW 2042', images: ['front.jpg'], is_favourite: true });
+
+    expect(await updateProperty(id, { is_favourite: false })).toBe(1);
+
+    const property = (await findPropertyById(id))!;
+    expect(property.is_favourite).toBe(false);
+    expect(property.images).toEqual(['front.jpg']);
+    expect(await updateProperty('missing', { is_favourite: false })).toBe(0);
+  });
+
+  it('maps rows the driver returns with numeric flags and unreadable JSON', () => {
+    const property = toProperty({ id: 'p1', images: 'not json', tags: null, is_favourite: 1 } as unknown as PropertyRow);
+
+    expect(property.images).toEqual([]);
+    expect(property.tags).toBeNull();
+    expect(property.is_favourite).toBe(true);
+  });
+});
+
+describe('user repository', () => {
+  it('returns BIT flags as booleans', async () => {
+    await createUser({
+      id: uuidv4(),
+      email: 'agent@example.com',
+      username: 'agent',
+      created_at: new Date(),
+      admin: true,
+      is_active: true,
+      trial_active: false
+    });
+
+    const user = (await findUserByEmail('agent@example.com'))!;
+    expect(user).toMatchObject({ admin: true, is_active: true, trial_active: false, subscription_active: false });
+
+    await updateUser(user.id, { admin: false });
+    expect((await findUserByEmail('agent@example.com'))!.admin).toBe(false);
+  });
+
+  it('maps numeric flags from the driver', () => {
+    const user = toUser({ id: 'u1', email: 'agent@example.com', admin: 1, is_active: 0 } as unknown as UserRow);
+
+    expect(user.admin).toBe(true);
+    expect(user.is_active).toBe(false);
+    expect(user.email_verified).toBe(false);
+  });
+});
+
+describe('historic sales repository', () => {
+  it('round-trips the neighbouring flag and generates a prop_id', async () => {
+    await insertHistoricProp({
+      address: '14 King St, Newtown NSW 2042',
+      price: 1500000,
+      source: 'nsw-valuer-general',
+      source_suburb: 'newtown',
+      sold_date_raw: '2025-03-01',
+      is_neighbouring: true
+    });
+
+    const [sale] = await findNswSales({ suburb: 'newtown' });
+
+    expect(sale.is_neighbouring).toBe(true);
+    expect(sale.prop_id).toBeTruthy();
+    expect(sale.price).toBe(1500000);
+  });
+
+  it('maps numeric flags from the driver', () => {
+    expect(toHistoricProp({ address: 'x', is_neighbouring: 0 } as unknown as HistoricPropRow).is_neighbouring).toBe(false);
+  });
+});
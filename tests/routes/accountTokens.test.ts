@@ -0,0 +1,115 @@
+import request from 'supertest';
+import app from '../../src/server';
+import { MailMessage, setMailTransport } from '../../src/services/mailer';
+import { findUserByEmail } from '../../src/repositories/userRepository';
+import { hashPassword } from '../../src/utils/auth';
+import { createTestUser } from '../support/users';
+
+let outbox: MailMessage[];
+let failSends: boolean;
+
+function tokenFrom(message: MailMessage): string {
+  const match = message.text.match(/token=([^\s]+)/);
+  return decodeURIComponent(match![1]);
+}
+
+beforeEach(() => {
+  outbox = [];
+  failSends = false;
+  setMailTransport({
+    name: 'test',
+    async send(message) {
+      if (failSends) throw new Error('Mail provider unavailable');
+      outbox.push(message);
+    }
+  });
+});
+
+describe('email verification', () => {
+  it('verifies the address with the link sent at signup', async () => {
+    const signup = await request(app).post('/api/auth/signup').send({ email: 'new@example.com', username: 'new', password: 'secret123' });
+    expect(signup.status).toBe(201);
+    expect(outbox).toHaveLength(1);
+    expect(outbox[0]).toMatchObject({ to: 'new@example.com', subject: 'Verify your email address' });
+
+    const res = await request(app).post('/api/auth/verify-email').send({ token: tokenFrom(outbox[0]) });
+
+    expect(res.body).toEqual({ success: true, email_verified: true });
+    expect((await findUserByEmail('new@example.com'))!.email_verified).toBe(true);
+  });
+
+  it('redeems a link once', async () => {
+    await request(app).post('/api/auth/signup').send({ email: 'new@example.com', username: 'new', password: 'secret123' });
+    const token = tokenFrom(outbox[0]);
+
+    await request(app).post('/api/auth/verify-email').send({ token });
+    const again = await request(app).post('/api/auth/verify-email').send({ token });
+
+    expect(again.status).toBe(400);
+  });
+
+  it('retires older links when a new one is sent', async () => {
+    const { auth } = await createTestUser('agent@example.com');
+
+    await request(app).post('/api/auth/resend-verification').set(auth);
+    await request(app).post('/api/auth/resend-verification').set(auth);
+
+    expect((await request(app).post('/api/auth/verify-email').send({ token: tokenFrom(outbox[0]) })).status).toBe(400);
+    expect((await request(app).post('/api/auth/verify-email').send({ token: tokenFrom(outbox[1]) })).status).toBe(200);
+  });
+
+  it('still signs the user up when the email cannot be sent', async () => {
+    const logged = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    failSends = true;
+
+    const signup = await request(app).post('/api/auth/signup').send({ email: 'new@example.com', username: 'new', password: 'secret123' });
+    expect(signup.status).toBe(201);
+    expect(logged).toHaveBeenCalled();
+    logged.mockRestore();
+  });
+});
+
+describe('password reset', () => {
+  const EXPECTED = {
+    success: true,
+    message: 'If an account exists for that email, a password reset link has been sent'
+  };
+
+  it('sets a new password and signs the user out everywhere', async () => {
+    const { auth } = await createTestUser('agent@example.com', ['agent'], { hashed_password: hashPassword('old-password') });
+
+    const forgot = await request(app).post('/api/auth/forgot-password').send({ email: 'agent@example.com' });
+    expect(forgot.body).toEqual(EXPECTED);
+
+    const reset = await request(app).post('/api/auth/reset-password').send({ token: tokenFrom(outbox[0]), password: 'new-password' });
+    expect(reset.body).toEqual({ success: true });
+
+    expect((await request(app).get('/api/auth/me').set(auth)).status).toBe(401);
+    expect((await request(app).post('/api/auth/login').send({ email: 'agent@example.com', password: 'old-password' })).status).toBe(401);
+    expect((await request(app).post('/api/auth/login').send({ email: 'agent@example.com', password: 'new-password' })).status).toBe(200);
+  });
+
+  it('does not accept a verification link as a reset link', async () => {
+    const { auth } = await createTestUser('agent@example.com');
+    await request(app).post('/api/auth/resend-verification').set(auth);
+
+    const res = await request(app).post('/api/auth/reset-password').send({ token: tokenFrom(outbox[0]), password: 'new-password' });
+    expect(res.status).toBe(400);
+  });
+
+  it('answers the same for unknown addresses and failed sends', async () => {
+    await createTestUser('agent@example.com');
+    const logged = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const unknown = await request(app).post('/api/auth/forgot-password').send({ email: 'nobody@example.com' });
+    failSends = true;
+    const failed = await request(app).post('/api/auth/forgot-password').send({ email: 'agent@example.com' });
+
+    expect(unknown.status).toBe(200);
+    expect(failed.status).toBe(200);
+    expect(failed.body).toEqual(unknown.body);
+    expect(outbox).toHaveLength(0);
+    expect(logged).toHaveBeenCalledTimes(1);
+    logged.mockRestore();
+  });
+});
@@ -0,0 +1,100 @@
+import request from 'supertest';
+import app from '../../src/server';
+import { createTestUser, TestUser } from '../support/users';
+
+async function record(fields: Record<string, unknown>): Promise<number> {
+  const res = await request(app).post('/api/audit').send(fields);
+  expect(res.status).toBe(201);
+  return res.body.id;
+}
+
+describe('audit', () => {
+  let owner: TestUser;
+
+  beforeEach(async () => {
+    owner = await createTestUser('owner@example.com', ['agency_owner']);
+
+    await record({ action: 'view', page: '/dashboard', username: 'alice', dte: '2026-01-10T09:00:00Z' });
+    await record({ action: 'view', page: '/properties', username: 'alice', dte: '2026-01-12T09:00:00Z', propertyid: 'p-1' });
+    await record({ action: 'evaluate', page: '/properties', username: 'bob', dte: '2026-01-15T09:00:00Z', propertyid: 'p-1' });
+    await record({ action: 'view', page: '/dashboard', username: 'bob', dte: '2026-01-20T09:00:00Z' });
+  });
+
+  it('records visits without signing in and returns the new id', async () => {
+    const id = await record({ action: 'view', page: '/login' });
+
+    const res = await request(app).get(`/api/audit/${id}`).set(owner.auth);
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ id, action: 'view', page: '/login', username: null });
+  });
+
+  it('is only readable by agency owners', async () => {
+    const agent = await createTestUser('agent@example.com');
+
+    expect((await request(app).get('/api/audit')).status).toBe(401);
+    expect((await request(app).get('/api/audit').set(agent.auth)).status).toBe(403);
+  });
+
+  it('lists records newest first with the total', async () => {
+    const res = await request(app).get('/api/audit').set(owner.auth);
+
+    expect(res.status).toBe(200);
+    expect(res.body.total).toBe(4);
+    expect(res.body.records.map((r: any) => r.dte)).toEqual([
+      '2026-01-20T09:00:00.000Z',
+      '2026-01-15T09:00:00.000Z',
+      '2026-01-12T09:00:00.000Z',
+      '2026-01-10T09:00:00.000Z'
+    ]);
+  });
+
+  it('filters by page, user, action and property', async () => {
+    const byPage = await request(app).get('/api/audit?page=/dashboard').set(owner.auth);
+    expect(byPage.body.total).toBe(2);
+
+    const byUserAndAction = await request(app).get('/api/audit?username=alice&action=view').set(owner.auth);
+    expect(byUserAndAction.body.total).toBe(2);
+
+    const byProperty = await request(app).get('/api/audit?propertyid=p-1&action=evaluate').set(owner.auth);
+    expect(byProperty.body.records).toHaveLength(1);
+    expect(byProperty.body.records[0].username).toBe('bob');
+  });
+
+  it('filters by date range', async () => {
+    const res = await request(app)
+      .get('/api/audit?startDate=2026-01-11T00:00:00Z&endDate=2026-01-16T00:00:00Z')
+      .set(owner.auth);
+
+    expect(res.body.total).toBe(2);
+    expect(res.body.records.map((r: any) => r.action)).toEqual(['evaluate', 'view']);
+  });
+
+  it('pages through records with the full total', async () => {
+    const res = await request(app).get('/api/audit?limit=2&offset=1').set(owner.auth);
+
+    expect(res.body).toMatchObject({ total: 4, limit: 2, offset: 1 });
+    expect(res.body.records.map((r: any) => r.dte)).toEqual(['2026-01-15T09:00:00.000Z', '2026-01-12T09:00:00.000Z']);
+  });
+
+  it('summarises activity per user', async () => {
+    const res = await request(app).get('/api/audit/users').set(owner.auth);
+
+    expect(res.body.total).toBe(2);
+    expect(res.body.users.map((u: any) => [u.username, u.totalVisits])).toEqual([['bob', 2], ['alice', 2]]);
+  });
+
+  it('reports recent activity in the stats', async () => {
+    await record({ action: 'view', page: '/dashboard', username: 'carol' });
+
+    const res = await request(app).get('/api/audit/stats').set(owner.auth);
+
+    expect(res.body.stats).toMatchObject({ totalRecords: 5, uniqueUsers: 3, recentActivity: 1 });
+    expect(res.body.stats.pageStats[0]).toEqual({ page: '/dashboard', count: 3 });
+    expect(res.body.stats.dailyVisits).toEqual([{ date: new Date().toISOString().slice(0, 10), count: 1 }]);
+  });
+
+  it('returns 404 for an unknown record', async () => {
+    const res = await request(app).get('/api/audit/9999').set(owner.auth);
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,158 @@
+import request from 'supertest';
+import app from '../../src/server';
+import * as database from '../../src/utils/database';
+import { createJob, getJob, getJobEvents, recordJobEvent, registerJobProcessor } from '../../src/services/evaluationJobs';
+import { PropertyCreate } from '../../src/models/types';
+import { createTestUser, TestUser } from '../support/users';
+
+const property: PropertyCreate = { beds: 3, baths: 2, carpark: 1, location: '12 King St, Newtown NSW 2042' };
+
+// A finished job, so the routes only read it and no worker picks it up
+async function completedJob(owner: string): Promise<string> {
+  const job = await createJob(property, owner);
+  const now = new Date();
+  await database.execute(
+    `UPDATE evaluation_jobs SET status = 'completed', stage = 'completed', completed_at = @now WHERE job_id = @jobId`,
+    { jobId: job.job_id, now }
+  );
+  await database.execute(
+    `INSERT INTO evaluation_job_results (job_id, result, created_at) VALUES (@jobId, @result, @now)`,
+    { jobId: job.job_id, result: JSON.stringify({ estimated_value: 1500000 }), now }
+  );
+  return job.job_id;
+}
+
+// A job claimed by a worker whose last heartbeat was 20 minutes ago
+async function orphanedJob(owner: string): Promise<string> {
+  const job = await createJob(property, owner);
+  await database.execute(
+    `UPDATE evaluation_jobs SET status = 'in_progress', attempts = 1, worker_id = 'gone', updated_at = @at WHERE job_id = @jobId`,
+    { jobId: job.job_id, at: new Date(Date.now() - 20 * 60 * 1000) }
+  );
+  return job.job_id;
+}
+
+async function waitForStatus(jobId: string, status: string): Promise<void> {
+  for (let i = 0; i < 100 && (await getJob(jobId))!.status !== status; i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+// Fail one read of evaluation_jobs, after `skip` successful ones, as a dropped connection would
+function failJobRead(skip = 0): jest.SpyInstance {
+  const queryOne = database.queryOne;
+  let reads = 0;
+  return jest.spyOn(database, 'queryOne').mockImplementation(async (queryString: string, params?: Record<string, any>) => {
+    if (/FROM evaluation_jobs\b/.test(queryString) && reads++ === skip) {
+      throw new Error('Connection lost');
+    }
+    return queryOne(queryString, params);
+  });
+}
+
+describe('evaluation job routes', () => {
+  let agent: TestUser;
+  let logged: jest.SpyInstance;
+
+  beforeEach(async () => {
+    agent = await createTestUser('agent@example.com');
+    logged = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    logged.mockRestore();
+  });
+
+  it('reports a database failure on the status route as an error, not a missing job', async () => {
+    const jobId = await completedJob('agent@example.com');
+    const reads = failJobRead();
+
+    const res = await request(app).get(`/api/evaluate-quick/${jobId}/status`).set(agent.auth);
+    reads.mockRestore();
+
+    expect(res.status).toBe(500);
+    expect((await request(app).get(`/api/evaluate-quick/${jobId}/status`).set(agent.auth)).body).toMatchObject({
+      status: 'completed',
+      result: { estimated_value: 1500000 }
+    });
+  });
+
+  it('answers 404 for a job that does not exist', async () => {
+    const res = await request(app).get('/api/evaluate-quick/missing/status').set(agent.auth);
+    expect(res.status).toBe(404);
+  });
+
+  it('keeps the event stream open through a failed read', async () => {
+    const jobId = await completedJob('agent@example.com');
+
+    // The route's own lookup succeeds; the first read inside the stream fails
+    const reads = failJobRead(1);
+
+    const res = await request(app).get(`/api/evaluate-quick/${jobId}/events`).set(agent.auth);
+    reads.mockRestore();
+
+    expect(res.status).toBe(200);
+    expect(res.text).not.toContain('event: failed');
+    expect(res.text).toContain('event: completed');
+    expect(logged).toHaveBeenCalled();
+  });
+
+  it('streams the recorded events with their ids before the final event', async () => {
+    const jobId = await completedJob('agent@example.com');
+    await recordJobEvent(jobId, 'stage', { stage: 'fetching_comparables' });
+    await recordJobEvent(jobId, 'stage', { stage: 'valuing' });
+    const ids = (await getJobEvents(jobId)).map(event => event.id);
+
+    const res = await request(app).get(`/api/evaluate-quick/${jobId}/events`).set(agent.auth);
+
+    expect(res.headers['content-type']).toMatch(/^text\/event-stream/);
+    expect(res.text).toContain(`id: ${ids[0]}\nevent: stage\ndata: {"stage":"fetching_comparables"`);
+    expect(res.text).toContain(`id: ${ids[1]}\nevent: stage\ndata: {"stage":"valuing"`);
+    expect(res.text.indexOf('event: completed')).toBeGreaterThan(res.text.indexOf('"stage":"valuing"'));
+  });
+
+  it('resumes after the Last-Event-ID the client saw', async () => {
+    const jobId = await completedJob('agent@example.com');
+    await recordJobEvent(jobId, 'stage', { stage: 'fetching_comparables' });
+    await recordJobEvent(jobId, 'stage', { stage: 'valuing' });
+    const [seen] = await getJobEvents(jobId);
+
+    const res = await request(app).get(`/api/evaluate-quick/${jobId}/events`).set(agent.auth).set('Last-Event-ID', String(seen.id));
+
+    expect(res.text).not.toContain('fetching_comparables');
+    expect(res.text).toContain('"stage":"valuing"');
+    expect(res.text).toContain('event: completed');
+  });
+
+  it('keeps streaming a running job until it finishes', async () => {
+    const job = await createJob(property, 'agent@example.com');
+    await database.execute(
+      `UPDATE evaluation_jobs SET status = 'in_progress', attempts = 1, worker_id = 'busy', updated_at = @now WHERE job_id = @jobId`,
+      { jobId: job.job_id, now: new Date() }
+    );
+    setTimeout(() => {
+      void database.execute(
+        `UPDATE evaluation_jobs SET status = 'failed', error = 'Provider timed out', completed_at = @now WHERE job_id = @jobId`,
+        { jobId: job.job_id, now: new Date() }
+      );
+    }, 1500);
+
+    const res = await request(app).get(`/api/evaluate-quick/${job.job_id}/events`).set(agent.auth);
+
+    expect(res.text).toContain('event: status\ndata: {"status":"in_progress"');
+    expect(res.text).toContain('event: failed\ndata: {"status":"failed","error":"Provider timed out"}');
+  });
+
+  it('requeues a job whose worker stopped heartbeating when it is polled', async () => {
+    registerJobProcessor(async () => ({ estimated_value: 1500000 }));
+    const jobId = await orphanedJob('agent@example.com');
+
+    const res = await request(app).get(`/api/evaluate-quick/${jobId}/status`).set(agent.auth);
+
+    expect(res.body.status).toBe('queued');
+    await waitForStatus(jobId, 'completed');
+    const job = await getJob(jobId);
+    expect(job!.status).toBe('completed');
+    expect(job!.attempts).toBe(2);
+  });
+});
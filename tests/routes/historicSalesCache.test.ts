@@ -0,0 +1,136 @@
+import request from 'supertest';
+import app from '../../src/server';
+import { execute } from '../../src/utils/database';
+import * as historicProps from '../../src/repositories/historicPropRepository';
+
+const sales = [
+  { id: 'h-1', address: '1 King St, Newtown NSW 2042', price: 1100000, beds: 3, sold_date: '01 Feb 2026', sold_date_raw: '2026-02-01T00:00:00.000Z' },
+  { id: 'h-2', address: '5 Queen St, Newtown NSW 2042', price: 950000, beds: 2, sold_date: '15 Jan 2026', sold_date_raw: '2026-01-15T00:00:00.000Z', is_neighbouring: true }
+];
+
+const search = { suburb: 'Newtown', state: 'NSW', postcode: '2042', propertyType: 'house' };
+
+function storeSales(body: Record<string, unknown> = {}) {
+  return request(app).post('/api/historic-sales-cache').send({ ...search, sales, ...body });
+}
+
+describe('historic sales cache', () => {
+  it('misses when nothing is cached', async () => {
+    const res = await request(app).get('/api/historic-sales-cache').query(search);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ cached: false, cache_key: 'newtown-nsw-2042-house' });
+  });
+
+  it('requires suburb and state', async () => {
+    expect((await request(app).get('/api/historic-sales-cache').query({ suburb: 'Newtown' })).status).toBe(400);
+    expect((await request(app).post('/api/historic-sales-cache').send({ suburb: 'Newtown', state: 'NSW' })).status).toBe(400);
+  });
+
+  it('hits with the stored sales, most recent first', async () => {
+    const stored = await storeSales();
+    expect(stored.body).toMatchObject({ success: true, cache_key: 'newtown-nsw-2042-house', total: 2 });
+
+    const res = await request(app).get('/api/historic-sales-cache').query(search);
+
+    expect(res.body).toMatchObject({ cached: true, suburb: 'newtown', state: 'nsw', postcode: '2042', total: 2 });
+    expect(res.body.sales.map((s: any) => s.id)).toEqual(['h-1', 'h-2']);
+    expect(res.body.sales[1]).toMatchObject({ source: 'homely.com.au', is_neighbouring: true });
+  });
+
+  it('misses once the entry is older than 14 days', async () => {
+    await storeSales();
+    const expired = new Date(Date.now() - 15 * 24 * 60 * 60 * 1000);
+    await execute(`UPDATE historic_sales_cache SET cached_at = @expired`, { expired });
+
+    const res = await request(app).get('/api/historic-sales-cache').query(search);
+    expect(res.body.cached).toBe(false);
+  });
+
+  it('still hits just inside the 14 days', async () => {
+    await storeSales();
+    const recent = new Date(Date.now() - 13 * 24 * 60 * 60 * 1000);
+    await execute(`UPDATE historic_sales_cache SET cached_at = @recent`, { recent });
+
+    const res = await request(app).get('/api/historic-sales-cache').query(search);
+    expect(res.body.cached).toBe(true);
+  });
+
+  it('replaces scraped sales on refresh but keeps NSW Valuer General sales', async () => {
+    await storeSales({
+      sales: [...sales, { id: 'nsw-1', address: '9 Station St, Newtown NSW 2042', price: 800000, source: 'nsw-valuer-general' }]
+    });
+
+    await storeSales({ sales: [{ id: 'h-3', address: '3 Church St, Newtown NSW 2042', price: 1000000 }] });
+
+    const res = await request(app).get('/api/historic-sales-cache').query(search);
+    expect(res.body.sales.map((s: any) => s.id).sort()).toEqual(['h-3', 'nsw-1']);
+  });
+
+  it('lists cached searches with their sale counts and validity', async () => {
+    await storeSales();
+    await storeSales({ suburb: 'Marrickville', postcode: '2204', sales: sales.slice(0, 1) });
+    await execute(
+      `UPDATE historic_sales_cache SET cached_at = @expired WHERE cache_key LIKE 'marrickville%'`,
+      { expired: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) }
+    );
+
+    const all = await request(app).get('/api/historic-sales-cache/all');
+    expect(all.body.searches.map((s: any) => [s.suburb, s.total, s.is_valid])).toEqual([
+      ['newtown', 2, true],
+      ['marrickville', 1, false]
+    ]);
+
+    const filtered = await request(app).get('/api/historic-sales-cache/all').query({ search: '2204' });
+    expect(filtered.body.searches).toHaveLength(1);
+
+    const properties = await request(app).get(`/api/historic-sales-cache/properties/${filtered.body.searches[0].id}`);
+    expect(properties.body.sales.map((s: any) => s.id)).toEqual(['h-1']);
+  });
+
+  describe('when storing a sale fails', () => {
+    let logged: jest.SpyInstance;
+    let inserts: jest.SpyInstance;
+
+    beforeEach(() => {
+      logged = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      inserts.mockRestore();
+      logged.mockRestore();
+    });
+
+    // Let the first insert through and fail the second, half way through the store
+    function failSecondInsert() {
+      const insert = historicProps.insertHistoricProp;
+      let calls = 0;
+      inserts = jest.spyOn(historicProps, 'insertHistoricProp').mockImplementation(async (sale, ctx) => {
+        if (++calls === 2) throw new Error('Insert failed');
+        return insert(sale, ctx);
+      });
+    }
+
+    it('keeps the previous sales of a refreshed entry', async () => {
+      await storeSales();
+      failSecondInsert();
+
+      const refresh = await storeSales({ sales: [{ id: 'h-3', address: '3 Church St, Newtown NSW 2042' }, { id: 'h-4', address: '4 Church St, Newtown NSW 2042' }] });
+      expect(refresh.status).toBe(500);
+
+      const res = await request(app).get('/api/historic-sales-cache').query(search);
+      expect(res.body.sales.map((s: any) => s.id)).toEqual(['h-1', 'h-2']);
+    });
+
+    it('stores no entry for a new search', async () => {
+      failSecondInsert();
+
+      expect((await storeSales()).status).toBe(500);
+
+      const res = await request(app).get('/api/historic-sales-cache').query(search);
+      expect(res.body.cached).toBe(false);
+      const all = await request(app).get('/api/historic-sales-cache/all');
+      expect(all.body.searches).toHaveLength(0);
+    });
+  });
+});
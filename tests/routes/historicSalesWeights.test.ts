@@ -0,0 +1,128 @@
+import request from 'supertest';
+import app from '../../src/server';
+import { createTestUser, TestUser } from '../support/users';
+
+const subject = { beds: 3, baths: 2, property_type: 'House' };
+const comparables = [{ id: 'sale-1', beds: 3, baths: 2, property_type: 'House' }];
+
+describe('comparable scoring route', () => {
+  let agent: TestUser;
+
+  beforeEach(async () => {
+    agent = await createTestUser('agent@example.com');
+  });
+
+  it('scores comparables with the active profile', async () => {
+    const res = await request(app).post('/api/historic-sales-weights/score').set(agent.auth).send({ subject, comparables });
+
+    expect(res.status).toBe(200);
+    expect(res.body.total).toBe(1);
+    expect(res.body.comparables[0].score_breakdown.bedrooms.detail).toBe('Exact bedroom match');
+  });
+
+  it('applies numeric overrides and ignores unknown fields', async () => {
+    const res = await request(app)
+      .post('/api/historic-sales-weights/score')
+      .set(agent.auth)
+      .send({ subject, comparables, weights: { bedroom_exact_match_bonus: 7, name: 'spoofed', is_active: false } });
+
+    expect(res.status).toBe(200);
+    expect(res.body.comparables[0].score_breakdown.bedrooms.adjustment).toBe(7);
+    expect(res.body.weights_name).not.toBe('spoofed');
+  });
+
+  it('rejects overrides that are not numbers', async () => {
+    const res = await request(app)
+      .post('/api/historic-sales-weights/score')
+      .set(agent.auth)
+      .send({ subject, comparables, weights: { bedroom_exact_match_bonus: '7', distance_far_penalty: null } });
+
+    expect(res.status).toBe(400);
+    expect(res.body.detail).toContain('bedroom_exact_match_bonus');
+    expect(res.body.detail).toContain('distance_far_penalty');
+  });
+
+  it('rejects overrides that are not an object', async () => {
+    const res = await request(app).post('/api/historic-sales-weights/score').set(agent.auth).send({ subject, comparables, weights: [1, 2] });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('weights profile history', () => {
+  const BASE = '/api/historic-sales-weights';
+  let owner: TestUser;
+
+  beforeEach(async () => {
+    owner = await createTestUser('owner@example.com', ['agency_owner']);
+  });
+
+  async function createProfile(name: string, activate = true): Promise<string> {
+    const res = await request(app).post(BASE).set(owner.auth).send({ name, is_active: activate });
+    expect(res.status).toBe(201);
+    return res.body.id;
+  }
+
+  async function eventsOf(id: string): Promise<{ event_type: string; details: any; changed_by: string }[]> {
+    const res = await request(app).get(`${BASE}/${id}/events`).set(owner.auth);
+    expect(res.status).toBe(200);
+    return res.body.events;
+  }
+
+  it('records activations on both profiles', async () => {
+    const first = await createProfile('first');
+    const second = await createProfile('second', false);
+
+    await request(app).post(`${BASE}/${second}/activate`).set(owner.auth);
+
+    expect((await eventsOf(second))[0]).toMatchObject({ event_type: 'activated', changed_by: 'owner@example.com' });
+    expect((await eventsOf(first))[0]).toMatchObject({ event_type: 'deactivated', details: { replaced_by: second } });
+  });
+
+  it('does not record activating the active profile again', async () => {
+    const id = await createProfile('first');
+
+    await request(app).post(`${BASE}/${id}/activate`).set(owner.auth);
+
+    expect((await eventsOf(id)).map(event => event.event_type)).toEqual(['activated']);
+  });
+
+  it('records renames', async () => {
+    const id = await createProfile('first');
+
+    await request(app).put(`${BASE}/${id}`).set(owner.auth).send({ name: 'renamed' });
+    await request(app).put(`${BASE}/${id}`).set(owner.auth).send({ bedroom_exact_match_bonus: 9 });
+
+    const renames = (await eventsOf(id)).filter(event => event.event_type === 'renamed');
+    expect(renames).toHaveLength(1);
+    expect(renames[0].details).toEqual({ name: { from: 'first', to: 'renamed' } });
+  });
+
+  it('keeps the history of a deleted profile', async () => {
+    await createProfile('active');
+    const id = await createProfile('retired', false);
+    await request(app).put(`${BASE}/${id}`).set(owner.auth).send({ bedroom_exact_match_bonus: 9 });
+
+    expect((await request(app).delete(`${BASE}/${id}`).set(owner.auth)).status).toBe(200);
+
+    expect((await request(app).get(`${BASE}/${id}`).set(owner.auth)).status).toBe(404);
+    const all = await request(app).get(`${BASE}/all`).set(owner.auth);
+    expect(all.body.map((profile: any) => profile.id)).not.toContain(id);
+
+    const versions = await request(app).get(`${BASE}/${id}/versions`).set(owner.auth);
+    expect(versions.body.total).toBe(2);
+    expect((await eventsOf(id))[0]).toMatchObject({ event_type: 'deleted', changed_by: 'owner@example.com' });
+
+    expect((await request(app).put(`${BASE}/${id}`).set(owner.auth).send({ name: 'revived' })).status).toBe(404);
+  });
+
+  it('gives concurrent saves consecutive versions', async () => {
+    const id = await createProfile('first');
+
+    const saves = await Promise.all(
+      [1, 2, 3].map(bonus => request(app).put(`${BASE}/${id}`).set(owner.auth).send({ bedroom_exact_match_bonus: bonus }))
+    );
+
+    expect(saves.map(res => res.status)).toEqual([200, 200, 200]);
+    expect(saves.map(res => res.body.version).sort()).toEqual([2, 3, 4]);
+  });
+});
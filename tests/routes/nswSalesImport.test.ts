@@ -0,0 +1,119 @@
+import request from 'supertest';
+import * as XLSX from 'xlsx';
+import app from '../../src/server';
+import * as historicProps from '../../src/repositories/historicPropRepository';
+import { createTestUser, TestUser } from '../support/users';
+
+const rows = [
+  { 'Unit': '', 'House Number': '12', 'Street': 'King St', 'Suburb': 'NEWTOWN', 'Postcode': '2042', 'Area': 250, 'Area Unit': 'M', 'Contract Date': '2026-02-01', 'Purchase Price': 1500000, 'Nature of Property': 'R', 'Primary Purpose': 'RESIDENCE' },
+  { 'Unit': '4', 'House Number': '7', 'Street': 'Wilson St', 'Suburb': 'NEWTOWN', 'Postcode': '2042', 'Area': '', 'Area Unit': '', 'Contract Date': '2026-01-20', 'Purchase Price': 720000, 'Nature of Property': 'S', 'Primary Purpose': '' },
+  { 'Unit': '', 'House Number': '3', 'Street': 'Illawarra Rd', 'Suburb': 'MARRICKVILLE', 'Postcode': '2204', 'Area': 400, 'Area Unit': 'M', 'Contract Date': '2026-01-05', 'Purchase Price': 1800000, 'Nature of Property': 'R', 'Primary Purpose': 'RESIDENCE' },
+  // No price: skipped
+  { 'Unit': '', 'House Number': '9', 'Street': 'Station St', 'Suburb': 'NEWTOWN', 'Postcode': '2042', 'Area': '', 'Area Unit': '', 'Contract Date': '2026-01-01', 'Purchase Price': '', 'Nature of Property': 'R', 'Primary Purpose': 'RESIDENCE' }
+];
+
+function workbook(records: Record<string, unknown>[]): Buffer {
+  const book = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(book, XLSX.utils.json_to_sheet(records), 'Sales');
+  return XLSX.write(book, { type: 'buffer', bookType: 'xlsx' });
+}
+
+function upload(path: string, user: TestUser, records = rows) {
+  return request(app).post(`/api/nsw-sales/${path}`).set(user.auth).attach('file', workbook(records), 'sales.xlsx');
+}
+
+describe('NSW sales import', () => {
+  let admin: TestUser;
+
+  beforeEach(async () => {
+    admin = await createTestUser('admin@example.com', ['admin']);
+  });
+
+  it('is restricted to admins', async () => {
+    const agent = await createTestUser('agent@example.com');
+
+    expect((await upload('import', agent)).status).toBe(403);
+    expect((await request(app).delete('/api/nsw-sales/clear').set(agent.auth)).status).toBe(403);
+  });
+
+  it('requires a file', async () => {
+    const res = await request(app).post('/api/nsw-sales/import').set(admin.auth);
+    expect(res.status).toBe(400);
+  });
+
+  it('previews a workbook without storing it', async () => {
+    const res = await upload('preview', admin);
+
+    expect(res.body).toMatchObject({ success: true, totalRows: 4, validRows: 3 });
+    expect(res.body.preview[1]).toMatchObject({ address: 'Unit 4 7 Wilson St, NEWTOWN, NSW 2042', propertyType: 'Unit' });
+    expect(res.body.stats).toMatchObject({ minPrice: 720000, maxPrice: 1800000, uniqueSuburbs: 2 });
+
+    const stats = await request(app).get('/api/nsw-sales/stats').set(admin.auth);
+    expect(stats.body.stats.total_records).toBe(0);
+  });
+
+  it('imports priced sales grouped by suburb', async () => {
+    const res = await upload('import', admin);
+
+    expect(res.body).toMatchObject({ success: true, imported: 3, total: 4, suburbsProcessed: 2 });
+
+    const stats = await request(app).get('/api/nsw-sales/stats').set(admin.auth);
+    expect(stats.body.stats).toMatchObject({ total_records: 3, unique_suburbs: 2, min_price: 720000, max_price: 1800000 });
+
+    const newtown = await request(app).get('/api/historic-sales-cache/nsw-data').query({ suburb: 'Newtown' });
+    expect(newtown.body).toMatchObject({ found: true, total: 2, source: 'nsw-valuer-general' });
+    expect(newtown.body.sales[0]).toMatchObject({ address: '12 King St, NEWTOWN, NSW 2042', land_area: 250, property_type: 'House' });
+
+    const units = await request(app).get('/api/historic-sales-cache/nsw-data').query({ suburb: 'newtown', propertyType: 'unit' });
+    expect(units.body.total).toBe(1);
+  });
+
+  it('skips sales already imported', async () => {
+    await upload('import', admin);
+
+    const again = await upload('import', admin);
+    expect(again.body).toMatchObject({ imported: 0, skipped: 3 });
+
+    const stats = await request(app).get('/api/nsw-sales/stats').set(admin.auth);
+    expect(stats.body.stats.total_records).toBe(3);
+  });
+
+  it('reports the unique sale index when deduping', async () => {
+    await upload('import', admin);
+
+    const res = await request(app).post('/api/nsw-sales/dedupe').set(admin.auth);
+    expect(res.body).toEqual({ success: true, duplicatesRemoved: 0, indexExists: true });
+  });
+
+  it('clears imported sales', async () => {
+    await upload('import', admin);
+
+    const res = await request(app).delete('/api/nsw-sales/clear').set(admin.auth);
+    expect(res.body).toEqual({ success: true, deleted: 3 });
+
+    const lookup = await request(app).get('/api/historic-sales-cache/nsw-data').query({ suburb: 'newtown' });
+    expect(lookup.body.found).toBe(false);
+  });
+
+  it('rolls back a suburb that fails part way and still imports the others', async () => {
+    const logged = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const insert = historicProps.insertHistoricProp;
+    // The second Newtown sale fails after the first was written
+    const inserts = jest.spyOn(historicProps, 'insertHistoricProp').mockImplementation(async (sale, ctx) => {
+      if (sale.address.includes('Wilson St')) throw new Error('Insert failed');
+      return insert(sale, ctx);
+    });
+
+    const res = await upload('import', admin);
+    inserts.mockRestore();
+    logged.mockRestore();
+
+    expect(res.body).toMatchObject({ success: true, imported: 1, skipped: 2 });
+    expect(res.body.errors).toEqual(['Suburb newtown-nsw-2042-all: Insert failed']);
+
+    const newtown = await request(app).get('/api/historic-sales-cache/nsw-data').query({ suburb: 'newtown' });
+    expect(newtown.body.found).toBe(false);
+    const marrickville = await request(app).get('/api/historic-sales-cache/nsw-data').query({ suburb: 'marrickville' });
+    expect(marrickville.body.total).toBe(1);
+  });
+});
@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import app from '../../src/server';
+import { clearJwksCache } from '../../src/services/oauthVerification';
+import { findUserByEmail } from '../../src/repositories/userRepository';
+import { hashPassword } from '../../src/utils/auth';
+import { createTestUser } from '../support/users';
+
+// A throwaway signing key per run, published as a JWKS file the verifier reads
+const KID = 'test-oauth-key';
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+let keysDir: string;
+
+function signIdToken(claims: Record<string, unknown>, key: crypto.KeyObject = privateKey): string {
+  return jwt.sign(claims, key, { algorithm: 'RS256', keyid: KID, expiresIn: 300 });
+}
+
+function googleToken(claims: Record<string, unknown> = {}): string {
+  return signIdToken({
+    iss: 'https://accounts.google.com',
+    aud: 'test-google-client',
+    sub: 'google-123',
+    email: 'person@example.com',
+    email_verified: true,
+    name: 'Person',
+    ...claims
+  });
+}
+
+const TENANT = '11111111-2222-3333-4444-555555555555';
+
+function microsoftToken(claims: Record<string, unknown> = {}): string {
+  return signIdToken({
+    iss: `https://login.microsoftonline.com/${TENANT}/v2.0`,
+    tid: TENANT,
+    aud: 'test-microsoft-client',
+    sub: 'microsoft-123',
+    email: 'person@example.com',
+    ...claims
+  });
+}
+
+beforeAll(() => {
+  keysDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oauth-keys-'));
+  const jwks = path.join(keysDir, 'jwks.json');
+  fs.writeFileSync(jwks, JSON.stringify({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KID, use: 'sig', alg: 'RS256' }] }));
+
+  process.env.GOOGLE_CLIENT_ID = 'test-google-client';
+  process.env.GOOGLE_JWKS_URI = jwks;
+  process.env.MICROSOFT_CLIENT_ID = 'test-microsoft-client';
+  process.env.MICROSOFT_JWKS_URI = jwks;
+});
+
+afterAll(() => {
+  fs.rmSync(keysDir, { recursive: true, force: true });
+  for (const name of ['GOOGLE_CLIENT_ID', 'GOOGLE_JWKS_URI', 'MICROSOFT_CLIENT_ID', 'MICROSOFT_JWKS_URI']) {
+    delete process.env[name];
+  }
+});
+
+beforeEach(() => {
+  clearJwksCache();
+});
+
+describe('OAuth sign-in', () => {
+  it('creates a verified user with the default role on first sign-in', async () => {
+    const res = await request(app).post('/api/auth/oauth/google').send({ id_token: googleToken() });
+
+    expect(res.status).toBe(201);
+    expect(res.body.user).toMatchObject({ email: 'person@example.com', email_verified: true, isNew: true });
+    expect(res.body.access_token).toBeDefined();
+    expect(res.body.refresh_token).toBeDefined();
+
+    const me = await request(app).get('/api/auth/me').set('Authorization', `Bearer ${res.body.access_token}`);
+    expect(me.status).toBe(200);
+    expect(me.body.roles).toEqual(['agent']);
+  });
+
+  it('signs a linked identity back in to the same user', async () => {
+    const first = await request(app).post('/api/auth/oauth/google').send({ id_token: googleToken() });
+    const again = await request(app).post('/api/auth/oauth-sync').send({ provider: 'google', id_token: googleToken({ email: 'renamed@example.com' }) });
+
+    expect(again.status).toBe(200);
+    expect(again.body.user).toMatchObject({ id: first.body.user.id, isNew: false });
+  });
+
+  it('rejects tokens for another audience', async () => {
+    const res = await request(app).post('/api/auth/oauth/google').send({ id_token: googleToken({ aud: 'someone-else' }) });
+    expect(res.status).toBe(401);
+  });
+
+  it('rejects tokens signed with a key the provider did not publish', async () => {
+    const { privateKey: otherKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const forged = signIdToken({ iss: 'https://accounts.google.com', aud: 'test-google-client', sub: 'x', email: 'admin@example.com', email_verified: true }, otherKey);
+
+    const res = await request(app).post('/api/auth/oauth/google').send({ id_token: forged });
+    expect(res.status).toBe(401);
+  });
+
+  it('rejects tokens from another issuer', async () => {
+    const res = await request(app).post('/api/auth/oauth/google').send({ id_token: googleToken({ iss: 'https://evil.example.com' }) });
+    expect(res.status).toBe(401);
+  });
+
+  it('does not link an unverified provider email to an existing account', async () => {
+    await createTestUser('person@example.com');
+
+    const res = await request(app).post('/api/auth/oauth/microsoft').send({ id_token: microsoftToken() });
+    expect(res.status).toBe(403);
+  });
+
+  it('links a verified email and clears the password of an unverified account', async () => {
+    const { user } = await createTestUser('person@example.com', ['agent'], { hashed_password: hashPassword('secret123'), email_verified: false });
+
+    const res = await request(app).post('/api/auth/oauth/google').send({ id_token: googleToken() });
+
+    expect(res.status).toBe(200);
+    expect(res.body.user).toMatchObject({ id: user.id, isNew: false, email_verified: true });
+    const stored = await findUserByEmail('person@example.com');
+    expect(stored!.hashed_password).toBe('');
+  });
+
+  it('trusts a Microsoft email only when the tenant owns its domain', async () => {
+    const res = await request(app).post('/api/auth/oauth/microsoft').send({ id_token: microsoftToken({ xms_edov: true }) });
+
+    expect(res.status).toBe(201);
+    expect(res.body.user.email_verified).toBe(true);
+  });
+
+  it('reports an unconfigured provider', async () => {
+    delete process.env.MICROSOFT_CLIENT_ID;
+    try {
+      const res = await request(app).post('/api/auth/oauth/microsoft').send({ id_token: microsoftToken() });
+      expect(res.status).toBe(503);
+    } finally {
+      process.env.MICROSOFT_CLIENT_ID = 'test-microsoft-client';
+    }
+  });
+
+  it('validates the request', async () => {
+    expect((await request(app).post('/api/auth/oauth/github').send({ id_token: 'x' })).status).toBe(400);
+    expect((await request(app).post('/api/auth/oauth/google').send({})).status).toBe(400);
+  });
+});
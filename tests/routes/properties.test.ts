@@ -0,0 +1,419 @@
+import request from 'supertest';
+import app from '../../src/server';
+import { execute } from '../../src/utils/database';
+import { createJob } from '../../src/services/evaluationJobs';
+import { importLegacyValuations } from '../../src/services/valuationHistory';
+import { createTestUser, TestUser } from '../support/users';
+
+const listing = {
+  beds: 3,
+  baths: 2,
+  carpark: 1,
+  location: '12 Smith St, Newtown, NSW 2042',
+  price: 1200000,
+  property_type: 'House'
+};
+
+async function createProperty(owner: TestUser, fields: Record<string, unknown> = {}): Promise<any> {
+  const res = await request(app).post('/api/properties').set(owner.auth).send({ ...listing, ...fields });
+  expect(res.status).toBe(201);
+  return res.body;
+}
+
+describe('properties CRUD', () => {
+  let agent: TestUser;
+
+  beforeEach(async () => {
+    agent = await createTestUser('agent@example.com');
+  });
+
+  it('requires a signed-in user', async () => {
+    const res = await request(app).get('/api/properties');
+    expect(res.status).toBe(401);
+  });
+
+  it('creates a property owned by the caller', async () => {
+    const property = await createProperty(agent);
+
+    expect(property.id).toBeDefined();
+    expect(property.user_email).toBe('agent@example.com');
+    expect(property.status).toBe('active');
+    expect(property.beds).toBe(3);
+    expect(property.images).toEqual([]);
+  });
+
+  it('refuses creation without the agent role', async () => {
+    const viewer = await createTestUser('viewer@example.com', ['viewer']);
+    const res = await request(app).post('/api/properties').set(viewer.auth).send(listing);
+    expect(res.status).toBe(403);
+  });
+
+  it('lists only the caller\'s properties', async () => {
+    const other = await createTestUser('other@example.com');
+    await createProperty(agent);
+    await createProperty(other, { location: '1 Other Rd, Marrickville, NSW 2204' });
+
+    const res = await request(app).get('/api/properties').set(agent.auth);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toHaveLength(1);
+    expect(res.body[0].user_email).toBe('agent@example.com');
+  });
+
+  it('lets admins list every property', async () => {
+    const admin = await createTestUser('admin@example.com', ['admin']);
+    await createProperty(agent);
+    await createProperty(admin);
+
+    const res = await request(app).get('/api/properties').set(admin.auth);
+    expect(res.body).toHaveLength(2);
+  });
+
+  it('reads, replaces and patches a property', async () => {
+    const { id } = await createProperty(agent);
+
+    const read = await request(app).get(`/api/properties/${id}`).set(agent.auth);
+    expect(read.status).toBe(200);
+    expect(read.body.location).toBe(listing.location);
+
+    const put = await request(app).put(`/api/properties/${id}`).set(agent.auth).send({ beds: 4, price: null });
+    expect(put.status).toBe(200);
+    expect(put.body.beds).toBe(4);
+    expect(put.body.price).toBe(1200000);
+
+    const patch = await request(app).patch(`/api/properties/${id}`).set(agent.auth).send({ is_favourite: true, tags: ['corner'] });
+    expect(patch.status).toBe(200);
+    expect(patch.body.is_favourite).toBe(true);
+    expect(patch.body.tags).toEqual(['corner']);
+  });
+
+  it('rejects a patch without allowed fields', async () => {
+    const { id } = await createProperty(agent);
+
+    const res = await request(app).patch(`/api/properties/${id}`).set(agent.auth).send({ user_email: 'me@example.com' });
+    expect(res.status).toBe(400);
+  });
+
+  it('keeps other users out of a property', async () => {
+    const { id } = await createProperty(agent);
+    const other = await createTestUser('other@example.com');
+
+    expect((await request(app).get(`/api/properties/${id}`).set(other.auth)).status).toBe(403);
+    expect((await request(app).put(`/api/properties/${id}`).set(other.auth).send({ beds: 1 })).status).toBe(403);
+    expect((await request(app).delete(`/api/properties/${id}`).set(other.auth)).status).toBe(403);
+  });
+
+  it('deletes a property', async () => {
+    const { id } = await createProperty(agent);
+
+    const res = await request(app).delete(`/api/properties/${id}`).set(agent.auth);
+    expect(res.status).toBe(200);
+
+    expect((await request(app).get(`/api/properties/${id}`).set(agent.auth)).status).toBe(404);
+  });
+});
+
+describe('mark-sold and resell', () => {
+  let agent: TestUser;
+  let propertyId: string;
+
+  beforeEach(async () => {
+    agent = await createTestUser('agent@example.com');
+    propertyId = (await createProperty(agent)).id;
+  });
+
+  it('requires a positive sold price', async () => {
+    const res = await request(app).post(`/api/properties/${propertyId}/mark-sold`).set(agent.auth).send({ sold_price: 'lots' });
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects a sale date that is not a calendar date', async () => {
+    for (const sale_date of ['last week', '2026-02-30', '05/03/2026']) {
+      const res = await request(app).post(`/api/properties/${propertyId}/mark-sold`).set(agent.auth).send({ sold_price: 1000000, sale_date });
+      expect(res.status).toBe(400);
+    }
+
+    const property = await request(app).get(`/api/properties/${propertyId}`).set(agent.auth);
+    expect(property.body.status).toBe('active');
+  });
+
+  it('marks a property sold and lists it with sold properties', async () => {
+    const res = await request(app)
+      .post(`/api/properties/${propertyId}/mark-sold`)
+      .set(agent.auth)
+      .send({ sold_price: 1250000, sale_date: '2026-03-01' });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ success: true, valuations_scored: 0, latest_valuation_accuracy: null });
+
+    const sold = await request(app).get('/api/properties/sold/list').set(agent.auth);
+    expect(sold.body.properties).toHaveLength(1);
+    expect(sold.body.properties[0]).toMatchObject({ id: propertyId, status: 'sold', sold_price: 1250000 });
+
+    const suburbs = await request(app).get('/api/properties/sold/suburbs').set(agent.auth);
+    expect(suburbs.body.suburbs).toEqual(['Newtown']);
+  });
+
+  it('scores earlier valuations against the sale price', async () => {
+    await request(app)
+      .post(`/api/properties/${propertyId}/save-evaluation`)
+      .set(agent.auth)
+      .send({
+        evaluation_report: 'Report',
+        valuation_entry: {
+          estimated_value: 1200000,
+          value_low: 1150000,
+          value_high: 1300000,
+          confidence_score: 70,
+          confidence_level: 'medium',
+          data_source: 'test',
+          comparables_count: 0
+        }
+      });
+
+    const res = await request(app)
+      .post(`/api/properties/${propertyId}/mark-sold`)
+      .set(agent.auth)
+      .send({ sold_price: 1250000 });
+
+    expect(res.body.valuations_scored).toBe(1);
+    expect(res.body.latest_valuation_accuracy).toMatchObject({
+      sold_price: 1250000,
+      error_amount: -50000,
+      within_range: true
+    });
+  });
+
+  it('puts a sold property back on the market', async () => {
+    await request(app).post(`/api/properties/${propertyId}/mark-sold`).set(agent.auth).send({ sold_price: 1250000 });
+
+    const res = await request(app).post(`/api/properties/${propertyId}/resell`).set(agent.auth);
+    expect(res.status).toBe(200);
+
+    const property = await request(app).get(`/api/properties/${propertyId}`).set(agent.auth);
+    expect(property.body).toMatchObject({ status: 'active', sold_price: null, sale_date: null });
+  });
+});
+
+describe('save-evaluation', () => {
+  let agent: TestUser;
+  let propertyId: string;
+
+  const entry = {
+    estimated_value: 1000000,
+    value_low: 950000,
+    value_high: 1050000,
+    confidence_score: 60,
+    confidence_level: 'medium',
+    data_source: 'test',
+    comparables_count: 0
+  };
+
+  beforeEach(async () => {
+    agent = await createTestUser('agent@example.com');
+    propertyId = (await createProperty(agent)).id;
+  });
+
+  it('requires a report', async () => {
+    const res = await request(app).post(`/api/properties/${propertyId}/save-evaluation`).set(agent.auth).send({});
+    expect(res.status).toBe(400);
+  });
+
+  it('stores the report and appends to the valuation history', async () => {
+    for (const estimated_value of [1000000, 1020000]) {
+      const res = await request(app)
+        .post(`/api/properties/${propertyId}/save-evaluation`)
+        .set(agent.auth)
+        .send({ evaluation_report: `Report ${estimated_value}`, evaluation_type: 'quick', valuation_entry: { ...entry, estimated_value } });
+      expect(res.status).toBe(200);
+      expect(res.body.estimated_value_range).toBe('$950,000 - $1,050,000');
+    }
+
+    const property = await request(app).get(`/api/properties/${propertyId}`).set(agent.auth);
+    expect(property.body.evaluation_report).toBe('Report 1020000');
+    expect(property.body.estimated_value_range).toBe('$950,000 - $1,050,000');
+
+    const history = await request(app).get(`/api/properties/${propertyId}/valuations`).set(agent.auth);
+    expect(history.body.valuations.map((v: any) => v.estimated_value)).toEqual([1000000, 1020000]);
+
+    const first = await request(app)
+      .get(`/api/properties/${propertyId}/valuations/${history.body.valuations[0].id}`)
+      .set(agent.auth);
+    expect(first.body).toMatchObject({ evaluation_report: 'Report 1000000', evaluation_type: 'quick', created_by: 'agent@example.com' });
+  });
+
+  it('computes confidence from the comparables instead of trusting the client', async () => {
+    const res = await request(app)
+      .post(`/api/properties/${propertyId}/save-evaluation`)
+      .set(agent.auth)
+      .send({
+        evaluation_report: 'Report',
+        confidence_scoring: { overall_score: 100, level: 'high' },
+        comparables_data: { comparable_sold: [] }
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.body.confidence_scoring.overall_score).not.toBe(100);
+  });
+
+  it('rejects an incomplete valuation entry before saving anything', async () => {
+    const { value_low, ...incomplete } = entry;
+
+    const res = await request(app)
+      .post(`/api/properties/${propertyId}/save-evaluation`)
+      .set(agent.auth)
+      .send({ evaluation_report: 'Report', valuation_entry: incomplete });
+
+    expect(res.status).toBe(400);
+    const property = await request(app).get(`/api/properties/${propertyId}`).set(agent.auth);
+    expect(property.body.evaluation_report).toBeFalsy();
+  });
+
+  it('imports a legacy valuation history once, outside the read path', async () => {
+    const legacy = [{ ...entry, date: '2025-01-10T00:00:00.000Z' }];
+    await execute(`UPDATE properties SET valuation_history = @history WHERE id = @propertyId`, { history: JSON.stringify(legacy), propertyId });
+
+    const before = await request(app).get(`/api/properties/${propertyId}/valuations`).set(agent.auth);
+    expect(before.body.valuations).toEqual([]);
+
+    expect(await importLegacyValuations()).toBe(1);
+    expect(await importLegacyValuations()).toBe(0);
+
+    const after = await request(app).get(`/api/properties/${propertyId}/valuations`).set(agent.auth);
+    expect(after.body.valuations).toHaveLength(1);
+    expect(after.body.valuations[0].notes).toBe('Imported from properties.valuation_history');
+  });
+
+  it('keeps a legacy entry when the first new evaluation is saved', async () => {
+    const legacy = [{ ...entry, date: '2025-01-10T00:00:00.000Z' }];
+    await execute(`UPDATE properties SET valuation_history = @history WHERE id = @propertyId`, { history: JSON.stringify(legacy), propertyId });
+
+    await request(app)
+      .post(`/api/properties/${propertyId}/save-evaluation`)
+      .set(agent.auth)
+      .send({ evaluation_report: 'Report', valuation_entry: { ...entry, estimated_value: 1020000 } });
+
+    const history = await request(app).get(`/api/properties/${propertyId}/valuations`).set(agent.auth);
+    expect(history.body.valuations.map((v: any) => v.estimated_value)).toEqual([1000000, 1020000]);
+  });
+
+  it('stores the structured valuation and its values on the property', async () => {
+    const structured_valuation = {
+      estimated_value: { conservative: 980000, market: 1020000, premium: 1060000 },
+      comparable_adjustments: [
+        { address: '14 Smith St, Newtown', sale_price: 1000000, sale_date: '2026-02-01', adjustments: [{ factor: 'Time', amount: 20000, reason: 'Growth' }], adjusted_price: 1020000 }
+      ],
+      adjustment_summary: 'One close sale',
+      market_insights: { buyer_demand: 'Strong', days_on_market: '21', price_trends: 'Rising' },
+      pricing_strategy: 'List at market',
+      summary: 'Solid family home'
+    };
+
+    const res = await request(app)
+      .post(`/api/properties/${propertyId}/save-evaluation`)
+      .set(agent.auth)
+      .send({ evaluation_report: 'Report', structured_valuation });
+    expect(res.status).toBe(200);
+
+    let property = await request(app).get(`/api/properties/${propertyId}`).set(agent.auth);
+    expect(property.body).toMatchObject({ value_conservative: 980000, value_market: 1020000, value_premium: 1060000, structured_valuation });
+
+    // A later evaluation without a structure keeps its own numbers and drops the old structure
+    await request(app)
+      .post(`/api/properties/${propertyId}/save-evaluation`)
+      .set(agent.auth)
+      .send({ evaluation_report: 'Report 2', valuation_entry: entry });
+
+    property = await request(app).get(`/api/properties/${propertyId}`).set(agent.auth);
+    expect(property.body).toMatchObject({ value_conservative: 950000, value_market: 1000000, value_premium: 1050000, structured_valuation: null });
+  });
+
+  it('rejects an invalid structured valuation', async () => {
+    const res = await request(app)
+      .post(`/api/properties/${propertyId}/save-evaluation`)
+      .set(agent.auth)
+      .send({ evaluation_report: 'Report', structured_valuation: { estimated_value: { market: 'high' } } });
+    expect(res.status).toBe(400);
+  });
+
+  describe('from an evaluation job', () => {
+    async function jobWithResult(owner: string | null): Promise<string> {
+      const job = await createJob(listing, owner);
+      await execute(
+        `INSERT INTO evaluation_job_results (job_id, result, created_at) VALUES (@jobId, @result, @now)`,
+        { jobId: job.job_id, result: JSON.stringify({ comparables_data: { comparable_sold: [], data_source: 'job' } }), now: new Date() }
+      );
+      return job.job_id;
+    }
+
+    it('uses the result of the caller\'s own job', async () => {
+      const job_id = await jobWithResult('agent@example.com');
+
+      const res = await request(app).post(`/api/properties/${propertyId}/save-evaluation`).set(agent.auth).send({ evaluation_report: 'Report', job_id });
+
+      expect(res.status).toBe(200);
+      const property = await request(app).get(`/api/properties/${propertyId}`).set(agent.auth);
+      expect(property.body.comparables_data.data_source).toBe('job');
+    });
+
+    it('does not reveal another user\'s job', async () => {
+      const job_id = await jobWithResult('other@example.com');
+
+      const res = await request(app).post(`/api/properties/${propertyId}/save-evaluation`).set(agent.auth).send({ evaluation_report: 'Report', job_id });
+
+      expect(res.status).toBe(404);
+      const property = await request(app).get(`/api/properties/${propertyId}`).set(agent.auth);
+      expect(property.body.evaluation_report).toBeFalsy();
+    });
+
+    it('rejects an unknown job', async () => {
+      const res = await request(app).post(`/api/properties/${propertyId}/save-evaluation`).set(agent.auth).send({ evaluation_report: 'Report', job_id: 'missing' });
+      expect(res.status).toBe(404);
+    });
+  });
+});
+
+describe('AUTH_COMPAT_MODE on properties', () => {
+  const asAgent = { 'X-User-Email': 'agent@example.com' };
+  let propertyId: string;
+
+  beforeEach(async () => {
+    process.env.AUTH_COMPAT_MODE = 'email-header';
+    const agent = await createTestUser('agent@example.com');
+    const other = await createTestUser('other@example.com');
+    propertyId = (await createProperty(agent)).id;
+    await createProperty(other);
+  });
+
+  afterEach(() => {
+    delete process.env.AUTH_COMPAT_MODE;
+  });
+
+  it('scopes the header user to their own properties', async () => {
+    const res = await request(app).get('/api/properties').set(asAgent);
+
+    expect(res.status).toBe(200);
+    expect(res.body.map((p: any) => p.user_email)).toEqual(['agent@example.com']);
+  });
+
+  it('enforces ownership on changes made through the header', async () => {
+    const asOther = { 'X-User-Email': 'other@example.com' };
+
+    expect((await request(app).patch(`/api/properties/${propertyId}`).set(asOther).send({ is_favourite: true })).status).toBe(403);
+    expect((await request(app).post(`/api/properties/${propertyId}/mark-sold`).set(asOther).send({ sold_price: 1000000 })).status).toBe(403);
+    expect((await request(app).delete(`/api/properties/${propertyId}`).set(asOther)).status).toBe(403);
+    expect((await request(app).patch(`/api/properties/${propertyId}`).set(asAgent).send({ is_favourite: true })).status).toBe(200);
+  });
+
+  it('rejects a header naming no active user', async () => {
+    const res = await request(app).get('/api/properties').set('X-User-Email', 'nobody@example.com');
+    expect(res.status).toBe(401);
+  });
+
+  it('ignores the header once compat mode is off', async () => {
+    delete process.env.AUTH_COMPAT_MODE;
+
+    const res = await request(app).get('/api/properties').set(asAgent);
+    expect(res.status).toBe(401);
+  });
+});
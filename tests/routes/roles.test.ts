@@ -0,0 +1,112 @@
+import request from 'supertest';
+import app from '../../src/server';
+import { findUserById } from '../../src/repositories/userRepository';
+import { createTestUser, TestUser } from '../support/users';
+
+describe('role management', () => {
+  let admin: TestUser;
+  let agent: TestUser;
+
+  beforeEach(async () => {
+    admin = await createTestUser('admin@example.com', ['admin']);
+    agent = await createTestUser('agent@example.com');
+  });
+
+  it('is only open to admins', async () => {
+    expect((await request(app).get('/api/admin/roles')).status).toBe(401);
+    expect((await request(app).get('/api/admin/roles').set(agent.auth)).status).toBe(403);
+
+    const res = await request(app).get('/api/admin/roles').set(admin.auth);
+    expect(res.body.roles).toEqual(['admin', 'agency_owner', 'agent', 'viewer']);
+  });
+
+  it('grants and revokes roles', async () => {
+    const granted = await request(app)
+      .post(`/api/admin/users/${agent.user.id}/roles`)
+      .set(admin.auth)
+      .send({ role: 'agency_owner' });
+    expect(granted.body.roles.sort()).toEqual(['agency_owner', 'agent']);
+
+    const audit = await request(app).get('/api/audit').set(agent.auth);
+    expect(audit.status).toBe(200);
+
+    const revoked = await request(app).delete(`/api/admin/users/${agent.user.id}/roles/agency_owner`).set(admin.auth);
+    expect(revoked.body.roles).toEqual(['agent']);
+
+    expect((await request(app).get('/api/audit').set(agent.auth)).status).toBe(403);
+  });
+
+  it('keeps the admin flag in step with the admin role', async () => {
+    await request(app).post(`/api/admin/users/${agent.user.id}/roles`).set(admin.auth).send({ role: 'admin' });
+    expect((await findUserById(agent.user.id))!.admin).toBe(true);
+
+    await request(app).delete(`/api/admin/users/${agent.user.id}/roles/admin`).set(admin.auth);
+    expect((await findUserById(agent.user.id))!.admin).toBe(false);
+  });
+
+  it('never removes the last admin', async () => {
+    const res = await request(app).delete(`/api/admin/users/${admin.user.id}/roles/admin`).set(admin.auth);
+
+    expect(res.status).toBe(400);
+    const roles = await request(app).get(`/api/admin/users/${admin.user.id}/roles`).set(admin.auth);
+    expect(roles.body.roles).toContain('admin');
+  });
+
+  it('validates the role and user', async () => {
+    expect((await request(app).post(`/api/admin/users/${agent.user.id}/roles`).set(admin.auth).send({ role: 'owner' })).status).toBe(400);
+    expect((await request(app).post('/api/admin/users/missing/roles').set(admin.auth).send({ role: 'agent' })).status).toBe(404);
+  });
+
+  it('lists users with their roles', async () => {
+    const res = await request(app).get('/api/auth/users').set(admin.auth);
+
+    expect(res.body.total).toBe(2);
+    const byEmail = Object.fromEntries(res.body.users.map((u: any) => [u.email, u.roles]));
+    expect(byEmail['agent@example.com']).toEqual(['agent']);
+    expect(res.body.users[0].hashed_password).toBeUndefined();
+  });
+});
+
+describe('AUTH_COMPAT_MODE', () => {
+  let admin: TestUser;
+
+  beforeEach(async () => {
+    process.env.AUTH_COMPAT_MODE = 'email-header';
+    admin = await createTestUser('admin@example.com', ['admin', 'agency_owner']);
+  });
+
+  afterEach(() => {
+    delete process.env.AUTH_COMPAT_MODE;
+  });
+
+  it('accepts the X-User-Email header on agent routes', async () => {
+    const res = await request(app).get('/api/properties').set('X-User-Email', 'admin@example.com');
+    expect(res.status).toBe(200);
+  });
+
+  it('never grants admin or agency_owner rights through the header', async () => {
+    const header = { 'X-User-Email': 'admin@example.com' };
+
+    const guarded = [
+      request(app).get('/api/admin/roles'),
+      request(app).post(`/api/admin/users/${admin.user.id}/roles`).send({ role: 'agent' }),
+      request(app).get('/api/auth/users'),
+      request(app).get('/api/audit'),
+      request(app).get('/api/settings/api-keys'),
+      request(app).put('/api/settings/api-keys').send({}),
+      request(app).delete('/api/nsw-sales/clear'),
+      request(app).post('/api/nsw-sales/dedupe'),
+      request(app).post('/api/historic-sales-weights/reset')
+    ];
+
+    for (const req of guarded) {
+      const res = await req.set(header);
+      expect(res.status).toBe(401);
+    }
+  });
+
+  it('still accepts a bearer token on those routes', async () => {
+    const res = await request(app).get('/api/admin/roles').set(admin.auth);
+    expect(res.status).toBe(200);
+  });
+});
@@ -0,0 +1,109 @@
+import request from 'supertest';
+import app from '../../src/server';
+import { hashPassword } from '../../src/utils/auth';
+import { createTestUser } from '../support/users';
+
+const credentials = { email: 'agent@example.com', password: 'secret123' };
+
+async function login(userAgent = 'laptop') {
+  const res = await request(app).post('/api/auth/login').set('User-Agent', userAgent).send(credentials);
+  expect(res.status).toBe(200);
+  return {
+    access: { Authorization: `Bearer ${res.body.access_token}` },
+    refreshToken: res.body.refresh_token as string,
+    sessionId: res.body.session_id as string
+  };
+}
+
+function refresh(refreshToken: string) {
+  return request(app).post('/api/auth/refresh').send({ refresh_token: refreshToken });
+}
+
+describe('sessions', () => {
+  beforeEach(async () => {
+    await createTestUser('agent@example.com', ['agent'], { hashed_password: hashPassword('secret123') });
+  });
+
+  it('rotates the refresh token on every refresh', async () => {
+    const { refreshToken, sessionId } = await login();
+
+    const first = await refresh(refreshToken);
+    expect(first.status).toBe(200);
+    expect(first.body.session_id).toBe(sessionId);
+    expect(first.body.refresh_token).not.toBe(refreshToken);
+
+    const second = await refresh(first.body.refresh_token);
+    expect(second.status).toBe(200);
+    expect((await request(app).get('/api/auth/me').set({ Authorization: `Bearer ${second.body.access_token}` })).status).toBe(200);
+  });
+
+  it('revokes the session when a rotated refresh token is reused', async () => {
+    const { access, refreshToken } = await login();
+    const rotated = await refresh(refreshToken);
+
+    const reused = await refresh(refreshToken);
+    expect(reused.status).toBe(401);
+
+    // Both the thief's and the owner's tokens stop working
+    expect((await refresh(rotated.body.refresh_token)).status).toBe(401);
+    expect((await request(app).get('/api/auth/me').set(access)).status).toBe(401);
+  });
+
+  it('ends the session on logout with either token', async () => {
+    const byRefresh = await login();
+    expect((await request(app).post('/api/auth/logout').send({ refresh_token: byRefresh.refreshToken })).body).toEqual({ success: true });
+    expect((await request(app).get('/api/auth/me').set(byRefresh.access)).status).toBe(401);
+    expect((await refresh(byRefresh.refreshToken)).status).toBe(401);
+
+    const byBearer = await login();
+    expect((await request(app).post('/api/auth/logout').set(byBearer.access)).status).toBe(200);
+    expect((await refresh(byBearer.refreshToken)).status).toBe(401);
+  });
+
+  it('lists and revokes a single session', async () => {
+    const laptop = await login('laptop');
+    const phone = await login('phone');
+
+    const list = await request(app).get('/api/auth/sessions').set(laptop.access);
+    expect(list.body.total).toBe(3); // Including the one createTestUser started
+    expect(list.body.sessions.find((s: any) => s.current).id).toBe(laptop.sessionId);
+
+    expect((await request(app).delete(`/api/auth/sessions/${phone.sessionId}`).set(laptop.access)).status).toBe(200);
+    expect((await request(app).get('/api/auth/me').set(phone.access)).status).toBe(401);
+    expect((await request(app).get('/api/auth/me').set(laptop.access)).status).toBe(200);
+  });
+
+  it('records the address the front end saw, not one the client forwarded', async () => {
+    const res = await request(app)
+      .post('/api/auth/login')
+      .set('X-Forwarded-For', '203.0.113.9, 198.51.100.7')
+      .send(credentials);
+    const list = await request(app).get('/api/auth/sessions').set({ Authorization: `Bearer ${res.body.access_token}` });
+
+    expect(list.body.sessions.find((s: any) => s.current).ip_address).toBe('198.51.100.7');
+  });
+
+  it('does not revoke another user\'s session', async () => {
+    const own = await login();
+    const other = await createTestUser('other@example.com');
+    const list = await request(app).get('/api/auth/sessions').set(other.auth);
+
+    const res = await request(app).delete(`/api/auth/sessions/${list.body.sessions[0].id}`).set(own.access);
+
+    expect(res.status).toBe(404);
+    expect((await request(app).get('/api/auth/me').set(other.auth)).status).toBe(200);
+  });
+
+  it('revokes every session, optionally keeping the current one', async () => {
+    const laptop = await login('laptop');
+    const phone = await login('phone');
+
+    const kept = await request(app).delete('/api/auth/sessions').query({ keep_current: 'true' }).set(laptop.access);
+    expect(kept.body).toEqual({ success: true, revoked: 2 });
+    expect((await request(app).get('/api/auth/me').set(phone.access)).status).toBe(401);
+    expect((await request(app).get('/api/auth/me').set(laptop.access)).status).toBe(200);
+
+    await request(app).delete('/api/auth/sessions').set(laptop.access);
+    expect((await request(app).get('/api/auth/me').set(laptop.access)).status).toBe(401);
+  });
+});
@@ -0,0 +1,46 @@
+import { scoreComparable } from '../../src/services/comparableScoring';
+import { DEFAULT_HISTORIC_SALES_WEIGHTS, HistoricProp, ScoringSubject } from '../../src/models/types';
+
+const KM_PER_DEGREE = 6371 * (Math.PI / 180);
+const subject: ScoringSubject = { latitude: -33.9, longitude: 151.18 };
+
+// A sale due north of the subject, with nothing else known about it
+function saleAt(km: number): HistoricProp {
+  return { latitude: subject.latitude! + km / KM_PER_DEGREE, longitude: subject.longitude } as HistoricProp;
+}
+
+function distanceFactor(km: number) {
+  return scoreComparable(subject, saleAt(km), DEFAULT_HISTORIC_SALES_WEIGHTS).breakdown.distance;
+}
+
+describe('distance scoring', () => {
+  it.each([
+    [0.1, 40, 'Ultra close'],
+    [0.3, 30, 'Very close'],
+    [0.45, 15, 'Close'],
+    [0.8, -8, 'Moderate distance'],
+    [1.5, -15, 'Far'],
+    [3.5, -20, 'Distant'],
+    [8, -25, 'Very far']
+  ])('scores a sale %skm away at %s', (km, adjustment, label) => {
+    const factor = distanceFactor(km);
+
+    expect(factor.adjustment).toBe(adjustment);
+    expect(factor.detail.startsWith(`${label} (`)).toBe(true);
+  });
+
+  it('applies the far threshold from the weights', () => {
+    const weights = { ...DEFAULT_HISTORIC_SALES_WEIGHTS, distance_far_threshold_km: 4 };
+    const factor = scoreComparable(subject, saleAt(3.5), weights).breakdown.distance;
+
+    expect(factor).toEqual({ adjustment: -15, detail: 'Far (3.5km)' });
+  });
+
+  it('ramps the penalty between the far and very far thresholds', () => {
+    const penalties = [2.5, 3, 4, 4.9].map(km => -distanceFactor(km).adjustment);
+
+    expect(penalties).toEqual([...penalties].sort((a, b) => a - b));
+    expect(penalties[0]).toBeGreaterThanOrEqual(15);
+    expect(penalties[3]).toBeLessThanOrEqual(25);
+  });
+});
@@ -0,0 +1,67 @@
+import { mergeComparables } from '../../src/services/comparablesMerge';
+import { ComparableProperty } from '../../src/models/types';
+
+function sale(source: string, fields: Partial<ComparableProperty> = {}): ComparableProperty {
+  return {
+    id: `${source}-1`,
+    address: '12 King Street, Newtown NSW 2042',
+    price: 1500000,
+    beds: 3,
+    baths: null,
+    carpark: null,
+    property_type: 'House',
+    sold_date: '2026-03-01',
+    source,
+    ...fields
+  };
+}
+
+describe('mergeComparables', () => {
+  it('collapses one sale reported by several sources', () => {
+    const { comparables, summary } = mergeComparables([
+      [sale('domain')],
+      [sale('homely', { address: '12 King St, Newtown', sold_date: '2026-03-20', baths: 2 })]
+    ]);
+
+    expect(summary).toMatchObject({ raw_count: 2, merged_count: 1, duplicates_removed: 1 });
+    expect(comparables[0]).toMatchObject({ sources: ['domain', 'homely'], baths: 2, sold_date: '2026-03-01' });
+    expect(comparables[0].field_sources).toMatchObject({ price: 'domain', baths: 'homely' });
+  });
+
+  it('keeps sales of the same address far apart in time', () => {
+    const { comparables } = mergeComparables([[sale('domain')], [sale('homely', { sold_date: '2024-03-01' })]]);
+    expect(comparables).toHaveLength(2);
+  });
+
+  it('does not merge a sale whose date is unknown', () => {
+    const { comparables } = mergeComparables([
+      [sale('domain')],
+      [sale('homely', { sold_date: 'Recently' }), sale('nsw', { sold_date: undefined })]
+    ]);
+    expect(comparables).toHaveLength(3);
+  });
+
+  it('keeps the same street address in different suburbs apart', () => {
+    const { comparables } = mergeComparables([
+      [sale('domain')],
+      [sale('homely', { address: '12 King St, Enmore NSW 2042' }), sale('nsw', { address: '12 King Street, 2204' })]
+    ]);
+    expect(comparables).toHaveLength(3);
+  });
+
+  it('merges current listings of the same address at about the same price', () => {
+    const { comparables } = mergeComparables([
+      [sale('domain', { listing_type: 'listing', sold_date: undefined })],
+      [sale('homely', { listing_type: 'listing', sold_date: undefined, price: 1450000 })]
+    ]);
+    expect(comparables).toHaveLength(1);
+  });
+
+  it('keeps listings of the same address at different prices apart', () => {
+    const { comparables } = mergeComparables([
+      [sale('domain', { listing_type: 'listing', sold_date: undefined })],
+      [sale('homely', { listing_type: 'listing', sold_date: undefined, price: 950000 })]
+    ]);
+    expect(comparables).toHaveLength(2);
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  ApiKeys,
+  ComparablesProvider,
+  ComparablesQuery,
+  fetchComparables,
+  fromDomainProperty,
+  fromScrapedProperty,
+  getProvider,
+  normaliseProviderSettings,
+  registerProvider,
+  toComparable
+} from '../../src/services/comparablesProviders';
+
+const query: ComparablesQuery = { location: '12 King St, Newtown NSW 2042', beds: 3, baths: 2, property_type: 'House' };
+const noKeys: ApiKeys = { domain_api_key: null, corelogic_client_key: null, corelogic_secret_key: null };
+
+// A provider reporting the same sale as the others, with its own beds count
+function stubProvider(id: string, beds: number, requiresKeys: (keyof ApiKeys)[] = []): ComparablesProvider & { fetch: jest.Mock } {
+  const sold = toComparable(id, 'sold', {
+    address: '12 King Street, Newtown NSW 2042',
+    price: 1500000,
+    beds,
+    property_type: 'House',
+    sold_date: '2026-03-01'
+  })!;
+  const provider = {
+    id,
+    name: `Stub ${id}`,
+    capabilities: { sold: true, listings: false, avm: false, requires_keys: requiresKeys },
+    fetch: jest.fn(async () => ({ sold: [sold], listings: [] }))
+  };
+  registerProvider(provider);
+  return provider;
+}
+
+describe('comparables providers', () => {
+  it('registers the built-in sources', () => {
+    for (const id of ['corelogic', 'domain', 'historic', 'scraper']) {
+      expect(getProvider(id)).not.toBeNull();
+    }
+    expect(getProvider('homely')).toBeNull();
+  });
+
+  it('fills the saved order with registered providers and drops unknown ones', () => {
+    stubProvider('alpha', 3);
+
+    const settings = normaliseProviderSettings({ order: ['scraper', 'gone', 'scraper'], enabled: { scraper: false } });
+
+    expect(settings.order).toEqual(['scraper', 'corelogic', 'domain', 'historic', 'alpha']);
+    expect(settings.enabled).toEqual({ scraper: false, corelogic: true, domain: true, historic: true, alpha: true });
+  });
+
+  it('merges in the order from the settings', async () => {
+    stubProvider('alpha', 3);
+    stubProvider('beta', 4);
+
+    const first = await fetchComparables(query, {
+      apiKeys: noKeys,
+      settings: { order: ['beta', 'alpha'], enabled: { alpha: true, beta: true } }
+    });
+    expect(first.comparable_sold).toHaveLength(1);
+    expect(first.comparable_sold[0]).toMatchObject({ beds: 4, sources: ['beta', 'alpha'] });
+
+    const second = await fetchComparables(query, {
+      apiKeys: noKeys,
+      settings: { order: ['alpha', 'beta'], enabled: { alpha: true, beta: true } }
+    });
+    expect(second.comparable_sold[0]).toMatchObject({ beds: 3, sources: ['alpha', 'beta'] });
+  });
+
+  it('never calls a disabled provider and skips one without its keys', async () => {
+    const alpha = stubProvider('alpha', 3);
+    const beta = stubProvider('beta', 4);
+    const gamma = stubProvider('gamma', 5, ['domain_api_key']);
+
+    const data = await fetchComparables(query, {
+      apiKeys: noKeys,
+      settings: { order: ['alpha', 'beta', 'gamma'], enabled: { alpha: true, beta: false, gamma: true } }
+    });
+
+    expect(alpha.fetch).toHaveBeenCalled();
+    expect(beta.fetch).not.toHaveBeenCalled();
+    expect(gamma.fetch).not.toHaveBeenCalled();
+    expect(data.data_source).toBe('alpha');
+    expect(data.providers).toEqual([
+      { provider: 'alpha', status: 'succeeded', comparables: 1 },
+      { provider: 'gamma', status: 'skipped', comparables: 0, error: 'Not configured' }
+    ]);
+  });
+});
+
+describe('source adapters', () => {
+  it('keeps the sale date of Domain sold results only', () => {
+    const property = { address: '3 Main Rd, Glebe NSW 2037', price: 900000, beds: 2, baths: 1, cars: 1, property_type: 'Unit', sold_date: '2026-01-10' };
+
+    expect(fromDomainProperty(property, 'sold')).toMatchObject({ source: 'domain', listing_type: 'sold', sold_date: '2026-01-10', carpark: 1 });
+    expect(fromDomainProperty(property, 'listing')!.sold_date).toBeUndefined();
+    expect(fromDomainProperty({ ...property, price: null }, 'sold')).toBeNull();
+  });
+
+  it('reads the listing type from scraped rows and drops placeholder addresses', () => {
+    const scraped = { address: '3 Main Rd, Glebe NSW 2037', price: 900000, beds: 2, baths: 1, cars: null, property_type: 'unit', listing_type: 'For Sale', source: 'Realestate.com.au' };
+
+    expect(fromScrapedProperty(scraped)).toMatchObject({ source: 'scraper', listing_type: 'listing' });
+    expect(fromScrapedProperty({ ...scraped, listing_type: 'Sold', sold_date: 'Recently' })).toMatchObject({ listing_type: 'sold', sold_date: 'Recently' });
+    expect(fromScrapedProperty({ ...scraped, address: 'Property in glebe' })).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+import { computeConfidenceScoring } from '../../src/services/confidenceScoring';
+import { ComparableProperty, StatisticalValuation } from '../../src/models/types';
+
+const subject = { beds: 3, baths: 2, latitude: -33.9, longitude: 151.18 };
+
+function comps(count: number, fields: Partial<ComparableProperty> = {}, prices: number[] = []): ComparableProperty[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: String(i + 1),
+    address: `${i + 1} King Street, Newtown NSW 2042`,
+    price: prices[i] ?? 1000000,
+    beds: 3,
+    baths: 2,
+    carpark: null,
+    property_type: 'House',
+    listing_type: 'sold' as const,
+    ...fields
+  }));
+}
+
+describe('confidence bands', () => {
+  it('is high with plenty of recent, close, similar and consistent sales', () => {
+    const scoring = computeConfidenceScoring(subject, comps(8, { months_since_sale: 2, distance_km: 0.2, similarity_score: 130 }), null);
+
+    expect(scoring.overall_score).toBe(99);
+    expect(scoring.level).toBe('high');
+    expect(scoring.recommendations).toEqual([]);
+  });
+
+  it('is medium with a few year-old sales a couple of kilometres away', () => {
+    const scoring = computeConfidenceScoring(
+      subject,
+      comps(3, { months_since_sale: 12, distance_km: 2, similarity_score: 104 }, [900000, 1000000, 1100000]),
+      null
+    );
+
+    expect(scoring.factors).toMatchObject({
+      comparables_count: { score: 50 },
+      data_recency: { score: 57 },
+      location_match: { score: 60 },
+      property_similarity: { score: 80 },
+      price_consistency: { score: 67, description: 'Prices vary by ±8%' }
+    });
+    expect(scoring.overall_score).toBe(62);
+    expect(scoring.level).toBe('medium');
+    expect(scoring.recommendations).toEqual(['Only 0 sales in the last 6 months - widen to a neighbouring suburb']);
+  });
+
+  it('is low without comparables', () => {
+    const scoring = computeConfidenceScoring(subject, [], null);
+
+    expect(scoring.overall_score).toBe(0);
+    expect(scoring.level).toBe('low');
+    expect(scoring.recommendations[0]).toMatch(/^No comparable sales found/);
+  });
+
+  it('is low from one old sale of unknown distance', () => {
+    const scoring = computeConfidenceScoring(
+      { beds: 3, baths: 2, neighbouring_suburb: 'Enmore' },
+      comps(1, { sold_date: '2024-01-15', is_neighbouring: true }),
+      null,
+      new Date('2026-01-15')
+    );
+
+    expect(scoring.factors.data_recency.score).toBe(0);
+    expect(scoring.factors.location_match).toMatchObject({ score: 0, description: '0 of 1 in the subject suburb (distances unknown)' });
+    expect(scoring.level).toBe('low');
+    expect(scoring.recommendations).toEqual([
+      'Only 0 sales in the last 6 months - import recent sales for this suburb and Enmore',
+      'Only 1 comparable sale - treat the estimate as indicative',
+      "Add the property's coordinates so comparables can be ranked by distance"
+    ]);
+  });
+
+  it('scores only the sold comparables the valuation kept', () => {
+    const sold = comps(3, { months_since_sale: 2, distance_km: 0.2 });
+    const listing = { ...comps(1)[0], id: 'listing', listing_type: 'listing' as const };
+    const valuation = {
+      comparables: sold.map((c, i) => ({ comparable_id: c.id, included: i < 2, similarity_score: 130, adjusted_price: 1000000 }))
+    } as unknown as StatisticalValuation;
+
+    const scoring = computeConfidenceScoring(subject, [...sold, listing], valuation);
+
+    expect(scoring.factors.comparables_count.description).toBe('2 comparable sales used');
+  });
+});
@@ -0,0 +1,118 @@
+import { execute } from '../../src/utils/database';
+import {
+  cancelJob,
+  createJob,
+  drainQueue,
+  getJob,
+  getJobResult,
+  JobProcessor,
+  recoverOrphanedJobs,
+  registerJobProcessor,
+  updateJobStage
+} from '../../src/services/evaluationJobs';
+import { PropertyCreate } from '../../src/models/types';
+
+const property: PropertyCreate = { beds: 3, baths: 2, carpark: 1, location: '12 King St, Newtown NSW 2042' };
+
+function minutesAgo(minutes: number): Date {
+  return new Date(Date.now() - minutes * 60 * 1000);
+}
+
+async function runJob(processor: JobProcessor): Promise<string> {
+  const job = await createJob(property, 'agent@example.com');
+  registerJobProcessor(processor);
+  await drainQueue();
+  return job.job_id;
+}
+
+describe('evaluation job queue', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('stores the result with the completed status', async () => {
+    const jobId = await runJob(async () => ({ estimated_value: 1500000 }));
+
+    expect((await getJob(jobId))!.status).toBe('completed');
+    expect(await getJobResult(jobId)).toEqual({ estimated_value: 1500000 });
+  });
+
+  it('discards the result of a job cancelled while it ran', async () => {
+    const jobId = await runJob(async job => {
+      await cancelJob(job.job_id);
+      return { estimated_value: 1500000 };
+    });
+
+    expect((await getJob(jobId))!.status).toBe('cancelled');
+    expect(await getJobResult(jobId)).toBeNull();
+  });
+
+  it('requeues only jobs whose lease has lapsed', async () => {
+    const stale = await createJob(property);
+    const live = await createJob(property);
+    await execute(`UPDATE evaluation_jobs SET status = 'in_progress', attempts = 1, updated_at = @at WHERE job_id = @jobId`, { jobId: stale.job_id, at: minutesAgo(20) });
+    await execute(`UPDATE evaluation_jobs SET status = 'in_progress', attempts = 1, updated_at = @at WHERE job_id = @jobId`, { jobId: live.job_id, at: minutesAgo(1) });
+
+    expect(await recoverOrphanedJobs()).toBe(1);
+    expect((await getJob(stale.job_id))!.status).toBe('queued');
+    expect((await getJob(live.job_id))!.status).toBe('in_progress');
+  });
+
+  it('checks just the given job when asked', async () => {
+    const polled = await createJob(property);
+    const other = await createJob(property);
+    for (const job of [polled, other]) {
+      await execute(`UPDATE evaluation_jobs SET status = 'in_progress', attempts = 1, updated_at = @at WHERE job_id = @jobId`, { jobId: job.job_id, at: minutesAgo(20) });
+    }
+
+    expect(await recoverOrphanedJobs(polled.job_id)).toBe(1);
+    expect((await getJob(polled.job_id))!.status).toBe('queued');
+    expect((await getJob(other.job_id))!.status).toBe('in_progress');
+  });
+
+  it('keeps renewing the lease of a slow job', async () => {
+    jest.useFakeTimers();
+    let recovered = -1;
+
+    const jobId = await runJob(async job => {
+      // A stage that has been running longer than the orphan timeout
+      await execute(`UPDATE evaluation_jobs SET updated_at = @at WHERE job_id = @jobId`, { jobId: job.job_id, at: minutesAgo(20) });
+      jest.advanceTimersByTime(60 * 1000);
+      recovered = await recoverOrphanedJobs();
+      return { estimated_value: 1500000 };
+    });
+
+    expect(recovered).toBe(0);
+    expect((await getJob(jobId))!.status).toBe('completed');
+  });
+
+  it('does not let a worker that lost its lease complete the job', async () => {
+    const jobId = await runJob(async job => {
+      if (job.attempts === 1) {
+        await execute(`UPDATE evaluation_jobs SET updated_at = @at WHERE job_id = @jobId`, { jobId: job.job_id, at: minutesAgo(20) });
+        await recoverOrphanedJobs();
+      }
+      return { estimated_value: 1500000 };
+    });
+
+    // Requeued by recovery, then claimed again and finished on the second attempt
+    const job = await getJob(jobId);
+    expect(job!.attempts).toBe(2);
+    expect(job!.status).toBe('completed');
+  });
+
+  it('stops a worker that lost its lease at its next stage update', async () => {
+    const stages: string[] = [];
+    const jobId = await runJob(async job => {
+      if (job.attempts === 1) {
+        await execute(`UPDATE evaluation_jobs SET status = 'queued', worker_id = 'other' WHERE job_id = @jobId`, { jobId: job.job_id });
+      }
+      await updateJobStage(job.job_id, 'valuing');
+      stages.push(`valuing on attempt ${job.attempts}`);
+      return { estimated_value: 1500000 };
+    });
+
+    expect(stages).toEqual(['valuing on attempt 2']);
+    expect((await getJob(jobId))!.status).toBe('completed');
+  });
+});
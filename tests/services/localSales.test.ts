@@ -0,0 +1,74 @@
+import { findLocalSales, LocalSalesQuery } from '../../src/services/localSales';
+import { insertHistoricProp, NewHistoricProp } from '../../src/repositories/historicPropRepository';
+
+const query: LocalSalesQuery = { location: '12 King Street, Newtown NSW 2042', beds: 3, baths: 2, property_type: 'House' };
+
+function monthsAgo(months: number): Date {
+  const date = new Date();
+  date.setMonth(date.getMonth() - months);
+  return date;
+}
+
+async function sale(address: string, fields: Partial<NewHistoricProp> = {}) {
+  await insertHistoricProp({
+    address,
+    price: 1500000,
+    beds: 3,
+    baths: 2,
+    property_type: 'House',
+    sold_date_raw: monthsAgo(3).toISOString(),
+    source: 'nsw-valuer-general',
+    source_suburb: 'NEWTOWN',
+    ...fields
+  });
+}
+
+async function addresses(matches: Promise<{ comparable: { address: string } }[]>): Promise<string[]> {
+  return (await matches).map(m => m.comparable.address);
+}
+
+describe('local sales matching', () => {
+  it('matches recent sales of the same density in the subject suburb', async () => {
+    await sale('14 King St, Newtown');
+    await sale('3/20 King St, Newtown', { property_type: 'Unit' });
+    await sale('30 King St, Newtown', { sold_date_raw: monthsAgo(30).toISOString() });
+    await sale('5 Station St, Petersham', { source_suburb: 'PETERSHAM' });
+    await sale('40 King St, Newtown', { price: null });
+
+    expect(await addresses(findLocalSales(query))).toEqual(['14 King St, Newtown']);
+  });
+
+  it("leaves out the subject's own sale but keeps units at its number", async () => {
+    await sale('12 King St, Newtown');
+    await sale('Unit 12 King St, Newtown', { property_type: 'House' });
+
+    expect(await addresses(findLocalSales(query))).toEqual(['Unit 12 King St, Newtown']);
+  });
+
+  it('adds the neighbouring suburb and flags its sales', async () => {
+    await sale('14 King St, Newtown');
+    await sale('5 Station St, Enmore', { source_suburb: 'ENMORE' });
+
+    const matches = await findLocalSales({ ...query, neighbouring_suburb: 'Enmore' });
+
+    expect(matches.map(m => [m.comparable.address, m.comparable.is_neighbouring])).toEqual([
+      ['14 King St, Newtown', false],
+      ['5 Station St, Enmore', true]
+    ]);
+  });
+
+  it('ranks closer matches first and honours the lookback and limit', async () => {
+    await sale('14 King St, Newtown', { beds: 5, baths: 1 });
+    await sale('16 King St, Newtown');
+    await sale('18 King St, Newtown', { sold_date_raw: monthsAgo(10).toISOString() });
+
+    expect(await addresses(findLocalSales(query))).toEqual(['16 King St, Newtown', '18 King St, Newtown', '14 King St, Newtown']);
+    expect(await addresses(findLocalSales(query, { lookbackMonths: 6, limit: 1 }))).toEqual(['16 King St, Newtown']);
+  });
+
+  it('needs a suburb to search', async () => {
+    await sale('14 King St, Newtown');
+
+    expect(await findLocalSales({ ...query, location: '' })).toEqual([]);
+  });
+});
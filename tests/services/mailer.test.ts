@@ -0,0 +1,87 @@
+type Mailer = typeof import('../../src/services/mailer');
+
+const message = {
+  to: 'agent@example.com',
+  subject: 'Reset your password',
+  text: 'Choose a new one here: https://app.example.com/reset-password?token=secret-token'
+};
+
+describe('mailer', () => {
+  const savedEnv = { ...process.env };
+  const savedFetch = globalThis.fetch;
+
+  // A fresh copy of the module, so each test resolves the transport from its own environment
+  function loadMailer(): Mailer {
+    let mailer: Mailer | undefined;
+    jest.isolateModules(() => {
+      mailer = require('../../src/services/mailer');
+    });
+    return mailer!;
+  }
+
+  afterEach(() => {
+    globalThis.fetch = savedFetch;
+    process.env = { ...savedEnv };
+  });
+
+  it('never logs the message body', async () => {
+    await loadMailer().sendMail(message);
+
+    const logged = (console.log as jest.Mock).mock.calls.flat().join('\n');
+    expect(logged).toContain('agent@example.com');
+    expect(logged).not.toContain('secret-token');
+  });
+
+  it.each([undefined, 'console', 'file'])('refuses MAIL_TRANSPORT=%s in production', transport => {
+    process.env.NODE_ENV = 'production';
+    if (transport) process.env.MAIL_TRANSPORT = transport;
+
+    expect(() => loadMailer().getMailTransport()).toThrow(/production/);
+  });
+
+  it('fails the send, not the import, without a production transport', async () => {
+    process.env.NODE_ENV = 'production';
+    const mailer = loadMailer();
+
+    await expect(mailer.sendMail(message)).rejects.toThrow(/MAIL_TRANSPORT=console/);
+  });
+
+  it('accepts a transport set in code in production', () => {
+    process.env.NODE_ENV = 'production';
+    const mailer = loadMailer();
+    mailer.setMailTransport({ name: 'provider', send: async () => undefined });
+
+    expect(mailer.getMailTransport().name).toBe('provider');
+  });
+
+  it('posts messages to the configured mail API', async () => {
+    process.env.NODE_ENV = 'production';
+    process.env.MAIL_TRANSPORT = 'http';
+    process.env.MAIL_HTTP_URL = 'https://mail.example.com/emails';
+    process.env.MAIL_API_KEY = 'mail-key';
+    const send = jest.fn(async () => new Response('{}', { status: 200 }));
+    globalThis.fetch = send as unknown as typeof fetch;
+
+    await loadMailer().sendMail(message);
+
+    const [url, init] = send.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://mail.example.com/emails');
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer mail-key');
+    expect(JSON.parse(init.body as string)).toMatchObject({ to: ['agent@example.com'], subject: 'Reset your password' });
+  });
+
+  it('reports a send the mail API rejected', async () => {
+    process.env.MAIL_TRANSPORT = 'http';
+    process.env.MAIL_HTTP_URL = 'https://mail.example.com/emails';
+    process.env.MAIL_API_KEY = 'mail-key';
+    globalThis.fetch = (async () => new Response('invalid sender', { status: 422 })) as typeof fetch;
+
+    await expect(loadMailer().sendMail(message)).rejects.toThrow(/422/);
+  });
+
+  it('needs a URL and key for the http transport', () => {
+    process.env.MAIL_TRANSPORT = 'http';
+
+    expect(() => loadMailer().getMailTransport()).toThrow(/MAIL_HTTP_URL/);
+  });
+});
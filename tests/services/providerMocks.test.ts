@@ -0,0 +1,76 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+type ProviderMocks = typeof import('../../src/services/providerMocks');
+
+const GOOGLE_CERTS = 'https://www.googleapis.com/oauth2/v3/certs';
+
+describe('provider mock mode', () => {
+  const savedEnv = { ...process.env };
+  const savedFetch = globalThis.fetch;
+  let fixturesDir: string;
+  let liveFetch: jest.Mock;
+
+  // A fresh copy of the module, so each test installs the mocks again
+  function loadMocks(): ProviderMocks {
+    let mocks: ProviderMocks | undefined;
+    jest.isolateModules(() => {
+      mocks = require('../../src/services/providerMocks');
+    });
+    return mocks!;
+  }
+
+  beforeEach(() => {
+    fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'provider-fixtures-'));
+    fs.mkdirSync(path.join(fixturesDir, 'oauth'));
+    fs.writeFileSync(path.join(fixturesDir, 'oauth', 'jwks.json'), JSON.stringify({ keys: [{ kid: 'fixture-key' }] }));
+
+    liveFetch = jest.fn(async () => new Response(JSON.stringify({ keys: [{ kid: 'live-key' }] })));
+    globalThis.fetch = liveFetch as unknown as typeof fetch;
+
+    process.env.PROVIDER_MOCK_MODE = 'fixtures';
+    process.env.PROVIDER_FIXTURES_DIR = fixturesDir;
+    delete process.env.GOOGLE_CLIENT_ID;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = savedFetch;
+    process.env = { ...savedEnv };
+    fs.rmSync(fixturesDir, { recursive: true, force: true });
+  });
+
+  it('refuses to run in production', () => {
+    process.env.NODE_ENV = 'production';
+
+    expect(() => loadMocks().installProviderMocks()).toThrow(/production/);
+    expect(globalThis.fetch).toBe(liveFetch);
+  });
+
+  it('serves the fixture signing keys for the mock client id', async () => {
+    expect(loadMocks().installProviderMocks()).toBe(true);
+    expect(process.env.GOOGLE_CLIENT_ID).toBe('mock-google-client-id');
+
+    const keys = await (await fetch(GOOGLE_CERTS)).json() as { keys: { kid: string }[] };
+
+    expect(keys.keys[0].kid).toBe('fixture-key');
+    expect(liveFetch).not.toHaveBeenCalled();
+  });
+
+  it('fetches the real signing keys when a real client id is configured', async () => {
+    process.env.GOOGLE_CLIENT_ID = 'real-client.apps.googleusercontent.com';
+    loadMocks().installProviderMocks();
+
+    const keys = await (await fetch(GOOGLE_CERTS)).json() as { keys: { kid: string }[] };
+
+    expect(keys.keys[0].kid).toBe('live-key');
+    expect(liveFetch).toHaveBeenCalledWith(GOOGLE_CERTS, undefined);
+  });
+
+  it('is off unless PROVIDER_MOCK_MODE=fixtures', () => {
+    delete process.env.PROVIDER_MOCK_MODE;
+
+    expect(loadMocks().installProviderMocks()).toBe(false);
+    expect(globalThis.fetch).toBe(liveFetch);
+  });
+});
@@ -0,0 +1,79 @@
+import { adjustComparable, computeStatisticalValuation } from '../../src/services/statisticalAvm';
+import { ComparableProperty, DEFAULT_HISTORIC_SALES_WEIGHTS } from '../../src/models/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const soldDate = '2025-07-01';
+// Exactly twelve months after the sale, as monthsBetween counts them
+const referenceDate = new Date(Date.parse(soldDate) + 365.25 * DAY_MS);
+const subject = { beds: 3, baths: 2, property_type: 'House', land_area: null, reference_date: referenceDate };
+
+function sale(id: string, price: number, fields: Partial<ComparableProperty> = {}): ComparableProperty {
+  return {
+    id,
+    address: `${id} King Street, Newtown NSW 2042`,
+    price,
+    beds: 3,
+    baths: 2,
+    carpark: null,
+    property_type: 'House',
+    sold_date: soldDate,
+    source: 'domain',
+    listing_type: 'sold',
+    ...fields
+  };
+}
+
+describe('time adjustment', () => {
+  it('grows the sale price by the annual rate for the months since sale', () => {
+    const adjusted = adjustComparable(subject, sale('1', 1000000), DEFAULT_HISTORIC_SALES_WEIGHTS, 6);
+
+    expect(adjusted.months_since_sale).toBe(12);
+    expect(adjusted.adjustments.time).toBe(60000);
+    expect(adjusted.adjusted_price).toBe(1060000);
+  });
+
+  it('compounds over more than a year', () => {
+    const reference = new Date(Date.parse(soldDate) + 2 * 365.25 * DAY_MS);
+    const adjusted = adjustComparable({ ...subject, reference_date: reference }, sale('1', 1000000), DEFAULT_HISTORIC_SALES_WEIGHTS, 10);
+
+    expect(adjusted.adjustments.time).toBe(210000);
+  });
+
+  it('leaves a sale without a usable date, or dated after the subject, at its price', () => {
+    const undated = adjustComparable(subject, sale('1', 1000000, { sold_date: 'Recently' }), DEFAULT_HISTORIC_SALES_WEIGHTS, 6);
+    const future = adjustComparable(subject, sale('2', 1000000, { sold_date: '2027-01-01' }), DEFAULT_HISTORIC_SALES_WEIGHTS, 6);
+
+    expect(undated.months_since_sale).toBeNull();
+    expect(undated.adjustments.time).toBe(0);
+    expect(future.months_since_sale).toBe(0);
+    expect(future.adjusted_price).toBe(1000000);
+  });
+});
+
+describe('outliers', () => {
+  const cluster = [sale('1', 1000000), sale('2', 1010000), sale('3', 990000), sale('4', 1005000)];
+
+  it('excludes adjusted prices far from the weighted median', () => {
+    const valuation = computeStatisticalValuation(subject, [...cluster, sale('5', 2000000)], DEFAULT_HISTORIC_SALES_WEIGHTS, 0)!;
+
+    const outlier = valuation.comparables.find(c => c.comparable_id === '5')!;
+    expect(outlier.included).toBe(false);
+    expect(valuation.comparables_used).toBe(4);
+    expect(valuation.notes).toContain('Excluded 5 King Street, Newtown NSW 2042 as an outlier ($2,000,000 adjusted)');
+    expect(valuation.estimate).toBe(1001000);
+  });
+
+  it('keeps every comparable when there are too few to judge', () => {
+    const valuation = computeStatisticalValuation(subject, [sale('1', 1000000), sale('2', 1010000), sale('5', 2000000)], DEFAULT_HISTORIC_SALES_WEIGHTS, 0)!;
+
+    expect(valuation.comparables.every(c => c.included)).toBe(true);
+    expect(valuation.notes.some(note => note.includes('outlier'))).toBe(false);
+  });
+
+  it('values from sold comparables only', () => {
+    const listing = sale('9', 1500000, { listing_type: 'listing' });
+
+    expect(computeStatisticalValuation(subject, [listing], DEFAULT_HISTORIC_SALES_WEIGHTS, 0)).toBeNull();
+    expect(computeStatisticalValuation(subject, [...cluster, listing], DEFAULT_HISTORIC_SALES_WEIGHTS, 0)!.comparables).toHaveLength(4);
+  });
+});
@@ -0,0 +1,77 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BacktestCase, loadBacktestDataset, runBacktest } from '../../src/services/weightBacktest';
+import { insertProperty } from '../../src/repositories/propertyRepository';
+import { insertHistoricProp } from '../../src/repositories/historicPropRepository';
+import { DEFAULT_HISTORIC_SALES_WEIGHTS, HistoricProp } from '../../src/models/types';
+
+const saleDate = new Date('2026-03-01');
+
+// A sold property with a single comparable, so its estimate is that comparable's price
+function testCase(soldPrice: number, comparablePrice: number | null): BacktestCase {
+  return {
+    property_id: uuidv4(),
+    location: '12 King St, Newtown NSW 2042',
+    sale_date: saleDate,
+    sold_price: soldPrice,
+    subject: { beds: 3, baths: 2, property_type: 'House', reference_date: saleDate },
+    comparables: comparablePrice === null
+      ? []
+      : [{ address: '14 King St, Newtown NSW 2042', price: comparablePrice, beds: 3, baths: 2, property_type: 'House' } as HistoricProp]
+  };
+}
+
+describe('backtest metrics', () => {
+  it('measures the error of each estimate against the sold price', () => {
+    const { metrics, properties } = runBacktest(
+      [testCase(1000000, 1040000), testCase(1000000, 920000), testCase(500000, 600000), testCase(800000, null)],
+      DEFAULT_HISTORIC_SALES_WEIGHTS
+    );
+
+    expect(properties.map(p => [p.error, p.error_percent])).toEqual([[40000, 4], [-80000, -8], [100000, 20]]);
+    expect(metrics).toEqual({
+      properties_tested: 3,
+      properties_skipped: 1,
+      mae: 73333,
+      mape: 10.67,
+      median_error: 80000,
+      median_error_percent: 8,
+      within_5_percent: 33.33,
+      within_10_percent: 66.67
+    });
+  });
+
+  it('reports no error metrics when nothing could be valued', () => {
+    const { metrics } = runBacktest([testCase(800000, null)], DEFAULT_HISTORIC_SALES_WEIGHTS);
+
+    expect(metrics).toMatchObject({ properties_tested: 0, properties_skipped: 1, mae: null, mape: null, within_10_percent: null });
+  });
+});
+
+describe('backtest dataset', () => {
+  async function sale(address: string, price: number, soldOn: string) {
+    await insertHistoricProp({ address, price, beds: 3, baths: 2, property_type: 'House', sold_date_raw: soldOn, source_suburb: 'Newtown', source: 'nsw-valuer-general' });
+  }
+
+  it("never uses the property's own sale as a comparable", async () => {
+    await insertProperty({
+      id: uuidv4(),
+      created_at: new Date(),
+      location: '12 King Street, Newtown NSW 2042',
+      beds: 3,
+      baths: 2,
+      property_type: 'House',
+      status: 'sold',
+      sold_price: 1500000,
+      sale_date: '2026-03-01'
+    });
+    await sale('12 King St, Newtown', 1500000, '2026-02-20');
+    await sale('Unit 12 King St, Newtown', 1200000, '2025-11-02');
+    await sale('14 King St, Newtown', 1450000, '2025-12-10');
+    await sale('16 King St, Newtown', 1400000, '2026-03-05');
+
+    const [loaded] = await loadBacktestDataset();
+
+    expect(loaded.sold_price).toBe(1500000);
+    expect(loaded.comparables.map(c => c.address).sort()).toEqual(['14 King St, Newtown', 'Unit 12 King St, Newtown']);
+  });
+});
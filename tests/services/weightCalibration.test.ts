@@ -0,0 +1,52 @@
+import { execute } from '../../src/utils/database';
+import { CalibrationJob, getCalibrationJob, startCalibrationJob } from '../../src/services/weightCalibration';
+import { getJob, JOB_RETENTION_HOURS, listJobs } from '../../src/services/evaluationJobs';
+
+async function settled(jobId: string): Promise<CalibrationJob> {
+  for (;;) {
+    const job = (await getCalibrationJob(jobId))!;
+    if (job.status === 'completed' || job.status === 'failed') return job;
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+describe('calibration jobs', () => {
+  let errors: jest.SpyInstance;
+
+  beforeEach(() => {
+    errors = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    errors.mockRestore();
+  });
+
+  it('runs on the job queue and fails without sold properties to calibrate against', async () => {
+    const started = await startCalibrationJob({ passes: 1 }, 'owner@example.com');
+    const job = await settled(started.job_id);
+
+    expect(job.status).toBe('failed');
+    expect(job.error).toMatch(/No sold properties/);
+    expect(job.failed_at).toBeDefined();
+    expect(job.started_by).toBe('owner@example.com');
+    expect(job.options).toEqual({ passes: 1 });
+  });
+
+  it('is kept apart from evaluation jobs', async () => {
+    const { job_id } = await startCalibrationJob({}, 'owner@example.com');
+    await settled(job_id);
+
+    expect(await getJob(job_id)).toBeNull();
+    expect((await listJobs({})).jobs.map(job => job.job_id)).not.toContain(job_id);
+  });
+
+  it('forgets finished jobs after the retention period', async () => {
+    const { job_id } = await startCalibrationJob({}, 'owner@example.com');
+    await settled(job_id);
+
+    const expired = new Date(Date.now() - (JOB_RETENTION_HOURS + 1) * 60 * 60 * 1000);
+    await execute(`UPDATE evaluation_jobs SET failed_at = @expired WHERE job_id = @jobId`, { jobId: job_id, expired });
+
+    expect(await getCalibrationJob(job_id)).toBeNull();
+  });
+});
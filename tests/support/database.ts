@@ -0,0 +1,197 @@
+/**
+ * Stand-in for src/utils/database.ts (swapped in by jest's moduleNameMapper).
+ * Same exports, backed by an in-memory SQLite database (sql.js) whose schema is
+ * built by replaying migrations/*.up.sql through the T-SQL translator, so the
+ * tests always run against the schema the migrations produce.
+ *
+ * Every test starts from a fresh copy of the migrated database (see setup.ts).
+ */
+
+import sql from 'mssql';
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import { loadMigrations, splitBatches } from '../../src/utils/migrations';
+import { translateBatch, translateQuery } from './tsql';
+
+export interface QueryContext {
+  query<T>(queryString: string, params?: Record<string, any>): Promise<sql.IResult<T>>;
+  queryOne<T>(queryString: string, params?: Record<string, any>): Promise<T | null>;
+  queryMany<T>(queryString: string, params?: Record<string, any>): Promise<T[]>;
+  execute(queryString: string, params?: Record<string, any>): Promise<number>;
+}
+
+export interface TransactionContext extends QueryContext {
+  transaction: sql.Transaction;
+}
+
+let SQL: SqlJsStatic | null = null;
+let migrated: Uint8Array | null = null;
+let db: Database | null = null;
+
+// Column names by declared type, for turning SQLite values back into what mssql returns
+const bitColumns = new Set<string>();
+const dateColumns = new Set<string>();
+
+function collectColumnTypes(database: Database): void {
+  const tables = database.exec(`SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'`);
+  for (const [table] of tables[0]?.values || []) {
+    const columns = database.exec(`PRAGMA table_info(${table})`);
+    for (const [, name, type] of columns[0].values) {
+      const declared = String(type).toUpperCase();
+      if (declared === 'BIT') bitColumns.add(String(name));
+      if (declared === 'DATETIME2' || declared === 'DATE') dateColumns.add(String(name));
+    }
+  }
+}
+
+/**
+ * Load sql.js and build the migrated template database; called once per test file
+ */
+export async function initTestDatabase(): Promise<void> {
+  if (!SQL) {
+    SQL = await initSqlJs();
+  }
+  if (!migrated) {
+    const template = new SQL.Database();
+    template.run('PRAGMA foreign_keys = ON');
+    for (const migration of loadMigrations()) {
+      for (const batch of splitBatches(migration.up)) {
+        for (const statement of translateBatch(batch)) {
+          try {
+            template.run(statement);
+          } catch (error: any) {
+            throw new Error(`Migration ${migration.version}_${migration.name}: ${error.message}\n${statement}`);
+          }
+        }
+      }
+    }
+    collectColumnTypes(template);
+    migrated = template.export();
+    template.close();
+  }
+  resetTestDatabase();
+}
+
+/**
+ * Throw away everything written since the last reset
+ */
+export function resetTestDatabase(): void {
+  if (!SQL || !migrated) {
+    throw new Error('initTestDatabase() has not been called');
+  }
+  db?.close();
+  db = new SQL.Database(migrated);
+  db.run('PRAGMA foreign_keys = ON');
+}
+
+function getDatabase(): Database {
+  if (!db) {
+    throw new Error('Test database is not initialised');
+  }
+  return db;
+}
+
+function toSqlValue(value: any): SqlValue {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'number' || typeof value === 'string' || value instanceof Uint8Array) return value;
+  return String(value);
+}
+
+function fromSqlValue(column: string, value: SqlValue): any {
+  if (value === null) return null;
+  if (bitColumns.has(column)) return !!value;
+  if (dateColumns.has(column) && typeof value === 'string') return new Date(value);
+  return value;
+}
+
+async function runQuery<T>(queryString: string, params?: Record<string, any>): Promise<sql.IResult<T>> {
+  const database = getDatabase();
+  const bound: Record<string, SqlValue> = {};
+  for (const [key, value] of Object.entries(params || {})) {
+    bound[`@${key}`] = toSqlValue(value);
+  }
+
+  const recordsets: T[][] = [];
+  const rowsAffected: number[] = [];
+  for (const statement of database.iterateStatements(translateQuery(queryString))) {
+    statement.bind(bound);
+    const rows: T[] = [];
+    while (statement.step()) {
+      const raw = statement.getAsObject();
+      const row: Record<string, any> = {};
+      for (const [column, value] of Object.entries(raw)) {
+        row[column] = fromSqlValue(column, value);
+      }
+      rows.push(row as T);
+    }
+    const isRead = statement.getColumnNames().length > 0;
+    statement.free();
+    if (isRead) recordsets.push(rows);
+    rowsAffected.push(isRead && !/^\s*(INSERT|UPDATE|DELETE)/i.test(queryString) ? rows.length : database.getRowsModified());
+  }
+
+  return { recordsets, recordset: recordsets[0] || [], rowsAffected, output: {} } as unknown as sql.IResult<T>;
+}
+
+function createContext(run: <T>(queryString: string, params?: Record<string, any>) => Promise<sql.IResult<T>>): QueryContext {
+  return {
+    query: run,
+    async queryOne<T>(queryString: string, params?: Record<string, any>): Promise<T | null> {
+      const result = await run<T>(queryString, params);
+      return result.recordset.length > 0 ? result.recordset[0] : null;
+    },
+    async queryMany<T>(queryString: string, params?: Record<string, any>): Promise<T[]> {
+      const result = await run<T>(queryString, params);
+      return result.recordset;
+    },
+    async execute(queryString: string, params?: Record<string, any>): Promise<number> {
+      const result = await run(queryString, params);
+      return result.rowsAffected[0] || 0;
+    }
+  };
+}
+
+export const pooledContext: QueryContext = createContext(runQuery);
+
+export const query = pooledContext.query;
+export const queryOne = pooledContext.queryOne;
+export const queryMany = pooledContext.queryMany;
+export const execute = pooledContext.execute;
+
+// One connection, so transactions take turns
+let transactionQueue: Promise<unknown> = Promise.resolve();
+
+export async function withTransaction<T>(work: (tx: TransactionContext) => Promise<T>): Promise<T> {
+  const run = async (): Promise<T> => {
+    const database = getDatabase();
+    database.run('BEGIN');
+    const tx: TransactionContext = { ...createContext(runQuery), transaction: {} as sql.Transaction };
+    try {
+      const result = await work(tx);
+      database.run('COMMIT');
+      return result;
+    } catch (error) {
+      database.run('ROLLBACK');
+      throw error;
+    }
+  };
+
+  const result = transactionQueue.then(run, run);
+  transactionQueue = result.catch(() => undefined);
+  return result;
+}
+
+export async function connectToDatabase(): Promise<sql.ConnectionPool> {
+  return {} as sql.ConnectionPool;
+}
+
+export async function getDb(): Promise<sql.ConnectionPool> {
+  return connectToDatabase();
+}
+
+export async function closeDatabase(): Promise<void> {
+  // Nothing to close; the database lives for the test
+}
+
+export { sql };
@@ -0,0 +1,6 @@
+// Environment for every test file, set before the app is imported
+process.env.NODE_ENV = 'test';
+process.env.SECRET_KEY = 'test-secret-key';
+delete process.env.AUTH_COMPAT_MODE;
+delete process.env.PROVIDER_MOCK_MODE;
+delete process.env.MAIL_TRANSPORT;
@@ -0,0 +1,13 @@
+import { initTestDatabase, resetTestDatabase } from './database';
+
+beforeAll(async () => {
+  await initTestDatabase();
+});
+
+beforeEach(() => {
+  resetTestDatabase();
+});
+
+// Request and progress logging; errors still reach the output
+jest.spyOn(console, 'log').mockImplementation(() => undefined);
+jest.spyOn(console, 'warn').mockImplementation(() => undefined);
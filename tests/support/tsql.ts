@@ -0,0 +1,194 @@
+/**
+ * Rewrites the T-SQL the application and its migrations use into SQLite, for the
+ * in-memory database the tests run against. Only the constructs that appear in
+ * src/ and migrations/ are handled; anything else is passed through unchanged and
+ * fails loudly in SQLite, which is the signal to add a rule here.
+ */
+
+const NOW = `strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`;
+
+const DATE_UNITS: Record<string, string> = {
+  year: 'years',
+  month: 'months',
+  day: 'days',
+  hour: 'hours',
+  minute: 'minutes',
+  second: 'seconds'
+};
+
+// Index of the parenthesis closing the one opened at `open`
+function closingParen(text: string, open: number): number {
+  let depth = 0;
+  let inString = false;
+  for (let i = open; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "'") inString = !inString;
+    if (inString) continue;
+    if (ch === '(') depth++;
+    if (ch === ')' && --depth === 0) return i;
+  }
+  throw new Error(`Unbalanced parentheses in: ${text}`);
+}
+
+// Split on commas that are not inside parentheses or strings
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let inString = false;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "'") inString = !inString;
+    if (inString) continue;
+    if (ch === '(') depth++;
+    if (ch === ')') depth--;
+    if (ch === ',' && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map(part => part.trim());
+}
+
+// Replace every NAME(args) call, innermost last, with rewrite(args)
+function rewriteCalls(text: string, name: string, rewrite: (args: string[]) => string): string {
+  const pattern = new RegExp(`\\b${name}\\s*\\(`, 'i');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const open = match.index + match[0].length - 1;
+    const close = closingParen(text, open);
+    const args = splitTopLevel(text.slice(open + 1, close));
+    text = text.slice(0, match.index) + rewrite(args) + text.slice(close + 1);
+  }
+  return text;
+}
+
+function moveToEnd(text: string, clause: string): string {
+  const trimmed = text.replace(/;\s*$/, '');
+  return `${trimmed} ${clause}`;
+}
+
+function translateDml(text: string): string {
+  // The claim query's updatable CTE: UPDATE the row the CTE selects, returning it
+  text = text.replace(
+    /WITH\s+(\w+)\s+AS\s*\(\s*SELECT\s+TOP\s+1\s+\*\s+FROM\s+(\w+)([\s\S]*?)\)\s*UPDATE\s+\1\s+SET([\s\S]*?)OUTPUT\s+INSERTED\.\*/i,
+    (_m, _cte, table, select, set) =>
+      `UPDATE ${table} SET${set}WHERE rowid = (SELECT rowid FROM ${table}${select} LIMIT 1) RETURNING *`
+  );
+
+  // Index lookups in the system catalog
+  text = text.replace(
+    /FROM\s+sys\.indexes\s+WHERE\s+name\s*=\s*('[^']*')\s+AND\s+object_id\s*=\s*OBJECT_ID\(('[^']*')\)/i,
+    `FROM sqlite_master WHERE type = 'index' AND name = $1 AND tbl_name = $2`
+  );
+
+  text = text.replace(/\bWITH\s*\(\s*(UPDLOCK|HOLDLOCK|READPAST|ROWLOCK|NOLOCK)(\s*,\s*\w+)*\s*\)/gi, '');
+
+  const top = text.match(/^\s*SELECT\s+TOP\s*\(?\s*(\d+)\s*\)?\s+/i);
+  if (top) {
+    text = moveToEnd(text.replace(/^\s*SELECT\s+TOP\s*\(?\s*\d+\s*\)?\s+/i, 'SELECT '), `LIMIT ${top[1]}`);
+  }
+
+  text = text.replace(
+    /OFFSET\s+(@\w+|\d+)\s+ROWS\s+FETCH\s+NEXT\s+(@\w+|\d+)\s+ROWS\s+ONLY/gi,
+    'LIMIT $2 OFFSET $1'
+  );
+
+  const output = text.match(/\s+OUTPUT\s+(INSERTED\.(?:\w+|\*)(?:\s*,\s*INSERTED\.(?:\w+|\*))*)/i);
+  if (output) {
+    const columns = output[1].replace(/INSERTED\./gi, '');
+    text = moveToEnd(text.replace(output[0], ''), `RETURNING ${columns}`);
+  }
+
+  text = text.replace(/\bN'/g, "'");
+  text = text.replace(/\bISNULL\s*\(/gi, 'IFNULL(');
+  text = text.replace(/\b(GETUTCDATE|SYSUTCDATETIME|GETDATE)\s*\(\s*\)/gi, NOW);
+
+  text = rewriteCalls(text, 'CAST', ([arg]) => {
+    const cast = arg.match(/^([\s\S]*)\s+AS\s+(DATETIME2|DATE)$/i);
+    return cast ? `(${cast[1]})` : `CAST(${arg})`;
+  });
+  text = rewriteCalls(text, 'CONVERT', ([type, value, style]) => {
+    if (/^N?VARCHAR\(10\)$/i.test(type) && style === '120') return `substr(${value}, 1, 10)`;
+    throw new Error(`Unsupported CONVERT(${type}, ${value}, ${style})`);
+  });
+  text = rewriteCalls(text, 'DATEADD', ([unit, amount, value]) => {
+    const modifier = DATE_UNITS[unit.toLowerCase()];
+    if (!modifier) throw new Error(`Unsupported DATEADD unit: ${unit}`);
+    return `strftime('%Y-%m-%dT%H:%M:%fZ', ${value}, (${amount}) || ' ${modifier}')`;
+  });
+
+  // String concatenation next to a literal
+  text = text.replace(/('(?:[^']|'')*')\s*\+/g, '$1 ||');
+  text = text.replace(/\+\s*('(?:[^']|'')*')/g, '|| $1');
+
+  return text;
+}
+
+function translateCreateTable(statement: string): string[] {
+  const match = statement.match(/^\s*CREATE\s+TABLE\s+(\w+)\s*\(([\s\S]*)\)\s*;?\s*$/i);
+  if (!match) return [statement];
+  const [, table, body] = match;
+
+  const indexes: string[] = [];
+  const definitions = splitTopLevel(body).filter(definition => {
+    const index = definition.match(/^INDEX\s+(\w+)\s*\(([^)]*)\)$/i);
+    if (index) {
+      indexes.push(`CREATE INDEX ${index[1]} ON ${table} (${index[2]})`);
+      return false;
+    }
+    return true;
+  });
+
+  return [`CREATE TABLE ${table} (\n  ${definitions.join(',\n  ')}\n)`, ...indexes];
+}
+
+function translateAlterTable(statement: string): string[] {
+  const match = statement.match(/^\s*ALTER\s+TABLE\s+(\w+)\s+ADD\s+([\s\S]*?);?\s*$/i);
+  if (!match) return [statement];
+  const [, table, columns] = match;
+  return splitTopLevel(columns).map(column => `ALTER TABLE ${table} ADD COLUMN ${column}`);
+}
+
+function translateColumnTypes(text: string): string {
+  return text
+    .replace(/\b(?:BIG)?INT\s+IDENTITY\s*\(\s*1\s*,\s*1\s*\)\s+PRIMARY\s+KEY/gi, 'INTEGER PRIMARY KEY AUTOINCREMENT')
+    .replace(/\b(N?VARCHAR)\s*\(\s*(\d+|MAX)\s*\)/gi, (_m, type, size) =>
+      // SQL Server's default collation compares text case-insensitively
+      `${type}${size.toUpperCase() === 'MAX' ? '' : `(${size})`} COLLATE NOCASE`
+    )
+    .replace(/\bCONSTRAINT\s+DF_\w+\s+DEFAULT\b/gi, 'DEFAULT');
+}
+
+/**
+ * Translate one GO batch of a migration into SQLite statements
+ */
+export function translateBatch(batch: string): string[] {
+  const withoutComments = batch.replace(/--[^\n]*/g, '');
+  const statements = withoutComments.split(/;\s*(?:\n|$)/).map(statement => statement.trim()).filter(Boolean);
+
+  const translated: string[] = [];
+  for (let statement of statements) {
+    // Existence guards: the in-memory database always starts empty
+    statement = statement
+      .replace(/^IF\s+(OBJECT_ID|COL_LENGTH)\s*\([^)]*\)\s+IS\s+NULL\s+/i, '')
+      .replace(/^IF\s+NOT\s+EXISTS\s*\(\s*SELECT\s+1\s+FROM\s+sys\.indexes[^\n]*\)\s*\n/i, '');
+
+    if (/^CREATE\s+TABLE/i.test(statement)) {
+      translated.push(...translateCreateTable(translateColumnTypes(statement)));
+    } else if (/^ALTER\s+TABLE\s+\w+\s+ADD\s/i.test(statement)) {
+      translated.push(...translateAlterTable(translateColumnTypes(statement)));
+    } else {
+      translated.push(translateDml(statement));
+    }
+  }
+  return translated;
+}
+
+/**
+ * Translate a query issued through the database helpers
+ */
+export function translateQuery(text: string): string {
+  return translateDml(text);
+}
@@ -0,0 +1,41 @@
+import { v4 as uuidv4 } from 'uuid';
+import { createUser, UserFields } from '../../src/repositories/userRepository';
+import { grantRole } from '../../src/repositories/roleRepository';
+import { startSession } from '../../src/services/sessions';
+import { Role, User } from '../../src/models/types';
+
+export interface TestUser {
+  user: User;
+  token: string;
+  auth: { Authorization: string };
+}
+
+/**
+ * Create an active user with the given roles (agent by default) and a signed-in session
+ */
+export async function createTestUser(
+  email: string,
+  roles: Role[] = ['agent'],
+  fields: UserFields = {}
+): Promise<TestUser> {
+  const user = await createUser({
+    id: uuidv4(),
+    email,
+    username: email.split('@')[0],
+    hashed_password: '',
+    subscription_tier: 'free',
+    subscription_active: false,
+    trial_active: false,
+    created_at: new Date(),
+    is_active: true,
+    auth_provider: 'local',
+    admin: roles.includes('admin'),
+    ...fields
+  });
+  for (const role of roles) {
+    await grantRole(user.id, role, null);
+  }
+
+  const { access_token } = await startSession(user, { user_agent: 'jest', ip_address: '127.0.0.1' });
+  return { user, token: access_token, auth: { Authorization: `Bearer ${access_token}` } };
+}
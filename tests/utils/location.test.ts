@@ -0,0 +1,28 @@
+import { addressKey, normaliseAddress } from '../../src/utils/location';
+
+describe('normaliseAddress', () => {
+  it('gives unit addresses in either format the same form', () => {
+    expect(normaliseAddress('Unit 7 12 Old Common Road, Belrose NSW 2085')).toBe('7/12 old common rd');
+    expect(normaliseAddress('7/12 Old Common Rd')).toBe('7/12 old common rd');
+    expect(normaliseAddress('Apt 3 40 King Street')).toBe('3/40 king st');
+  });
+
+  it('only treats a leading word as a unit prefix', () => {
+    expect(normaliseAddress('12 Lotus St, Newtown')).toBe('12 lotus st');
+    expect(normaliseAddress('5 Flatrock Road')).toBe('5 flatrock rd');
+    expect(normaliseAddress('8 Unity Lane')).toBe('8 unity ln');
+  });
+});
+
+describe('addressKey', () => {
+  it('includes the suburb, or the postcode without one', () => {
+    expect(addressKey('Unit 3, 12 King Street, Newtown NSW 2042')).toBe('3/12 king st|newtown');
+    expect(addressKey('3/12 King St, Newtown')).toBe('3/12 king st|newtown');
+    expect(addressKey('12 King St, Enmore NSW 2042')).toBe('12 king st|enmore');
+    expect(addressKey('12 King St, 2204')).toBe('12 king st|2204');
+  });
+
+  it('leaves the locality empty for a bare street address', () => {
+    expect(addressKey('12 King Street')).toBe('12 king st|');
+  });
+});
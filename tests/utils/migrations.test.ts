@@ -0,0 +1,73 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getMigrationsDir, loadMigrations, splitBatches } from '../../src/utils/migrations';
+
+describe('loadMigrations', () => {
+  let dir: string;
+
+  function write(files: Record<string, string>): void {
+    for (const [name, contents] of Object.entries(files)) {
+      fs.writeFileSync(path.join(dir, name), contents);
+    }
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('pairs up and down scripts in version order', () => {
+    write({
+      '0002_add_tags.up.sql': 'ALTER TABLE t ADD tags NVARCHAR(MAX);',
+      '0002_add_tags.down.sql': 'ALTER TABLE t DROP COLUMN tags;',
+      '0001_create_t.up.sql': 'CREATE TABLE t (id INT);',
+      '0001_create_t.down.sql': 'DROP TABLE t;',
+      'README.md': 'not a migration'
+    });
+
+    const migrations = loadMigrations(dir);
+
+    expect(migrations.map(m => `${m.version}_${m.name}`)).toEqual(['0001_create_t', '0002_add_tags']);
+    expect(migrations[0]).toMatchObject({ up: 'CREATE TABLE t (id INT);', down: 'DROP TABLE t;' });
+  });
+
+  it('fingerprints the up script', () => {
+    write({ '0001_create_t.up.sql': 'CREATE TABLE t (id INT);', '0001_create_t.down.sql': 'DROP TABLE t;' });
+    const before = loadMigrations(dir)[0].checksum;
+
+    write({ '0001_create_t.down.sql': 'DROP TABLE IF EXISTS t;' });
+    expect(loadMigrations(dir)[0].checksum).toBe(before);
+
+    write({ '0001_create_t.up.sql': 'CREATE TABLE t (id BIGINT);' });
+    expect(loadMigrations(dir)[0].checksum).not.toBe(before);
+  });
+
+  it('needs both scripts for every version', () => {
+    write({ '0001_create_t.up.sql': 'CREATE TABLE t (id INT);' });
+    expect(() => loadMigrations(dir)).toThrow(/needs both an up and a down script/);
+  });
+
+  it('refuses one version with two names', () => {
+    write({ '0001_create_t.up.sql': 'CREATE TABLE t (id INT);', '0001_create_u.down.sql': 'DROP TABLE u;' });
+    expect(() => loadMigrations(dir)).toThrow(/different names/);
+  });
+
+  it('reads the repository migrations', () => {
+    const versions = loadMigrations(getMigrationsDir()).map(m => Number(m.version));
+
+    expect(versions[0]).toBe(1);
+    expect(versions).toEqual(versions.map((_, i) => i + 1));
+  });
+});
+
+describe('splitBatches', () => {
+  it('splits on lines holding only GO', () => {
+    const script = 'CREATE TABLE t (id INT);\nGO\n\n  go  \nINSERT INTO t VALUES (1);\nSELECT * FROM cargo;\nGO';
+
+    expect(splitBatches(script)).toEqual(['CREATE TABLE t (id INT);', 'INSERT INTO t VALUES (1);\nSELECT * FROM cargo;']);
+  });
+});
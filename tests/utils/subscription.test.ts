@@ -0,0 +1,65 @@
+import {
+  canCreateListings,
+  canRunEvaluations,
+  calculateTrialEndDate,
+  isTrialActive,
+  isSubscriptionActive
+} from '../../src/utils/subscription';
+import { FREE_TRIAL_DAYS } from '../../src/models/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('subscription gates', () => {
+  describe('canCreateListings', () => {
+    it('allows any tier during a trial', () => {
+      expect(canCreateListings('free', false, true)).toBe(true);
+    });
+
+    it('needs an active subscription outside a trial', () => {
+      expect(canCreateListings('pro', false, false)).toBe(false);
+    });
+
+    it('follows the tier once subscribed', () => {
+      expect(canCreateListings('free', true, false)).toBe(false);
+      expect(canCreateListings('basic', true, false)).toBe(true);
+      expect(canCreateListings('pro', true, false)).toBe(true);
+    });
+
+    it('treats an unknown tier as free', () => {
+      expect(canCreateListings('enterprise', true, false)).toBe(false);
+    });
+  });
+
+  describe('canRunEvaluations', () => {
+    it('allows a pro trial only', () => {
+      expect(canRunEvaluations('pro', false, true)).toBe(true);
+      expect(canRunEvaluations('basic', false, true)).toBe(false);
+    });
+
+    it('is limited to the pro tier once subscribed', () => {
+      expect(canRunEvaluations('free', true, false)).toBe(false);
+      expect(canRunEvaluations('basic', true, false)).toBe(false);
+      expect(canRunEvaluations('pro', true, false)).toBe(true);
+      expect(canRunEvaluations('pro', false, false)).toBe(false);
+    });
+  });
+
+  describe('dates', () => {
+    it('ends a trial FREE_TRIAL_DAYS from now', () => {
+      const days = (calculateTrialEndDate().getTime() - Date.now()) / DAY_MS;
+      expect(Math.round(days)).toBe(FREE_TRIAL_DAYS);
+    });
+
+    it('treats missing and past end dates as inactive', () => {
+      expect(isTrialActive(null)).toBe(false);
+      expect(isTrialActive(new Date(Date.now() - DAY_MS))).toBe(false);
+      expect(isSubscriptionActive(null)).toBe(false);
+      expect(isSubscriptionActive(new Date(Date.now() - DAY_MS))).toBe(false);
+    });
+
+    it('treats future end dates as active', () => {
+      expect(isTrialActive(new Date(Date.now() + DAY_MS))).toBe(true);
+      expect(isSubscriptionActive(new Date(Date.now() + DAY_MS))).toBe(true);
+    });
+  });
+});